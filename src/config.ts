@@ -25,7 +25,8 @@ export interface ServerConfig {
   };
   rateLimit: {
     enabled: boolean;
-    requestsPerMinute: number;
+    requestsPerMinute: number;       // Read tools, resources and prompts
+    writeRequestsPerMinute: number;  // Tools that modify the outline
   };
 }
 
@@ -44,7 +45,7 @@ export class ConfigManager {
       cors: this.getCorsConfig(environment),
       auth: this.getAuthConfig(env, environment),
       features: this.getFeatureConfig(environment),
-      rateLimit: this.getRateLimitConfig(environment)
+      rateLimit: this.getRateLimitConfig(env, environment)
     };
   }
 
@@ -74,7 +75,7 @@ export class ConfigManager {
             'http://localhost:*'
           ],
           allowedMethods: ['GET', 'POST', 'OPTIONS', 'PUT', 'DELETE'],
-          allowedHeaders: ['Content-Type', 'Authorization', 'Accept']
+          allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'Mcp-Session-Id', 'MCP-Protocol-Version', 'Last-Event-ID']
         };
       case 'production':
       default:
@@ -83,8 +84,8 @@ export class ConfigManager {
             'https://claude.ai',
             'https://console.anthropic.com'
           ],
-          allowedMethods: ['GET', 'POST', 'OPTIONS'],
-          allowedHeaders: ['Content-Type', 'Authorization', 'Accept']
+          allowedMethods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+          allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'Mcp-Session-Id', 'MCP-Protocol-Version', 'Last-Event-ID']
         };
     }
   }
@@ -112,20 +113,22 @@ export class ConfigManager {
     };
   }
 
-  private getRateLimitConfig(environment: string) {
-    switch (environment) {
-      case 'preview':
-        return {
-          enabled: true,
-          requestsPerMinute: 100
-        };
-      case 'production':
-      default:
-        return {
-          enabled: true,
-          requestsPerMinute: 60
-        };
-    }
+  private getRateLimitConfig(env: any, environment: string) {
+    const defaults = environment === 'preview'
+      ? { requestsPerMinute: 100, writeRequestsPerMinute: 30 }
+      : { requestsPerMinute: 60, writeRequestsPerMinute: 20 };
+
+    // Optional overrides: RATE_LIMIT_READ_PER_MINUTE, RATE_LIMIT_WRITE_PER_MINUTE, RATE_LIMIT_ENABLED=false
+    const perMinute = (value: string | undefined, fallback: number) => {
+      const parsed = parseInt(value ?? '', 10);
+      return parsed > 0 ? parsed : fallback;
+    };
+
+    return {
+      enabled: env.RATE_LIMIT_ENABLED !== 'false',
+      requestsPerMinute: perMinute(env.RATE_LIMIT_READ_PER_MINUTE, defaults.requestsPerMinute),
+      writeRequestsPerMinute: perMinute(env.RATE_LIMIT_WRITE_PER_MINUTE, defaults.writeRequestsPerMinute)
+    };
   }
 
   public getConfig(): ServerConfig {
@@ -149,7 +152,8 @@ export class ConfigManager {
     return {
       'Access-Control-Allow-Origin': cors.allowedOrigins.join(', '),
       'Access-Control-Allow-Methods': cors.allowedMethods.join(', '),
-      'Access-Control-Allow-Headers': cors.allowedHeaders.join(', ')
+      'Access-Control-Allow-Headers': cors.allowedHeaders.join(', '),
+      'Access-Control-Expose-Headers': 'Mcp-Session-Id, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, X-RateLimit-Bucket, Retry-After'
     };
   }
 
@@ -21,10 +21,18 @@ process.stderr.write = (chunk: any) => {
 import { FastMCP } from "fastmcp";
 import dotenv from "dotenv";
 import { registerTools } from "./tools/index.js";
+import { trashSettings } from "./workflowy/trash.js";
+import { workflowyResources } from "./workflowy/resources.js";
+import { resourceSubscriptions } from "./workflowy/resource-subscriptions.js";
+import { dailyJournal } from "./workflowy/daily-journal.js";
 import packageJson from "../package.json" assert { type: "json" };
 
 // Load .env from the project root (where this script is located)
 dotenv.config({ path: path.join(projectRoot, ".env") });
+trashSettings.configureFromEnv(process.env);
+workflowyResources.configureFromEnv(process.env);
+resourceSubscriptions.configureFromEnv(process.env);
+dailyJournal.configureFromEnv(process.env);
 
 const server = new FastMCP({
   name: "workflowy",
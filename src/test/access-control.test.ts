@@ -0,0 +1,246 @@
+/**
+ * Tests for per-tool scope enforcement and subtree-restricted tokens
+ * Covers the scopes each tool requires, ancestry checks in the Workflowy client and the worker's handling of scoped tokens
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import worker from '../worker.js';
+import { accessControl, requiredScopes, READ_SCOPE, APPEND_SCOPE, WRITE_SCOPE } from '../utils/access-control.js';
+import { workflowyTools } from '../tools/workflowy.js';
+import { workflowyClient, AuthorizationError } from '../workflowy/client.js';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { documentSnapshots } from '../workflowy/document-snapshot.js';
+import { operationJournal } from '../workflowy/operation-journal.js';
+import { trashSettings, formatTrashNote } from '../workflowy/trash.js';
+import { sessionPool } from '../workflowy/session-pool.js';
+import { userStates } from '../utils/user-state.js';
+import { requestDeduplicator } from '../utils/deduplication.js';
+
+const USERNAME = 'stub-user';
+const PASSWORD = 'stub-password';
+
+// Minimal in-memory stand-in for a KV namespace binding
+const fakeKv = () => {
+  const values = new Map<string, string>();
+  return {
+    values,
+    get: async (key: string) => values.get(key) ?? null,
+    put: async (key: string, value: string) => { values.set(key, value); },
+    delete: async (key: string) => { values.delete(key); }
+  };
+};
+
+describe('Access Control', () => {
+  let stub: WorkflowyApiStub;
+
+  beforeEach(() => {
+    stub = new WorkflowyApiStub();
+    stub.start();
+    sessionPool.clear();
+    documentSnapshots.clear();
+    operationJournal.clear();
+  });
+
+  afterEach(() => {
+    trashSettings.configure({ enabled: false });
+    stub.stop();
+  });
+
+  const restricted = <T>(operation: () => Promise<T>) => accessControl.run({ rootId: 'root-node-1' }, operation);
+
+  test('should derive required scopes from tool annotations', () => {
+    expect(requiredScopes(workflowyTools.list_nodes.annotations)).toEqual([READ_SCOPE]);
+    expect(requiredScopes(workflowyTools.create_node.annotations)).toEqual([APPEND_SCOPE, WRITE_SCOPE]);
+    expect(requiredScopes(workflowyTools.batch_delete_nodes.annotations)).toEqual([WRITE_SCOPE]);
+    expect(requiredScopes(undefined)).toEqual([WRITE_SCOPE]);
+    expect(requiredScopes({ destructiveHint: false })).toEqual([APPEND_SCOPE, WRITE_SCOPE]);
+
+    expect(accessControl.allowsTool({}, workflowyTools.empty_trash.annotations)).toBe(true);
+    expect(accessControl.allowsTool({ scopes: [APPEND_SCOPE] }, workflowyTools.batch_create_nodes.annotations)).toBe(true);
+    expect(accessControl.allowsTool({ scopes: [APPEND_SCOPE] }, workflowyTools.delete_node.annotations)).toBe(false);
+  });
+
+  test('should treat the restricted node as the top level for reads', async () => {
+    const roots = await restricted(() => workflowyClient.getRootItems(USERNAME, PASSWORD));
+    expect(roots.map((item: any) => item.id)).toEqual(['child-1-1', 'child-1-2']);
+
+    const inside = await restricted(() => workflowyClient.search('sprint', USERNAME, PASSWORD, 10));
+    expect(inside.results.length).toBeGreaterThan(0);
+    expect((await restricted(() => workflowyClient.search('typescript', USERNAME, PASSWORD, 10))).results).toEqual([]);
+    expect((await workflowyClient.search('typescript', USERNAME, PASSWORD, 10)).results.length).toBeGreaterThan(0);
+
+    await expect(restricted(() => workflowyClient.getNodeById('root-node-2', USERNAME, PASSWORD))).rejects.toThrow(AuthorizationError);
+    expect((await restricted(() => workflowyClient.getNodeById('great-grandchild-1-1-1-1', USERNAME, PASSWORD))).name).toBe('User Story 1');
+  });
+
+  test('should not reveal parents, siblings or ancestors above the restricted node', async () => {
+    const fields = ['id', 'parentId', 'parentName', 'siblings', 'siblingCount', 'hierarchy'];
+    const root = await restricted(() => workflowyClient.getNodeById('root-node-1', USERNAME, PASSWORD, 1, fields));
+    expect(root).toMatchObject({ siblings: [], siblingCount: 0, hierarchy: [] });
+    expect(root).not.toHaveProperty('parentId');
+    expect(root).not.toHaveProperty('parentName');
+    expect(root.items[0]).toMatchObject({ parentId: 'root-node-1', hierarchy: ['Project Management'] });
+
+    const nested = await restricted(() => workflowyClient.getNodeById('grandchild-1-1-1', USERNAME, PASSWORD, 0, fields));
+    expect(nested.hierarchy).toEqual(['Project Management', 'Sprint Planning']);
+
+    const listed = await restricted(() => workflowyClient.getRootItems(USERNAME, PASSWORD, 0, fields));
+    expect(JSON.stringify(listed)).not.toContain('Personal Goals');
+    expect(JSON.stringify(listed)).not.toContain('Home');
+
+    const unrestricted = await workflowyClient.getNodeById('root-node-1', USERNAME, PASSWORD, 0, fields);
+    expect(unrestricted.siblings.map((sibling: any) => sibling.name)).toEqual(['Personal Goals', 'Research Projects']);
+  });
+
+  test('should refuse writes outside the subtree without applying any of them', async () => {
+    await expect(restricted(() => workflowyClient.batchDeleteNodes(['child-1-2', 'root-node-2'], USERNAME, PASSWORD)))
+      .rejects.toThrow('root-node-2');
+    await expect(restricted(() => workflowyClient.moveNode('child-1-2', 'root-node-3', undefined, USERNAME, PASSWORD))).rejects.toThrow(AuthorizationError);
+    // The restricted node can take children but can't itself be changed
+    await expect(restricted(() => workflowyClient.updateNode('root-node-1', 'Renamed', undefined, USERNAME, PASSWORD))).rejects.toThrow(AuthorizationError);
+
+    const id = await restricted(() => workflowyClient.createNode('root-node-1', 'Inside', undefined, USERNAME, PASSWORD));
+    const parent = await workflowyClient.getNodeById('root-node-1', USERNAME, PASSWORD, 1);
+    expect(parent.items.map((item: any) => item.id)).toEqual(['child-1-1', 'child-1-2', id]);
+    expect(parent.name).toBe('Project Management');
+  });
+
+  test('should skip undo steps for nodes outside the subtree', async () => {
+    const outside = 'Outside the subtree this token is restricted to';
+    await restricted(() => workflowyClient.updateNode('child-1-2', 'Renamed inside', undefined, USERNAME, PASSWORD));
+    await restricted(() => workflowyClient.deleteNode('grandchild-1-1-2', USERNAME, PASSWORD));
+    await workflowyClient.batchMoveNodes([
+      { id: 'child-1-2', newParentId: 'root-node-3' },
+      { id: 'child-1-1', newParentId: 'root-node-2' }
+    ], USERNAME, PASSWORD);
+
+    const [deletion, update] = await restricted(() => workflowyClient.listRecentOperations(USERNAME, PASSWORD));
+    expect(await restricted(() => workflowyClient.undoOperation(update.id, USERNAME, PASSWORD)))
+      .toMatchObject({ applied: 0, skipped: [{ step: 'edit', id: 'child-1-2', reason: outside }] });
+    expect(await restricted(() => workflowyClient.undoOperation(deletion.id, USERNAME, PASSWORD)))
+      .toMatchObject({ applied: 0, restored: undefined, skipped: [{ step: 'restore', id: 'grandchild-1-1-2', reason: outside }] });
+
+    expect((await workflowyClient.getNodeById('child-1-2', USERNAME, PASSWORD, 0)).name).toBe('Renamed inside');
+    expect((await workflowyClient.getNodeById('child-1-1', USERNAME, PASSWORD, 1)).items.map((item: any) => item.id)).toEqual(['grandchild-1-1-1']);
+
+    // Trashed nodes deleted from inside the subtree can still be brought back
+    trashSettings.configure({ enabled: true, nodeName: 'MCP Trash', retentionDays: 30 });
+    const id = await restricted(() => workflowyClient.createNode('root-node-1', 'Temporary', undefined, USERNAME, PASSWORD));
+    await restricted(() => workflowyClient.deleteNode(id, USERNAME, PASSWORD));
+    const [trashed] = await restricted(() => workflowyClient.listRecentOperations(USERNAME, PASSWORD, 1));
+    expect(await restricted(() => workflowyClient.undoOperation(trashed.id, USERNAME, PASSWORD))).toMatchObject({ applied: 2, skipped: undefined });
+    expect((await restricted(() => workflowyClient.getRootItems(USERNAME, PASSWORD))).map((item: any) => item.id)).toEqual([id]);
+  });
+
+  test('should keep restricted tokens to their own operations and trash', async () => {
+    trashSettings.configure({ enabled: true, nodeName: 'MCP Trash', retentionDays: 30 });
+    await workflowyClient.deleteNode('root-node-2', USERNAME, PASSWORD);
+
+    // Deleted without a restriction from inside the subtree, long enough ago to be purged
+    await workflowyClient.deleteNode('child-1-1', USERNAME, PASSWORD);
+    const expired = formatTrashNote({ deletedAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000), tool: 'delete_node', parentId: 'root-node-1', priority: 0 }, '');
+    await workflowyClient.updateNode('child-1-1', undefined, expired, USERNAME, PASSWORD);
+    await restricted(() => workflowyClient.deleteNode('child-1-2', USERNAME, PASSWORD));
+
+    const trash = await restricted(() => workflowyClient.listTrash(USERNAME, PASSWORD));
+    expect(trash.items.map(item => item.id)).toEqual(['child-1-2']);
+    await expect(restricted(() => workflowyClient.restoreNode('root-node-2', USERNAME, PASSWORD))).rejects.toThrow(AuthorizationError);
+    await expect(restricted(() => workflowyClient.restoreNode('child-1-1', USERNAME, PASSWORD))).rejects.toThrow(AuthorizationError);
+    expect((await workflowyClient.listTrash(USERNAME, PASSWORD)).items.map(item => item.id)).toEqual(['child-1-2', 'child-1-1', 'root-node-2']);
+
+    const operations = await restricted(() => workflowyClient.listRecentOperations(USERNAME, PASSWORD));
+    expect(operations.map(entry => entry.operation)).toEqual(['deleteNode']);
+    expect((await workflowyClient.listRecentOperations(USERNAME, PASSWORD)).map(entry => entry.operation)).toEqual(['updateNode', 'deleteNode', 'deleteNode']);
+
+    await restricted(() => workflowyClient.restoreNode('child-1-2', USERNAME, PASSWORD));
+    expect((await restricted(() => workflowyClient.getRootItems(USERNAME, PASSWORD))).map((item: any) => item.id)).toEqual(['child-1-2']);
+  });
+});
+
+describe('Worker Token Scopes', () => {
+  let stub: WorkflowyApiStub;
+  let env: Record<string, any>;
+
+  const issueToken = async (body: Record<string, unknown>) => {
+    const response = await worker.fetch(new Request('https://worker.test/connector/setup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: USERNAME, password: PASSWORD, ...body })
+    }), env);
+    return ((await response.json()) as any).token as string;
+  };
+
+  const call = async (token: string, method: string, params: Record<string, unknown>, headers: Record<string, string> = {}) => {
+    return worker.fetch(new Request('https://worker.test/mcp', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json', 'Authorization': `Bearer ${token}`, ...headers },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params })
+    }), env);
+  };
+
+  const callTool = async (token: string, name: string, args: Record<string, unknown>) =>
+    (await call(token, 'tools/call', { name, arguments: args })).json() as Promise<any>;
+
+  beforeEach(() => {
+    stub = new WorkflowyApiStub();
+    stub.start();
+    sessionPool.clear();
+    documentSnapshots.clear();
+    requestDeduplicator.clear();
+    userStates.clear();
+    env = { ENVIRONMENT: 'preview', CREDENTIAL_VAULT_KEY: 'test-vault-key', OAUTH_KV: fakeKv() };
+  });
+
+  afterEach(() => {
+    userStates.clear();
+    stub.stop();
+  });
+
+  test('should reject tools the token scopes do not cover', async () => {
+    const readOnly = await issueToken({ scopes: [READ_SCOPE] });
+
+    expect((await callTool(readOnly, 'get_node_by_id', { id: 'root-node-2' })).result.content[0].text).toContain('Personal Goals');
+    const denied = await callTool(readOnly, 'batch_delete_nodes', { ids: ['root-node-2'] });
+    expect(denied.error.code).toBe(-32600);
+    expect(denied.error.data).toEqual({ requiredScopes: [WRITE_SCOPE], grantedScopes: [READ_SCOPE] });
+
+    const append = await issueToken({ scopes: [APPEND_SCOPE] });
+    expect((await callTool(append, 'create_node', { parentId: 'root-node-2', name: 'Added' })).result).toBeDefined();
+    expect((await callTool(append, 'delete_node', { id: 'root-node-2' })).error.message).toContain('Insufficient scope');
+  });
+
+  test('should require the read scope for resources, prompts and subscriptions', async () => {
+    const append = await issueToken({ scopes: [APPEND_SCOPE, WRITE_SCOPE] });
+    const initialize = await call(append, 'initialize', { protocolVersion: '2025-03-26', capabilities: {} });
+    const sessionId = initialize.headers.get('Mcp-Session-Id')!;
+
+    const requests: Array<[string, Record<string, unknown>]> = [
+      ['resources/list', {}],
+      ['resources/read', { uri: 'workflowy://node/root-node-2' }],
+      ['prompts/get', { name: 'weekly_review', arguments: { nodeId: 'root-node-2' } }],
+      ['resources/subscribe', { uri: 'workflowy://node/root-node-2' }]
+    ];
+    for (const [method, params] of requests) {
+      const denied = (await (await call(append, method, params, { 'Mcp-Session-Id': sessionId })).json()) as any;
+      expect(denied.error).toMatchObject({ code: -32600, message: `Insufficient scope: ${method} requires ${READ_SCOPE}` });
+      expect(denied.error.data).toEqual({ requiredScopes: [READ_SCOPE], grantedScopes: [APPEND_SCOPE, WRITE_SCOPE] });
+    }
+
+    const readOnly = await issueToken({ scopes: [READ_SCOPE] });
+    const read = (await (await call(readOnly, 'resources/read', { uri: 'workflowy://node/root-node-2' })).json()) as any;
+    expect(read.result.contents[0].text).toContain('Personal Goals');
+  });
+
+  test('should keep subtree-restricted tokens and their cached reads inside the subtree', async () => {
+    const full = await issueToken({});
+    const scoped = await issueToken({ root_node_id: 'root-node-3' });
+
+    expect((await callTool(full, 'list_nodes', {})).result.content[0].text).toContain('Personal Goals');
+
+    const listing = (await callTool(scoped, 'list_nodes', {})).result.content[0].text;
+    expect(listing).toContain('AI Development');
+    expect(listing).not.toContain('Personal Goals');
+
+    expect((await callTool(scoped, 'get_node_by_id', { id: 'root-node-2' })).result.content[0].text).toContain('outside the subtree');
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tests for the admin dashboard
+ * Covers admin authentication, the overview of clients, tokens and usage, and revocation
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import worker from '../worker.js';
+import { oauthTokens } from '../utils/oauth-tokens.js';
+import { credentialVault } from '../utils/credential-vault.js';
+import { usageStats } from '../utils/usage-stats.js';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { documentSnapshots } from '../workflowy/document-snapshot.js';
+import { sessionPool } from '../workflowy/session-pool.js';
+import { userStates } from '../utils/user-state.js';
+import { requestDeduplicator } from '../utils/deduplication.js';
+import { workerCache } from '../utils/cache.js';
+
+const USERNAME = 'stub-user';
+const PASSWORD = 'stub-password';
+const ADMIN_KEY = 'test-admin-key';
+
+// Minimal in-memory stand-in for a KV namespace binding, with prefix listing
+const fakeKv = () => {
+  const values = new Map<string, string>();
+  return {
+    values,
+    get: async (key: string) => values.get(key) ?? null,
+    put: async (key: string, value: string) => { values.set(key, value); },
+    delete: async (key: string) => { values.delete(key); },
+    list: async ({ prefix = '' }: { prefix?: string } = {}) => ({
+      keys: [...values.keys()].filter(key => key.startsWith(prefix)).map(name => ({ name })),
+      list_complete: true
+    })
+  };
+};
+
+describe('Admin Dashboard', () => {
+  let stub: WorkflowyApiStub;
+  let env: Record<string, any>;
+
+  const admin = (path: string, init: RequestInit = {}, key: string = ADMIN_KEY) =>
+    worker.fetch(new Request(`https://worker.test${path}`, {
+      ...init,
+      headers: { 'Authorization': `Bearer ${key}`, ...init.headers }
+    }), env);
+
+  const overview = async () => (await (await admin('/admin/api/overview')).json()) as any;
+
+  const callTool = async (token: string, name: string, args: Record<string, unknown>) => {
+    const response = await worker.fetch(new Request('https://worker.test/mcp', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json', 'Authorization': `Bearer ${token}` },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } })
+    }), env);
+    return response.json() as Promise<any>;
+  };
+
+  const issueGrant = async (clientId: string) => oauthTokens.issue(env.OAUTH_KV, {
+    client_id: clientId,
+    scope: 'workflowy:read workflowy:write',
+    workflowy_username: USERNAME,
+    credentials: await credentialVault.seal(env, { username: USERNAME, password: PASSWORD })
+  });
+
+  beforeEach(async () => {
+    stub = new WorkflowyApiStub();
+    stub.start();
+    sessionPool.clear();
+    documentSnapshots.clear();
+    requestDeduplicator.clear();
+    await workerCache.clear();
+    userStates.clear();
+    usageStats.clear();
+    env = { ENVIRONMENT: 'preview', CREDENTIAL_VAULT_KEY: 'test-vault-key', ADMIN_API_KEY: ADMIN_KEY, OAUTH_KV: fakeKv() };
+  });
+
+  afterEach(() => {
+    userStates.clear();
+    stub.stop();
+  });
+
+  test('should require the admin key, not user tokens', async () => {
+    expect((await worker.fetch(new Request('https://worker.test/admin'), env)).status).toBe(401);
+    expect((await admin('/admin/api/overview', {}, 'wrong-key')).status).toBe(401);
+
+    const issued = await credentialVault.issue(env, { username: USERNAME, password: PASSWORD });
+    const withToken = await admin('/admin', {}, issued.token);
+    expect(withToken.status).toBe(401);
+    expect(withToken.headers.get('WWW-Authenticate')).toContain('Basic');
+
+    const basic = await worker.fetch(new Request('https://worker.test/admin', {
+      headers: { 'Authorization': `Basic ${btoa(`admin:${ADMIN_KEY}`)}` }
+    }), env);
+    expect(basic.status).toBe(200);
+    expect(basic.headers.get('Content-Type')).toBe('text/html');
+
+    delete env.ADMIN_API_KEY;
+    expect((await admin('/admin')).status).toBe(503);
+  });
+
+  test('should list clients, grants, vault tokens and per-user usage', async () => {
+    const registration = await worker.fetch(new Request('https://worker.test/oauth/register', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ client_name: 'Test Client', redirect_uris: ['https://client.test/callback'] })
+    }), env);
+    const { client_id } = (await registration.json()) as any;
+    await issueGrant(client_id);
+    await issueGrant('claude-web');
+    const issued = await credentialVault.issue(env, { username: USERNAME, password: PASSWORD }, { label: 'laptop' });
+
+    await callTool(issued.token, 'list_nodes', {});
+    await callTool(issued.token, 'list_nodes', {});
+    await callTool(issued.token, 'get_node_by_id', { id: 'missing-node' });
+
+    const data = await overview();
+    expect(data.clients.map((client: any) => [client.client_id, client.registered, client.active_grants]))
+      .toEqual([[client_id, true, 1], ['claude-web', false, 1]]);
+    expect(data.clients[0].redirect_uris).toEqual(['https://client.test/callback']);
+    expect(data.grants).toHaveLength(2);
+    expect(data.vault_tokens.map((token: any) => [token.id, token.label])).toEqual([[issued.id, 'laptop']]);
+    expect(JSON.stringify(data)).not.toContain(PASSWORD);
+
+    const usage = data.usage.users.find((user: any) => user.user === USERNAME);
+    expect(usage.calls).toBe(3);
+    expect(usage.errors).toBe(1);
+    expect(usage.cacheHits).toBe(1);
+    expect(usage.topTools[0]).toEqual({ tool: 'list_nodes', calls: 2 });
+    expect(env.OAUTH_KV.values.has(`usage:${new Date().toISOString().substring(0, 10)}`)).toBe(true);
+  });
+
+  test('should revoke grants, vault tokens and clients', async () => {
+    const grant = await issueGrant('claude-web');
+    const issued = await credentialVault.issue(env, { username: USERNAME, password: PASSWORD });
+    const grantId = (await overview()).grants[0].grant_id;
+
+    expect((await admin(`/admin/api/grants/${grantId}`, { method: 'DELETE' })).status).toBe(200);
+    expect((await oauthTokens.introspect(env.OAUTH_KV, grant.access_token)).active).toBe(false);
+
+    expect((await admin(`/admin/api/tokens/${issued.id}`, { method: 'DELETE' })).status).toBe(200);
+    expect(await credentialVault.open(env, issued.token)).toBeNull();
+    expect((await admin(`/admin/api/tokens/${issued.id}`, { method: 'DELETE' })).status).toBe(404);
+
+    const clientGrant = await issueGrant('claude-web');
+    const revoked = await admin('/admin/api/clients/claude-web', { method: 'DELETE' });
+    expect((await revoked.json()) as any).toEqual({ success: true, revoked: true, grantsRevoked: 1 });
+
+    const refresh = await worker.fetch(new Request('https://worker.test/oauth/token', {
+      method: 'POST',
+      body: new URLSearchParams({ grant_type: 'refresh_token', refresh_token: clientGrant.refresh_token, client_id: 'claude-web' })
+    }), env);
+    expect(refresh.status).toBe(400);
+    expect(((await refresh.json()) as any).error).toBe('unauthorized_client');
+    expect((await overview()).clients[0].revoked_at).toBeDefined();
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for write-through cache invalidation after mutating tool calls
+ * Covers the invalidation set each edit produces and read-after-write consistency of both caches
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import worker from '../worker.js';
+import { invalidations, invalidationTags, InvalidationSet, ROOT_NODE_ID } from '../utils/invalidation.js';
+import { FileCache, SEARCH_CACHE_PREFIX } from '../utils/file-cache.js';
+import { workerCache } from '../utils/cache.js';
+import { userStates } from '../utils/user-state.js';
+import { requestDeduplicator } from '../utils/deduplication.js';
+import { workflowyClient } from '../workflowy/client.js';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { documentSnapshots } from '../workflowy/document-snapshot.js';
+import { sessionPool } from '../workflowy/session-pool.js';
+
+const USERNAME = 'stub-user';
+const PASSWORD = 'stub-password';
+
+describe('Cache Invalidation', () => {
+  let stub: WorkflowyApiStub;
+
+  beforeEach(() => {
+    stub = new WorkflowyApiStub();
+    stub.start();
+    sessionPool.clear();
+    documentSnapshots.clear();
+    requestDeduplicator.clear();
+    userStates.clear();
+  });
+
+  afterEach(() => {
+    userStates.clear();
+    stub.stop();
+  });
+
+  const track = async (operation: () => Promise<unknown>) => {
+    let invalidation: InvalidationSet | undefined;
+    await invalidations.track(operation, async set => { invalidation = set; });
+    return invalidation;
+  };
+
+  test('should invalidate a moved subtree and its old and new ancestors', async () => {
+    const invalidation = await track(() => workflowyClient.moveNode('grandchild-1-1-1', 'root-node-3', undefined, USERNAME, PASSWORD));
+
+    expect(invalidation!.search).toBe(true);
+    expect(invalidation!.nodeIds.sort()).toEqual([
+      'child-1-1', 'grandchild-1-1-1', 'great-grandchild-1-1-1-1', ROOT_NODE_ID, 'root-node-1', 'root-node-3'
+    ].sort());
+    expect(invalidationTags(invalidation!)).toContain('node:root-node-3');
+    expect(invalidationTags(invalidation!)).toContain('search');
+  });
+
+  test('should not invalidate anything for reads or untracked edits', async () => {
+    expect(await track(() => workflowyClient.getNodeById('child-1-1', USERNAME, PASSWORD))).toBeUndefined();
+
+    // Edits outside a tracked call are not attributed to one
+    await workflowyClient.updateNode('child-1-2', 'Untracked', undefined, USERNAME, PASSWORD);
+    const invalidation = await track(() => workflowyClient.updateNode('root-node-2', 'Tracked', undefined, USERNAME, PASSWORD));
+    expect(invalidation!.nodeIds.sort()).toEqual([ROOT_NODE_ID, 'root-node-2']);
+  });
+
+  test('should purge file cache entries for the invalidated nodes and searches', async () => {
+    const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'workflowy-cache-'));
+    const cache = new FileCache(cacheDir);
+
+    try {
+      await cache.set('child-1-1', { name: 'Sprint Planning' }, '2025-01-01T00:00:00.000Z', { maxDepth: 2 });
+      await cache.set('child-1-1', { name: 'Sprint Planning' }, '2025-01-01T00:00:00.000Z');
+      await cache.set('root-node-2', { name: 'Personal Goals' }, '2025-01-01T00:00:00.000Z');
+      await cache.set(`${SEARCH_CACHE_PREFIX}sprint`, [], '2025-01-01T00:00:00.000Z');
+
+      expect(await cache.invalidate({ nodeIds: ['child-1-1', 'root-node-1'], search: true })).toBe(3);
+      expect(await cache.get('child-1-1', { maxDepth: 2 })).toBeNull();
+      expect(await cache.get('root-node-2')).not.toBeNull();
+    } finally {
+      await fs.rm(cacheDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('Worker Read-After-Write', () => {
+    const callTool = async (name: string, args: Record<string, unknown>) => {
+      const response = await worker.fetch(new Request('https://worker.test/mcp', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          'Authorization': 'Bearer test-key',
+          'X-Workflowy-Username': USERNAME,
+          'X-Workflowy-Password': PASSWORD
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } })
+      }), { ENVIRONMENT: 'preview' });
+      return ((await response.json()) as any).result.content[0].text as string;
+    };
+    const cached = (name: string, params: Record<string, unknown>) =>
+      workerCache.get(name, params, { username: USERNAME }, userStates.forUser({}, sessionPool.getKey(USERNAME, PASSWORD)));
+
+    test('should list a node created after the parent listing was cached', async () => {
+      expect(await callTool('list_nodes', { parentId: 'root-node-2' })).not.toContain('Fresh child');
+      expect(await cached('list_nodes', { parentId: 'root-node-2' })).not.toBeNull();
+
+      await callTool('create_node', { parentId: 'root-node-2', name: 'Fresh child' });
+
+      expect(await callTool('list_nodes', { parentId: 'root-node-2' })).toContain('Fresh child');
+    });
+
+    test('should return the new name after update_node', async () => {
+      await callTool('get_node_by_id', { id: 'child-1-1' });
+      await callTool('search_nodes', { query: 'Sprint' });
+      await callTool('get_node_by_id', { id: 'root-node-3' });
+
+      await callTool('update_node', { id: 'child-1-1', name: 'Sprint Retro' });
+
+      expect(await callTool('get_node_by_id', { id: 'child-1-1' })).toContain('Sprint Retro');
+      expect(await cached('search_nodes', { query: 'Sprint' })).toBeNull();
+      // Reads of unrelated nodes stay cached
+      expect(await cached('get_node_by_id', { id: 'root-node-3' })).not.toBeNull();
+    });
+
+    test('should drop cached reads of both parents after a move', async () => {
+      await callTool('list_nodes', { parentId: 'root-node-1' });
+      await callTool('list_nodes', { parentId: 'root-node-3' });
+      await callTool('list_nodes', {});
+
+      await callTool('move_node', { id: 'child-1-2', newParentId: 'root-node-3' });
+
+      expect(await callTool('list_nodes', { parentId: 'root-node-1' })).not.toContain('child-1-2');
+      expect(await callTool('list_nodes', { parentId: 'root-node-3' })).toContain('child-1-2');
+      expect(await cached('list_nodes', {})).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for the encrypted credential vault behind connector tokens and OAuth grants
+ * Covers sealing, opaque token issue and revocation, legacy token migration and the /connector/setup endpoint
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import worker from '../worker.js';
+import { CredentialVault, VAULT_TOKEN_PREFIX } from '../utils/credential-vault.js';
+import { oauthClients, RegisteredClient } from '../utils/oauth-clients.js';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { documentSnapshots } from '../workflowy/document-snapshot.js';
+import { sessionPool } from '../workflowy/session-pool.js';
+
+const USERNAME = 'stub-user';
+const PASSWORD = 'stub-password';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// PKCE verifier and its S256 challenge from RFC 7636 Appendix B
+const CODE_VERIFIER = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk';
+const CODE_CHALLENGE = 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM';
+
+// Minimal in-memory stand-in for a KV namespace binding
+const fakeKv = () => {
+  const values = new Map<string, string>();
+  return {
+    values,
+    get: async (key: string) => values.get(key) ?? null,
+    put: async (key: string, value: string) => { values.set(key, value); },
+    delete: async (key: string) => { values.delete(key); }
+  };
+};
+
+describe('Credential Vault', () => {
+  let vault: CredentialVault;
+  let env: { CREDENTIAL_VAULT_KEY: string; OAUTH_KV: ReturnType<typeof fakeKv>; ALLOW_LEGACY_TOKENS?: string };
+
+  beforeEach(() => {
+    vault = new CredentialVault();
+    env = { CREDENTIAL_VAULT_KEY: 'test-vault-key', OAUTH_KV: fakeKv() };
+  });
+
+  test('should seal credentials so only the same key can open them', async () => {
+    const sealed = await vault.seal(env, { username: USERNAME, password: PASSWORD });
+
+    expect(sealed).toMatch(/^v1\./);
+    expect(sealed).not.toContain(PASSWORD);
+    expect(await vault.unseal(env, sealed)).toEqual({ username: USERNAME, password: PASSWORD });
+    expect(await vault.unseal({ CREDENTIAL_VAULT_KEY: 'another-key' }, sealed)).toBeNull();
+
+    const [version, iv, ciphertext] = sealed.split('.');
+    const tampered = `${version}.${iv}.${ciphertext.startsWith('A') ? 'B' : 'A'}${ciphertext.substring(1)}`;
+    expect(await vault.unseal(env, tampered)).toBeNull();
+  });
+
+  test('should issue opaque tokens and store only a hash of them', async () => {
+    const issued = await vault.issue(env, { username: USERNAME, password: PASSWORD }, { scopes: ['workflowy:read'], ttlDays: 7 });
+
+    expect(issued.token.startsWith(VAULT_TOKEN_PREFIX)).toBe(true);
+    expect(atob(issued.token.substring(VAULT_TOKEN_PREFIX.length).replace(/-/g, '+').replace(/_/g, '/'))).not.toContain(USERNAME);
+    expect([...env.OAUTH_KV.values.keys()]).toEqual([`vault:${issued.id}`]);
+    expect(env.OAUTH_KV.values.get(`vault:${issued.id}`)).not.toContain(PASSWORD);
+    expect(env.OAUTH_KV.values.get(`vault:${issued.id}`)).not.toContain(issued.token);
+
+    expect(await vault.open(env, issued.token)).toMatchObject({ username: USERNAME, password: PASSWORD, scopes: ['workflowy:read'] });
+    expect(issued.expiresAt - Date.now()).toBeGreaterThan(6 * DAY_MS);
+    await expect(vault.issue(env, { username: USERNAME, password: PASSWORD }, { scopes: ['admin'] })).rejects.toThrow('Unknown scopes');
+  });
+
+  test('should reject revoked, expired and unknown tokens', async () => {
+    const issued = await vault.issue(env, { username: USERNAME, password: PASSWORD });
+    expect(await vault.revoke(env, issued.token)).toBe(true);
+    expect(await vault.open(env, issued.token)).toBeNull();
+    expect(await vault.revoke(env, issued.token)).toBe(false);
+
+    const expiring = await vault.issue(env, { username: USERNAME, password: PASSWORD });
+    const record = JSON.parse(env.OAUTH_KV.values.get(`vault:${expiring.id}`)!);
+    env.OAUTH_KV.values.set(`vault:${expiring.id}`, JSON.stringify({ ...record, expires_at: Date.now() - 1 }));
+    expect(await vault.open(env, expiring.token)).toBeNull();
+
+    expect(await vault.open(env, `${VAULT_TOKEN_PREFIX}unknown`)).toBeNull();
+  });
+
+  test('should keep unexpired legacy tokens working until disabled', async () => {
+    const legacy = btoa(`${USERNAME}:${PASSWORD}:${Date.now() - DAY_MS}`);
+    const expired = btoa(`${USERNAME}:${PASSWORD}:${Date.now() - 31 * DAY_MS}`);
+
+    expect(await vault.open(env, legacy)).toMatchObject({ username: USERNAME, password: PASSWORD, legacy: true });
+    expect(await vault.open(env, expired)).toBeNull();
+    expect(await vault.open(env, 'not-a-token')).toBeNull();
+    expect(await vault.open({ ...env, ALLOW_LEGACY_TOKENS: 'false' }, legacy)).toBeNull();
+  });
+});
+
+describe('Worker Credential Storage', () => {
+  let stub: WorkflowyApiStub;
+  let env: Record<string, any>;
+
+  const setup = (method: string, body?: unknown, headers: Record<string, string> = {}) =>
+    worker.fetch(new Request('https://worker.test/connector/setup', {
+      method,
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    }), env);
+
+  const callTool = async (token: string) => {
+    const response = await worker.fetch(new Request('https://worker.test/mcp', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json', 'Authorization': `Bearer ${token}` },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'get_node_by_id', arguments: { id: 'root-node-2' } } })
+    }), env);
+    return response.json() as Promise<any>;
+  };
+
+  beforeEach(() => {
+    stub = new WorkflowyApiStub();
+    stub.start();
+    sessionPool.clear();
+    documentSnapshots.clear();
+    env = { ENVIRONMENT: 'preview', ALLOWED_API_KEYS: 'operator-key', CREDENTIAL_VAULT_KEY: 'test-vault-key', OAUTH_KV: fakeKv() };
+  });
+
+  afterEach(() => {
+    stub.stop();
+  });
+
+  test('should issue a vault token that authenticates tool calls until revoked', async () => {
+    const response = await setup('POST', { username: USERNAME, password: PASSWORD, scopes: ['workflowy:read'], label: 'laptop' });
+    const body = await response.json() as any;
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ success: true, scopes: ['workflowy:read'] });
+    expect(body.token.startsWith(VAULT_TOKEN_PREFIX)).toBe(true);
+    expect((await callTool(body.token)).result.content[0].text).toContain('Personal Goals');
+
+    expect(await (await setup('DELETE', undefined, { Authorization: `Bearer ${body.token}` })).json()).toEqual({ success: true, revoked: true });
+    expect((await callTool(body.token)).error.code).toBe(-32600);
+  });
+
+  test('should exchange a legacy token for a vault token', async () => {
+    const legacy = btoa(`${USERNAME}:${PASSWORD}:${Date.now()}`);
+    const body = await (await setup('POST', { token: legacy })).json() as any;
+
+    expect(body.token.startsWith(VAULT_TOKEN_PREFIX)).toBe(true);
+    expect((await setup('POST', { token: btoa(`${USERNAME}:${PASSWORD}:${Date.now() - 31 * DAY_MS}`) })).status).toBe(400);
+    expect((await setup('DELETE', { token: legacy })).status).toBe(400);
+  });
+
+  test('should keep OAuth authorization codes and tokens free of plaintext passwords', async () => {
+    const { client_id } = await oauthClients.register(env.OAUTH_KV, { redirect_uris: ['https://claude.test/callback'] }) as RegisteredClient;
+    const authorized = await worker.fetch(new Request('https://worker.test/oauth/authorize', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id, redirect_uri: 'https://claude.test/callback', scope: 'workflowy:read',
+        code_challenge: CODE_CHALLENGE, code_challenge_method: 'S256',
+        workflowy_username: USERNAME, workflowy_password: PASSWORD
+      }).toString()
+    }), env);
+    const code = new URL(authorized.headers.get('Location')!).searchParams.get('code')!;
+    expect(env.OAUTH_KV.values.get(`auth:${code}`)).not.toContain(PASSWORD);
+
+    const tokens = await (await worker.fetch(new Request('https://worker.test/oauth/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ grant_type: 'authorization_code', code, redirect_uri: 'https://claude.test/callback', client_id, code_verifier: CODE_VERIFIER }).toString()
+    }), env)).json() as any;
+
+    expect([...env.OAUTH_KV.values.values()].some((value: string) => value.includes(PASSWORD))).toBe(false);
+    expect((await callTool(tokens.access_token)).result.content[0].text).toContain('Personal Goals');
+  });
+
+  test('should refuse to issue tokens without a vault key or with unknown scopes', async () => {
+    expect((await setup('POST', { username: USERNAME, password: PASSWORD, scopes: ['everything'] })).status).toBe(400);
+
+    delete env.CREDENTIAL_VAULT_KEY;
+    expect((await setup('POST', { username: USERNAME, password: PASSWORD })).status).toBe(503);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for the daily journal tools
+ * Covers date formats and time zones, idempotent creation of dated nodes and listing days
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { DailyJournal, JournalError, formatDate, parseDate } from '../workflowy/daily-journal.js';
+import { workflowyClient } from '../workflowy/client.js';
+import { workflowyTools } from '../tools/workflowy.js';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { documentSnapshots } from '../workflowy/document-snapshot.js';
+import { sessionPool } from '../workflowy/session-pool.js';
+import { operationJournal } from '../workflowy/operation-journal.js';
+import { userStates } from '../utils/user-state.js';
+
+const USERNAME = 'stub-user';
+const PASSWORD = 'stub-password';
+
+const OCTOBER_19 = { year: 2026, month: 10, day: 19 };
+
+describe('Journal Dates', () => {
+  test('should format and parse dates with tokens and literals', () => {
+    expect(formatDate(OCTOBER_19, 'YYYY-MM-DD ddd')).toBe('2026-10-19 Mon');
+    expect(formatDate({ year: 2026, month: 3, day: 7 }, 'dddd, D MMM [Log] YY')).toBe('Saturday, 7 Mar Log 26');
+
+    expect(parseDate('2026-10-19 Mon', 'YYYY-MM-DD ddd')).toEqual(OCTOBER_19);
+    expect(parseDate(' saturday, 7 mar Log 26 ', 'dddd, D MMM [Log] YY')).toEqual({ year: 2026, month: 3, day: 7 });
+    expect(parseDate('october', 'MMMM')).toEqual({ month: 10 });
+    expect(parseDate('Today', 'YYYY-MM-DD ddd')).toBeNull();
+  });
+
+  test('should resolve relative dates in the requested time zone', () => {
+    const journal = new DailyJournal();
+    const newYearUtc = new Date('2026-01-01T02:00:00Z');
+
+    expect(journal.resolveDate('today', 'UTC', newYearUtc)).toEqual({ year: 2026, month: 1, day: 1 });
+    expect(journal.resolveDate('today', 'America/Los_Angeles', newYearUtc)).toEqual({ year: 2025, month: 12, day: 31 });
+    expect(journal.resolveDate('yesterday', 'UTC', newYearUtc)).toEqual({ year: 2025, month: 12, day: 31 });
+    expect(journal.resolveDate('2024-02-29')).toEqual({ year: 2024, month: 2, day: 29 });
+
+    expect(() => journal.resolveDate('2026-02-30')).toThrow(JournalError);
+    expect(() => journal.resolveDate('today', 'Mars/Olympus_Mons')).toThrow(JournalError);
+  });
+
+  test('should keep the previous settings when the environment has invalid ones', () => {
+    const journal = new DailyJournal();
+    journal.configureFromEnv({ JOURNAL_HIERARCHY: 'month > day', JOURNAL_DAY_FORMAT: 'D' });
+    journal.configureFromEnv({ JOURNAL_HIERARCHY: 'day,year' });
+    journal.configureFromEnv({ JOURNAL_TIMEZONE: 'Nowhere/Special' });
+
+    expect(journal.getConfig()).toMatchObject({ hierarchy: ['month', 'day'], formats: { day: 'D' }, timeZone: 'UTC' });
+  });
+});
+
+describe('Daily Journal', () => {
+  let stub: WorkflowyApiStub;
+  let journal: DailyJournal;
+
+  const topLevelNames = async () => (await workflowyClient.getRootItems(USERNAME, PASSWORD)).map((node: any) => node.name);
+
+  beforeEach(() => {
+    stub = new WorkflowyApiStub();
+    stub.start();
+    sessionPool.clear();
+    documentSnapshots.clear();
+    journal = new DailyJournal();
+  });
+
+  afterEach(() => {
+    stub.stop();
+  });
+
+  test('should create the day once, however often and concurrently it is requested', async () => {
+    const [first, second] = await Promise.all([
+      journal.getOrCreateDay(OCTOBER_19, USERNAME, PASSWORD),
+      journal.getOrCreateDay(OCTOBER_19, USERNAME, PASSWORD)
+    ]);
+    const third = await journal.getOrCreateDay(OCTOBER_19, USERNAME, PASSWORD);
+
+    expect(first.path.map(node => node.name)).toEqual(['Journal', '2026', 'October', '2026-10-19 Mon']);
+    expect(first.created).toBe(true);
+    expect([second.created, third.created]).toEqual([false, false]);
+    expect(new Set([first.id, second.id, third.id]).size).toBe(1);
+    expect((await topLevelNames()).filter((name: string) => name === 'Journal')).toHaveLength(1);
+
+    const nextDay = await journal.getOrCreateDay({ year: 2026, month: 10, day: 20 }, USERNAME, PASSWORD);
+    expect(nextDay.path.slice(0, 3)).toEqual(first.path.slice(0, 3));
+  });
+
+  test('should create the day once when concurrent calls land on different isolates', async () => {
+    // Two journals stand in for two isolates: their in-memory locks are separate, the user state is shared.
+    // The second starts once the first holds its claim, which the Durable Object would hand out atomically
+    const state = userStates.forUser({}, 'journal-user');
+    const first = operationJournal.run(state, () => journal.getOrCreateDay(OCTOBER_19, USERNAME, PASSWORD));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const second = operationJournal.run(state, () => new DailyJournal().getOrCreateDay(OCTOBER_19, USERNAME, PASSWORD));
+    const days = await Promise.all([first, second]);
+
+    expect(days.map(day => day.created).sort()).toEqual([false, true]);
+    expect(days[0].id).toBe(days[1].id);
+    expect((await topLevelNames()).filter((name: string) => name === 'Journal')).toHaveLength(1);
+    userStates.clear();
+  });
+
+  test('should reuse hand-made nodes whose names parse to the same date', async () => {
+    journal.configure({ rootId: 'root-node-2', hierarchy: ['month', 'day'], formats: { year: 'YYYY', month: 'MMMM YYYY', day: 'D' } });
+    const month = await workflowyClient.createNode('root-node-2', 'october 2026', undefined, USERNAME, PASSWORD);
+    const day = await workflowyClient.createNode(month, '19', undefined, USERNAME, PASSWORD);
+
+    const found = await journal.getOrCreateDay(OCTOBER_19, USERNAME, PASSWORD);
+    expect(found).toMatchObject({ id: day, created: false, date: '2026-10-19' });
+    expect((await journal.getOrCreateDay({ year: 2025, month: 10, day: 19 }, USERNAME, PASSWORD)).path[1].name).toBe('October 2025');
+  });
+
+  test('should append entries and list days newest first without creating anything', async () => {
+    expect(await journal.listDays({}, USERNAME, PASSWORD)).toEqual([]);
+    expect(await topLevelNames()).not.toContain('Journal');
+
+    await journal.appendToDay({ year: 2026, month: 9, day: 30 }, [{ name: 'Planned Q4' }], {}, USERNAME, PASSWORD);
+    const appended = await journal.appendToDay(OCTOBER_19, [{ name: 'Standup' }, { name: 'Review', note: 'PR 42' }], { timePrefix: true }, USERNAME, PASSWORD);
+    expect(appended.entries.map(entry => entry.name)).toEqual([expect.stringMatching(/^\d{2}:\d{2} Standup$/), expect.stringMatching(/^\d{2}:\d{2} Review$/)]);
+
+    const days = await journal.listDays({ includeEntries: true }, USERNAME, PASSWORD);
+    expect(days.map(day => [day.date, day.entryCount])).toEqual([['2026-10-19', 2], ['2026-09-30', 1]]);
+    expect(days[0].entries![1].note).toBe('PR 42');
+
+    expect((await journal.listDays({ to: { year: 2026, month: 10, day: 1 } }, USERNAME, PASSWORD)).map(day => day.date)).toEqual(['2026-09-30']);
+  });
+
+  test('should expose the journal through tools', async () => {
+    const first = JSON.parse((await workflowyTools.get_or_create_today.handler({ timezone: 'Pacific/Auckland', username: USERNAME, password: PASSWORD })).content[0].text);
+    const appended = (await workflowyTools.append_to_day.handler({ entries: [{ name: 'Wrote tests' }], timezone: 'Pacific/Auckland', username: USERNAME, password: PASSWORD })).content[0].text;
+    expect(appended).toContain(`(${first.id})`);
+    expect(appended).not.toContain('created');
+
+    const bad = (await workflowyTools.append_to_day.handler({ entries: [{ name: 'x' }], date: 'someday', username: USERNAME, password: PASSWORD })).content[0].text;
+    expect(bad).toStartWith('Error appending to journal: Invalid date');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for per-user document snapshots
+ * Runs the real workflowy client against a local HTTP stub of the Workflowy API
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { WorkFlowy } from 'workflowy';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { DocumentSnapshotStore, documentSnapshots } from '../workflowy/document-snapshot.js';
+import { sessionPool } from '../workflowy/session-pool.js';
+import { workflowyClient } from '../workflowy/client.js';
+
+const USERNAME = 'stub-user';
+const PASSWORD = 'stub-password';
+
+describe('Document Snapshots', () => {
+  let stub: WorkflowyApiStub;
+
+  beforeEach(() => {
+    stub = new WorkflowyApiStub();
+    stub.start();
+    sessionPool.clear();
+    documentSnapshots.clear();
+    documentSnapshots.configure({ pollIntervalMs: 2000 });
+  });
+
+  afterEach(() => {
+    stub.stop();
+  });
+
+  test('should load the full tree once and serve repeat reads from the snapshot', async () => {
+    const rootItems = await workflowyClient.getRootItems(USERNAME, PASSWORD);
+    const node = await workflowyClient.getNodeById('child-1-1', USERNAME, PASSWORD, 1);
+    const page = await workflowyClient.search('sprint', USERNAME, PASSWORD, 10);
+
+    expect(rootItems.map((item: any) => item.id)).toEqual(['root-node-1', 'root-node-2', 'root-node-3']);
+    expect(node.name).toBe('Sprint Planning');
+    expect(node.items.map((item: any) => item.id)).toEqual(['grandchild-1-1-1', 'grandchild-1-1-2']);
+    expect(page.results.length).toBeGreaterThan(0);
+
+    expect(stub.countRequests('/get_tree_data/')).toBe(1);
+    expect(documentSnapshots.getStats()).toMatchObject({ size: 1, fullLoads: 1, hits: 2 });
+  });
+
+  test('should apply remote changes from push_and_poll deltas', async () => {
+    documentSnapshots.configure({ pollIntervalMs: 0 });
+    await workflowyClient.getRootItems(USERNAME, PASSWORD);
+
+    stub.addRemoteOperations([
+      { type: 'edit', data: { projectid: 'root-node-1', name: 'Renamed elsewhere' } },
+      { type: 'create', data: { projectid: 'remote-node', parentid: 'root-node-1', priority: 0 } },
+      { type: 'edit', data: { projectid: 'remote-node', name: 'Added on phone' } },
+      { type: 'complete', data: { projectid: 'child-1-2' } },
+      { type: 'delete', data: { projectid: 'root-node-3' } }
+    ]);
+
+    const rootItems = await workflowyClient.getRootItems(USERNAME, PASSWORD, 1);
+    const projects = rootItems[0];
+
+    expect(projects.name).toBe('Renamed elsewhere');
+    expect(projects.items[0]).toMatchObject({ id: 'remote-node', name: 'Added on phone' });
+    expect(projects.items.find((item: any) => item.id === 'child-1-2').isCompleted).toBe(true);
+    expect(rootItems.map((item: any) => item.id)).not.toContain('root-node-3');
+
+    expect(stub.countRequests('/get_tree_data/')).toBe(1);
+    expect(documentSnapshots.getStats()).toMatchObject({ fullLoads: 1, remoteOperations: 5 });
+  });
+
+  test('should update the snapshot optimistically on writes', async () => {
+    const newId = await workflowyClient.createNode('root-node-2', 'New task', 'Task details', USERNAME, PASSWORD);
+    await workflowyClient.toggleComplete(newId, true, USERNAME, PASSWORD);
+    await workflowyClient.moveNode('child-2-1', 'root-node-1', 0, USERNAME, PASSWORD);
+
+    const created = await workflowyClient.getNodeById(newId, USERNAME, PASSWORD, 0, ['id', 'name', 'note', 'isCompleted', 'parentId']);
+    const projects = await workflowyClient.getChildItems('root-node-1', USERNAME, PASSWORD);
+
+    expect(created).toMatchObject({ name: 'New task', note: 'Task details', isCompleted: true, parentId: 'root-node-2' });
+    expect(projects[0].id).toBe('child-2-1');
+    expect(stub.pushedOperations.map(operation => operation.type)).toEqual(['create', 'edit', 'edit', 'complete', 'move']);
+    expect(stub.countRequests('/get_tree_data/')).toBe(1);
+  });
+
+  test('should drop deleted subtrees from the snapshot', async () => {
+    await workflowyClient.deleteNode('child-1-1', USERNAME, PASSWORD);
+
+    await expect(workflowyClient.getNodeById('grandchild-1-1-1', USERNAME, PASSWORD)).rejects.toThrow('not found');
+    expect(stub.pushedOperations).toEqual([
+      expect.objectContaining({ type: 'delete', data: { projectid: 'child-1-1' } })
+    ]);
+  });
+
+  test('should end ancestor walks at the document root', async () => {
+    const node = await workflowyClient.getNodeById('grandchild-1-1-1', USERNAME, PASSWORD, 0, ['id', 'hierarchy']);
+    const roots = await workflowyClient.getRootItems(USERNAME, PASSWORD, 0, ['id', 'hierarchy', 'parentId']);
+    const page = await workflowyClient.search('sprint', USERNAME, PASSWORD, 10, 0, ['id', 'hierarchy']);
+
+    expect(node.hierarchy).toEqual(['Home', 'Project Management', 'Sprint Planning']);
+    expect(roots[0].hierarchy).toEqual(['Home']);
+    expect(page.results.find((result: any) => result.id === 'child-1-1').hierarchy).toEqual(['Home', 'Project Management']);
+  });
+
+  test('should reload the full tree after a failed save', async () => {
+    const store = new DocumentSnapshotStore();
+    const client = new WorkFlowy(USERNAME, PASSWORD).getClient();
+    await client.login();
+
+    const snapshot = await store.get('user', client);
+    snapshot.getList('root-node-1')!.setName('Not saved');
+    stub.failPushes = 2;
+
+    await expect(snapshot.save()).rejects.toThrow('500');
+    expect(snapshot.stale).toBe(true);
+
+    const reloaded = await store.get('user', client);
+    expect(reloaded).not.toBe(snapshot);
+    expect(reloaded.getList('root-node-1')!.name).toBe('Project Management');
+    expect(store.getStats().fullLoads).toBe(2);
+  });
+
+  test('should reload the full tree when the pooled session changes', async () => {
+    await workflowyClient.getRootItems(USERNAME, PASSWORD);
+    sessionPool.invalidate(sessionPool.getKey(USERNAME, PASSWORD));
+    await workflowyClient.getRootItems(USERNAME, PASSWORD);
+
+    expect(stub.countRequests('/get_tree_data/')).toBe(2);
+    expect(documentSnapshots.getStats().fullLoads).toBe(2);
+  });
+});
@@ -1,7 +1,14 @@
 import { describe, it, expect } from "bun:test";
+import { mockWorkflowyResponses } from "./mocks/workflowy-responses";
 import {
   convertToMarkdown,
   convertToPlainText,
+  convertToOpml,
+  parseMarkdownOutline,
+  parsePlainTextOutline,
+  parseOpml,
+  detectOutlineFormat,
+  OutlineNode,
   WorkflowyNode,
   S3FileAttachment,
   FileAttachment,
@@ -652,3 +659,240 @@ describe("Format Converters - Edge Cases", () => {
     expect(result).toContain("# Minimal");
   });
 });
+
+// Reduce parsed nodes to name, note, completion and children for comparison
+const shape = (nodes: OutlineNode[]): any[] =>
+  nodes.map(({ line, children, ...node }) => (children.length > 0 ? { ...node, children: shape(children) } : node));
+
+describe("Outline Parsers - Markdown", () => {
+  it("should nest bullets under headings by level and indentation", () => {
+    const nodes = parseMarkdownOutline([
+      "# Project",
+      "## Tasks",
+      "- [ ] Write spec",
+      "  - Review with **team**",
+      "- [x] Kickoff",
+      "# Notes",
+    ].join("\n"));
+
+    expect(shape(nodes)).toEqual([
+      {
+        name: "Project",
+        children: [
+          {
+            name: "Tasks",
+            children: [
+              { name: "Write spec", isCompleted: false, children: [{ name: "Review with <b>team</b>" }] },
+              { name: "Kickoff", isCompleted: true },
+            ],
+          },
+        ],
+      },
+      { name: "Notes" },
+    ]);
+  });
+
+  it("should turn blockquotes and paragraphs into notes and record source lines", () => {
+    const nodes = parseMarkdownOutline("# Plan\n\n> Draft <v2>\n\n- Step\n  continued here");
+
+    expect(nodes[0]).toMatchObject({ name: "Plan", note: "Draft &lt;v2&gt;", line: 1 });
+    expect(nodes[0].children[0]).toMatchObject({ name: "Step", note: "continued here", line: 5 });
+  });
+
+  it("should read back its own export", () => {
+    const exported = convertToMarkdown({ id: "1", name: "Root", note: "About", items: [{ id: "2", name: "Child" }] }, 0, { includeIds: true });
+
+    expect(shape(parseMarkdownOutline(exported))).toEqual([{ name: "Root", note: "About", children: [{ name: "Child" }] }]);
+  });
+});
+
+describe("Outline Parsers - Plain Text and OPML", () => {
+  it("should nest indented lines and read the plain text export", () => {
+    const exported = convertToPlainText([
+      { id: "1", name: "Groceries", items: [{ id: "2", name: "Milk", isCompleted: true, note: "Oat" }, { id: "3", name: "Bread" }] },
+      { id: "4", name: "Errands" },
+    ]);
+
+    expect(shape(parsePlainTextOutline(exported))).toEqual([
+      { name: "Groceries", children: [{ name: "Milk", isCompleted: true, note: "Oat" }, { name: "Bread" }] },
+      { name: "Errands" },
+    ]);
+  });
+
+  it("should parse outline elements with notes and completion", () => {
+    const opml = [
+      '<?xml version="1.0"?>',
+      '<opml version="2.0"><head><title>Export</title></head>',
+      "<body>",
+      '  <outline text="&lt;b&gt;Launch&lt;/b&gt;" _note="Line 1&#10;Line 2">',
+      '    <outline text="Done" _complete="true"/>',
+      "  </outline>",
+      "</body></opml>",
+    ].join("\n");
+
+    const nodes = parseOpml(opml);
+
+    expect(shape(nodes)).toEqual([
+      { name: "<b>Launch</b>", note: "Line 1\nLine 2", children: [{ name: "Done", isCompleted: true }] },
+    ]);
+    expect(nodes[0].children[0].line).toBe(5);
+  });
+
+  it("should reject OPML with unbalanced outlines", () => {
+    expect(() => parseOpml('<opml><body><outline text="a"></body></opml>')).toThrow("never closed");
+  });
+
+  it("should detect the format from the extension or content", () => {
+    expect(detectOutlineFormat("anything", "/tmp/notes.opml")).toBe("opml");
+    expect(detectOutlineFormat("<?xml version=\"1.0\"?><opml>")).toBe("opml");
+    expect(detectOutlineFormat("# Title\n- item")).toBe("markdown");
+    expect(detectOutlineFormat("Title\n  Child")).toBe("text");
+  });
+});
+
+// Mock nodes in the shape parseOpml returns: optional fields only when set
+const expectedOutline = (nodes: WorkflowyNode[]): any[] =>
+  nodes.map(node => {
+    const expected: any = { id: node.id, name: node.name };
+    if (node.note) expected.note = node.note;
+    if (node.isCompleted) expected.isCompleted = true;
+    if (node.items && node.items.length > 0) expected.children = expectedOutline(node.items);
+    return expected;
+  });
+
+describe("Format Converters - OPML", () => {
+  it("should round-trip the mock document through OPML", () => {
+    const nodes = mockWorkflowyResponses.rootDocument.items as WorkflowyNode[];
+    const opml = convertToOpml(nodes, { includeIds: true });
+
+    expect(opml).toStartWith('<?xml version="1.0" encoding="UTF-8"?>\n<opml version="2.0">');
+    expect(opml).toContain('<outline text="Code Reviews" _note="Pending code reviews" _complete="true" _id="child-1-2">');
+    expect(shape(parseOpml(opml))).toEqual(expectedOutline(nodes));
+  });
+
+  it("should keep HTML, quotes and line breaks in names and notes", () => {
+    const node: WorkflowyNode = { id: "1", name: '<b>Bold</b> & "quoted"', note: "Line 1\nLine 2\ttabbed" };
+    const [parsed] = parseOpml(convertToOpml(node));
+
+    expect(parsed).toMatchObject({ name: node.name, note: node.note });
+  });
+
+  it("should round-trip mirror and attachment metadata", () => {
+    const nodes: WorkflowyNode[] = [
+      { id: "mirror-1", name: "Mirrored", isMirror: true, originalId: "original-1" },
+      {
+        id: "file-1",
+        name: "Diagram",
+        attachmentUrl: "https://files.example.com/diagram.png?sig=1&exp=2",
+        s3File: {
+          isFile: true,
+          fileName: "diagram.png",
+          fileType: "image/png",
+          objectFolder: "attachments",
+          imageOriginalWidth: 640,
+          imageOriginalHeight: 480,
+        },
+      },
+    ];
+
+    const [mirror, file] = parseOpml(convertToOpml(nodes, { includeIds: true }));
+
+    expect(mirror).toMatchObject({ id: "mirror-1", isMirror: true, originalId: "original-1" });
+    expect(file.s3File).toEqual(nodes[1].s3File!);
+    expect(file.attachmentUrl).toBe(nodes[1].attachmentUrl!);
+  });
+
+  it("should leave out IDs unless requested", () => {
+    expect(convertToOpml({ id: "abc", name: "Node" })).not.toContain("_id=");
+  });
+});
+
+describe("Format Converters - Markdown Styles", () => {
+  const outline: WorkflowyNode[] = [
+    {
+      id: "1",
+      name: "Project",
+      note: "Kickoff in <b>March</b>",
+      items: [
+        {
+          id: "2",
+          name: "Tasks",
+          items: [
+            { id: "3", name: "Write spec", isCompleted: true, note: "Line 1\nLine 2" },
+            { id: "4", name: "Review", items: [{ id: "5", name: "Level 4" }] },
+          ],
+        },
+      ],
+    },
+  ];
+
+  it("should keep headers for every level by default", () => {
+    expect(convertToMarkdown(outline, 0)).toContain("#### Level 4");
+  });
+
+  it("should render nested bullets with checkboxes and indented notes", () => {
+    expect(convertToMarkdown(outline, 0, { style: "bullets" })).toBe([
+      "- Project",
+      "  Kickoff in March",
+      "  - Tasks",
+      "    - [x] Write spec",
+      "      Line 1",
+      "      Line 2",
+      "    - Review",
+      "      - Level 4",
+      "",
+    ].join("\n"));
+  });
+
+  it("should use headers for the top levels in hybrid style", () => {
+    const result = convertToMarkdown(outline, 0, { style: "hybrid", headingLevels: 2 });
+
+    expect(result).toBe([
+      "# Project",
+      "",
+      "> Kickoff in March",
+      "",
+      "## Tasks",
+      "",
+      "- [x] Write spec",
+      "  Line 1",
+      "  Line 2",
+      "- Review",
+      "  - Level 4",
+      "",
+      "",
+    ].join("\n"));
+  });
+
+  it("should indent attachments under their list item", () => {
+    const node: WorkflowyNode = {
+      id: "6",
+      name: "Scan",
+      s3File: { isFile: true, fileName: "scan.pdf", fileType: "application/pdf", objectFolder: "files" },
+    };
+
+    expect(convertToMarkdown(node, 0, { style: "bullets" })).toBe(
+      "- Scan\n  [ATTACHMENT] [File: scan.pdf - Use getFileUrl() to retrieve]\n"
+    );
+  });
+
+  it("should import a bullet export back into the same outline", () => {
+    const parsed = parseMarkdownOutline(convertToMarkdown(outline, 0, { style: "bullets" }));
+
+    expect(shape(parsed)).toEqual([
+      {
+        name: "Project",
+        note: "Kickoff in March",
+        children: [
+          {
+            name: "Tasks",
+            children: [
+              { name: "Write spec", isCompleted: true, note: "Line 1\nLine 2" },
+              { name: "Review", children: [{ name: "Level 4" }] },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+});
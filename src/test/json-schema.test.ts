@@ -0,0 +1,81 @@
+/**
+ * Tests for the Zod to JSON Schema conversion used by the worker's tools/list
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { z } from 'zod';
+import { zodToJsonSchema } from '../utils/json-schema.js';
+import { workflowyTools } from '../tools/workflowy.js';
+
+describe('Zod to JSON Schema', () => {
+  test('should convert primitives with their constraints and descriptions', () => {
+    const schema = z.object({
+      name: z.string().min(1).max(10).describe('Node name'),
+      count: z.number().int().min(0).describe('How many'),
+      ratio: z.number().gt(0).lte(1),
+      done: z.boolean().optional().describe('Completed')
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 10, description: 'Node name' },
+        count: { type: 'integer', minimum: 0, description: 'How many' },
+        ratio: { type: 'number', exclusiveMinimum: 0, maximum: 1 },
+        done: { type: 'boolean', description: 'Completed' }
+      },
+      required: ['name', 'count', 'ratio'],
+      additionalProperties: false
+    });
+  });
+
+  test('should convert enums, defaults, unions and nullable values', () => {
+    expect(zodToJsonSchema(z.enum(['json', 'opml']).default('json').describe('Format'))).toEqual({
+      type: 'string', enum: ['json', 'opml'], default: 'json', description: 'Format'
+    });
+    expect(zodToJsonSchema(z.union([z.string(), z.number()]))).toEqual({ type: ['string', 'number'] });
+    expect(zodToJsonSchema(z.union([z.literal('a'), z.literal('b')]))).toEqual({ type: 'string', enum: ['a', 'b'] });
+    expect(zodToJsonSchema(z.union([z.string(), z.object({ id: z.string() })]))).toEqual({
+      anyOf: [{ type: 'string' }, { type: 'object', properties: { id: { type: 'string' } }, required: ['id'], additionalProperties: false }]
+    });
+    expect(zodToJsonSchema(z.string().nullable())).toEqual({ type: ['string', 'null'] });
+  });
+
+  test('should convert nested arrays of objects and records', () => {
+    const schema = z.object({
+      moves: z.array(z.object({ id: z.string(), priority: z.number().optional() })).min(1),
+      labels: z.record(z.string())
+    });
+
+    expect(zodToJsonSchema(schema).properties).toEqual({
+      moves: {
+        type: 'array',
+        minItems: 1,
+        items: { type: 'object', properties: { id: { type: 'string' }, priority: { type: 'number' } }, required: ['id'], additionalProperties: false }
+      },
+      labels: { type: 'object', additionalProperties: { type: 'string' } }
+    });
+  });
+
+  test('should advertise the real parameter types of the Workflowy tools', () => {
+    const listNodes = zodToJsonSchema(workflowyTools.list_nodes.parameters);
+    expect(listNodes.properties.maxDepth.type).toBe('number');
+    expect(listNodes.properties.includeFields).toMatchObject({ type: 'array', items: { type: 'string' } });
+    expect(listNodes.required).toBeUndefined();
+
+    const exportToFile = zodToJsonSchema(workflowyTools.export_to_file.parameters);
+    expect(exportToFile.properties.format).toMatchObject({ type: 'string', enum: ['json', 'markdown', 'txt', 'opml'], default: 'json' });
+
+    const batchMove = zodToJsonSchema(workflowyTools.batch_move_nodes.parameters);
+    expect(batchMove.required).toEqual(['moves']);
+    expect(batchMove.properties.moves.items).toMatchObject({ type: 'object', required: ['id', 'newParentId'] });
+    expect(batchMove.properties.moves.items.properties.priority.type).toBe('number');
+
+    const undescribed = Object.entries(workflowyTools).flatMap(([name, tool]) =>
+      Object.entries<any>(zodToJsonSchema(tool.parameters).properties)
+        .filter(([, property]) => !property.description)
+        .map(([key]) => `${name}.${key}`)
+    );
+    expect(undescribed).toEqual([]);
+  });
+});
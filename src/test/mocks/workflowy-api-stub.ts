@@ -0,0 +1,187 @@
+// Local HTTP stub of the Workflowy web API used by the workflowy client library
+// Serves login, initialization data, tree data and push_and_poll from an in-memory tree
+import { mockWorkflowyResponses } from "./workflowy-responses";
+
+const WORKFLOWY_URL = "https://workflowy.com";
+const DATE_JOINED = 1700000000;
+
+export interface StubTreeItem {
+  id: string;
+  nm: string;
+  no?: string;
+  prnt: string | null;
+  pr: number;
+  cp?: number;
+  lm: number;
+  metadata: Record<string, any>;
+}
+
+export interface StubOperation {
+  type: string;
+  data: Record<string, any>;
+  client_timestamp?: number;
+}
+
+// Flatten the nested mock document into raw Workflowy tree items
+const flattenDocument = (node: any, parentId: string | null, items: StubTreeItem[] = []): StubTreeItem[] => {
+  node.items.forEach((child: any, index: number) => {
+    items.push({
+      id: child.id,
+      nm: child.name,
+      no: child.note || undefined,
+      prnt: parentId,
+      pr: index * 100,
+      cp: child.isCompleted ? 1000 : undefined,
+      lm: 1000,
+      metadata: {}
+    });
+    flattenDocument(child, child.id, items);
+  });
+  return items;
+};
+
+export class WorkflowyApiStub {
+  items: StubTreeItem[] = flattenDocument(mockWorkflowyResponses.rootDocument, null);
+  requests: string[] = [];
+  pushedOperations: StubOperation[] = [];
+  // The client logs in again and retries once on an error response, so a failing save needs two
+  failPushes = 0;
+  // Pushes that are applied but answered with an error, as when the response is lost on the way back
+  losePushResponses = 0;
+
+  private transactionId = 100;
+  private queuedTransactions: string[] = [];
+  private server?: ReturnType<typeof Bun.serve>;
+  private originalFetch = globalThis.fetch;
+
+  /**
+   * Start the stub server and route https://workflowy.com requests to it
+   */
+  start(): void {
+    this.server = Bun.serve({ port: 0, fetch: (request) => this.handle(request) });
+    const baseUrl = `http://localhost:${this.server.port}`;
+    const originalFetch = this.originalFetch;
+
+    globalThis.fetch = ((input: any, init?: any) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      if (url.startsWith(WORKFLOWY_URL)) {
+        return originalFetch(baseUrl + url.slice(WORKFLOWY_URL.length), init);
+      }
+      return originalFetch(input, init);
+    }) as typeof fetch;
+  }
+
+  stop(): void {
+    globalThis.fetch = this.originalFetch;
+    this.server?.stop(true);
+  }
+
+  /**
+   * Queue operations as if another Workflowy client had made them
+   */
+  addRemoteOperations(operations: StubOperation[]): void {
+    operations.forEach(operation => this.apply(operation));
+    this.transactionId++;
+    this.queuedTransactions.push(JSON.stringify({ ops: operations }));
+  }
+
+  countRequests(path: string): number {
+    return this.requests.filter(request => request === path).length;
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url);
+    this.requests.push(pathname);
+
+    switch (pathname) {
+      case "/ajax_login":
+        return Response.json({ success: true }, { headers: { "Set-Cookie": "sessionid=stub-session; Path=/" } });
+      case "/get_initialization_data":
+        return Response.json({
+          projectTreeData: {
+            mainProjectTreeInfo: {
+              dateJoinedTimestampInSeconds: DATE_JOINED,
+              initialMostRecentOperationTransactionId: String(this.transactionId),
+              ownerId: 42
+            },
+            auxiliaryProjectTreeInfos: []
+          }
+        });
+      case "/get_tree_data/":
+        // Anything queued before a full load is already part of the tree
+        this.queuedTransactions = [];
+        return Response.json({
+          most_recent_operation_transaction_id: String(this.transactionId),
+          items: this.items,
+          shared_projects: {},
+          server_expanded_projects_list: []
+        });
+      case "/push_and_poll":
+        return this.pushAndPoll(await request.formData());
+      default:
+        return new Response("Not found", { status: 404 });
+    }
+  }
+
+  private pushAndPoll(form: FormData): Response {
+    const [tree] = JSON.parse(String(form.get("push_poll_data")));
+
+    if (this.failPushes > 0) {
+      this.failPushes--;
+      return new Response("Server error", { status: 500, statusText: "Internal Server Error" });
+    }
+
+    for (const operation of tree.operations) {
+      this.apply(operation);
+      this.pushedOperations.push(operation);
+    }
+    if (tree.operations.length > 0) {
+      this.transactionId++;
+    }
+
+    if (this.losePushResponses > 0) {
+      this.losePushResponses--;
+      return new Response("Gateway timeout", { status: 504, statusText: "Gateway Timeout" });
+    }
+
+    const concurrent = this.queuedTransactions;
+    this.queuedTransactions = [];
+
+    return Response.json({
+      results: [{
+        concurrent_remote_operation_transactions: concurrent,
+        error_encountered_in_remote_operations: false,
+        new_most_recent_operation_transaction_id: String(this.transactionId),
+        new_polling_interval_in_ms: 10000
+      }]
+    });
+  }
+
+  private apply({ type, data, client_timestamp }: StubOperation): void {
+    const item = this.items.find(candidate => candidate.id === data.projectid);
+    const parentId = data.parentid === "Root" ? null : data.parentid;
+    const timestamp = client_timestamp ?? 2000;
+
+    switch (type) {
+      case "create":
+        this.items.push({ id: data.projectid, nm: data.name ?? "", prnt: parentId, pr: data.priority, lm: timestamp, metadata: {} });
+        break;
+      case "edit":
+        if (item && data.name !== undefined) item.nm = data.name;
+        if (item && data.description !== undefined) item.no = data.description;
+        break;
+      case "complete":
+        if (item) item.cp = timestamp;
+        break;
+      case "uncomplete":
+        if (item) delete item.cp;
+        break;
+      case "move":
+        if (item) Object.assign(item, { prnt: parentId, pr: data.priority });
+        break;
+      case "delete":
+        this.items = this.items.filter(candidate => candidate.id !== data.projectid);
+        break;
+    }
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Tests for parsing Workflowy names and notes
+ * Covers plain text, tags, mentions, dates, links and their hydration as metadata fields
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { toPlainText, extractTags, extractMentions, extractDates, extractLinks } from '../utils/node-text.js';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { documentSnapshots } from '../workflowy/document-snapshot.js';
+import { sessionPool } from '../workflowy/session-pool.js';
+import { workflowyClient } from '../workflowy/client.js';
+
+const TIME_ELEMENT = '<time startYear="2024" startMonth="3" startDay="15" startHour="9" startMinute="5">Fri, Mar 15, 2024 at 9:05am</time>';
+
+describe('Node Text Parsing', () => {
+  test('should strip formatting and decode entities', () => {
+    expect(toPlainText('<b>Bold</b> &amp; <i>italic</i> &lt;tag&gt;')).toBe('Bold & italic <tag>');
+    expect(toPlainText(undefined)).toBe('');
+  });
+
+  test('should extract unique lowercase tags', () => {
+    expect(extractTags('Fix login <b>#Bug</b> #p1 #bug')).toEqual(['bug', 'p1']);
+    expect(extractTags('Issue#12 and https://example.com/#anchor')).toEqual([]);
+  });
+
+  test('should extract mentions but not e-mail addresses', () => {
+    expect(extractMentions('Ask @Alice and @bob.smith, cc ops@example.com')).toEqual(['alice', 'bob.smith']);
+  });
+
+  test('should read Workflowy date elements', () => {
+    expect(extractDates(`Call ${TIME_ELEMENT}`)).toEqual([
+      { date: '2024-03-15', time: '09:05', text: 'Fri, Mar 15, 2024 at 9:05am', source: 'time' }
+    ]);
+  });
+
+  test('should read date ranges from date elements', () => {
+    const range = '<time startYear="2024" startMonth="7" startDay="1" endYear="2024" endMonth="7" endDay="5">Jul 1 - Jul 5</time>';
+    expect(extractDates(range)[0]).toMatchObject({ date: '2024-07-01', endDate: '2024-07-05' });
+  });
+
+  test('should find dates written as text', () => {
+    const dates = extractDates('Due 2024-04-01 14:30, review on March 3rd, 2024 and 9 Sep 2024');
+
+    expect(dates.map(date => date.date)).toEqual(['2024-04-01', '2024-03-03', '2024-09-09']);
+    expect(dates[0]).toMatchObject({ time: '14:30', source: 'text' });
+  });
+
+  test('should not count date element text twice or accept impossible dates', () => {
+    expect(extractDates(TIME_ELEMENT)).toHaveLength(1);
+    expect(extractDates('Version 2024-13-45')).toEqual([]);
+    expect(extractDates('junk 5 2024, market 3 2024 and decision 1 2025')).toEqual([]);
+    expect(extractDates('Marchx 3 2024 or 3 Decembers 2024')).toEqual([]);
+    expect(extractDates('Sept. 9 2024 and 1 Dec. 2025').map(date => date.date)).toEqual(['2024-09-09', '2025-12-01']);
+  });
+
+  test('should extract anchor and bare links without duplicates', () => {
+    const text = 'See <a href="https://docs.example.com/a?x=1&amp;y=2">the docs</a> or https://example.com/page. Also https://example.com/page';
+
+    expect(extractLinks(text)).toEqual([
+      { url: 'https://docs.example.com/a?x=1&y=2', text: 'the docs' },
+      { url: 'https://example.com/page' }
+    ]);
+  });
+});
+
+describe('Parsed Content Metadata Fields', () => {
+  let stub: WorkflowyApiStub;
+
+  beforeEach(() => {
+    stub = new WorkflowyApiStub();
+    stub.items.push({
+      id: 'parsed-node',
+      nm: `<b>Launch</b> review #release @dana ${TIME_ELEMENT}`,
+      no: 'Checklist at <a href="https://example.com/checklist">checklist</a> #Release',
+      prnt: null,
+      pr: 1000,
+      lm: 1000,
+      metadata: {}
+    });
+    stub.start();
+    sessionPool.clear();
+    documentSnapshots.clear();
+  });
+
+  afterEach(() => {
+    stub.stop();
+  });
+
+  test('should hydrate parsed fields requested through includeFields', async () => {
+    const node = await workflowyClient.getNodeById('parsed-node', 'stub-user', 'stub-password', 0,
+      ['id', 'plainName', 'tags', 'mentions', 'dates', 'links']);
+
+    expect(node).toMatchObject({
+      id: 'parsed-node',
+      plainName: 'Launch review #release @dana Fri, Mar 15, 2024 at 9:05am',
+      tags: ['release'],
+      mentions: ['dana'],
+      dates: [{ date: '2024-03-15', time: '09:05', source: 'time' }],
+      links: [{ url: 'https://example.com/checklist', text: 'checklist' }]
+    });
+  });
+
+  test('should leave parsed fields out unless requested', async () => {
+    const node = await workflowyClient.getNodeById('parsed-node', 'stub-user', 'stub-password', 0, ['id', 'name']);
+
+    expect(node.tags).toBeUndefined();
+    expect(node.plainName).toBeUndefined();
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Tests for the OAuth client registry
+ * Covers registration, redirect URI validation and client authentication, directly and through the worker's OAuth endpoints
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import worker from '../worker.js';
+import { OAuthClientRegistry, RegisteredClient, clientCredentials, validateRedirectUris } from '../utils/oauth-clients.js';
+import { isOAuthFailure } from '../utils/oauth-tokens.js';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { sessionPool } from '../workflowy/session-pool.js';
+
+const REDIRECT_URI = 'https://client.test/callback';
+// PKCE verifier and its S256 challenge from RFC 7636 Appendix B
+const CODE_VERIFIER = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk';
+const CODE_CHALLENGE = 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM';
+
+// Minimal in-memory stand-in for a KV namespace binding
+const fakeKv = () => {
+  const values = new Map<string, string>();
+  return {
+    values,
+    get: async (key: string) => values.get(key) ?? null,
+    put: async (key: string, value: string) => { values.set(key, value); },
+    delete: async (key: string) => { values.delete(key); }
+  };
+};
+
+const form = (fields: Record<string, string>) => new URLSearchParams(fields);
+
+describe('OAuth Client Registry', () => {
+  let registry: OAuthClientRegistry;
+  let kv: ReturnType<typeof fakeKv>;
+
+  beforeEach(() => {
+    registry = new OAuthClientRegistry();
+    kv = fakeKv();
+  });
+
+  test('should reject unsafe redirect URIs', () => {
+    expect(validateRedirectUris([REDIRECT_URI, 'http://localhost:6274/oauth/callback', 'cursor://anysphere.cursor/oauth'])).toBeNull();
+    expect(validateRedirectUris('https://client.test/callback')).toMatchObject({ error: 'invalid_redirect_uri' });
+    expect(validateRedirectUris(['http://client.test/callback'])).toMatchObject({ error: 'invalid_redirect_uri' });
+    expect(validateRedirectUris(['https://client.test/callback#token'])).toMatchObject({ error: 'invalid_redirect_uri' });
+    expect(validateRedirectUris(['javascript:alert(1)'])).toMatchObject({ error: 'invalid_redirect_uri' });
+    expect(validateRedirectUris(['/relative/callback'])).toMatchObject({ error: 'invalid_redirect_uri' });
+  });
+
+  test('should store clients and only reveal a confidential secret once', async () => {
+    const client = await registry.register(kv, { redirect_uris: [REDIRECT_URI], token_endpoint_auth_method: 'client_secret_basic' }) as RegisteredClient;
+    expect(client.client_secret).toBeDefined();
+    expect(kv.values.get(`client:${client.client_id}`)).not.toContain(client.client_secret!);
+
+    expect(await registry.get(kv, client.client_id)).not.toHaveProperty('client_secret_hash');
+    expect(await registry.register(kv, { token_endpoint_auth_method: 'private_key_jwt' })).toMatchObject({ error: 'invalid_client_metadata' });
+
+    expect(registry.resolveRedirectUri(client, REDIRECT_URI)).toBe(REDIRECT_URI);
+    expect(registry.resolveRedirectUri(client, null)).toBe(REDIRECT_URI);
+    expect(registry.resolveRedirectUri(client, 'https://client.test/other')).toBeNull();
+  });
+
+  test('should authenticate confidential and public clients', async () => {
+    const confidential = await registry.register(kv, { redirect_uris: [REDIRECT_URI], token_endpoint_auth_method: 'client_secret_post' }) as RegisteredClient;
+    const publicClient = await registry.register(kv, { redirect_uris: [REDIRECT_URI] }) as RegisteredClient;
+    const basic = `Basic ${btoa(`${confidential.client_id}:${confidential.client_secret}`)}`;
+
+    const viaBasic = clientCredentials(basic, form({}));
+    expect(viaBasic).toMatchObject({ client_id: confidential.client_id, method: 'client_secret_basic' });
+    expect(isOAuthFailure(await registry.authenticate(kv, viaBasic as any))).toBe(false);
+
+    const viaPost = clientCredentials(null, form({ client_id: confidential.client_id, client_secret: confidential.client_secret! }));
+    expect(isOAuthFailure(await registry.authenticate(kv, viaPost as any))).toBe(false);
+    expect(clientCredentials(basic, form({ client_secret: confidential.client_secret! }))).toMatchObject({ error: 'invalid_request' });
+
+    expect(await registry.authenticate(kv, { client_id: confidential.client_id, method: 'none' })).toMatchObject({ error: 'invalid_client' });
+    expect(await registry.authenticate(kv, { client_id: confidential.client_id, client_secret: 'wrong', method: 'client_secret_post' }))
+      .toMatchObject({ error: 'invalid_client' });
+    expect(isOAuthFailure(await registry.authenticate(kv, { client_id: publicClient.client_id, method: 'none' }))).toBe(false);
+    expect(await registry.authenticate(kv, { client_id: 'never-registered', method: 'none' })).toMatchObject({ error: 'invalid_client' });
+
+    await registry.revoke(kv, publicClient.client_id);
+    expect(await registry.authenticate(kv, { client_id: publicClient.client_id, method: 'none' })).toMatchObject({ error: 'unauthorized_client' });
+  });
+});
+
+describe('Worker OAuth Client Endpoints', () => {
+  let stub: WorkflowyApiStub;
+  let env: Record<string, any>;
+
+  const post = (path: string, fields: Record<string, string>, headers: Record<string, string> = {}) =>
+    worker.fetch(new Request(`https://worker.test${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...headers },
+      body: form(fields).toString()
+    }), env);
+
+  const register = async (body: Record<string, unknown>) => (await worker.fetch(new Request('https://worker.test/oauth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  }), env)).json() as Promise<any>;
+
+  const authorize = async (clientId: string, redirectUri: string = REDIRECT_URI, pkce: Record<string, string> = { code_challenge: CODE_CHALLENGE, code_challenge_method: 'S256' }) => {
+    const response = await post('/oauth/authorize', {
+      client_id: clientId, redirect_uri: redirectUri, scope: 'workflowy:read', ...pkce,
+      workflowy_username: 'stub-user', workflowy_password: 'stub-password'
+    });
+    return response.status === 302 ? new URL(response.headers.get('Location')!).searchParams.get('code')! : response;
+  };
+
+  beforeEach(() => {
+    stub = new WorkflowyApiStub();
+    stub.start();
+    sessionPool.clear();
+    env = { ENVIRONMENT: 'preview', OAUTH_KV: fakeKv(), CREDENTIAL_VAULT_KEY: 'test-vault-key' };
+  });
+
+  afterEach(() => {
+    stub.stop();
+  });
+
+  test('should only authorize registered clients and redirect URIs', async () => {
+    expect((await register({ redirect_uris: ['http://client.test/callback'] })).error).toBe('invalid_redirect_uri');
+    const client = await register({ client_name: 'Test <Client>', redirect_uris: [REDIRECT_URI] });
+
+    const page = await worker.fetch(new Request(`https://worker.test/oauth/authorize?client_id=${client.client_id}&state=%22%3E%3Cscript%3E&code_challenge=${CODE_CHALLENGE}&code_challenge_method=S256`), env);
+    const html = await page.text();
+    expect(page.status).toBe(200);
+    expect(html).toContain(`<strong>Redirect:</strong> ${REDIRECT_URI}`);
+    expect(html).toContain('Test &lt;Client&gt;');
+    expect(html).not.toContain('"><script>');
+
+    const unknown = await worker.fetch(new Request(`https://worker.test/oauth/authorize?client_id=claude-web&redirect_uri=${REDIRECT_URI}`), env);
+    expect(unknown.status).toBe(400);
+    expect(unknown.headers.get('Location')).toBeNull();
+    expect(((await authorize(client.client_id, 'https://attacker.test/callback')) as Response).status).toBe(400);
+  });
+
+  test('should require the redirect URI used at authorization when exchanging the code', async () => {
+    const client = await register({ redirect_uris: [REDIRECT_URI, 'https://client.test/other'] });
+    const code = await authorize(client.client_id) as string;
+
+    const mismatched = await post('/oauth/token', {
+      grant_type: 'authorization_code', code, redirect_uri: 'https://client.test/other', client_id: client.client_id, code_verifier: CODE_VERIFIER
+    });
+    expect(await mismatched.json()).toMatchObject({ error: 'invalid_grant' });
+
+    const code2 = await authorize(client.client_id) as string;
+    const exchanged = await post('/oauth/token', {
+      grant_type: 'authorization_code', code: code2, redirect_uri: REDIRECT_URI, client_id: client.client_id, code_verifier: CODE_VERIFIER
+    });
+    expect(exchanged.status).toBe(200);
+  });
+
+  test('should let clients leave out the redirect URI at authorization and token exchange', async () => {
+    const client = await register({ redirect_uris: [REDIRECT_URI] });
+    const query = `client_id=${client.client_id}&code_challenge=${CODE_CHALLENGE}&code_challenge_method=S256`;
+
+    expect(await (await worker.fetch(new Request(`https://worker.test/oauth/authorize?${query}`), env)).text()).not.toContain('name="redirect_uri"');
+    expect(await (await worker.fetch(new Request(`https://worker.test/oauth/authorize?${query}&redirect_uri=${REDIRECT_URI}`), env)).text())
+      .toContain(`name="redirect_uri" value="${REDIRECT_URI}"`);
+
+    const authorized = await post('/oauth/authorize', {
+      client_id: client.client_id, scope: 'workflowy:read', code_challenge: CODE_CHALLENGE, code_challenge_method: 'S256',
+      workflowy_username: 'stub-user', workflowy_password: 'stub-password'
+    });
+    expect(authorized.headers.get('Location')).toStartWith(REDIRECT_URI);
+    const code = new URL(authorized.headers.get('Location')!).searchParams.get('code')!;
+
+    const exchanged = await post('/oauth/token', { grant_type: 'authorization_code', code, client_id: client.client_id, code_verifier: CODE_VERIFIER });
+    expect(exchanged.status).toBe(200);
+
+    // Once sent at authorization, the redirect URI is required at the token endpoint
+    const code2 = await authorize(client.client_id) as string;
+    const withoutUri = await post('/oauth/token', { grant_type: 'authorization_code', code: code2, client_id: client.client_id, code_verifier: CODE_VERIFIER });
+    expect(await withoutUri.json()).toMatchObject({ error: 'invalid_grant' });
+  });
+
+  test('should require PKCE from public clients', async () => {
+    const client = await register({ redirect_uris: [REDIRECT_URI] });
+
+    const page = await worker.fetch(new Request(`https://worker.test/oauth/authorize?client_id=${client.client_id}`), env);
+    expect(page.status).toBe(400);
+    expect(await page.text()).toContain('code_challenge');
+    expect(((await authorize(client.client_id, REDIRECT_URI, {})) as Response).status).toBe(400);
+    expect(((await authorize(client.client_id, REDIRECT_URI, { code_challenge: CODE_VERIFIER, code_challenge_method: 'plain' })) as Response).status).toBe(400);
+
+    const code = await authorize(client.client_id) as string;
+    const exchange = (fields: Record<string, string>) =>
+      post('/oauth/token', { grant_type: 'authorization_code', code, redirect_uri: REDIRECT_URI, client_id: client.client_id, ...fields });
+    expect(await (await exchange({})).json()).toMatchObject({ error: 'invalid_grant' });
+    expect(await (await exchange({ code_verifier: 'not-the-verifier' })).json()).toMatchObject({ error: 'invalid_grant' });
+    expect((await exchange({ code_verifier: CODE_VERIFIER })).status).toBe(200);
+  });
+
+  test('should authenticate confidential clients on the token endpoint', async () => {
+    const client = await register({ redirect_uris: [REDIRECT_URI], token_endpoint_auth_method: 'client_secret_basic' });
+    expect(client.client_secret).toBeDefined();
+    expect(client.client_secret_expires_at).toBe(0);
+
+    const metadata = await (await worker.fetch(new Request('https://worker.test/.well-known/oauth-authorization-server'), env)).json() as any;
+    expect(metadata.token_endpoint_auth_methods_supported).toEqual(['none', 'client_secret_basic', 'client_secret_post']);
+
+    // Confidential clients prove themselves with their secret; PKCE is optional for them
+    const code = await authorize(client.client_id, REDIRECT_URI, {}) as string;
+    const unauthenticated = await post('/oauth/token', { grant_type: 'authorization_code', code, redirect_uri: REDIRECT_URI, client_id: client.client_id });
+    expect(unauthenticated.status).toBe(401);
+    expect(await unauthenticated.json()).toMatchObject({ error: 'invalid_client' });
+
+    const wrongSecret = await post('/oauth/token', { grant_type: 'authorization_code', code, redirect_uri: REDIRECT_URI },
+      { Authorization: `Basic ${btoa(`${client.client_id}:wrong`)}` });
+    expect(wrongSecret.status).toBe(401);
+    expect(wrongSecret.headers.get('WWW-Authenticate')).toContain('Basic');
+
+    const basic = await post('/oauth/token', { grant_type: 'authorization_code', code, redirect_uri: REDIRECT_URI },
+      { Authorization: `Basic ${btoa(`${client.client_id}:${client.client_secret}`)}` });
+    const tokens = await basic.json() as any;
+    expect(basic.status).toBe(200);
+
+    const refreshed = await post('/oauth/token', {
+      grant_type: 'refresh_token', refresh_token: tokens.refresh_token, client_id: client.client_id, client_secret: client.client_secret
+    });
+    expect(refreshed.status).toBe(200);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for OAuth refresh token rotation, revocation (RFC 7009) and introspection (RFC 7662)
+ * Covers the token store directly and the worker's /oauth/token, /oauth/revoke and /oauth/introspect endpoints
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import worker from '../worker.js';
+import { OAuthTokenStore, TokenResponse, isOAuthFailure } from '../utils/oauth-tokens.js';
+import { oauthClients, RegisteredClient } from '../utils/oauth-clients.js';
+
+const grant = {
+  client_id: 'claude-web',
+  scope: 'workflowy:read workflowy:write',
+  workflowy_username: 'stub-user',
+  credentials: 'v1.sealed.credentials'
+};
+
+// Minimal in-memory stand-in for a KV namespace binding
+const fakeKv = () => {
+  const values = new Map<string, string>();
+  return {
+    values,
+    get: async (key: string) => values.get(key) ?? null,
+    put: async (key: string, value: string) => { values.set(key, value); },
+    delete: async (key: string) => { values.delete(key); }
+  };
+};
+
+describe('OAuth Token Store', () => {
+  let store: OAuthTokenStore;
+  let kv: ReturnType<typeof fakeKv>;
+
+  beforeEach(() => {
+    store = new OAuthTokenStore();
+    kv = fakeKv();
+  });
+
+  test('should rotate refresh tokens and retire the previous access token', async () => {
+    const first = await store.issue(kv, grant);
+    expect(first.refresh_token).toMatch(/^oauth_refresh_[0-9a-f]{48}$/);
+
+    const second = await store.refresh(kv, first.refresh_token, 'claude-web') as TokenResponse;
+    expect(isOAuthFailure(second)).toBe(false);
+    expect(second.refresh_token).not.toBe(first.refresh_token);
+    expect(kv.values.has(`token:${first.access_token}`)).toBe(false);
+    expect(JSON.parse(kv.values.get(`token:${second.access_token}`)!)).toMatchObject({ workflowy_username: 'stub-user' });
+  });
+
+  test('should revoke the whole grant when a rotated refresh token is reused', async () => {
+    const first = await store.issue(kv, grant);
+    const second = await store.refresh(kv, first.refresh_token, 'claude-web') as TokenResponse;
+
+    expect(await store.refresh(kv, first.refresh_token, 'claude-web')).toMatchObject({ error: 'invalid_grant' });
+    expect(kv.values.has(`token:${second.access_token}`)).toBe(false);
+    expect(await store.refresh(kv, second.refresh_token, 'claude-web')).toMatchObject({ error: 'invalid_grant' });
+  });
+
+  test('should reject other clients and only allow narrowing the scope', async () => {
+    const issued = await store.issue(kv, { ...grant, scope: 'workflowy:read' });
+
+    expect(await store.refresh(kv, issued.refresh_token, 'someone-else')).toMatchObject({ error: 'invalid_grant' });
+    expect(await store.refresh(kv, issued.refresh_token, 'claude-web', 'workflowy:write')).toMatchObject({ error: 'invalid_scope' });
+
+    const full = await store.issue(kv, grant);
+    const narrowed = await store.refresh(kv, full.refresh_token, 'claude-web', 'workflowy:read') as TokenResponse;
+    expect(narrowed.scope).toBe('workflowy:read');
+
+    // The refresh token keeps the original scope, so the next refresh may widen back to it
+    expect(await store.refresh(kv, narrowed.refresh_token, 'claude-web')).toMatchObject({ scope: grant.scope });
+  });
+
+  test('should revoke access tokens alone and refresh tokens with their grant', async () => {
+    const first = await store.issue(kv, grant);
+    expect(await store.revoke(kv, first.access_token)).toBeNull();
+    expect(kv.values.has(`token:${first.access_token}`)).toBe(false);
+    expect(kv.values.has(`refresh:${first.refresh_token}`)).toBe(true);
+
+    const second = await store.issue(kv, grant);
+    expect(await store.revoke(kv, second.refresh_token, 'refresh_token')).toBeNull();
+    expect(kv.values.has(`token:${second.access_token}`)).toBe(false);
+
+    expect(await store.revoke(kv, 'oauth_access_unknown')).toBeNull();
+    expect(await store.revoke(kv, first.refresh_token, 'id_token')).toMatchObject({ error: 'unsupported_token_type' });
+    expect(await store.revoke(kv, first.refresh_token, undefined, 'someone-else')).toMatchObject({ error: 'unauthorized_client' });
+  });
+
+  test('should introspect active tokens without exposing credentials', async () => {
+    const issued = await store.issue(kv, grant);
+    const introspection = await store.introspect(kv, issued.access_token);
+
+    expect(introspection).toMatchObject({ active: true, client_id: 'claude-web', username: 'stub-user', token_type: 'Bearer', scope: grant.scope });
+    expect(introspection.exp! - introspection.iat!).toBe(3600);
+    expect(JSON.stringify(introspection)).not.toContain('stub-password');
+    expect(await store.introspect(kv, issued.refresh_token)).toMatchObject({ active: true, token_type: 'refresh_token' });
+
+    await store.refresh(kv, issued.refresh_token, 'claude-web');
+    expect(await store.introspect(kv, issued.refresh_token)).toEqual({ active: false });
+    expect(await store.introspect(kv, 'oauth_access_unknown')).toEqual({ active: false });
+  });
+});
+
+describe('Worker OAuth Endpoints', () => {
+  let env: { ENVIRONMENT: string; OAUTH_KV: ReturnType<typeof fakeKv>; CREDENTIAL_VAULT_KEY: string };
+  let clientId: string;
+
+  const post = (path: string, form: Record<string, string>, headers: Record<string, string> = {}) =>
+    worker.fetch(new Request(`https://worker.test${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...headers },
+      body: new URLSearchParams(form).toString()
+    }), env);
+
+  const authorize = async () => {
+    await env.OAUTH_KV.put('auth:test-code', JSON.stringify({
+      client_id: clientId, redirect_uri: 'https://claude.test/callback', scope: grant.scope,
+      workflowy_username: 'stub-user', workflowy_password: 'stub-password', expires_at: Date.now() + 60000
+    }));
+    const response = await post('/oauth/token', {
+      grant_type: 'authorization_code', code: 'test-code', redirect_uri: 'https://claude.test/callback', client_id: clientId
+    });
+    return response.json() as Promise<TokenResponse>;
+  };
+
+  beforeEach(async () => {
+    env = { ENVIRONMENT: 'preview', OAUTH_KV: fakeKv(), CREDENTIAL_VAULT_KEY: 'test-vault-key' };
+    clientId = (await oauthClients.register(env.OAUTH_KV, { redirect_uris: ['https://claude.test/callback'] }) as RegisteredClient).client_id;
+  });
+
+  test('should return a refresh token from the code exchange and rotate it', async () => {
+    const tokens = await authorize();
+    expect(tokens).toMatchObject({ token_type: 'Bearer', expires_in: 3600, scope: grant.scope });
+
+    const response = await post('/oauth/token', { grant_type: 'refresh_token', refresh_token: tokens.refresh_token, client_id: clientId });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+    expect((await response.json() as TokenResponse).refresh_token).not.toBe(tokens.refresh_token);
+
+    const replay = await post('/oauth/token', { grant_type: 'refresh_token', refresh_token: tokens.refresh_token, client_id: clientId });
+    expect(replay.status).toBe(400);
+    expect(await replay.json()).toMatchObject({ error: 'invalid_grant' });
+  });
+
+  test('should revoke tokens and report them inactive', async () => {
+    const tokens = await authorize();
+    const introspect = () => post('/oauth/introspect', { token: tokens.access_token }, { Authorization: 'Bearer test-key' });
+
+    expect(await (await introspect()).json()).toMatchObject({ active: true, client_id: clientId });
+
+    expect((await post('/oauth/revoke', { token: tokens.refresh_token, token_type_hint: 'refresh_token' })).status).toBe(200);
+    expect(await (await introspect()).json()).toEqual({ active: false });
+    expect((await post('/oauth/revoke', { token: 'never-issued' })).status).toBe(200);
+  });
+
+  test('should require an API key to introspect', async () => {
+    const tokens = await authorize();
+    const production = { ...env, ENVIRONMENT: 'production', ALLOWED_API_KEYS: 'introspection-key' };
+    const introspect = (authorization?: string) => worker.fetch(new Request('https://worker.test/oauth/introspect', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...(authorization ? { Authorization: authorization } : {}) },
+      body: new URLSearchParams({ token: tokens.access_token }).toString()
+    }), production);
+
+    expect((await introspect()).status).toBe(401);
+    expect((await introspect('Bearer introspection-key')).status).toBe(200);
+  });
+
+  test('should advertise revocation and introspection endpoints', async () => {
+    for (const path of ['/.well-known/oauth-authorization-server', '/.well-known/oauth-authorization-server/mcp']) {
+      const metadata = await (await worker.fetch(new Request(`https://worker.test${path}`), env)).json() as any;
+      expect(metadata.revocation_endpoint).toBe('https://worker.test/oauth/revoke');
+      expect(metadata.introspection_endpoint).toBe('https://worker.test/oauth/introspect');
+    }
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Tests for the undo journal
+ * Covers journal bookkeeping and undoing each kind of write against a local HTTP stub of the Workflowy API
+ */
+
+import { describe, test, expect, beforeEach, afterEach, setSystemTime } from 'bun:test';
+import { OperationJournal, operationJournal } from '../workflowy/operation-journal.js';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { documentSnapshots } from '../workflowy/document-snapshot.js';
+import { sessionPool } from '../workflowy/session-pool.js';
+import { workflowyClient } from '../workflowy/client.js';
+import { UserStateCore, MemoryUserStateStorage } from '../utils/user-state.js';
+
+const USERNAME = 'stub-user';
+const PASSWORD = 'stub-password';
+
+const childIds = async (parentId: string) =>
+  (await workflowyClient.getChildItems(parentId, USERNAME, PASSWORD, 0, ['id'])).map((node: any) => node.id);
+
+const latestOperation = async () => (await workflowyClient.listRecentOperations(USERNAME, PASSWORD, 1))[0];
+
+describe('Operation Journal', () => {
+  test('should list entries per user, most recent first', async () => {
+    const journal = new OperationJournal();
+    await journal.record('alice', 'createNode', 'first', ['a'], [{ type: 'delete', id: 'a' }]);
+    await journal.record('alice', 'createNode', 'second', ['b'], [{ type: 'delete', id: 'b' }]);
+    await journal.record('bob', 'createNode', 'other', ['c'], [{ type: 'delete', id: 'c' }]);
+
+    expect((await journal.list('alice')).map(entry => entry.summary)).toEqual(['second', 'first']);
+    expect(await journal.list('alice', 1)).toHaveLength(1);
+    expect(journal.getStats()).toMatchObject({ recorded: 3 });
+  });
+
+  test('should skip operations without an inverse and cap entries per user', async () => {
+    const journal = new OperationJournal({ maxEntriesPerUser: 2 });
+    expect(await journal.record('alice', 'toggleComplete', 'no-op', ['a'], [])).toBeUndefined();
+
+    for (const id of ['a', 'b', 'c']) {
+      await journal.record('alice', 'createNode', id, [id], [{ type: 'delete', id }]);
+    }
+
+    expect((await journal.list('alice')).map(entry => entry.summary)).toEqual(['c', 'b']);
+  });
+
+  test('should drop expired entries', async () => {
+    const journal = new OperationJournal({ maxAgeMs: 1000 });
+    const entry = (await journal.record('alice', 'createNode', 'old', ['a'], [{ type: 'delete', id: 'a' }]))!;
+
+    setSystemTime(new Date(Date.now() + 2000));
+    try {
+      expect(await journal.get('alice', entry.id)).toBeUndefined();
+    } finally {
+      setSystemTime();
+    }
+  });
+
+  test('should share entries and undo claims through the user state', async () => {
+    const state = new UserStateCore(new MemoryUserStateStorage());
+    const isolateA = new OperationJournal();
+    const isolateB = new OperationJournal();
+
+    const entry = (await isolateA.run(state, () => isolateA.record('alice', 'deleteNode', 'gone', ['a'], [{ type: 'delete', id: 'a' }])))!;
+    expect(await isolateA.list('alice')).toEqual([]);
+    expect(await isolateB.run(state, () => isolateB.list('alice'))).toEqual([entry]);
+
+    expect(await isolateB.run(state, () => isolateB.claimUndo('alice', entry.id))).toMatchObject({ status: 'claimed', entry: { id: entry.id } });
+    expect(await isolateA.run(state, () => isolateA.claimUndo('alice', entry.id))).toEqual({ status: 'undone' });
+    expect(await isolateA.run(state, () => isolateA.claimUndo('alice', 'missing'))).toEqual({ status: 'not_found' });
+
+    await isolateB.run(state, () => isolateB.releaseUndo('alice', entry.id));
+    expect((await isolateA.run(state, () => isolateA.get('alice', entry.id)))!.undoneAt).toBeUndefined();
+  });
+
+  test('should not fail the write when the journal cannot be stored', async () => {
+    const journal = new OperationJournal();
+    const broken = new UserStateCore(new MemoryUserStateStorage());
+    broken.recordOperation = async () => { throw new Error('User state unavailable'); };
+
+    expect(await journal.run(broken, () => journal.record('alice', 'createNode', 'lost', ['a'], [{ type: 'delete', id: 'a' }]))).toBeUndefined();
+    expect(journal.getStats()).toMatchObject({ recorded: 0, failed: 1 });
+  });
+});
+
+describe('Undo Operations', () => {
+  let stub: WorkflowyApiStub;
+
+  beforeEach(() => {
+    stub = new WorkflowyApiStub();
+    stub.start();
+    sessionPool.clear();
+    documentSnapshots.clear();
+    operationJournal.clear();
+  });
+
+  afterEach(() => {
+    stub.stop();
+  });
+
+  test('should restore a deleted subtree in its old position', async () => {
+    await workflowyClient.deleteNode('child-1-1', USERNAME, PASSWORD);
+    const operation = await latestOperation();
+
+    expect(operation).toMatchObject({ operation: 'deleteNode', summary: 'Deleted "Sprint Planning"', nodeIds: ['child-1-1'], undone: false });
+
+    const result = await workflowyClient.undoOperation(operation.id, USERNAME, PASSWORD);
+    const newId = result.restored![0].newId;
+    const restored = await workflowyClient.getNodeById(newId, USERNAME, PASSWORD, 10, ['name', 'note', 'isCompleted']);
+
+    expect(result.restored).toEqual([{ originalId: 'child-1-1', newId, parentId: 'root-node-1' }]);
+    expect(await childIds('root-node-1')).toEqual([newId, 'child-1-2']);
+    expect(restored).toMatchObject({
+      name: 'Sprint Planning',
+      note: 'Weekly sprint planning tasks',
+      items: [
+        { name: 'Sprint 1 Tasks', items: [{ name: 'User Story 1', isCompleted: true }] },
+        { name: 'Sprint 2 Tasks' }
+      ]
+    });
+  });
+
+  test('should restore batch deletes in sibling order without duplicating nested nodes', async () => {
+    await workflowyClient.batchDeleteNodes(['root-node-2', 'root-node-1', 'child-1-1'], USERNAME, PASSWORD);
+    const result = await workflowyClient.undoOperation((await latestOperation()).id, USERNAME, PASSWORD);
+
+    const rootNames = (await workflowyClient.getRootItems(USERNAME, PASSWORD, 0, ['id', 'name'])).map((node: any) => node.name);
+
+    expect(result.restored!.map(entry => entry.originalId)).toEqual(['root-node-1', 'root-node-2']);
+    expect(rootNames).toEqual(['Project Management', 'Personal Goals', 'Research Projects']);
+
+    const projects = await workflowyClient.getNodeById(result.restored![0].newId, USERNAME, PASSWORD, 1, ['name']);
+    expect(projects.items.map((node: any) => node.name)).toEqual(['Sprint Planning', 'Code Reviews']);
+  });
+
+  test('should revert edits, completion and creates', async () => {
+    await workflowyClient.updateNode('child-1-2', 'Renamed', undefined, USERNAME, PASSWORD);
+    const update = await latestOperation();
+    await workflowyClient.toggleComplete('child-1-2', false, USERNAME, PASSWORD);
+    const toggle = await latestOperation();
+    const createdId = await workflowyClient.createNode('root-node-1', 'Temporary', undefined, USERNAME, PASSWORD);
+    const create = await latestOperation();
+
+    await workflowyClient.undoOperation(create.id, USERNAME, PASSWORD);
+    await workflowyClient.undoOperation(toggle.id, USERNAME, PASSWORD);
+    await workflowyClient.undoOperation(update.id, USERNAME, PASSWORD);
+
+    const node = await workflowyClient.getNodeById('child-1-2', USERNAME, PASSWORD, 0, ['name', 'note', 'isCompleted']);
+    expect(node).toMatchObject({ name: 'Code Reviews', note: 'Pending code reviews', isCompleted: true });
+    expect(await childIds('root-node-1')).not.toContain(createdId);
+  });
+
+  test('should move nodes back to their old parents and positions', async () => {
+    await workflowyClient.batchMoveNodes([
+      { id: 'child-1-1', newParentId: 'root-node-3' },
+      { id: 'child-2-1', newParentId: 'root-node-3', priority: 0 }
+    ], USERNAME, PASSWORD);
+    await workflowyClient.batchUpdateNodes([{ id: 'child-3-1', name: 'Changed', isCompleted: true }], USERNAME, PASSWORD);
+
+    const [update, move] = await workflowyClient.listRecentOperations(USERNAME, PASSWORD);
+    await workflowyClient.undoOperation(update.id, USERNAME, PASSWORD);
+    await workflowyClient.undoOperation(move.id, USERNAME, PASSWORD);
+
+    expect(await childIds('root-node-1')).toEqual(['child-1-1', 'child-1-2']);
+    expect(await childIds('root-node-2')).toEqual(['child-2-1']);
+    expect(await childIds('root-node-3')).toEqual(['child-3-1', 'child-3-2']);
+    expect(await workflowyClient.getNodeById('child-3-1', USERNAME, PASSWORD, 0, ['name', 'isCompleted']))
+      .toMatchObject({ name: 'AI Development', isCompleted: false });
+  });
+
+  test('should skip steps for nodes that no longer exist', async () => {
+    await workflowyClient.updateNode('child-3-2', 'Renamed', undefined, USERNAME, PASSWORD);
+    const update = await latestOperation();
+    await workflowyClient.deleteNode('child-3-2', USERNAME, PASSWORD);
+
+    const result = await workflowyClient.undoOperation(update.id, USERNAME, PASSWORD);
+
+    expect(result.applied).toBe(0);
+    expect(result.skipped).toEqual([{ step: 'edit', id: 'child-3-2', reason: 'Node no longer exists' }]);
+  });
+
+  test('should refuse to undo twice or undo unknown operations', async () => {
+    await workflowyClient.createNode('root-node-1', 'Once', undefined, USERNAME, PASSWORD);
+    const create = await latestOperation();
+    await workflowyClient.undoOperation(create.id, USERNAME, PASSWORD);
+
+    expect((await latestOperation()).undone).toBe(true);
+    await expect(workflowyClient.undoOperation(create.id, USERNAME, PASSWORD)).rejects.toThrow('already undone');
+    await expect(workflowyClient.undoOperation('missing', USERNAME, PASSWORD)).rejects.toThrow('not found');
+  });
+
+  test('should not apply an undo again when the response to its save is lost', async () => {
+    await workflowyClient.deleteNode('child-1-1', USERNAME, PASSWORD);
+    const operation = await latestOperation();
+    const pushedBefore = stub.pushedOperations.length;
+
+    // The library repeats a failed push once; every push of the restore reaches the stub
+    stub.losePushResponses = 2;
+    await expect(workflowyClient.undoOperation(operation.id, USERNAME, PASSWORD)).rejects.toThrow('not confirmed');
+
+    const createdIds = new Set(stub.pushedOperations.slice(pushedBefore).map(pushed => pushed.data.projectid));
+    expect(createdIds.size).toBe(4);
+    expect((await latestOperation()).undone).toBe(true);
+    await expect(workflowyClient.undoOperation(operation.id, USERNAME, PASSWORD)).rejects.toThrow('already undone');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for importing outlines through batchCreateNodes
+ * Runs the importer against a local HTTP stub of the Workflowy API
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { documentSnapshots } from '../workflowy/document-snapshot.js';
+import { sessionPool } from '../workflowy/session-pool.js';
+import { workflowyClient } from '../workflowy/client.js';
+import { outlineImporter } from '../workflowy/outline-import.js';
+import { parseMarkdownOutline, parseOpml, convertToOpml } from '../utils/format-converters.js';
+
+const USERNAME = 'stub-user';
+const PASSWORD = 'stub-password';
+
+const OUTLINE = [
+  '# Launch',
+  '- [ ] Write announcement',
+  '  - Draft',
+  '  - Review',
+  '- [x] Book venue',
+  '# Follow-up'
+].join('\n');
+
+const FIELDS = ['id', 'name', 'isCompleted'];
+
+describe('Outline Import', () => {
+  let stub: WorkflowyApiStub;
+
+  beforeEach(() => {
+    stub = new WorkflowyApiStub();
+    stub.start();
+    sessionPool.clear();
+    documentSnapshots.clear();
+  });
+
+  afterEach(() => {
+    stub.stop();
+  });
+
+  test('should preview a dry run without creating nodes', async () => {
+    const report = await outlineImporter.import(parseMarkdownOutline(OUTLINE), 'markdown', 'root-node-2', { dryRun: true }, USERNAME, PASSWORD);
+
+    expect(report).toMatchObject({ success: true, dryRun: true, nodesParsed: 6, nodesCreated: 0 });
+    expect(report.preview!.split('\n')[2]).toBe('L3        - Draft');
+    expect(stub.countRequests('/push_and_poll')).toBe(0);
+  });
+
+  test('should create the tree in one batch and map source lines to node IDs', async () => {
+    const report = await outlineImporter.import(parseMarkdownOutline(OUTLINE), 'markdown', 'root-node-2', {}, USERNAME, PASSWORD);
+
+    expect(report).toMatchObject({ success: true, nodesCreated: 6, batches: 1 });
+    expect(report.mapping.map(entry => entry.line)).toEqual([1, 2, 3, 4, 5, 6]);
+
+    const launch = await workflowyClient.getNodeById(report.mapping[0].id, USERNAME, PASSWORD, 2, FIELDS);
+    expect(launch).toMatchObject({
+      name: 'Launch',
+      items: [
+        { id: report.mapping[1].id, name: 'Write announcement', isCompleted: false, items: [{ name: 'Draft' }, { name: 'Review' }] },
+        { id: report.mapping[4].id, name: 'Book venue', isCompleted: true }
+      ]
+    });
+
+    const siblings = await workflowyClient.getChildItems('root-node-2', USERNAME, PASSWORD, 0, ['id']);
+    expect(siblings.slice(-2).map((node: any) => node.id)).toEqual([report.mapping[0].id, report.mapping[5].id]);
+  });
+
+  test('should split large subtrees into batches that keep the structure', async () => {
+    const report = await outlineImporter.import(parseMarkdownOutline(OUTLINE), 'markdown', 'root-node-2', { batchSize: 2 }, USERNAME, PASSWORD);
+
+    expect(report).toMatchObject({ success: true, nodesCreated: 6 });
+    expect(report.batches).toBeGreaterThan(1);
+
+    const launch = await workflowyClient.getNodeById(report.mapping[0].id, USERNAME, PASSWORD, 2, ['name']);
+    expect(launch.items.map((node: any) => node.name)).toEqual(['Write announcement', 'Book venue']);
+    expect(launch.items[0].items.map((node: any) => node.name)).toEqual(['Draft', 'Review']);
+  });
+
+  test('should round-trip an OPML export through import', async () => {
+    const fields = ['id', 'name', 'note', 'isCompleted'];
+    const original = await workflowyClient.getNodeById('root-node-1', USERNAME, PASSWORD, 10, fields);
+    const outline = parseOpml(convertToOpml(original));
+
+    const report = await outlineImporter.import(outline, 'opml', 'root-node-2', {}, USERNAME, PASSWORD);
+    const copy = await workflowyClient.getNodeById(report.mapping[0].id, USERNAME, PASSWORD, 10, fields);
+
+    expect(report.nodesCreated).toBe(7);
+    expect(convertToOpml(copy)).toBe(convertToOpml(original));
+  });
+
+  test('should report a missing parent without creating anything', async () => {
+    const report = await outlineImporter.import(parseMarkdownOutline(OUTLINE), 'markdown', 'missing-parent', {}, USERNAME, PASSWORD);
+
+    expect(report).toMatchObject({ success: false, nodesCreated: 0 });
+    expect(report.error).toContain('not found');
+  });
+});
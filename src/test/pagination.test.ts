@@ -0,0 +1,146 @@
+/**
+ * Tests for cursor pagination of list_nodes, get_node_by_id and search_nodes
+ * Covers cursors, page budgets and walking the mock tree page by page
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { PageBudget, encodeCursor, decodeCursor, flattenTree, resumeIndex } from '../workflowy/pagination.js';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { documentSnapshots } from '../workflowy/document-snapshot.js';
+import { sessionPool } from '../workflowy/session-pool.js';
+import { workflowyClient } from '../workflowy/client.js';
+
+const USERNAME = 'stub-user';
+const PASSWORD = 'stub-password';
+
+const tree = [
+  { id: 'a', items: [{ id: 'a1', items: [{ id: 'a1x', items: [] }] }, { id: 'a2', items: [] }] },
+  { id: 'b', items: [] }
+];
+
+const collectIds = (items: any[]): string[] => items.flatMap(item => [item.id, ...collectIds(item.items)]);
+
+describe('Pagination Helpers', () => {
+  test('should round-trip cursors for the same scope only', () => {
+    const cursor = encodeCursor('list:root', { offset: 20, lastId: 'node-19' });
+
+    expect(decodeCursor(cursor, 'list:root')).toEqual({ offset: 20, lastId: 'node-19' });
+    expect(decodeCursor(cursor, 'list:other')).toBeNull();
+    expect(decodeCursor('not-a-cursor', 'list:root')).toBeNull();
+  });
+
+  test('should stop at the page size or token budget but always take one entry', () => {
+    const bySize = new PageBudget({ pageSize: 2 });
+    expect([1, 2, 3].map(entry => bySize.tryAdd(entry))).toEqual([true, true, false]);
+
+    const byTokens = new PageBudget({ maxTokens: 5 });
+    expect(byTokens.tryAdd('x'.repeat(100))).toBe(true);
+    expect(byTokens.tryAdd('y')).toBe(false);
+  });
+
+  test('should flatten trees in document order up to the requested depth', () => {
+    expect(flattenTree(tree, 10).map(entry => entry.node.id)).toEqual(['a', 'a1', 'a1x', 'a2', 'b']);
+    expect(flattenTree(tree, 1).map(entry => [entry.node.id, entry.depth, entry.parentId])).toEqual([
+      ['a', 0, undefined], ['a1', 1, 'a'], ['a2', 1, 'a'], ['b', 0, undefined]
+    ]);
+  });
+
+  test('should resume after the last returned node even when earlier nodes changed', () => {
+    const entries = flattenTree(tree, 10);
+
+    expect(resumeIndex(entries, { offset: 2, lastId: 'a1' })).toBe(2);
+    expect(resumeIndex(entries, { offset: 1, lastId: 'a1x' })).toBe(3);
+    expect(resumeIndex(entries, { offset: 4, lastId: 'gone' })).toBe(4);
+  });
+});
+
+describe('Paged Tree Reads', () => {
+  let stub: WorkflowyApiStub;
+
+  beforeEach(() => {
+    stub = new WorkflowyApiStub();
+    stub.start();
+    sessionPool.clear();
+    documentSnapshots.clear();
+    documentSnapshots.configure({ pollIntervalMs: 2000 });
+  });
+
+  afterEach(() => {
+    stub.stop();
+  });
+
+  test('should walk the whole tree page by page without repeating nodes', async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      const page = await workflowyClient.listNodesPage(undefined, USERNAME, PASSWORD, 10, ['id'], undefined, { cursor, pageSize: 4 });
+      expect(page.totalNodes).toBe(14);
+      seen.push(...collectIds(page.items));
+      cursor = page.nextCursor;
+      pages++;
+    } while (cursor);
+
+    expect(pages).toBe(4);
+    expect(seen).toHaveLength(14);
+    expect(new Set(seen).size).toBe(14);
+    expect(seen.slice(0, 5)).toEqual(['root-node-1', 'child-1-1', 'grandchild-1-1-1', 'great-grandchild-1-1-1-1', 'grandchild-1-1-2']);
+  });
+
+  test('should nest nodes within a page and give continued nodes their parentId', async () => {
+    const first = await workflowyClient.getNodeByIdPage('root-node-1', USERNAME, PASSWORD, 10, ['id'], undefined, { pageSize: 3 });
+
+    expect(first.items).toEqual([
+      { id: 'root-node-1', items: [{ id: 'child-1-1', items: [{ id: 'grandchild-1-1-1', items: [] }] }] }
+    ]);
+
+    const second = await workflowyClient.getNodeByIdPage('root-node-1', USERNAME, PASSWORD, 10, ['id'], undefined, { cursor: first.nextCursor, pageSize: 3 });
+
+    expect(second.items).toEqual([
+      { id: 'great-grandchild-1-1-1-1', parentId: 'grandchild-1-1-1', items: [] },
+      { id: 'grandchild-1-1-2', parentId: 'child-1-1', items: [] },
+      { id: 'child-1-2', parentId: 'root-node-1', items: [] }
+    ]);
+  });
+
+  test('should end pages early to stay within the token budget', async () => {
+    const page = await workflowyClient.listNodesPage('root-node-1', USERNAME, PASSWORD, 10, ['id', 'name', 'note'], undefined, { maxTokens: 60 });
+
+    expect(page.estimatedTokens).toBeLessThanOrEqual(60);
+    expect(collectIds(page.items).length).toBeLessThan(page.totalNodes);
+    expect(page.nextCursor).toBeDefined();
+  });
+
+  test('should continue after the last returned node when nodes are added before it', async () => {
+    documentSnapshots.configure({ pollIntervalMs: 0 });
+    const first = await workflowyClient.listNodesPage(undefined, USERNAME, PASSWORD, 10, ['id'], undefined, { pageSize: 4 });
+
+    stub.addRemoteOperations([
+      { type: 'create', data: { projectid: 'remote-node', parentid: 'root-node-1', priority: 0 } }
+    ]);
+
+    const second = await workflowyClient.listNodesPage(undefined, USERNAME, PASSWORD, 10, ['id'], undefined, { cursor: first.nextCursor, pageSize: 4 });
+
+    expect(second.items[0]).toMatchObject({ id: 'grandchild-1-1-2', parentId: 'child-1-1' });
+  });
+
+  test('should reject cursors issued for different parameters', async () => {
+    const first = await workflowyClient.listNodesPage(undefined, USERNAME, PASSWORD, 10, ['id'], undefined, { pageSize: 4 });
+
+    await expect(workflowyClient.listNodesPage(undefined, USERNAME, PASSWORD, 1, ['id'], undefined, { cursor: first.nextCursor }))
+      .rejects.toThrow('Invalid or expired cursor');
+  });
+
+  test('should page search results by token budget', async () => {
+    const first = await workflowyClient.search('sprint', USERNAME, PASSWORD, 10, 0, undefined, undefined, undefined, 1);
+
+    expect(first.results).toHaveLength(1);
+    expect(first.totalMatches).toBe(3);
+
+    const second = await workflowyClient.search('sprint', USERNAME, PASSWORD, 10, 0, undefined, undefined, first.nextCursor, 1);
+
+    expect(second.results).toHaveLength(1);
+    expect(second.results[0].id).not.toBe(first.results[0].id);
+  });
+});
@@ -3,7 +3,9 @@
  * Covers caching, retry logic, deduplication, and error handling
  */
 
-import { describe, test, expect, jest, beforeEach, afterEach, beforeAll } from 'bun:test';
+import { describe, test, expect, jest, beforeEach, afterEach, beforeAll, afterAll } from 'bun:test';
+
+const realTimers = { setInterval, setTimeout, clearInterval, clearTimeout };
 
 // Mock global objects needed by the utilities
 beforeAll(() => {
@@ -25,6 +27,11 @@ beforeAll(() => {
   global.clearInterval = jest.fn();
   global.clearTimeout = jest.fn();
 });
+
+// Later test files start local servers that need real timers
+afterAll(() => {
+  Object.assign(global, realTimers);
+});
 import { workerCache, CacheConfig } from '../utils/cache.js';
 import { requestDeduplicator } from '../utils/deduplication.js';
 import { retryManager, RetryPresets } from '../utils/retry.js';
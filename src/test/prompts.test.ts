@@ -0,0 +1,122 @@
+/**
+ * Tests for the outline workflow prompts served by prompts/list and prompts/get
+ * Prompts are rendered against the local HTTP stub of the Workflowy API
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import worker from '../worker.js';
+import { workflowyPrompts, completedSince, parseSinceDate } from '../workflowy/prompts.js';
+import { workflowyResources } from '../workflowy/resources.js';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { documentSnapshots } from '../workflowy/document-snapshot.js';
+import { sessionPool } from '../workflowy/session-pool.js';
+import { WorkflowyError } from '../workflowy/client.js';
+
+const USERNAME = 'stub-user';
+const PASSWORD = 'stub-password';
+
+const promptText = async (name: string, args: Record<string, string>) =>
+  (await workflowyPrompts.get(name, args, USERNAME, PASSWORD)).messages[0].content.text;
+
+describe('Prompt Helpers', () => {
+  test('should parse dates and reject invalid ones', () => {
+    expect(parseSinceDate('2025-06-01').toISOString()).toBe('2025-06-01T00:00:00.000Z');
+    expect(parseSinceDate('2025-06-01T12:00:00Z').toISOString()).toBe('2025-06-01T12:00:00.000Z');
+    expect(() => parseSinceDate('last week')).toThrow(WorkflowyError);
+  });
+
+  test('should keep completed items and their ancestors only', () => {
+    const tree = {
+      id: 'p', name: 'Project', items: [
+        { id: 'a', name: 'Old', isCompleted: true, completedAt: '2025-01-01T00:00:00.000Z' },
+        { id: 'b', name: 'Group', items: [{ id: 'c', name: 'New', isCompleted: true, completedAt: '2025-06-02T09:00:00.000Z' }] },
+        { id: 'd', name: 'Open' }
+      ]
+    };
+
+    const pruned = completedSince(tree, new Date('2025-06-01T00:00:00.000Z'))!;
+    expect(pruned.items!.map(item => item.id)).toEqual(['b']);
+    expect(pruned.items![0].items![0].name).toBe('New (completed 2025-06-02)');
+    expect(completedSince(tree, new Date('2026-01-01T00:00:00.000Z'))).toBeNull();
+  });
+});
+
+describe('Outline Prompts', () => {
+  let stub: WorkflowyApiStub;
+
+  beforeEach(() => {
+    stub = new WorkflowyApiStub();
+    stub.start();
+    sessionPool.clear();
+    documentSnapshots.clear();
+  });
+
+  afterEach(() => {
+    workflowyResources.setBookmarks({});
+    stub.stop();
+  });
+
+  test('should list the four prompts with their arguments', () => {
+    const prompts = workflowyPrompts.list();
+
+    expect(prompts.map(prompt => prompt.name)).toEqual(['weekly_review', 'completed_since', 'meeting_action_items', 'triage_inbox']);
+    expect(prompts[1].arguments.map(arg => [arg.name, arg.required])).toEqual([['nodeId', true], ['since', true]]);
+    expect(prompts[3].arguments[0].required).toBe(false);
+  });
+
+  test('should embed the subtree as a Markdown list with node IDs', async () => {
+    const text = await promptText('weekly_review', { nodeId: 'root-node-1' });
+
+    expect(text).toContain('weekly review of "Project Management"');
+    expect(text).toContain('- Project Management [id: root-node-1]');
+    expect(text).toContain('  - Sprint Planning [id: child-1-1]');
+    expect(text).toContain('- [x] Code Reviews [id: child-1-2]');
+  });
+
+  test('should embed only items completed since the date', async () => {
+    const text = await promptText('completed_since', { nodeId: 'root-node-1', since: '2023-01-01' });
+    expect(text).toContain('Code Reviews (completed 2023-11-14)');
+    expect(text).toContain('  - Sprint Planning [id: child-1-1]');
+    expect(text).not.toContain('Sprint 2 Tasks');
+
+    const nothing = await promptText('completed_since', { nodeId: 'root-node-1', since: '2024-01-01' });
+    expect(nothing).toContain('was completed since 2024-01-01');
+  });
+
+  test('should default the inbox to the inbox bookmark', async () => {
+    await expect(workflowyPrompts.get('triage_inbox', {}, USERNAME, PASSWORD)).rejects.toMatchObject({ code: 'INVALID_PROMPT_ARGUMENTS' });
+
+    workflowyResources.setBookmarks({ inbox: 'root-node-2' });
+    const text = await promptText('triage_inbox', {});
+
+    expect(text).toContain('triage my Workflowy inbox "Personal Goals"');
+    // The inbox itself is not offered as a destination
+    expect(text).toContain('- Project Management [id: root-node-1]\n- Research Projects [id: root-node-3]\n');
+  });
+
+  test('should reject unknown prompts and missing arguments', async () => {
+    await expect(workflowyPrompts.get('no_such_prompt')).rejects.toMatchObject({ code: 'UNKNOWN_PROMPT' });
+    await expect(workflowyPrompts.get('completed_since', { nodeId: 'root-node-1' })).rejects.toMatchObject({ code: 'INVALID_PROMPT_ARGUMENTS' });
+  });
+
+  test('should serve prompts over the worker JSON-RPC endpoint', async () => {
+    const rpc = (method: string, params: Record<string, unknown>, headers: Record<string, string> = {}) =>
+      worker.fetch(new Request('https://worker.test/mcp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json', ...headers },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params })
+      }), { ENVIRONMENT: 'preview' }).then(response => response.json() as Promise<any>);
+
+    expect((await rpc('prompts/list', {})).result.prompts).toHaveLength(4);
+
+    const params = { name: 'meeting_action_items', arguments: { nodeId: 'child-1-1' }, workflowy_username: USERNAME, workflowy_password: PASSWORD };
+    expect((await rpc('prompts/get', params)).error.code).toBe(-32600);
+
+    const auth = { 'Authorization': 'Bearer test-key' };
+    const result = (await rpc('prompts/get', params, auth)).result;
+    expect(result.messages[0].role).toBe('user');
+    expect(result.messages[0].content.text).toContain('Sprint Planning [id: child-1-1]');
+
+    expect((await rpc('prompts/get', { ...params, arguments: { nodeId: 'missing' } }, auth)).error.code).toBe(-32602);
+  });
+});
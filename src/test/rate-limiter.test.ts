@@ -0,0 +1,154 @@
+/**
+ * Tests for token-bucket rate limiting on the worker's MCP endpoints
+ * Covers bucket refill, separate read and write budgets, caller identity and the 429 response
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import worker from '../worker.js';
+import { RateLimiter, MemoryRateLimitStore, KvRateLimitStore, rateLimiter, rateLimitIdentity, costsFor } from '../utils/rate-limiter.js';
+
+const policy = { enabled: true, requestsPerMinute: 3, writeRequestsPerMinute: 1 };
+const isWriteTool = (name: string) => name === 'create_node';
+
+// Minimal in-memory stand-in for a KV namespace binding
+const fakeKv = () => {
+  const values = new Map<string, string>();
+  return {
+    values,
+    get: async (key: string) => values.get(key) ?? null,
+    put: async (key: string, value: string) => { values.set(key, value); }
+  };
+};
+
+describe('Token Buckets', () => {
+  let limiter: RateLimiter;
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    limiter = new RateLimiter();
+    store = new MemoryRateLimitStore();
+  });
+
+  test('should classify tool calls and data methods into budgets', () => {
+    expect(costsFor([
+      { method: 'tools/call', params: { name: 'list_nodes' } },
+      { method: 'tools/call', params: { name: 'create_node' } },
+      { method: 'resources/read' },
+      { method: 'tools/list' },
+      { method: 'initialize' }
+    ], isWriteTool)).toEqual({ read: 2, write: 1 });
+  });
+
+  test('should keep read and write budgets separate', async () => {
+    expect((await limiter.consume('client', { write: 1 }, policy, store)).allowed).toBe(true);
+
+    const denied = await limiter.consume('client', { write: 1 }, policy, store);
+    expect(denied).toMatchObject({ allowed: false, bucket: 'write', limit: 1, remaining: 0 });
+    expect(denied.retryAfterSeconds).toBeGreaterThan(55);
+
+    const read = await limiter.consume('client', { read: 2 }, policy, store);
+    expect(read).toMatchObject({ allowed: true, bucket: 'read', limit: 3, remaining: 1 });
+    expect((await limiter.consume('other', { write: 1 }, policy, store)).allowed).toBe(true);
+  });
+
+  test('should refill continuously and reject batches without charging them', async () => {
+    await store.put('client:read', { tokens: 0, updatedAt: Date.now() - 40000 }, 60);
+
+    // 40 seconds at 3 per minute refills 2 tokens
+    const denied = await limiter.consume('client', { read: 3 }, policy, store);
+    expect(denied).toMatchObject({ allowed: false, remaining: 2 });
+    expect(denied.retryAfterSeconds).toBe(20);
+
+    expect((await limiter.consume('client', { read: 2 }, policy, store)).allowed).toBe(true);
+    expect((await store.get('client:read'))!.tokens).toBeCloseTo(0, 1);
+  });
+
+  test('should format rate limit headers', async () => {
+    await limiter.consume('client', { write: 1 }, policy, store);
+    const headers = limiter.headers(await limiter.consume('client', { write: 1 }, policy, store));
+
+    expect(headers).toMatchObject({ 'X-RateLimit-Limit': '1', 'X-RateLimit-Remaining': '0', 'X-RateLimit-Bucket': 'write' });
+    expect(Number(headers['Retry-After'])).toBeGreaterThan(0);
+    expect(headers['X-RateLimit-Reset']).toBe(headers['Retry-After']);
+  });
+
+  test('should store buckets in KV under a ratelimit prefix', async () => {
+    const kv = fakeKv();
+    await limiter.consume('client', { read: 1 }, policy, new KvRateLimitStore(kv));
+
+    expect([...kv.values.keys()]).toEqual(['ratelimit:client:read']);
+    expect(limiter.storeFor({ OAUTH_KV: kv })).toBeInstanceOf(KvRateLimitStore);
+    expect(limiter.storeFor({})).toBeInstanceOf(MemoryRateLimitStore);
+  });
+
+  test('should charge OAuth tokens to their client and API keys to a hash of the key', async () => {
+    const kv = fakeKv();
+    await kv.put('token:oauth_access_abc', JSON.stringify({ client_id: 'claude-desktop' }));
+    const request = (authorization?: string) =>
+      new Request('https://worker.test/mcp', { headers: authorization ? { Authorization: authorization } : {} });
+
+    expect(await rateLimitIdentity(request('Bearer oauth_access_abc'), { OAUTH_KV: kv })).toBe('client:claude-desktop');
+    expect(await rateLimitIdentity(request('Bearer my-api-key'), {})).toMatch(/^key:[0-9a-f]{16}$/);
+    expect(await rateLimitIdentity(request(), {}, [{ params: { authorization_token: 'my-api-key' } }]))
+      .toBe(await rateLimitIdentity(request('Bearer my-api-key'), {}));
+    expect(await rateLimitIdentity(request(), {})).toBe('ip:unknown');
+  });
+});
+
+describe('Worker Rate Limiting', () => {
+  const env = { ENVIRONMENT: 'preview', RATE_LIMIT_WRITE_PER_MINUTE: '2', RATE_LIMIT_READ_PER_MINUTE: '5' };
+  const call = (name: string, authorization: string) =>
+    worker.fetch(new Request('https://worker.test/mcp', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json', 'Authorization': authorization },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: { id: 'missing' } } })
+    }), env);
+
+  beforeEach(() => {
+    rateLimiter.clear();
+  });
+
+  test('should answer 429 with Retry-After once the write budget is spent', async () => {
+    const first = await call('delete_node', 'Bearer rate-limit-writer');
+    expect(first.status).toBe(200);
+    expect(first.headers.get('X-RateLimit-Remaining')).toBe('1');
+    expect(first.headers.get('X-RateLimit-Bucket')).toBe('write');
+
+    await call('delete_node', 'Bearer rate-limit-writer');
+    const limited = await call('delete_node', 'Bearer rate-limit-writer');
+    const body = await limited.json() as any;
+
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(limited.headers.get('X-RateLimit-Limit')).toBe('2');
+    expect(body.error.data).toMatchObject({ bucket: 'write', retryable: true });
+
+    // Reads and other callers are unaffected
+    expect((await call('get_node_by_id', 'Bearer rate-limit-writer')).status).toBe(200);
+    expect((await call('delete_node', 'Bearer another-caller')).status).toBe(200);
+  });
+
+  test('should not charge protocol housekeeping', async () => {
+    for (let i = 0; i < 8; i++) {
+      const response = await worker.fetch(new Request('https://worker.test/mcp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer rate-limit-lister' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: i, method: 'tools/list' })
+      }), env);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('X-RateLimit-Limit')).toBeNull();
+    }
+  });
+
+  test('should be disabled with RATE_LIMIT_ENABLED=false', async () => {
+    const disabled = { ...env, RATE_LIMIT_ENABLED: 'false' };
+    for (let i = 0; i < 3; i++) {
+      const response = await worker.fetch(new Request('https://worker.test/mcp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer rate-limit-disabled' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: i, method: 'tools/call', params: { name: 'delete_node', arguments: { id: 'missing' } } })
+      }), disabled);
+      expect(response.status).toBe(200);
+    }
+  });
+});
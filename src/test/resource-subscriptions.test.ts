@@ -0,0 +1,159 @@
+/**
+ * Tests for resource subscriptions and notifications/resources/updated
+ * Changes are made as remote operations on the Workflowy API stub, then picked up by polling
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import worker from '../worker.js';
+import { ResourceSubscriptions, resourceSubscriptions } from '../workflowy/resource-subscriptions.js';
+import { isModifiedSince } from '../utils/file-cache.js';
+import { mcpSessions } from '../utils/mcp-sessions.js';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { documentSnapshots } from '../workflowy/document-snapshot.js';
+import { sessionPool } from '../workflowy/session-pool.js';
+import { NotFoundError } from '../workflowy/client.js';
+import { registerResources } from '../tools/index.js';
+import { FastMCP } from 'fastmcp';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+const USERNAME = 'stub-user';
+const PASSWORD = 'stub-password';
+
+const post = (body: unknown, headers: Record<string, string> = {}) =>
+  worker.fetch(new Request('https://worker.test/mcp', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  }), { ENVIRONMENT: 'preview' });
+
+describe('Modification Timestamps', () => {
+  test('should only count later timestamps as changes', () => {
+    expect(isModifiedSince('2025-01-01T00:00:00.000Z', '2025-01-01T00:00:01.000Z')).toBe(true);
+    expect(isModifiedSince('2025-01-01T00:00:01.000Z', '2025-01-01T00:00:01.000Z')).toBe(false);
+    expect(isModifiedSince('2025-01-01T00:00:01.000Z', '2025-01-01T00:00:00.000Z')).toBe(false);
+    expect(isModifiedSince(undefined, '2025-01-01T00:00:00.000Z')).toBe(false);
+  });
+});
+
+describe('Stdio Subscription Capability', () => {
+  test('should advertise resource subscriptions in the initialize result', async () => {
+    registerResources(new FastMCP({ name: 'workflowy', version: '0.0.0' }));
+
+    // FastMCP sessions build their server with a bare resources capability like this one
+    const server = new Server({ name: 'workflowy', version: '0.0.0' }, { capabilities: { resources: {} } });
+    const client = new Client({ name: 'test', version: '0.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    expect(client.getServerCapabilities()?.resources).toEqual({ subscribe: true });
+    await client.close();
+  });
+});
+
+describe('Resource Subscriptions', () => {
+  let stub: WorkflowyApiStub;
+  let subscriptions: ResourceSubscriptions;
+  let pollIntervalMs: number;
+
+  beforeEach(() => {
+    stub = new WorkflowyApiStub();
+    stub.start();
+    sessionPool.clear();
+    documentSnapshots.clear();
+    pollIntervalMs = documentSnapshots.pollIntervalMs;
+    documentSnapshots.configure({ pollIntervalMs: 0 });
+    subscriptions = new ResourceSubscriptions();
+  });
+
+  afterEach(() => {
+    documentSnapshots.configure({ pollIntervalMs: pollIntervalMs });
+    resourceSubscriptions.clear();
+    mcpSessions.clear();
+    stub.stop();
+  });
+
+  test('should notify once when a node in the subscribed subtree changes', async () => {
+    const notified: string[] = [];
+    await subscriptions.subscribe('client', 'workflowy://node/child-1-1', uri => { notified.push(uri); }, USERNAME, PASSWORD);
+    await subscriptions.subscribe('client', 'workflowy://node/root-node-2', uri => { notified.push(uri); }, USERNAME, PASSWORD);
+
+    expect(await subscriptions.check()).toEqual([]);
+
+    stub.addRemoteOperations([
+      { type: 'edit', data: { projectid: 'great-grandchild-1-1-1-1', name: 'Edited on phone' }, client_timestamp: 5000 }
+    ]);
+
+    expect(await subscriptions.check()).toEqual(['workflowy://node/child-1-1']);
+    expect(notified).toEqual(['workflowy://node/child-1-1']);
+    expect(await subscriptions.check()).toEqual([]);
+  });
+
+  test('should notify and drop subscriptions to deleted nodes', async () => {
+    const notified: string[] = [];
+    await subscriptions.subscribe('client', 'workflowy://node/child-3-1', uri => { notified.push(uri); }, USERNAME, PASSWORD);
+
+    stub.addRemoteOperations([{ type: 'delete', data: { projectid: 'child-3-1' } }]);
+
+    expect(await subscriptions.check()).toEqual(['workflowy://node/child-3-1']);
+    expect(subscriptions.size).toBe(0);
+  });
+
+  test('should notify when descendants are deleted or moved out of the subtree', async () => {
+    const notified: string[] = [];
+    await subscriptions.subscribe('client', 'workflowy://node/child-1-1', uri => { notified.push(uri); }, USERNAME, PASSWORD);
+
+    stub.addRemoteOperations([{ type: 'delete', data: { projectid: 'grandchild-1-1-2' } }]);
+    expect(await subscriptions.check()).toEqual(['workflowy://node/child-1-1']);
+    expect(await subscriptions.check()).toEqual([]);
+
+    stub.addRemoteOperations([{ type: 'move', data: { projectid: 'great-grandchild-1-1-1-1', parentid: 'root-node-2', priority: 0 } }]);
+    expect(await subscriptions.check()).toEqual(['workflowy://node/child-1-1']);
+    expect(notified).toEqual(['workflowy://node/child-1-1', 'workflowy://node/child-1-1']);
+  });
+
+  test('should reject unknown resources and scope unsubscribe to the subscriber', async () => {
+    await expect(subscriptions.subscribe('client', 'workflowy://node/missing', () => {}, USERNAME, PASSWORD)).rejects.toBeInstanceOf(NotFoundError);
+
+    await subscriptions.subscribe('a', 'workflowy://node/child-1-1', () => {}, USERNAME, PASSWORD);
+    await subscriptions.subscribe('b', 'workflowy://node/child-1-1', () => {}, USERNAME, PASSWORD);
+    expect(subscriptions.unsubscribe('a', 'workflowy://node/child-1-1')).toBe(true);
+    expect(subscriptions.list('b')).toEqual(['workflowy://node/child-1-1']);
+    expect(subscriptions.unsubscribeAll('b')).toBe(1);
+  });
+
+  test('should push updates on the worker session stream', async () => {
+    const auth = { 'Authorization': 'Bearer test-key' };
+    const initialize = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26', capabilities: {} } }, auth);
+    const sessionId = initialize.headers.get('Mcp-Session-Id')!;
+    expect(((await initialize.json()) as any).result.capabilities.resources.subscribe).toBe(true);
+
+    const params = { uri: 'workflowy://node/child-1-1', workflowy_username: USERNAME, workflowy_password: PASSWORD };
+    const withoutSession = await post({ jsonrpc: '2.0', id: 2, method: 'resources/subscribe', params }, auth);
+    expect(((await withoutSession.json()) as any).error.code).toBe(-32600);
+
+    const subscribed = await post({ jsonrpc: '2.0', id: 3, method: 'resources/subscribe', params }, { ...auth, 'Mcp-Session-Id': sessionId });
+    expect(((await subscribed.json()) as any).result).toEqual({});
+
+    const stream = await worker.fetch(new Request('https://worker.test/mcp', {
+      method: 'GET',
+      headers: { ...auth, 'Accept': 'text/event-stream', 'Mcp-Session-Id': sessionId }
+    }), { ENVIRONMENT: 'preview' });
+    const reader = stream.body!.getReader();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    stub.addRemoteOperations([{ type: 'edit', data: { projectid: 'grandchild-1-1-2', name: 'Renamed' }, client_timestamp: 5000 }]);
+    const checked = resourceSubscriptions.check(sessionId);
+    const { value } = await reader.read();
+
+    expect(await checked).toEqual(['workflowy://node/child-1-1']);
+    expect(new TextDecoder().decode(value)).toContain('"method":"notifications/resources/updated","params":{"uri":"workflowy://node/child-1-1"}');
+    await reader.cancel();
+
+    // Ending the session drops its subscriptions
+    await worker.fetch(new Request('https://worker.test/mcp', { method: 'DELETE', headers: { ...auth, 'Mcp-Session-Id': sessionId } }), { ENVIRONMENT: 'preview' });
+    expect(resourceSubscriptions.list(sessionId)).toEqual([]);
+  });
+});
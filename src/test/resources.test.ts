@@ -0,0 +1,113 @@
+/**
+ * Tests for workflowy:// MCP resources
+ * Covers URI parsing, reading nodes and bookmarks as Markdown, and the worker's resources/* methods
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import worker from '../worker.js';
+import { WorkflowyResources, workflowyResources, parseResourceUri, nodeUri, bookmarkUri } from '../workflowy/resources.js';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { documentSnapshots } from '../workflowy/document-snapshot.js';
+import { sessionPool } from '../workflowy/session-pool.js';
+import { NotFoundError } from '../workflowy/client.js';
+
+const USERNAME = 'stub-user';
+const PASSWORD = 'stub-password';
+
+const rpc = (method: string, params: Record<string, unknown> = {}, headers: Record<string, string> = {}) =>
+  worker.fetch(new Request('https://worker.test/mcp', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'application/json', ...headers },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params })
+  }), { ENVIRONMENT: 'preview' }).then(response => response.json() as Promise<any>);
+
+describe('Resource URIs', () => {
+  test('should parse node and bookmark URIs', () => {
+    expect(parseResourceUri('workflowy://node/child-1-1')).toEqual({ type: 'node', id: 'child-1-1' });
+    expect(parseResourceUri(bookmarkUri('Weekly review'))).toEqual({ type: 'bookmark', name: 'Weekly review' });
+    expect(nodeUri('a/b')).toBe('workflowy://node/a%2Fb');
+  });
+
+  test('should reject URIs this server does not serve', () => {
+    expect(parseResourceUri('workflowy://node/')).toBeNull();
+    expect(parseResourceUri('workflowy://folder/abc')).toBeNull();
+    expect(parseResourceUri('https://workflowy.com/#/abc')).toBeNull();
+    expect(parseResourceUri('workflowy://node/%E0%A4%A')).toBeNull();
+  });
+
+  test('should read bookmarks from the environment', () => {
+    const resources = new WorkflowyResources();
+    resources.configureFromEnv({ WORKFLOWY_BOOKMARKS: 'inbox=root-node-2, sprint = child-1-1,broken' });
+
+    expect(resources.getBookmarks()).toEqual({ inbox: 'root-node-2', sprint: 'child-1-1' });
+    expect(resources.templates()[1].description).toContain('inbox, sprint');
+  });
+});
+
+describe('Resource Reads', () => {
+  let stub: WorkflowyApiStub;
+
+  beforeEach(() => {
+    stub = new WorkflowyApiStub();
+    stub.start();
+    sessionPool.clear();
+    documentSnapshots.clear();
+    workflowyResources.setBookmarks({ sprint: 'child-1-1', missing: 'no-such-node' });
+  });
+
+  afterEach(() => {
+    workflowyResources.setBookmarks({});
+    stub.stop();
+  });
+
+  test('should render a node subtree as Markdown', async () => {
+    const contents = await workflowyResources.read('workflowy://node/root-node-1', USERNAME, PASSWORD);
+
+    expect(contents.mimeType).toBe('text/markdown');
+    expect(contents.uri).toBe('workflowy://node/root-node-1');
+    expect(contents.text).toContain('Project Management');
+    expect(contents.text).toContain('Sprint Planning');
+  });
+
+  test('should resolve bookmarks to their node', async () => {
+    const contents = await workflowyResources.read(bookmarkUri('sprint'), USERNAME, PASSWORD);
+
+    expect(contents.text).toContain('Sprint Planning');
+    expect(contents.text).toContain('Weekly sprint planning tasks');
+    await expect(workflowyResources.read(bookmarkUri('unknown'), USERNAME, PASSWORD)).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  test('should list bookmarks before the top-level nodes', async () => {
+    const resources = await workflowyResources.list(USERNAME, PASSWORD);
+
+    expect(resources.map(resource => resource.uri)).toEqual([
+      'workflowy://bookmark/sprint',
+      'workflowy://bookmark/missing',
+      'workflowy://node/root-node-1',
+      'workflowy://node/root-node-2',
+      'workflowy://node/root-node-3'
+    ]);
+    expect(resources[2].name).toBe('Project Management');
+  });
+
+  test('should serve resources over the worker JSON-RPC endpoint', async () => {
+    const templates = await rpc('resources/templates/list');
+    expect(templates.result.resourceTemplates.map((t: any) => t.uriTemplate)).toEqual([
+      'workflowy://node/{id}',
+      'workflowy://bookmark/{name}'
+    ]);
+
+    const unauthenticated = await rpc('resources/read', { uri: 'workflowy://node/child-3-1' });
+    expect(unauthenticated.error.code).toBe(-32600);
+
+    const auth = { 'Authorization': 'Bearer test-key' };
+    const credentials = { workflowy_username: USERNAME, workflowy_password: PASSWORD };
+
+    const read = await rpc('resources/read', { uri: 'workflowy://node/child-3-1', ...credentials }, auth);
+    expect(read.result.contents[0]).toMatchObject({ uri: 'workflowy://node/child-3-1', mimeType: 'text/markdown' });
+    expect(read.result.contents[0].text).toContain('AI Development');
+
+    expect((await rpc('resources/read', { uri: bookmarkUri('missing'), ...credentials }, auth)).error.code).toBe(-32002);
+    expect((await rpc('resources/read', { uri: 'workflowy://folder/x', ...credentials }, auth)).error.code).toBe(-32602);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Tests for the search_nodes query language
+ * Covers parsing, boolean matching, filters, ranking and paged client search
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { SearchQuery, SearchCandidate, parseSearchQuery } from '../workflowy/search-query.js';
+import { encodeCursor } from '../workflowy/pagination.js';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { documentSnapshots } from '../workflowy/document-snapshot.js';
+import { sessionPool } from '../workflowy/session-pool.js';
+import { workflowyClient } from '../workflowy/client.js';
+
+const NOW = Date.parse('2025-06-15T12:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+const candidate = (overrides: Partial<SearchCandidate>): SearchCandidate => ({
+  id: 'node',
+  name: '',
+  note: '',
+  isCompleted: false,
+  hasAttachment: false,
+  lastModifiedAt: new Date(NOW - DAY),
+  ancestorIds: [],
+  ...overrides
+});
+
+const matches = (query: string, node: SearchCandidate) => new SearchQuery(query, NOW).matches(node);
+
+describe('Search Query Parsing', () => {
+  test('should combine terms with implicit AND and explicit OR', () => {
+    expect(parseSearchQuery('budget report OR invoice', NOW)).toEqual({
+      type: 'or',
+      children: [
+        {
+          type: 'and',
+          children: [
+            { type: 'text', field: 'any', value: 'budget', phrase: false },
+            { type: 'text', field: 'any', value: 'report', phrase: false }
+          ]
+        },
+        { type: 'text', field: 'any', value: 'invoice', phrase: false }
+      ]
+    });
+  });
+
+  test('should parse phrases, field scopes, negation and grouping', () => {
+    expect(parseSearchQuery('name:"weekly review" -(draft OR wip)', NOW)).toEqual({
+      type: 'and',
+      children: [
+        { type: 'text', field: 'name', value: 'weekly review', phrase: true },
+        {
+          type: 'not',
+          child: {
+            type: 'or',
+            children: [
+              { type: 'text', field: 'any', value: 'draft', phrase: false },
+              { type: 'text', field: 'any', value: 'wip', phrase: false }
+            ]
+          }
+        }
+      ]
+    });
+  });
+
+  test('should parse changed: durations and dates as points in time', () => {
+    expect(parseSearchQuery('changed:>7d', NOW)).toEqual({ type: 'changed', after: true, time: NOW - 7 * DAY });
+    expect(parseSearchQuery('changed:<2024-01-31', NOW)).toEqual({ type: 'changed', after: false, time: Date.parse('2024-01-31T00:00:00Z') });
+  });
+
+  test('should reject malformed queries with a helpful message', () => {
+    expect(() => parseSearchQuery('(budget', NOW)).toThrow('Missing closing parenthesis');
+    expect(() => parseSearchQuery('is:someday', NOW)).toThrow('is:completed or is:open');
+    expect(() => parseSearchQuery('changed:>soon', NOW)).toThrow('Invalid changed: value');
+    expect(() => parseSearchQuery('budget OR', NOW)).toThrow('Expected a search term');
+  });
+});
+
+describe('Search Query Matching', () => {
+  test('should search names and notes, ignoring case and HTML', () => {
+    const node = candidate({ name: '<b>Quarterly</b> Budget', note: 'Send the report to finance' });
+
+    expect(matches('budget', node)).toBe(true);
+    expect(matches('REPORT', node)).toBe(true);
+    expect(matches('quarterly budget', node)).toBe(true);
+    expect(matches('budget invoice', node)).toBe(false);
+    expect(matches('budget OR invoice', node)).toBe(true);
+  });
+
+  test('should scope terms to the name or note', () => {
+    const node = candidate({ name: 'Budget', note: 'report' });
+
+    expect(matches('name:budget', node)).toBe(true);
+    expect(matches('name:report', node)).toBe(false);
+    expect(matches('note:report', node)).toBe(true);
+  });
+
+  test('should require the exact phrase for quoted terms', () => {
+    const node = candidate({ name: 'Weekly team review' });
+
+    expect(matches('weekly review', node)).toBe(true);
+    expect(matches('"weekly review"', node)).toBe(false);
+    expect(matches('"team review"', node)).toBe(true);
+  });
+
+  test('should exclude nodes with NOT and minus', () => {
+    const node = candidate({ name: 'Draft budget' });
+
+    expect(matches('budget NOT draft', node)).toBe(false);
+    expect(matches('budget -draft', node)).toBe(false);
+    expect(matches('budget -final', node)).toBe(true);
+  });
+
+  test('should filter by tags and mentions', () => {
+    const node = candidate({ name: 'Call vendor #urgent', note: 'Ask @alice.smith about pricing' });
+
+    expect(matches('#urgent', node)).toBe(true);
+    expect(matches('#urg', node)).toBe(false);
+    expect(matches('@alice.smith', node)).toBe(true);
+    expect(matches('@bob', node)).toBe(false);
+  });
+
+  test('should not treat e-mail addresses as mentions', () => {
+    expect(matches('@example.com', candidate({ note: 'mail me at bob@example.com' }))).toBe(false);
+  });
+
+  test('should filter by completion, attachments and notes', () => {
+    const done = candidate({ name: 'Task', isCompleted: true, hasAttachment: true });
+    const open = candidate({ name: 'Task', note: 'details' });
+
+    expect(matches('task is:completed', done)).toBe(true);
+    expect(matches('task is:open', done)).toBe(false);
+    expect(matches('is:open', open)).toBe(true);
+    expect(matches('has:attachment', done)).toBe(true);
+    expect(matches('has:attachment', open)).toBe(false);
+    expect(matches('has:note', open)).toBe(true);
+  });
+
+  test('should scope matches to descendants with parent:', () => {
+    const node = candidate({ name: 'Notes', ancestorIds: ['project-1', 'meetings'] });
+
+    expect(matches('parent:project-1', node)).toBe(true);
+    expect(matches('parent:meetings notes', node)).toBe(true);
+    expect(matches('parent:project-2', node)).toBe(false);
+  });
+
+  test('should filter by last change with changed:', () => {
+    const recent = candidate({ lastModifiedAt: new Date(NOW - 2 * DAY) });
+    const old = candidate({ lastModifiedAt: new Date(NOW - 60 * DAY) });
+
+    expect(matches('changed:>7d', recent)).toBe(true);
+    expect(matches('changed:>7d', old)).toBe(false);
+    expect(matches('changed:<1mo', old)).toBe(true);
+    expect(matches('changed:7d', recent)).toBe(true);
+  });
+
+  test('should match everything for an empty query', () => {
+    expect(matches('', candidate({ name: 'Anything' }))).toBe(true);
+  });
+});
+
+describe('Search Ranking', () => {
+  test('should rank exact name matches above name and note matches', () => {
+    const query = new SearchQuery('budget', NOW);
+    const exact = candidate({ name: 'Budget' });
+    const inName = candidate({ name: 'Budgeting ideas' });
+    const inNote = candidate({ name: 'Finance', note: 'see budget' });
+
+    expect(query.score(exact)).toBeGreaterThan(query.score(inName));
+    expect(query.score(inName)).toBeGreaterThan(query.score(inNote));
+  });
+
+  test('should not reward terms inside NOT', () => {
+    const query = new SearchQuery('plan -budget', NOW);
+    expect(query.score(candidate({ name: 'Plan' }))).toBe(new SearchQuery('plan', NOW).score(candidate({ name: 'Plan' })));
+  });
+});
+
+describe('Client Search', () => {
+  let stub: WorkflowyApiStub;
+
+  beforeEach(() => {
+    stub = new WorkflowyApiStub();
+    stub.start();
+    sessionPool.clear();
+    documentSnapshots.clear();
+  });
+
+  afterEach(() => {
+    stub.stop();
+  });
+
+  test('should rank results and page through them with a cursor', async () => {
+    // Name and note matches outrank name-only matches
+    const first = await workflowyClient.search('sprint', 'stub-user', 'stub-password', 2);
+
+    expect(first.totalMatches).toBe(3);
+    expect(first.results.map((node: any) => node.name)).toEqual(['Sprint Planning', 'Sprint 1 Tasks']);
+    expect(first.nextCursor).toBeDefined();
+
+    const second = await workflowyClient.search('sprint', 'stub-user', 'stub-password', 2, 0, undefined, undefined, first.nextCursor);
+
+    expect(second.results.map((node: any) => node.name)).toEqual(['Sprint 2 Tasks']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  test('should search notes and restrict to descendants of a parent', async () => {
+    // Equal scores favour shallower nodes, then document order
+    const page = await workflowyClient.search('parent:root-node-1 note:sprint', 'stub-user', 'stub-password');
+
+    expect(page.results.map((node: any) => node.id)).toEqual(['child-1-1', 'grandchild-1-1-1', 'grandchild-1-1-2']);
+  });
+
+  test('should reject invalid queries and cursors without retrying', async () => {
+    await expect(workflowyClient.search('(sprint', 'stub-user', 'stub-password')).rejects.toThrow('Invalid search query');
+    await expect(workflowyClient.search('sprint', 'stub-user', 'stub-password', 2, 0, undefined, undefined, encodeCursor('search:other', { offset: 2 })))
+      .rejects.toThrow('Invalid or expired search cursor');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for the authenticated session pool
+ * Covers session reuse, cookie reuse, idle expiry, invalidation and metrics
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { SessionPool, SessionFactory } from '../workflowy/session-pool.js';
+
+// Minimal stand-ins for the WorkFlowy/Client pair created by the real factory
+const createFakeFactory = () => {
+  const created: any[] = [];
+  let loginCount = 0;
+
+  const factory: SessionFactory = {
+    create: (username: string) => {
+      const client: any = { username, sessionHeaders: new Headers() };
+      const wf: any = { getClient: () => client };
+      created.push(client);
+      return { wf, client };
+    },
+    login: async (client: any) => {
+      loginCount++;
+      client.sessionHeaders.set('Cookie', `sessionid=${client.username}-${loginCount}`);
+    }
+  };
+
+  return {
+    factory,
+    created,
+    get loginCount() {
+      return loginCount;
+    }
+  };
+};
+
+describe('Session Pool', () => {
+  let pool: SessionPool;
+
+  beforeEach(() => {
+    pool = new SessionPool({ maxSessions: 2, idleTimeoutMs: 1000, cookieTtlMs: 60000 });
+  });
+
+  test('should reuse a logged-in session for the same credentials', async () => {
+    const fake = createFakeFactory();
+
+    const first = await pool.acquire('user1', 'pass1', fake.factory);
+    const second = await pool.acquire('user1', 'pass1', fake.factory);
+
+    expect(second).toBe(first);
+    expect(fake.loginCount).toBe(1);
+    expect(pool.getStats()).toMatchObject({ size: 1, hits: 1, misses: 1, logins: 1 });
+  });
+
+  test('should key sessions by username and password', async () => {
+    const fake = createFakeFactory();
+
+    const first = await pool.acquire('user1', 'pass1', fake.factory);
+    const other = await pool.acquire('user1', 'different', fake.factory);
+
+    expect(other).not.toBe(first);
+    expect(other.key).not.toBe(first.key);
+    expect(fake.loginCount).toBe(2);
+  });
+
+  test('should share one login between concurrent callers', async () => {
+    const fake = createFakeFactory();
+
+    const sessions = await Promise.all([
+      pool.acquire('user1', 'pass1', fake.factory),
+      pool.acquire('user1', 'pass1', fake.factory),
+      pool.acquire('user1', 'pass1', fake.factory)
+    ]);
+
+    expect(fake.loginCount).toBe(1);
+    expect(sessions[1]).toBe(sessions[0]);
+    expect(sessions[2]).toBe(sessions[0]);
+  });
+
+  test('should reuse the session cookie after idle expiry instead of logging in', async () => {
+    const fake = createFakeFactory();
+    const first = await pool.acquire('user1', 'pass1', fake.factory);
+
+    // Simulate the session sitting idle past the timeout
+    (pool as any).entries.get(first.key).lastUsedAt = Date.now() - 5000;
+
+    const second = await pool.acquire('user1', 'pass1', fake.factory);
+
+    expect(second).not.toBe(first);
+    expect(fake.loginCount).toBe(1);
+    expect(second.client.sessionHeaders.get('Cookie')).toBe('sessionid=user1-1');
+    expect(pool.getStats()).toMatchObject({ cookieReuses: 1, evictions: 1 });
+  });
+
+  test('should log in again after a session is invalidated', async () => {
+    const fake = createFakeFactory();
+    const first = await pool.acquire('user1', 'pass1', fake.factory);
+
+    pool.invalidate(first.key);
+    const second = await pool.acquire('user1', 'pass1', fake.factory);
+
+    expect(second).not.toBe(first);
+    expect(fake.loginCount).toBe(2);
+    expect(pool.getStats().rejections).toBe(1);
+  });
+
+  test('should evict least recently used sessions when full', async () => {
+    const fake = createFakeFactory();
+
+    const first = await pool.acquire('user1', 'pass1', fake.factory);
+    (pool as any).entries.get(first.key).lastUsedAt = Date.now() - 500;
+    await pool.acquire('user2', 'pass2', fake.factory);
+    await pool.acquire('user3', 'pass3', fake.factory);
+
+    const stats = pool.getStats();
+    expect(stats.size).toBe(2);
+    expect(stats.evictions).toBe(1);
+    expect((pool as any).entries.has(first.key)).toBe(false);
+  });
+
+  test('should not start a session when login fails', async () => {
+    const fake = createFakeFactory();
+    const failingFactory: SessionFactory = {
+      create: fake.factory.create,
+      login: async () => {
+        throw new Error('WorkFlowy login error: invalid password');
+      }
+    };
+
+    await expect(pool.acquire('user1', 'bad', failingFactory)).rejects.toThrow('login error');
+    expect(pool.getStats().size).toBe(0);
+  });
+
+  test('should never use raw credentials as the pool key', () => {
+    const key = pool.getKey('user1', 'secret-password');
+
+    expect(key).not.toContain('user1');
+    expect(key).not.toContain('secret-password');
+    expect(key).toBe(pool.getKey('user1', 'secret-password'));
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for the Streamable HTTP transport on the worker's /mcp endpoint
+ * Covers protocol negotiation, session lifecycle and ownership, SSE responses and resuming with Last-Event-ID
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import worker from '../worker.js';
+import { McpSessionStore, mcpSessions, sessionOwner, negotiateProtocolVersion, LATEST_PROTOCOL_VERSION } from '../utils/mcp-sessions.js';
+
+const env = { ENVIRONMENT: 'preview' };
+
+const post = (body: unknown, headers: Record<string, string> = {}) =>
+  worker.fetch(new Request('https://worker.test/mcp', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  }), env);
+
+const initialize = async (protocolVersion = '2025-03-26', headers: Record<string, string> = {}) => {
+  const response = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion, capabilities: {}, clientInfo: { name: 'test', version: '1.0' } } }, headers);
+  return { response, sessionId: response.headers.get('Mcp-Session-Id')!, body: await response.json() as any };
+};
+
+// Parse `id:` and `data:` lines of an SSE body
+const readEvents = async (response: Response) =>
+  (await response.text()).split('\n\n').filter(chunk => chunk.trim()).map(chunk => {
+    const lines = chunk.split('\n');
+    return {
+      id: lines.find(line => line.startsWith('id: '))?.substring(4),
+      data: JSON.parse(lines.find(line => line.startsWith('data: '))!.substring(6))
+    };
+  });
+
+describe('MCP Session Store', () => {
+  test('should negotiate supported protocol versions and fall back to the latest', () => {
+    expect(negotiateProtocolVersion('2024-11-05')).toBe('2024-11-05');
+    expect(negotiateProtocolVersion('2099-01-01')).toBe(LATEST_PROTOCOL_VERSION);
+    expect(negotiateProtocolVersion(undefined)).toBe(LATEST_PROTOCOL_VERSION);
+  });
+
+  test('should replay only later events from the same stream', async () => {
+    const store = new McpSessionStore();
+    const session = store.create('2025-03-26');
+    const first = await store.emit(session, 'streamA', { n: 1 });
+    await store.emit(session, 'streamB', { n: 2 });
+    await store.emit(session, 'streamA', { n: 3 });
+
+    const resumed = store.eventsAfter(session, first.id)!;
+    expect(resumed.streamId).toBe('streamA');
+    expect(resumed.events.map(event => event.data)).toEqual([expect.stringContaining('{"n":3}')]);
+    expect(store.eventsAfter(session, 'unknown_1')).toBeNull();
+  });
+
+  test('should expire idle sessions', () => {
+    const store = new McpSessionStore({ sessionTtlMs: 1000 });
+    const session = store.create('2025-03-26');
+    session.lastActivityAt -= 2000;
+
+    expect(store.get(session.id, undefined)).toBeUndefined();
+    expect(store.getStats()).toMatchObject({ sessions: 0, expired: 1 });
+  });
+
+  test('should own sessions by OAuth grant, other credentials or nothing', async () => {
+    const tokens = new Map([['token:oauth_access_old', '{"grant_id":"g1"}'], ['token:oauth_access_new', '{"grant_id":"g1"}']]);
+    const kvEnv = { OAUTH_KV: { get: async (key: string) => tokens.get(key) ?? null } };
+    const owner = (headers: Record<string, string>) => sessionOwner(new Headers(headers), kvEnv);
+
+    // A refreshed access token belongs to the same grant, so it keeps the session
+    expect(await owner({ 'Authorization': 'Bearer oauth_access_old' })).toBe('grant:g1');
+    expect(await owner({ 'Authorization': 'Bearer oauth_access_new' })).toBe('grant:g1');
+    expect(await owner({ 'Authorization': 'Bearer key-a' })).not.toBe(await owner({ 'Authorization': 'Bearer key-b' }));
+    expect(await owner({ 'X-Workflowy-Username': 'a', 'X-Workflowy-Password': 'b' })).toMatch(/^credential:/);
+    expect(await owner({})).toBeUndefined();
+
+    const store = new McpSessionStore();
+    const session = store.create('2025-03-26', 'grant:g1');
+    expect(store.get(session.id, 'grant:g2')).toBeUndefined();
+    expect(store.delete(session.id, undefined)).toBe(false);
+    expect(store.get(session.id, 'grant:g1')).toBe(session);
+  });
+});
+
+describe('Streamable HTTP Transport', () => {
+  beforeEach(() => {
+    mcpSessions.clear();
+  });
+
+  test('should create a session on initialize with the negotiated version', async () => {
+    const { response, sessionId, body } = await initialize('2024-11-05');
+
+    expect(response.status).toBe(200);
+    expect(sessionId).toBeTruthy();
+    expect(body.result.protocolVersion).toBe('2024-11-05');
+
+    const unsupported = await initialize('1999-01-01');
+    expect(unsupported.body.result.protocolVersion).toBe(LATEST_PROTOCOL_VERSION);
+  });
+
+  test('should answer requests as JSON and acknowledge notifications with 202', async () => {
+    const { sessionId } = await initialize();
+
+    const notification = await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, { 'Mcp-Session-Id': sessionId });
+    expect(notification.status).toBe(202);
+
+    const batch = await post([
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { jsonrpc: '2.0', id: 3, method: 'unknown/method' }
+    ], { 'Mcp-Session-Id': sessionId });
+    const responses = await batch.json() as any[];
+
+    expect(batch.headers.get('Content-Type')).toBe('application/json');
+    expect(responses.map(r => r.id)).toEqual([2, 3]);
+    expect(responses[0].result.tools.length).toBeGreaterThan(0);
+    expect(responses[1].error.code).toBe(-32601);
+  });
+
+  test('should reject unknown sessions, batched initialize and unsupported protocol headers', async () => {
+    expect((await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { 'Mcp-Session-Id': 'missing' })).status).toBe(404);
+    expect((await post([
+      { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} },
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' }
+    ])).status).toBe(400);
+    expect((await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { 'MCP-Protocol-Version': '1999-01-01' })).status).toBe(400);
+  });
+
+  test('should stream tool call responses as SSE events with resumable IDs', async () => {
+    const { sessionId } = await initialize();
+    const response = await post([
+      { jsonrpc: '2.0', id: 10, method: 'tools/call', params: { name: 'no_such_tool', arguments: {} } },
+      { jsonrpc: '2.0', id: 11, method: 'tools/list' }
+    ], { 'Mcp-Session-Id': sessionId });
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    const events = await readEvents(response);
+    expect(events.map(event => event.data.id)).toEqual([10, 11]);
+    expect(events.every(event => event.id)).toBe(true);
+
+    // Reconnect after the first event and receive the rest of that stream
+    const resumed = await worker.fetch(new Request('https://worker.test/mcp', {
+      method: 'GET',
+      headers: { 'Accept': 'text/event-stream', 'Mcp-Session-Id': sessionId, 'Last-Event-ID': events[0].id! }
+    }), env);
+    const replayed = await readEvents(resumed);
+
+    expect(replayed.map(event => event.data.id)).toEqual([11]);
+  });
+
+  test('should deliver server-initiated messages on the GET stream', async () => {
+    const { sessionId } = await initialize();
+    const stream = await worker.fetch(new Request('https://worker.test/mcp', {
+      method: 'GET',
+      headers: { 'Accept': 'text/event-stream', 'Mcp-Session-Id': sessionId }
+    }), env);
+    const reader = stream.body!.getReader();
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const delivered = mcpSessions.send(sessionId, { jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info' } });
+    const { value } = await reader.read();
+    await delivered;
+
+    expect(new TextDecoder().decode(value)).toContain('"method":"notifications/message"');
+    await reader.cancel();
+  });
+
+  test('should end sessions with DELETE', async () => {
+    const { sessionId } = await initialize();
+    const remove = (id?: string) => worker.fetch(new Request('https://worker.test/mcp', {
+      method: 'DELETE',
+      headers: id ? { 'Mcp-Session-Id': id } : {}
+    }), env);
+
+    expect((await remove(sessionId)).status).toBe(204);
+    expect((await remove(sessionId)).status).toBe(404);
+    expect((await remove()).status).toBe(400);
+    expect((await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId })).status).toBe(404);
+  });
+
+  test('should only let the credential that initialized a session use or end it', async () => {
+    const { sessionId } = await initialize('2025-03-26', { 'Authorization': 'Bearer key-a' });
+    const request = (method: string, authorization?: string) => worker.fetch(new Request('https://worker.test/mcp', {
+      method,
+      headers: { 'Accept': 'text/event-stream', 'Mcp-Session-Id': sessionId, ...(authorization && { 'Authorization': authorization }) }
+    }), env);
+
+    for (const authorization of ['Bearer key-b', undefined]) {
+      expect((await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId, ...(authorization && { 'Authorization': authorization }) })).status).toBe(404);
+      expect((await request('GET', authorization)).status).toBe(404);
+      expect((await request('DELETE', authorization)).status).toBe(404);
+    }
+
+    expect((await post({ jsonrpc: '2.0', id: 3, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId, 'Authorization': 'Bearer key-a' })).status).toBe(200);
+    expect((await request('DELETE', 'Bearer key-a')).status).toBe(204);
+  });
+});
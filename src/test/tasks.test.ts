@@ -0,0 +1,158 @@
+/**
+ * Tests for the task views
+ * Covers due date, tag and assignee parsing, grouping, the overdue filter and completing tasks with notes
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { collectTasks, dueBucket, groupTasks, workflowyTasks } from '../workflowy/tasks.js';
+import { workflowyClient } from '../workflowy/client.js';
+import { workflowyTools } from '../tools/workflowy.js';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { documentSnapshots } from '../workflowy/document-snapshot.js';
+import { sessionPool } from '../workflowy/session-pool.js';
+import { operationJournal } from '../workflowy/operation-journal.js';
+
+const USERNAME = 'stub-user';
+const PASSWORD = 'stub-password';
+const TODAY = '2026-10-19';
+
+describe('Task Parsing', () => {
+  test('should bucket due dates relative to today', () => {
+    expect(dueBucket('2026-10-18', false, TODAY)).toBe('overdue');
+    expect(dueBucket('2026-10-19', false, TODAY)).toBe('today');
+    expect(dueBucket('2026-10-26', false, TODAY)).toBe('next_7_days');
+    expect(dueBucket('2026-10-27', false, TODAY)).toBe('later');
+    expect(dueBucket(undefined, false, TODAY)).toBe('no_due_date');
+    expect(dueBucket('2026-10-01', true, TODAY)).toBe('completed');
+  });
+
+  test('should read due dates, tags, assignees and age from names and notes', () => {
+    const tasks = collectTasks([{
+      id: 'project',
+      name: '<b>Launch</b>',
+      items: [
+        {
+          id: 'a',
+          name: 'Ship <time startYear="2026" startMonth="10" startDay="17" startHour="9">Oct 17, 9:00</time> #release @Alice',
+          note: 'Blocked on #qa, see 2026-11-30',
+          lastModifiedAt: '2026-10-09T12:00:00.000Z'
+        },
+        { id: 'b', name: 'Announce #release', note: 'Post by Oct 24, 2026 @bob', isCompleted: true, completedAt: '2026-10-18T08:00:00.000Z' },
+        { id: 'empty', name: '' }
+      ]
+    }], TODAY, new Date('2026-10-19T18:00:00Z'));
+
+    expect(tasks.map(task => task.id)).toEqual(['project', 'a', 'b']);
+    expect(tasks[1]).toMatchObject({
+      name: 'Ship Oct 17, 9:00 #release @Alice',
+      parentId: 'project',
+      parentName: 'Launch',
+      due: '2026-10-17',
+      dueTime: '09:00',
+      overdue: true,
+      tags: ['release', 'qa'],
+      assignees: ['alice'],
+      ageDays: 10
+    });
+    expect(tasks[2]).toMatchObject({ due: '2026-10-24', dueBucket: 'completed', overdue: false, assignees: ['bob'], completedAt: '2026-10-18T08:00:00.000Z' });
+    expect(tasks[0]).not.toHaveProperty('parentId');
+  });
+
+  test('should group by tag, due bucket and parent', () => {
+    const tasks = collectTasks([
+      { id: 'p', name: 'Plan', items: [{ id: 'x', name: 'Later thing 2027-01-01 #ops' }, { id: 'y', name: 'Due 2026-10-01 #ops #web' }] },
+      { id: 'z', name: 'Due 2026-09-01 #web' }
+    ], TODAY);
+
+    expect(groupTasks(tasks, 'tag').map(group => [group.key, group.count])).toEqual([['#ops', 2], ['#web', 2], ['(untagged)', 1]]);
+    expect(groupTasks(tasks, 'due').map(group => [group.key, group.tasks.map(task => task.id)]))
+      .toEqual([['overdue', ['z', 'y']], ['later', ['x']], ['no_due_date', ['p']]]);
+    expect(groupTasks(tasks, 'parent').map(group => [group.key, group.name, group.count])).toEqual([['(top level)', '(top level)', 2], ['p', 'Plan', 2]]);
+  });
+});
+
+describe('Workflowy Tasks', () => {
+  let stub: WorkflowyApiStub;
+  let parentId: string;
+
+  const create = (name: string, note?: string) => workflowyClient.createNode(parentId, name, note, USERNAME, PASSWORD);
+
+  beforeEach(async () => {
+    stub = new WorkflowyApiStub();
+    stub.start();
+    sessionPool.clear();
+    documentSnapshots.clear();
+    operationJournal.clear();
+    parentId = await workflowyClient.createNode('root-node-1', 'Launch tasks', undefined, USERNAME, PASSWORD);
+  });
+
+  afterEach(() => {
+    stub.stop();
+  });
+
+  test('should list, filter and report overdue tasks in a subtree', async () => {
+    const late = await create('Fix login 2026-10-01 #bug @alice');
+    await create('Write notes #docs', 'due 2026-10-20');
+    const done = await create('Old bug 2026-09-01 #bug');
+    await workflowyClient.toggleComplete(done, true, USERNAME, PASSWORD);
+
+    const all = await workflowyTasks.list({ parentId, today: TODAY }, USERNAME, PASSWORD);
+    expect(all.counts).toEqual({ open: 2, completed: 1, overdue: 1 });
+    expect(all.tasks!.map(task => task.parentName)).toEqual(['Launch tasks', 'Launch tasks', 'Launch tasks']);
+
+    const overdue = await workflowyTasks.list({ parentId, overdue: true, today: TODAY }, USERNAME, PASSWORD);
+    expect(overdue.tasks!.map(task => [task.id, task.due, task.assignees])).toEqual([[late, '2026-10-01', ['alice']]]);
+
+    const openBugs = await workflowyTasks.list({ parentId, status: 'open', tag: '#bug', today: TODAY }, USERNAME, PASSWORD);
+    expect(openBugs.total).toBe(1);
+
+    const board = await workflowyTasks.list({ parentId, groupBy: 'due', limit: 2, today: TODAY }, USERNAME, PASSWORD);
+    expect(board).toMatchObject({ total: 3, truncated: true });
+    expect(board.groups!.map(group => group.key)).toEqual(['overdue', 'next_7_days']);
+  });
+
+  test('should walk the whole outline when no parent is given', async () => {
+    await create('Nested deep task #deep');
+    const tasks = await workflowyTasks.list({ tag: 'deep', today: TODAY }, USERNAME, PASSWORD);
+    expect(tasks.tasks!.map(task => task.parentId)).toEqual([parentId]);
+    expect(tasks.counts.open).toBeGreaterThan(5);
+  });
+
+  test('should complete tasks in one undoable operation with completion notes', async () => {
+    const first = await create('Draft changelog', 'v2.3');
+    const second = await create('Tag release');
+    const done = await create('Already done');
+    await workflowyClient.toggleComplete(done, true, USERNAME, PASSWORD);
+
+    const result = await workflowyTasks.complete(
+      [{ id: first, note: 'Merged' }, { id: second }, { id: done }, { id: 'missing-task' }],
+      { note: 'Released', date: TODAY }, USERNAME, PASSWORD
+    );
+    expect(result).toEqual({
+      completed: [{ id: first, name: 'Draft changelog' }, { id: second, name: 'Tag release' }],
+      alreadyCompleted: [done],
+      notFound: ['missing-task']
+    });
+
+    const firstNode = await workflowyClient.getNodeById(first, USERNAME, PASSWORD);
+    expect(firstNode).toMatchObject({ isCompleted: true, note: 'v2.3\nCompleted 2026-10-19: Merged' });
+    expect((await workflowyClient.getNodeById(second, USERNAME, PASSWORD)).note).toBe('Completed 2026-10-19: Released');
+
+    const [operation] = await workflowyClient.listRecentOperations(USERNAME, PASSWORD, 1);
+    await workflowyClient.undoOperation(operation.id, USERNAME, PASSWORD);
+    expect(await workflowyClient.getNodeById(first, USERNAME, PASSWORD)).toMatchObject({ isCompleted: false, note: 'v2.3' });
+  });
+
+  test('should expose tasks through tools', async () => {
+    const task = await create('Call vendor 2020-01-01');
+
+    const listed = JSON.parse((await workflowyTools.list_tasks.handler({ parentId, overdue: true, timezone: 'Asia/Tokyo', username: USERNAME, password: PASSWORD })).content[0].text);
+    expect(listed.tasks.map((listedTask: any) => listedTask.id)).toEqual([task]);
+
+    const completed = JSON.parse((await workflowyTools.complete_tasks.handler({ tasks: [{ id: task }], username: USERNAME, password: PASSWORD })).content[0].text);
+    expect(completed.completed).toEqual([{ id: task, name: 'Call vendor 2020-01-01' }]);
+
+    const bad = (await workflowyTools.list_tasks.handler({ timezone: 'Nowhere/Special', username: USERNAME, password: PASSWORD })).content[0].text;
+    expect(bad).toStartWith('Error listing tasks:');
+  });
+});
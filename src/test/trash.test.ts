@@ -0,0 +1,207 @@
+/**
+ * Tests for soft delete, list_trash, restore_node and empty_trash
+ * Runs the client against a local HTTP stub of the Workflowy API with soft delete enabled
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { TrashSettings, trashSettings, formatTrashNote, parseTrashNote } from '../workflowy/trash.js';
+import { operationJournal } from '../workflowy/operation-journal.js';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { documentSnapshots } from '../workflowy/document-snapshot.js';
+import { sessionPool } from '../workflowy/session-pool.js';
+import { workflowyClient, NotFoundError } from '../workflowy/client.js';
+import { workflowyTasks } from '../workflowy/tasks.js';
+
+const USERNAME = 'stub-user';
+const PASSWORD = 'stub-password';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const childIds = async (parentId: string) =>
+  (await workflowyClient.getChildItems(parentId, USERNAME, PASSWORD, 0, ['id'])).map((node: any) => node.id);
+
+const rootNames = async () =>
+  (await workflowyClient.getRootItems(USERNAME, PASSWORD, 0, ['name'])).map((node: any) => node.name);
+
+describe('Trash Markers', () => {
+  test('should round-trip the marker and the original note', () => {
+    const marker = { deletedAt: new Date('2025-06-15T12:00:00.000Z'), tool: 'delete_node', parentId: 'root-node-1', priority: 2 };
+    const note = formatTrashNote(marker, 'Line one\nLine two');
+
+    expect(note.split('\n')[0]).toBe('[mcp-trash] deletedAt=2025-06-15T12:00:00.000Z tool=delete_node parent=root-node-1 priority=2');
+    expect(parseTrashNote(note)).toEqual({ marker, note: 'Line one\nLine two' });
+    expect(parseTrashNote(formatTrashNote(marker, ''))).toEqual({ marker, note: '' });
+
+    const scoped = { ...marker, scope: 'root-node-1' };
+    expect(formatTrashNote(scoped, '')).toEndWith(' priority=2 scope=root-node-1');
+    expect(parseTrashNote(formatTrashNote(scoped, 'Note'))).toEqual({ marker: scoped, note: 'Note' });
+  });
+
+  test('should leave notes without a marker unchanged', () => {
+    expect(parseTrashNote('Just a note')).toEqual({ note: 'Just a note' });
+    expect(parseTrashNote('[mcp-trash] deletedAt=never tool=x parent=y priority=0')).toEqual({
+      note: '[mcp-trash] deletedAt=never tool=x parent=y priority=0'
+    });
+  });
+
+  test('should read settings from the environment and expire by retention', () => {
+    const settings = new TrashSettings();
+    settings.configureFromEnv({ SOFT_DELETE: 'true', TRASH_NODE_NAME: 'Bin', TRASH_RETENTION_DAYS: '7' });
+    const marker = { deletedAt: new Date(Date.now() - 8 * DAY_MS), tool: 'delete_node', parentId: 'a', priority: 0 };
+
+    expect([settings.enabled, settings.nodeName, settings.retentionDays]).toEqual([true, 'Bin', 7]);
+    expect(settings.isExpired(marker)).toBe(true);
+
+    settings.configure({ retentionDays: 0 });
+    expect(settings.isExpired(marker)).toBe(false);
+  });
+});
+
+describe('Soft Delete', () => {
+  let stub: WorkflowyApiStub;
+
+  beforeEach(() => {
+    stub = new WorkflowyApiStub();
+    stub.start();
+    sessionPool.clear();
+    documentSnapshots.clear();
+    operationJournal.clear();
+    trashSettings.configure({ enabled: true, nodeName: 'MCP Trash', retentionDays: 30 });
+  });
+
+  afterEach(() => {
+    trashSettings.configure({ enabled: false });
+    stub.stop();
+  });
+
+  test('should move deleted nodes to the trash with a marker instead of deleting them', async () => {
+    const result = await workflowyClient.deleteNode('child-1-1', USERNAME, PASSWORD);
+    const trash = await workflowyClient.listTrash(USERNAME, PASSWORD);
+
+    expect(result).toEqual({ trashed: true, trashId: trash.trashId });
+    expect(trash.trashId).toBeDefined();
+    expect(await childIds('root-node-1')).toEqual(['child-1-2']);
+    expect(trash.items).toHaveLength(1);
+    expect(trash.items[0]).toMatchObject({
+      id: 'child-1-1',
+      name: 'Sprint Planning',
+      note: 'Weekly sprint planning tasks',
+      tool: 'delete_node',
+      originalParentId: 'root-node-1',
+      originalParentExists: true,
+      descendants: 3
+    });
+  });
+
+  test('should leave the trash out of reads, search and task lists', async () => {
+    await workflowyClient.deleteNode('child-1-1', USERNAME, PASSWORD);
+    const { trashId } = await workflowyClient.listTrash(USERNAME, PASSWORD);
+
+    expect(await rootNames()).toEqual(['Project Management', 'Personal Goals', 'Research Projects']);
+    await expect(workflowyClient.getNodeById(trashId!, USERNAME, PASSWORD)).rejects.toThrow(NotFoundError);
+    await expect(workflowyClient.getNodeById('grandchild-1-1-1', USERNAME, PASSWORD)).rejects.toThrow(NotFoundError);
+    await expect(workflowyClient.getChildItems(trashId!, USERNAME, PASSWORD)).rejects.toThrow(NotFoundError);
+    expect((await workflowyClient.listNodesPage(undefined, USERNAME, PASSWORD)).items.map((node: any) => node.id)).not.toContain(trashId);
+    expect((await workflowyClient.search('sprint', USERNAME, PASSWORD, 10)).results).toEqual([]);
+
+    const siblings = await workflowyClient.getNodeById('root-node-1', USERNAME, PASSWORD, 0, ['siblings']);
+    expect(siblings.siblings.map((sibling: any) => sibling.name)).toEqual(['Personal Goals', 'Research Projects']);
+    const tasks = await workflowyTasks.list({ today: '2026-10-19' }, USERNAME, PASSWORD);
+    expect(tasks.tasks!.map(task => task.id)).not.toContain('child-1-1');
+  });
+
+  test('should restore a trashed node with its ID, note and position', async () => {
+    await workflowyClient.deleteNode('child-1-1', USERNAME, PASSWORD);
+    const result = await workflowyClient.restoreNode('child-1-1', USERNAME, PASSWORD);
+
+    expect(result).toMatchObject({ success: true, parentId: 'root-node-1', restoredToOriginal: true });
+    expect(await childIds('root-node-1')).toEqual(['child-1-1', 'child-1-2']);
+    expect(await workflowyClient.getNodeById('child-1-1', USERNAME, PASSWORD, 0, ['note'])).toMatchObject({ note: 'Weekly sprint planning tasks' });
+    expect((await workflowyClient.listTrash(USERNAME, PASSWORD)).items).toHaveLength(0);
+  });
+
+  test('should restore to the top level when the original parent is gone', async () => {
+    await workflowyClient.deleteNode('child-3-1', USERNAME, PASSWORD);
+    trashSettings.configure({ enabled: false });
+    await workflowyClient.deleteNode('root-node-3', USERNAME, PASSWORD);
+
+    const result = await workflowyClient.restoreNode('child-3-1', USERNAME, PASSWORD);
+
+    expect(result).toMatchObject({ parentId: 'Root', restoredToOriginal: false });
+    await expect(workflowyClient.restoreNode('child-1-1', USERNAME, PASSWORD)).rejects.toThrow('not in the trash');
+  });
+
+  test('should trash batch deletes and undo them back into sibling order', async () => {
+    const result = await workflowyClient.batchDeleteNodes(['child-2-1', 'child-3-2', 'child-3-1'], USERNAME, PASSWORD);
+    const trash = await workflowyClient.listTrash(USERNAME, PASSWORD);
+
+    expect(result.trashed).toEqual(['child-2-1', 'child-3-2', 'child-3-1']);
+    expect(trash.items.map(item => item.tool)).toEqual(['batch_delete_nodes', 'batch_delete_nodes', 'batch_delete_nodes']);
+
+    const [operation] = await workflowyClient.listRecentOperations(USERNAME, PASSWORD, 1);
+    expect(operation.summary).toBe('Moved 3 nodes to trash');
+    await workflowyClient.undoOperation(operation.id, USERNAME, PASSWORD);
+
+    expect(await childIds('root-node-2')).toEqual(['child-2-1']);
+    expect(await childIds('root-node-3')).toEqual(['child-3-1', 'child-3-2']);
+    expect((await workflowyClient.listTrash(USERNAME, PASSWORD)).items).toHaveLength(0);
+  });
+
+  test('should trash created nodes on undo, along with children added since', async () => {
+    await workflowyClient.batchCreateNodes('root-node-3', [{ name: 'Plan', children: [{ name: 'Step' }] }], USERNAME, PASSWORD);
+    const [create] = await workflowyClient.listRecentOperations(USERNAME, PASSWORD, 1);
+    const [planId] = (await childIds('root-node-3')).slice(-1);
+    const addedId = await workflowyClient.createNode(planId, 'Added later', undefined, USERNAME, PASSWORD);
+
+    const result = await workflowyClient.undoOperation(create.id, USERNAME, PASSWORD);
+    expect(result).toMatchObject({ applied: 2, skipped: undefined });
+    expect(await childIds('root-node-3')).toEqual(['child-3-1', 'child-3-2']);
+
+    const trash = await workflowyClient.listTrash(USERNAME, PASSWORD);
+    expect(trash.items.map(item => [item.id, item.tool, item.originalParentId])).toEqual([[planId, 'undo_operation', 'root-node-3']]);
+    await workflowyClient.restoreNode(planId, USERNAME, PASSWORD);
+    expect(await childIds(planId)).toHaveLength(2);
+    expect(await childIds(planId)).toContain(addedId);
+  });
+
+  test('should leave created nodes that gained children when undoing without soft delete', async () => {
+    trashSettings.configure({ enabled: false });
+    const parentId = await workflowyClient.createNode('root-node-3', 'Kept', undefined, USERNAME, PASSWORD);
+    const [create] = await workflowyClient.listRecentOperations(USERNAME, PASSWORD, 1);
+    await workflowyClient.createNode(parentId, 'Child added later', undefined, USERNAME, PASSWORD);
+
+    const result = await workflowyClient.undoOperation(create.id, USERNAME, PASSWORD);
+    expect(result).toMatchObject({ applied: 0, skipped: [{ step: 'delete', id: parentId, reason: 'Node has children added since it was created' }] });
+    expect(await childIds('root-node-3')).toContain(parentId);
+
+    // Children created in the same batch are not children added since
+    await workflowyClient.batchCreateNodes('root-node-2', [{ name: 'Batch', children: [{ name: 'Nested' }] }], USERNAME, PASSWORD);
+    const [batch] = await workflowyClient.listRecentOperations(USERNAME, PASSWORD, 1);
+    expect(await workflowyClient.undoOperation(batch.id, USERNAME, PASSWORD)).toMatchObject({ applied: 2, skipped: undefined });
+    expect(await childIds('root-node-2')).toEqual(['child-2-1']);
+  });
+
+  test('should permanently delete nodes that are already in the trash', async () => {
+    await workflowyClient.deleteNode('child-3-1', USERNAME, PASSWORD);
+    const result = await workflowyClient.deleteNode('child-3-1', USERNAME, PASSWORD);
+
+    expect(result.trashed).toBe(false);
+    expect(await workflowyClient.getNodeById('child-3-1', USERNAME, PASSWORD).catch(error => error.message)).toContain('not found');
+  });
+
+  test('should empty the trash by age and purge expired nodes on later deletes', async () => {
+    await workflowyClient.batchDeleteNodes(['child-3-1', 'child-3-2'], USERNAME, PASSWORD);
+    const old = formatTrashNote({ deletedAt: new Date(Date.now() - 40 * DAY_MS), tool: 'delete_node', parentId: 'root-node-3', priority: 0 }, '');
+    await workflowyClient.updateNode('child-3-1', undefined, old, USERNAME, PASSWORD);
+
+    const emptied = await workflowyClient.emptyTrash(USERNAME, PASSWORD, 35);
+    expect(emptied).toEqual({ success: true, deleted: 1, remaining: 1 });
+
+    await workflowyClient.updateNode('child-3-2', undefined, old, USERNAME, PASSWORD);
+    await workflowyClient.deleteNode('child-2-1', USERNAME, PASSWORD);
+
+    const trash = await workflowyClient.listTrash(USERNAME, PASSWORD);
+    expect(trash.items.map(item => item.id)).toEqual(['child-2-1']);
+
+    expect(await workflowyClient.emptyTrash(USERNAME, PASSWORD)).toEqual({ success: true, deleted: 1, remaining: 0 });
+  });
+});
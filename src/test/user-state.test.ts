@@ -0,0 +1,225 @@
+/**
+ * Tests for per-user state shared across worker isolates
+ * The Durable Object runs in Miniflare; two UserStates registries stand in for two isolates
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'bun:test';
+import { Miniflare } from 'miniflare';
+import worker from '../worker.js';
+import { UserStateCore, UserStates, MemoryUserStateStorage, userStates } from '../utils/user-state.js';
+import { workerCache } from '../utils/cache.js';
+import { requestDeduplicator } from '../utils/deduplication.js';
+import { WorkflowyApiStub } from './mocks/workflowy-api-stub';
+import { documentSnapshots } from '../workflowy/document-snapshot.js';
+import { sessionPool } from '../workflowy/session-pool.js';
+import { operationJournal } from '../workflowy/operation-journal.js';
+
+const USERNAME = 'stub-user';
+const PASSWORD = 'stub-password';
+
+const entry = (tags: string[], ttl = 60) => ({ data: { tags }, timestamp: Date.now(), ttl, tags });
+
+describe('User State Core', () => {
+  let core: UserStateCore;
+
+  beforeEach(() => {
+    core = new UserStateCore(new MemoryUserStateStorage());
+  });
+
+  test('should invalidate tagged entries only and bump the revision', async () => {
+    await core.setCached('list', entry(['nodes', 'list']));
+    await core.setCached('search', entry(['nodes', 'search']));
+    await core.setCached('other', entry(['default']));
+
+    expect(await core.invalidateTags(['search'])).toBe(1);
+    expect(await core.getCached('search')).toBeNull();
+    expect(await core.getCached('list')).not.toBeNull();
+
+    expect(await core.invalidateTags(['nodes'])).toBe(2);
+    expect(await core.getCached('list')).toBeNull();
+    expect(await core.getCached('other')).not.toBeNull();
+  });
+
+  test('should expire entries and drop results read before a write', async () => {
+    await core.setCached('expired', { ...entry(['nodes'], 1), timestamp: Date.now() - 2000 });
+    expect(await core.getCached('expired')).toBeNull();
+
+    await core.invalidateTags(['nodes']);
+    await core.setCached('stale', { ...entry(['nodes']), revision: 0 });
+    await core.setCached('fresh', { ...entry(['nodes']), revision: 1 });
+
+    expect(await core.getCached('stale')).toBeNull();
+    expect(await core.getCached('fresh')).not.toBeNull();
+  });
+
+  test('should hand out one dedup claim and clear claims on write', async () => {
+    expect(await core.claim('read', 30000)).toEqual({ status: 'leader' });
+    expect(await core.claim('read', 30000)).toEqual({ status: 'pending' });
+
+    await core.complete('read', { value: 1 });
+    expect(await core.claim('read', 30000)).toEqual({ status: 'done', result: { value: 1 } });
+
+    await core.invalidateTags(['nodes']);
+    expect(await core.claim('read', 30000)).toEqual({ status: 'leader' });
+
+    // A leader whose read overlapped a write doesn't publish its result
+    await core.invalidateTags(['nodes']);
+    await core.complete('read', { value: 2 });
+    expect(await core.claim('read', 30000)).toEqual({ status: 'leader' });
+
+    await core.release('read');
+    expect(await core.claim('read', 0)).toEqual({ status: 'leader' });
+  });
+});
+
+describe('Local Cache Tag Index', () => {
+  test('should delete caches.default entries stored under a tag', async () => {
+    const stored = new Map<string, Response>();
+    const cache = new (workerCache.constructor as any)();
+    cache['cache'] = {
+      match: async (request: Request) => stored.get(request.url),
+      put: async (request: Request, response: Response) => { stored.set(request.url, response); },
+      delete: async (request: Request) => stored.delete(request.url)
+    };
+
+    await cache.set('list_nodes', {}, ['a'], workerCache.getCacheConfig('list_nodes', {}), { username: 'user1' });
+    await cache.set('search_nodes', { query: 'x' }, ['b'], workerCache.getCacheConfig('search_nodes', {}), { username: 'user1' });
+
+    expect(await cache.invalidateByTags(['search'])).toBe(1);
+    expect(await cache.get('search_nodes', { query: 'x' }, { username: 'user1' })).toBeNull();
+    expect(await cache.get('list_nodes', {}, { username: 'user1' })).toEqual(['a']);
+  });
+});
+
+describe('Durable Object User State', () => {
+  let mf: Miniflare;
+  let env: { ENVIRONMENT: string; USER_STATE: any };
+
+  beforeAll(async () => {
+    const build = await Bun.build({ entrypoints: [`${import.meta.dir}/../utils/user-state.ts`], target: 'browser', format: 'esm' });
+    const script = `${await build.outputs[0].text()}\nexport default { fetch: () => new Response(null, { status: 404 }) };`;
+    mf = new Miniflare({ modules: true, script, durableObjects: { USER_STATE: 'UserStateObject' } });
+    env = { ENVIRONMENT: 'preview', USER_STATE: await mf.getDurableObjectNamespace('USER_STATE') };
+  });
+
+  afterAll(async () => {
+    await mf.dispose();
+  });
+
+  test('should share cached reads and invalidate them from another isolate', async () => {
+    const isolateA = new UserStates();
+    const isolateB = new UserStates();
+    const stateA = isolateA.forUser(env, 'shared-cache');
+    const stateB = isolateB.forUser(env, 'shared-cache');
+    const config = workerCache.getCacheConfig('get_node_by_id', {});
+
+    expect((await isolateA.checkRevision(stateA, 'shared-cache')).revision).toBe(0);
+    await workerCache.set('get_node_by_id', { id: 'a' }, { name: 'A' }, config, { username: 'u' }, stateA, 0);
+    expect(await workerCache.get('get_node_by_id', { id: 'a' }, { username: 'u' }, stateB)).toEqual({ name: 'A' });
+
+    await isolateB.recordWrite(stateB, ['nodes'], 'shared-cache');
+
+    expect(await workerCache.get('get_node_by_id', { id: 'a' }, { username: 'u' }, stateA)).toBeNull();
+    expect(await isolateA.checkRevision(stateA, 'shared-cache')).toEqual({ revision: 1, changedElsewhere: true });
+    expect(await isolateA.checkRevision(stateA, 'shared-cache')).toEqual({ revision: 1, changedElsewhere: false });
+
+    // Other users' objects are untouched
+    expect(await isolateA.forUser(env, 'someone-else').getRevision()).toBe(0);
+  });
+
+  test('should run a read once when two isolates ask at the same time', async () => {
+    const isolates = [new UserStates({ dedupPollMs: 10 }), new UserStates({ dedupPollMs: 10 })];
+    let executions = 0;
+    const read = async () => {
+      executions++;
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return { items: [executions] };
+    };
+
+    const results = await Promise.all(isolates.map(isolate =>
+      isolate.deduplicate(isolate.forUser(env, 'shared-dedup'), 'search_nodes:x', read)
+    ));
+
+    expect(executions).toBe(1);
+    expect(results[1]).toEqual(results[0]);
+  });
+
+  describe('Worker', () => {
+    let stub: WorkflowyApiStub;
+    let pollIntervalMs: number;
+
+    const callTool = async (name: string, args: Record<string, unknown>) => {
+      const response = await worker.fetch(new Request('https://worker.test/mcp', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          'Authorization': 'Bearer test-key',
+          'X-Workflowy-Username': USERNAME,
+          'X-Workflowy-Password': PASSWORD
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } })
+      }), env);
+      return ((await response.json()) as any).result.content[0].text as string;
+    };
+
+    beforeEach(() => {
+      stub = new WorkflowyApiStub();
+      stub.start();
+      sessionPool.clear();
+      documentSnapshots.clear();
+      requestDeduplicator.clear();
+      userStates.clear();
+      // Only the shared revision should make the worker poll, not the poll interval
+      pollIntervalMs = documentSnapshots.pollIntervalMs;
+      documentSnapshots.configure({ pollIntervalMs: 60000 });
+    });
+
+    afterEach(() => {
+      documentSnapshots.configure({ pollIntervalMs: pollIntervalMs });
+      userStates.clear();
+      stub.stop();
+    });
+
+    test('should not serve cached reads after a write made in another isolate', async () => {
+      expect(await callTool('get_node_by_id', { id: 'child-3-1' })).toContain('AI Development');
+
+      // Another isolate renames the node and records the write in the user's Durable Object
+      stub.addRemoteOperations([{ type: 'edit', data: { projectid: 'child-3-1', name: 'Renamed elsewhere' }, client_timestamp: 5000 }]);
+      const otherIsolate = new UserStates();
+      const userKey = sessionPool.getKey(USERNAME, PASSWORD);
+      await otherIsolate.recordWrite(otherIsolate.forUser(env, userKey), ['nodes'], userKey);
+
+      expect(await callTool('get_node_by_id', { id: 'child-3-1' })).toContain('Renamed elsewhere');
+    });
+
+    test('should share the Workflowy session cookie through the Durable Object', async () => {
+      await callTool('get_node_by_id', { id: 'root-node-2' });
+      const shared = await userStates.forUser(env, sessionPool.getKey(USERNAME, PASSWORD)).getSession();
+      expect(shared?.cookie).toContain('sessionid=');
+
+      // A fresh isolate adopts the cookie instead of logging in again
+      sessionPool.clear();
+      documentSnapshots.clear();
+      userStates.clear();
+      await callTool('get_node_by_id', { id: 'root-node-3' });
+      expect(sessionPool.getStats()).toMatchObject({ logins: 0, cookieReuses: 1 });
+    });
+
+    test('should list and undo an operation from another isolate', async () => {
+      await callTool('update_node', { id: 'child-3-1', name: 'Renamed here' });
+
+      // A fresh isolate finds the operation in the Durable Object
+      sessionPool.clear();
+      documentSnapshots.clear();
+      userStates.clear();
+      operationJournal.clear();
+      const [operation] = JSON.parse(await callTool('list_recent_operations', {}));
+      expect(operation).toMatchObject({ operation: 'updateNode', nodeIds: ['child-3-1'], undone: false });
+
+      expect(await callTool('undo_operation', { operationId: operation.id })).toStartWith('Undid updateNode');
+      expect(await callTool('get_node_by_id', { id: 'child-3-1' })).toContain('AI Development');
+      expect(await callTool('undo_operation', { operationId: operation.id })).toContain('already undone');
+    });
+  });
+});
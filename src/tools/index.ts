@@ -1,5 +1,12 @@
 import { workflowyTools } from "./workflowy.js";
 import { FastMCP } from "fastmcp";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { workflowyResources, NODE_URI_TEMPLATE, BOOKMARK_URI_TEMPLATE, RESOURCE_MIME_TYPE, bookmarkUri } from "../workflowy/resources.js";
+import { resourceSubscriptions } from "../workflowy/resource-subscriptions.js";
+import { workflowyPrompts } from "../workflowy/prompts.js";
+import { invalidations } from "../utils/invalidation.js";
+import { fileCache } from "../utils/file-cache.js";
 
 // Central tool registry
 export const toolRegistry: Record<string, any> = {
@@ -15,8 +22,121 @@ export function registerTools(server: FastMCP): void {
       description: tool.description,
       parameters: tool.parameters,
       annotations: tool.annotations,
-      execute: tool.handler
+      // Writes purge the cached reads of the nodes they touched
+      execute: (args: any) => invalidations.track(() => tool.handler(args), async invalidation => {
+        await fileCache.invalidate(invalidation);
+      })
     });
   });
+
+  registerResources(server);
+  registerPrompts(server);
+}
+
+// Register the outline workflow prompts; each load fetches the subtree it embeds
+export function registerPrompts(server: FastMCP): void {
+  workflowyPrompts.list().forEach(prompt => {
+    server.addPrompt({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: prompt.arguments,
+      load: async args => (await workflowyPrompts.get(prompt.name, args)).messages[0].content.text
+    });
+  });
+}
+
+// Register workflowy:// resource templates, plus one resource per configured bookmark
+export function registerResources(server: FastMCP): void {
+  const [nodeTemplate, bookmarkTemplate] = workflowyResources.templates();
+
+  server.addResourceTemplate({
+    uriTemplate: NODE_URI_TEMPLATE,
+    name: nodeTemplate.name,
+    description: nodeTemplate.description,
+    mimeType: RESOURCE_MIME_TYPE,
+    arguments: [{ name: "id", description: "Workflowy node ID" }],
+    load: async ({ id }) => ({ text: (await workflowyResources.read(`workflowy://node/${id}`)).text })
+  });
+
+  server.addResourceTemplate({
+    uriTemplate: BOOKMARK_URI_TEMPLATE,
+    name: bookmarkTemplate.name,
+    description: bookmarkTemplate.description,
+    mimeType: RESOURCE_MIME_TYPE,
+    arguments: [{
+      name: "name",
+      description: "Bookmark name",
+      complete: async (value: string) => ({
+        values: Object.keys(workflowyResources.getBookmarks()).filter(name => name.startsWith(value))
+      })
+    }],
+    load: async ({ name }) => ({ text: (await workflowyResources.read(`workflowy://bookmark/${name}`)).text })
+  });
+
+  Object.keys(workflowyResources.getBookmarks()).forEach(name => {
+    const uri = bookmarkUri(name);
+    server.addResource({
+      uri,
+      name,
+      description: "Bookmarked Workflowy subtree",
+      mimeType: RESOURCE_MIME_TYPE,
+      load: async () => ({ text: (await workflowyResources.read(uri)).text })
+    });
+  });
+
+  registerResourceSubscriptions(server);
+}
+
+// FastMCP has no subscription support, so handle resources/subscribe on each session's
+// underlying server and poll for changes in the background while the session is connected
+function registerResourceSubscriptions(server: FastMCP): void {
+  advertiseResourceSubscriptions();
+
+  let sessionCount = 0;
+  const stopPolling = new Map<object, () => void>();
+
+  server.on("connect", ({ session }) => {
+    const subscriberId = `stdio-${++sessionCount}`;
+    const mcpServer = session.server;
+
+    mcpServer.setRequestHandler(SubscribeRequestSchema, async request => {
+      await resourceSubscriptions.subscribe(subscriberId, request.params.uri, uri => mcpServer.sendResourceUpdated({ uri }));
+      return {};
+    });
+    mcpServer.setRequestHandler(UnsubscribeRequestSchema, async request => {
+      resourceSubscriptions.unsubscribe(subscriberId, request.params.uri);
+      return {};
+    });
+
+    const stop = resourceSubscriptions.poll(subscriberId);
+    stopPolling.set(session, () => {
+      stop();
+      resourceSubscriptions.unsubscribeAll(subscriberId);
+    });
+  });
+
+  server.on("disconnect", ({ session }) => {
+    stopPolling.get(session)?.();
+    stopPolling.delete(session);
+  });
+}
+
+let subscriptionsAdvertised = false;
+
+// FastMCP builds each session's server with `resources: {}` and only emits "connect" once the
+// initialize handshake is over, too late to register capabilities, so add `subscribe: true`
+// to the capabilities every server reports whenever it advertises resources
+function advertiseResourceSubscriptions(): void {
+  if (subscriptionsAdvertised) return;
+  subscriptionsAdvertised = true;
+
+  // getCapabilities is private in the SDK typings, hence the index access
+  const getCapabilities = Server.prototype["getCapabilities"];
+  Server.prototype["getCapabilities"] = function (this: Server) {
+    const capabilities = getCapabilities.call(this);
+    return capabilities.resources
+      ? { ...capabilities, resources: { ...capabilities.resources, subscribe: true } }
+      : capabilities;
+  };
 }
 
@@ -3,7 +3,10 @@ import { workflowyClient } from "../workflowy/client.js";
 import log from "../utils/logger.js";
 import { promises as fs } from "fs";
 import path from "path";
-import { convertToMarkdown, convertToPlainText } from "../utils/format-converters.js";
+import { convertToMarkdown, convertToPlainText, convertToOpml, parseOutline } from "../utils/format-converters.js";
+import { outlineImporter, ImportReport } from "../workflowy/outline-import.js";
+import { dailyJournal, isoDate } from "../workflowy/daily-journal.js";
+import { workflowyTasks } from "../workflowy/tasks.js";
 
 // Helper to create tool definitions with proper Zod schemas
 const createTool = <T extends z.ZodRawShape>(
@@ -18,23 +21,36 @@ const createTool = <T extends z.ZodRawShape>(
   annotations
 });
 
+// Summarize an import report: the preview for dry runs, otherwise the source line to node ID mapping
+const formatImportReport = (report: ImportReport) => {
+  if (report.dryRun) {
+    return `Dry run: would create ${report.nodesParsed} nodes under parent ${report.parentId} (format: ${report.format}). Nothing was changed.\n\n${report.preview}`;
+  }
+  const summary = report.success
+    ? `Successfully imported ${report.nodesCreated} nodes under parent ${report.parentId} in ${report.batches} batches (format: ${report.format})`
+    : `Partial import: created ${report.nodesCreated} of ${report.nodesParsed} nodes before an error: ${report.error}`;
+  const mapping = report.mapping.map(entry => `- line ${entry.line} → ${entry.id} ${entry.name}`).join('\n');
+  return `${summary}${mapping ? `\n\nSource lines → node IDs:\n${mapping}` : ''}`;
+};
+
 export const workflowyTools: Record<string, any> = {
   list_nodes: createTool(
-    "List child nodes from a parent (or root if no parentId). EFFICIENCY: Use maxDepth=10 to get entire subtree in one call. Default maxDepth=0 returns only direct children.",
+    "List child nodes from a parent (or root if no parentId). EFFICIENCY: Use maxDepth=10 to get entire subtree in one call. Default maxDepth=0 returns only direct children. Large results are paged: pass nextCursor back as cursor until it is absent.",
     {
       parentId: z.string().optional().describe("Parent node ID (omit for root nodes). Find IDs via search_nodes or list_nodes."),
       maxDepth: z.number().optional().describe("Child levels to include: 0=none, 1=direct children, 2=grandchildren, 10=all. Default: 0. TIP: Use 10 for unknown depths."),
-      includeFields: z.array(z.string()).optional().describe("Fields to return. Default: ['id','name']. Add 'note', 'isCompleted' as needed. More fields = more tokens."),
-      preview: z.number().optional().describe("Truncate content to N chars. Use for summaries; omit for full content.")
+      includeFields: z.array(z.string()).optional().describe("Fields to return. Default: ['id','name']. Add 'note', 'isCompleted' as needed. Parsed content: 'tags', 'mentions', 'dates', 'links', 'plainName'. More fields = more tokens."),
+      preview: z.number().optional().describe("Truncate content to N chars. Use for summaries; omit for full content."),
+      cursor: z.string().optional().describe("nextCursor from a previous response to fetch the next page with the same parameters."),
+      pageSize: z.number().optional().describe("Max nodes per page, counting nested children (default: 100, max: 1000)."),
+      maxTokens: z.number().optional().describe("Estimated token budget per page (default: 20000). Pages end early rather than cutting a node short.")
     },
-    async ({ parentId, maxDepth, includeFields, preview, username, password }) => {
+    async ({ parentId, maxDepth, includeFields, preview, cursor, pageSize, maxTokens, username, password }) => {
       try {
         const depth = maxDepth ?? 0;
         const fields = includeFields ?? ['id', 'name'];
-        const items = !!parentId
-          ? await workflowyClient.getChildItems(parentId, username, password, depth, fields, preview)
-          : await workflowyClient.getRootItems(username, password, depth, fields, preview);
-        return { content: [{ type: "text", text: JSON.stringify(items, null, 2) }] };
+        const page = await workflowyClient.listNodesPage(parentId || undefined, username, password, depth, fields, preview, { cursor, pageSize, maxTokens });
+        return { content: [{ type: "text", text: JSON.stringify(page, null, 2) }] };
       } catch (error: any) {
         return { content: [{ type: "text", text: `Error listing nodes: ${error.message}` }] };
       }
@@ -43,18 +59,20 @@ export const workflowyTools: Record<string, any> = {
   ),
 
   search_nodes: createTool(
-    "Search nodes by text across the entire tree. Use maxDepth=2 to include parent/child context with matches.",
+    "Search nodes across the entire tree, ranked by relevance. Supports AND/OR/NOT (or -term), \"quoted phrases\", name:/note: scoping, #tag, @person, is:completed, is:open, has:attachment, parent:<id> and changed:>7d filters. Use maxDepth=2 to include parent/child context with matches.",
     {
-      query: z.string().describe("Search text. Partial, case-insensitive match in names and notes."),
-      limit: z.number().optional().describe("Max results to return (default: 10)."),
+      query: z.string().describe("Search query. Words are partial, case-insensitive matches in names and notes, all required. Examples: 'budget report', '\"weekly review\" OR retro', 'name:invoice -paid', '#urgent @alice is:open', 'parent:<id> changed:>7d'. changed: takes h/d/w/mo/y or YYYY-MM-DD; > means since, < means before."),
+      limit: z.number().optional().describe("Max results per page (default: 10)."),
+      cursor: z.string().optional().describe("nextCursor from a previous response to fetch the next page of the same query."),
+      maxTokens: z.number().optional().describe("Estimated token budget per page (default: 20000). Pages end early rather than cutting a result short."),
       maxDepth: z.number().optional().describe("Child levels: 0=node only, 1=children, 2=grandchildren, 10=all. Use 2 for context. Default: 0."),
-      includeFields: z.array(z.string()).optional().describe("Fields to return. Default: ['id','name']. Add fields sparingly."),
+      includeFields: z.array(z.string()).optional().describe("Fields to return. Default: ['id','name']. Parsed content: 'tags', 'mentions', 'dates', 'links', 'plainName'. Add fields sparingly."),
       preview: z.number().optional().describe("Truncate to N chars. Use for summaries; omit for full content.")
     },
-    async ({ query, limit, maxDepth, includeFields, preview, username, password }) => {
+    async ({ query, limit, cursor, maxTokens, maxDepth, includeFields, preview, username, password }) => {
       try {
-        const items = await workflowyClient.search(query, username, password, limit, maxDepth, includeFields, preview);
-        return { content: [{ type: "text", text: JSON.stringify(items, null, 2) }] };
+        const page = await workflowyClient.search(query, username, password, limit, maxDepth, includeFields, preview, cursor, maxTokens);
+        return { content: [{ type: "text", text: JSON.stringify(page, null, 2) }] };
       } catch (error: any) {
         return { content: [{ type: "text", text: `Error searching nodes: ${error.message}` }] };
       }
@@ -142,14 +160,15 @@ export const workflowyTools: Record<string, any> = {
   ),
 
   delete_node: createTool(
-    "Delete a single node. WARNING: Deletes all descendants (cascade). For 2+ nodes, use batch_delete_nodes.",
+    "Delete a single node. WARNING: Deletes all descendants (cascade). In soft-delete mode the node is moved to the trash instead (see list_trash). For 2+ nodes, use batch_delete_nodes.",
     {
       id: z.string().describe("Node ID to delete. Find via search_nodes or list_nodes.")
     },
     async ({ id, username, password }) => {
       try {
-        await workflowyClient.deleteNode(id, username, password);
-        return { content: [{ type: "text", text: `Successfully deleted node ${id}` }] };
+        const result = await workflowyClient.deleteNode(id, username, password);
+        const text = result.trashed ? `Moved node ${id} to trash (${result.trashId}). Use restore_node to bring it back.` : `Successfully deleted node ${id}`;
+        return { content: [{ type: "text", text }] };
       } catch (error: any) {
         return { content: [{ type: "text", text: `Error deleting node: ${error.message}` }] };
       }
@@ -158,14 +177,14 @@ export const workflowyTools: Record<string, any> = {
   ),
 
   batch_delete_nodes: createTool(
-    "Delete multiple nodes atomically. PREFERRED for 2+ nodes vs multiple delete_node calls.",
+    "Delete multiple nodes atomically. PREFERRED for 2+ nodes vs multiple delete_node calls. In soft-delete mode nodes are moved to the trash instead.",
     {
       ids: z.array(z.string()).describe("Array of node IDs to delete. WARNING: Deleting a parent removes all descendants.")
     },
     async ({ ids, username, password }) => {
       try {
         const result = await workflowyClient.batchDeleteNodes(ids, username, password);
-        const successMessage = result.success ? `Successfully deleted ${result.deleted} nodes` : `Partial failure: deleted ${result.deleted} of ${ids.length} nodes`;
+        const successMessage = result.success ? `Successfully deleted ${result.deleted} nodes${result.trashed ? ` (${result.trashed.length} moved to trash)` : ''}` : `Partial failure: deleted ${result.deleted} of ${ids.length} nodes`;
         const notFoundMessage = result.notFound ? `\n\nNot found: ${result.notFound.join(', ')}` : '';
         return { content: [{ type: "text", text: `${successMessage}${notFoundMessage}\n\nResult: ${JSON.stringify(result, null, 2)}` }] };
       } catch (error: any) {
@@ -175,6 +194,58 @@ export const workflowyTools: Record<string, any> = {
     { title: "Delete multiple nodes atomically", readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: false }
   ),
 
+  list_trash: createTool(
+    "List nodes in the soft-delete trash, most recently deleted first, with deletion time, originating tool and original parent. Use restore_node to bring one back.",
+    {},
+    async ({ username, password }) => {
+      try {
+        const trash = await workflowyClient.listTrash(username, password);
+        if (trash.items.length === 0) {
+          const mode = trash.softDelete ? '' : ' Soft delete is disabled, so deletes are permanent.';
+          return { content: [{ type: "text", text: `The trash is empty.${mode}` }] };
+        }
+        return { content: [{ type: "text", text: JSON.stringify(trash, null, 2) }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Error listing trash: ${error.message}` }] };
+      }
+    },
+    { title: "List trashed Workflowy nodes", readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false }
+  ),
+
+  restore_node: createTool(
+    "Restore a node from the trash to its original parent and position (keeps its ID and subtree). Falls back to the top level if the original parent is gone.",
+    {
+      id: z.string().describe("ID of a trashed node from list_trash."),
+      parentId: z.string().optional().describe("Restore under this parent instead of the original one.")
+    },
+    async ({ id, parentId, username, password }) => {
+      try {
+        const result = await workflowyClient.restoreNode(id, username, password, parentId);
+        const where = result.restoredToOriginal ? 'its original parent' : parentId ? 'the requested parent' : 'the top level (original parent no longer exists)';
+        return { content: [{ type: "text", text: `Restored node ${id} to ${where} ${result.parentId}` }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Error restoring node: ${error.message}` }] };
+      }
+    },
+    { title: "Restore a node from the trash", readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false }
+  ),
+
+  empty_trash: createTool(
+    "Permanently delete nodes in the trash. WARNING: They can no longer be restored with restore_node; undo_operation can only recreate them with new IDs.",
+    {
+      olderThanDays: z.number().optional().describe("Only delete nodes trashed at least this many days ago. Omit to empty the whole trash.")
+    },
+    async ({ olderThanDays, username, password }) => {
+      try {
+        const result = await workflowyClient.emptyTrash(username, password, olderThanDays);
+        return { content: [{ type: "text", text: `Permanently deleted ${result.deleted} nodes from trash (${result.remaining} remaining)` }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Error emptying trash: ${error.message}` }] };
+      }
+    },
+    { title: "Empty the Workflowy trash", readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: false }
+  ),
+
   toggle_complete: createTool(
     "Toggle completion status of a node. For batch updates, use batch_update_nodes with isCompleted field.",
     {
@@ -233,18 +304,58 @@ export const workflowyTools: Record<string, any> = {
     { title: "Move multiple nodes atomically", readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: false }
   ),
 
+  list_recent_operations: createTool(
+    "List recent changes made through this server (creates, updates, completes, moves, deletes), most recent first. Use the id with undo_operation to revert one.",
+    {
+      limit: z.number().optional().describe("Max operations to return (default: 20). Operations are kept for 24 hours, up to 100 per user.")
+    },
+    async ({ limit, username, password }) => {
+      try {
+        const operations = await workflowyClient.listRecentOperations(username, password, limit);
+        if (operations.length === 0) {
+          return { content: [{ type: "text", text: "No recent operations to undo." }] };
+        }
+        return { content: [{ type: "text", text: JSON.stringify(operations, null, 2) }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Error listing operations: ${error.message}` }] };
+      }
+    },
+    { title: "List recent Workflowy operations", readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false }
+  ),
+
+  undo_operation: createTool(
+    "Undo an operation from list_recent_operations: recreates deleted subtrees (with new IDs), restores old names/notes/completion, moves nodes back, removes created nodes. Undo the most recent operations first.",
+    {
+      operationId: z.string().describe("Operation id from list_recent_operations.")
+    },
+    async ({ operationId, username, password }) => {
+      try {
+        const result = await workflowyClient.undoOperation(operationId, username, password);
+        const restored = result.restored ? `\n\nRestored nodes (old ID → new ID):\n${result.restored.map(r => `- ${r.originalId} → ${r.newId} (under ${r.parentId})`).join('\n')}` : '';
+        const skipped = result.skipped ? `\n\nSkipped steps:\n${result.skipped.map(s => `- ${s.step} ${s.id}: ${s.reason}`).join('\n')}` : '';
+        return { content: [{ type: "text", text: `Undid ${result.operation}: ${result.summary} (${result.applied} steps applied)${restored}${skipped}` }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Error undoing operation: ${error.message}` }] };
+      }
+    },
+    { title: "Undo a Workflowy operation", readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: false }
+  ),
+
   get_node_by_id: createTool(
-    "Get a node by ID with optional subtree. CRITICAL: Use maxDepth=10 to get entire subtree in ONE call. Avoid multiple calls for related nodes - get the top node with maxDepth instead.",
+    "Get a node by ID with optional subtree, returned as the first entry of items. CRITICAL: Use maxDepth=10 to get entire subtree in ONE call. Avoid multiple calls for related nodes - get the top node with maxDepth instead. Large subtrees are paged: pass nextCursor back as cursor until it is absent.",
     {
       id: z.string().describe("Node ID to retrieve. Find via search_nodes or list_nodes."),
       maxDepth: z.number().optional().describe("Child levels: 0=node only, 1=children, 2=grandchildren, 10=all. CRITICAL: Use 10 for complete subtree. Default: 0."),
-      includeFields: z.array(z.string()).optional().describe("Fields to return. Default: ['id','name']. Add fields sparingly."),
-      preview: z.number().optional().describe("Truncate to N chars. Use for summaries; omit for full content.")
+      includeFields: z.array(z.string()).optional().describe("Fields to return. Default: ['id','name']. Parsed content: 'tags', 'mentions', 'dates', 'links', 'plainName'. Add fields sparingly."),
+      preview: z.number().optional().describe("Truncate to N chars. Use for summaries; omit for full content."),
+      cursor: z.string().optional().describe("nextCursor from a previous response to fetch the next page of the subtree."),
+      pageSize: z.number().optional().describe("Max nodes per page, counting nested children (default: 100, max: 1000)."),
+      maxTokens: z.number().optional().describe("Estimated token budget per page (default: 20000). Pages end early rather than cutting a node short.")
     },
-    async ({ id, maxDepth, includeFields, preview, username, password }) => {
+    async ({ id, maxDepth, includeFields, preview, cursor, pageSize, maxTokens, username, password }) => {
       try {
-        const node = await workflowyClient.getNodeById(id, username, password, maxDepth, includeFields, preview);
-        return { content: [{ type: "text", text: JSON.stringify(node, null, 2) }] };
+        const page = await workflowyClient.getNodeByIdPage(id, username, password, maxDepth ?? 0, includeFields, preview, { cursor, pageSize, maxTokens });
+        return { content: [{ type: "text", text: JSON.stringify(page, null, 2) }] };
       } catch (error: any) {
         return { content: [{ type: "text", text: `Error retrieving node: ${error.message}` }] };
       }
@@ -253,18 +364,20 @@ export const workflowyTools: Record<string, any> = {
   ),
 
   export_to_file: createTool(
-    "Export nodes to a local file (JSON/Markdown/Text). Workflow: Use search_nodes first to preview, then export with matching parameters.",
+    "Export nodes to a local file (JSON/Markdown/Text/OPML). Workflow: Use search_nodes first to preview, then export with matching parameters.",
     {
       filePath: z.string().describe("Absolute file path. Examples: '/home/user/backup.json', 'C:\\Users\\Me\\notes.md'. Directory created if needed."),
       query: z.string().optional().describe("Search text to export matching nodes (omit if using nodeId or root)."),
       nodeId: z.string().optional().describe("Specific node ID to export (omit if using query or root)."),
-      format: z.enum(['json', 'markdown', 'txt']).default('json').describe("Export format. JSON=structured (best for processing). Markdown=readable outline. TXT=plain text."),
+      format: z.enum(['json', 'markdown', 'txt', 'opml']).default('json').describe("Export format. JSON=structured (best for processing). Markdown=readable outline. TXT=plain text. OPML=outline interchange for Workflowy, OmniOutliner, Logseq (keeps notes, completion, mirrors, attachments)."),
       maxDepth: z.number().optional().describe("Child levels: 0=none, 1=children, 10=all. Use 10 for complete export."),
       includeFields: z.array(z.string()).optional().describe("Fields for JSON export. Default includes name, note, isCompleted, children."),
-      includeIds: z.boolean().optional().describe("Include node IDs in markdown/txt exports."),
+      markdownStyle: z.enum(['headings', 'bullets', 'hybrid']).optional().describe("Markdown layout. headings=# per level (default). bullets=nested - lists with - [x] for completed nodes, pastes cleanly into GitHub/Obsidian/Notion. hybrid=headings for the top headingLevels levels, bullets below."),
+      headingLevels: z.number().optional().describe("Levels rendered as headings in hybrid style (default: 2)."),
+      includeIds: z.boolean().optional().describe("Include node IDs in markdown/txt/opml exports."),
       downloadAttachments: z.boolean().optional().describe("Download attachments to subfolder (markdown/txt only).")
     },
-    async ({ filePath, query, nodeId, format = 'json', maxDepth, includeFields, includeIds, downloadAttachments, username, password }) => {
+    async ({ filePath, query, nodeId, format = 'json', maxDepth, includeFields, markdownStyle, headingLevels, includeIds, downloadAttachments, username, password }) => {
       try {
         const absolutePath = path.isAbsolute(filePath) ? filePath : path.resolve(filePath);
         const dir = path.dirname(absolutePath);
@@ -272,14 +385,19 @@ export const workflowyTools: Record<string, any> = {
         let data;
         let dataDescription;
         let effectiveFields = includeFields;
-        if (downloadAttachments && format !== 'json') {
+        const downloadsAttachments = downloadAttachments && (format === 'markdown' || format === 'txt');
+        if (downloadsAttachments) {
           effectiveFields = [...(includeFields || []), 's3File', 'attachmentUrl'];
         }
+        if (format === 'opml') {
+          // OPML always carries the fields it round-trips
+          effectiveFields = [...new Set([...(includeFields || []), 'id', 'name', 'note', 'isCompleted', 'isMirror', 'originalId', 's3File'])];
+        }
         if (nodeId) {
           data = await workflowyClient.getNodeById(nodeId, username, password, maxDepth || 0, effectiveFields);
           dataDescription = `node ${nodeId}`;
         } else if (query) {
-          data = await workflowyClient.search(query, username, password, undefined, maxDepth || 0, effectiveFields);
+          data = (await workflowyClient.search(query, username, password, undefined, maxDepth || 0, effectiveFields)).results;
           dataDescription = `search results for "${query}" (${Array.isArray(data) ? data.length : 1} nodes)`;
         } else {
           data = await workflowyClient.getRootItems(username, password, maxDepth || 0, effectiveFields);
@@ -288,16 +406,19 @@ export const workflowyTools: Record<string, any> = {
         let content;
         switch (format) {
           case 'markdown':
-            content = convertToMarkdown(data, 0, { includeIds });
+            content = convertToMarkdown(data, 0, { includeIds, style: markdownStyle, headingLevels });
             break;
           case 'txt':
             content = convertToPlainText(data, 0, { includeIds });
             break;
+          case 'opml':
+            content = convertToOpml(data, { includeIds, title: `Workflowy export: ${dataDescription}` });
+            break;
           default:
             content = JSON.stringify(data, null, 2);
         }
         let attachmentInfo = '';
-        if (downloadAttachments && format !== 'json') {
+        if (downloadsAttachments) {
           const attachmentsDir = absolutePath.replace(/\.[^.]+$/, '') + '_attachments';
           await fs.mkdir(attachmentsDir, { recursive: true });
           const nodes = Array.isArray(data) ? data : [data];
@@ -349,6 +470,164 @@ export const workflowyTools: Record<string, any> = {
     { title: "Export Workflowy data to file", readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false }
   ),
 
+  import_from_file: createTool(
+    "Import an outline file (Markdown headings/bullets, indented text or OPML) as nodes under a parent. Run with dryRun=true first to preview. Returns the new node ID for each source line.",
+    {
+      filePath: z.string().describe("Absolute path of the file to import. Examples: '/home/user/notes.md', '/home/user/outline.opml'."),
+      parentId: z.string().describe("Parent node ID to create the outline under. Find via search_nodes or list_nodes."),
+      format: z.enum(['auto', 'markdown', 'text', 'opml']).default('auto').describe("Source format. auto=detect from the extension (.md, .txt, .opml) or content."),
+      dryRun: z.boolean().optional().describe("Preview the parsed outline without creating anything.")
+    },
+    async ({ filePath, parentId, format = 'auto', dryRun, username, password }) => {
+      try {
+        const absolutePath = path.isAbsolute(filePath) ? filePath : path.resolve(filePath);
+        const source = await fs.readFile(absolutePath, 'utf-8');
+        const outline = parseOutline(source, format, absolutePath);
+        if (outline.nodes.length === 0) {
+          return { content: [{ type: "text", text: `Error importing file: no outline nodes found in ${absolutePath}` }] };
+        }
+        const report = await outlineImporter.import(outline.nodes, outline.format, parentId, { dryRun }, username, password);
+        return { content: [{ type: "text", text: formatImportReport(report) }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Error importing file: ${error.message}` }] };
+      }
+    },
+    { title: "Import outline file into Workflowy", readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false }
+  ),
+
+  import_outline: createTool(
+    "Import outline text (Markdown headings/bullets, indented text or OPML) as nodes under a parent. Same as import_from_file for content you already have. Run with dryRun=true first to preview.",
+    {
+      content: z.string().describe("Outline to import. Example: '# Project\\n- [ ] Task one\\n  - Detail\\n- [x] Task two'."),
+      parentId: z.string().describe("Parent node ID to create the outline under. Find via search_nodes or list_nodes."),
+      format: z.enum(['auto', 'markdown', 'text', 'opml']).default('auto').describe("Source format. auto=detect from the content."),
+      dryRun: z.boolean().optional().describe("Preview the parsed outline without creating anything.")
+    },
+    async ({ content, parentId, format = 'auto', dryRun, username, password }) => {
+      try {
+        const outline = parseOutline(content, format);
+        if (outline.nodes.length === 0) {
+          return { content: [{ type: "text", text: "Error importing outline: no outline nodes found in content" }] };
+        }
+        const report = await outlineImporter.import(outline.nodes, outline.format, parentId, { dryRun }, username, password);
+        return { content: [{ type: "text", text: formatImportReport(report) }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Error importing outline: ${error.message}` }] };
+      }
+    },
+    { title: "Import outline text into Workflowy", readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false }
+  ),
+
+  get_or_create_today: createTool(
+    "Get today's journal node, creating it (and its year/month parents) if missing. Safe to call repeatedly: an existing day node is always reused, never duplicated. Use the returned id to add entries, or call append_to_day directly.",
+    {
+      timezone: z.string().optional().describe("IANA time zone deciding what 'today' is, e.g. 'Europe/Berlin'. Default: the server's configured journal time zone.")
+    },
+    async ({ timezone, username, password }) => {
+      try {
+        const day = await dailyJournal.getOrCreateDay(dailyJournal.resolveDate('today', timezone), username, password);
+        return { content: [{ type: "text", text: JSON.stringify(day, null, 2) }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Error getting today's journal node: ${error.message}` }] };
+      }
+    },
+    { title: "Get or create today's journal node", readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false }
+  ),
+
+  append_to_day: createTool(
+    "Append entries to a day's journal node (default: today), creating the day if missing. Use this instead of searching for or creating dated nodes yourself.",
+    {
+      entries: z.array(z.object({
+        name: z.string().describe("REQUIRED. Entry text. Example: 'Shipped the release'."),
+        note: z.string().optional().describe("Optional details shown below the entry.")
+      })).describe("Entries to add, in order, at the end of the day."),
+      date: z.string().optional().describe("Day to append to: YYYY-MM-DD, 'today', 'yesterday' or 'tomorrow'. Default: today."),
+      timezone: z.string().optional().describe("IANA time zone for relative dates and the time prefix, e.g. 'America/New_York'. Default: the configured journal time zone."),
+      timePrefix: z.boolean().optional().describe("Start each entry with the current time (HH:mm). Default: false.")
+    },
+    async ({ entries, date, timezone, timePrefix, username, password }) => {
+      try {
+        const result = await dailyJournal.appendToDay(dailyJournal.resolveDate(date, timezone), entries, { timePrefix, timeZone: timezone }, username, password);
+        const day = `${result.day.name} (${result.day.id})${result.day.created ? ', created' : ''}`;
+        return { content: [{ type: "text", text: `Appended ${result.entries.length} entries to ${day}:\n${result.entries.map(entry => `- ${entry.name} (${entry.id})`).join('\n')}` }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Error appending to journal: ${error.message}` }] };
+      }
+    },
+    { title: "Append entries to a journal day", readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false }
+  ),
+
+  list_days: createTool(
+    "List journal days, newest first, with entry counts. Only reads; never creates nodes. Set includeEntries to get each day's entries too.",
+    {
+      from: z.string().optional().describe("Earliest day to include: YYYY-MM-DD, 'today' or 'yesterday'."),
+      to: z.string().optional().describe("Latest day to include: YYYY-MM-DD, 'today' or 'yesterday'."),
+      limit: z.number().optional().describe("Max days to return (default: 31)."),
+      includeEntries: z.boolean().optional().describe("Include each day's entries (id, name, note, isCompleted). Default: false."),
+      timezone: z.string().optional().describe("IANA time zone for relative dates. Default: the configured journal time zone.")
+    },
+    async ({ from, to, limit, includeEntries, timezone, username, password }) => {
+      try {
+        const days = await dailyJournal.listDays({
+          from: from ? dailyJournal.resolveDate(from, timezone) : undefined,
+          to: to ? dailyJournal.resolveDate(to, timezone) : undefined,
+          limit,
+          includeEntries
+        }, username, password);
+        return { content: [{ type: "text", text: JSON.stringify({ days }, null, 2) }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Error listing journal days: ${error.message}` }] };
+      }
+    },
+    { title: "List journal days", readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false }
+  ),
+
+  list_tasks: createTool(
+    "List tasks under a node (or the whole outline) with due dates, #tags, @assignees and age in days since last change. Due dates are the first date in the name, else the note. Use overdue=true for an overdue report and groupBy for a task board view.",
+    {
+      parentId: z.string().optional().describe("Node whose subtree to walk. Omit for the whole outline."),
+      status: z.enum(['open', 'completed', 'all']).optional().describe("Which tasks to return (default: 'all')."),
+      overdue: z.boolean().optional().describe("Only open tasks due before today. Default: false."),
+      tag: z.string().optional().describe("Only tasks with this tag, e.g. 'urgent' or '#urgent'."),
+      assignee: z.string().optional().describe("Only tasks mentioning this person, e.g. 'alice' or '@alice'."),
+      groupBy: z.enum(['parent', 'tag', 'due']).optional().describe("Group tasks by parent node, tag, or due bucket (overdue, today, next_7_days, later, no_due_date, completed). Default: a flat list."),
+      maxDepth: z.number().optional().describe("Levels below the parent to walk (default: 10)."),
+      limit: z.number().optional().describe("Max tasks to return (default: 200)."),
+      timezone: z.string().optional().describe("IANA time zone deciding what today is for due buckets. Default: the configured journal time zone.")
+    },
+    async ({ parentId, status, overdue, tag, assignee, groupBy, maxDepth, limit, timezone, username, password }) => {
+      try {
+        const today = isoDate(dailyJournal.today(timezone));
+        const tasks = await workflowyTasks.list({ parentId, status, overdue, tag, assignee, groupBy, maxDepth, limit, today }, username, password);
+        return { content: [{ type: "text", text: JSON.stringify(tasks, null, 2) }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Error listing tasks: ${error.message}` }] };
+      }
+    },
+    { title: "List tasks with due dates", readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false }
+  ),
+
+  complete_tasks: createTool(
+    "Mark several tasks complete in one operation, optionally recording a completion note on each (appended to the node's note as 'Completed YYYY-MM-DD: note'). Tasks already complete are skipped. Undo with undo_operation.",
+    {
+      tasks: z.array(z.object({
+        id: z.string().describe("REQUIRED. Task node ID. Find via list_tasks."),
+        note: z.string().optional().describe("Completion note for this task. Overrides the shared note.")
+      })).describe("Tasks to complete."),
+      note: z.string().optional().describe("Completion note for every task without its own. Example: 'Shipped in v2.3'."),
+      timezone: z.string().optional().describe("IANA time zone for the date in completion notes. Default: the configured journal time zone.")
+    },
+    async ({ tasks, note, timezone, username, password }) => {
+      try {
+        const result = await workflowyTasks.complete(tasks, { note, date: isoDate(dailyJournal.today(timezone)) }, username, password);
+        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Error completing tasks: ${error.message}` }] };
+      }
+    },
+    { title: "Complete multiple tasks", readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false }
+  ),
+
   get_file_url: createTool(
     "Get temporary download URL for file attachments. For saving to disk, use download_file instead (handles download automatically).",
     {
@@ -0,0 +1,72 @@
+/**
+ * Per-token access claims: OAuth scopes and an optional subtree restriction
+ * Tool scopes come from the MCP annotations: read-only tools need workflowy:read, non-destructive
+ * writes need workflowy:append or workflowy:write, destructive writes need workflowy:write.
+ * Resources, prompts and resource subscriptions read outline content and need workflowy:read.
+ * A subtree restriction limits every client call to descendants of one node; the worker runs each
+ * request inside run() so the Workflowy client can check ancestry without new parameters
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export const READ_SCOPE = 'workflowy:read';
+export const APPEND_SCOPE = 'workflowy:append';
+export const WRITE_SCOPE = 'workflowy:write';
+
+export const SCOPES = [READ_SCOPE, APPEND_SCOPE, WRITE_SCOPE];
+
+// What a token gets when it asks for nothing in particular
+export const DEFAULT_SCOPES = [READ_SCOPE, WRITE_SCOPE];
+
+export interface AccessClaims {
+  scopes?: string[];  // Undefined for API keys and raw credentials, which are not scoped
+  rootId?: string;    // Only descendants of this node are visible and mutable
+}
+
+export interface ToolAnnotations {
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+}
+
+/**
+ * Scopes that each allow a tool; a token needs any one of them. Tools not annotated as read-only
+ * need the write scope, or the append scope when they are also annotated as non-destructive
+ */
+export function requiredScopes(annotations: ToolAnnotations | undefined): string[] {
+  if (annotations?.readOnlyHint === true) {
+    return [READ_SCOPE];
+  }
+  return annotations?.destructiveHint === false ? [APPEND_SCOPE, WRITE_SCOPE] : [WRITE_SCOPE];
+}
+
+export class AccessControl {
+  private claims = new AsyncLocalStorage<AccessClaims>();
+
+  /**
+   * Run a request with the caller's claims visible to everything it calls
+   */
+  run<T>(claims: AccessClaims, operation: () => Promise<T>): Promise<T> {
+    return this.claims.run(claims, operation);
+  }
+
+  current(): AccessClaims {
+    return this.claims.getStore() ?? {};
+  }
+
+  rootId(): string | undefined {
+    return this.current().rootId;
+  }
+
+  /**
+   * Whether the claims carry any of the scopes; unscoped credentials carry them all
+   */
+  hasAnyScope(claims: AccessClaims, scopes: string[]): boolean {
+    return !claims.scopes || scopes.some(scope => claims.scopes!.includes(scope));
+  }
+
+  allowsTool(claims: AccessClaims, annotations: ToolAnnotations | undefined): boolean {
+    return this.hasAnyScope(claims, requiredScopes(annotations));
+  }
+}
+
+export const accessControl = new AccessControl();
@@ -0,0 +1,231 @@
+/**
+ * Operator dashboard for the worker: OAuth clients, live grants and vault tokens, per-user usage
+ * Everything shown is read from KV (OAUTH_KV, CREDENTIAL_KV, ADMIN_KV), so it survives isolate
+ * restarts. Access needs the ADMIN_API_KEY secret as a Bearer token or as the Basic auth password;
+ * API keys and connector or OAuth tokens never grant admin access
+ */
+
+import { oauthTokens, GrantSummary } from './oauth-tokens.js';
+import { oauthClients, OAuthClientRecord } from './oauth-clients.js';
+import { credentialVault, VaultTokenSummary } from './credential-vault.js';
+import { usageStats, UsageSummary, MAX_USAGE_WINDOW_DAYS } from './usage-stats.js';
+import { escapeHtml } from './html.js';
+
+export const ADMIN_REALM = 'Workflowy MCP Admin';
+export const DEFAULT_USAGE_WINDOW_DAYS = 7;
+
+export type RevocableKind = 'grants' | 'tokens' | 'clients';
+
+export interface ClientSummary extends Partial<OAuthClientRecord> {
+  client_id: string;
+  registered: boolean;  // False for client IDs only seen on grants issued before the registry existed
+  active_grants: number;
+}
+
+export interface AdminOverview {
+  generated_at: string;
+  usage_window_days: number;
+  clients: ClientSummary[];
+  grants: GrantSummary[];
+  vault_tokens: VaultTokenSummary[];
+  usage: {
+    users: UsageSummary[];
+    totals: { calls: number; errors: number; errorRate: number; cacheHits: number; cacheMisses: number; cacheHitRatio: number | null };
+  };
+}
+
+export interface RevokeResult {
+  revoked: boolean;
+  grantsRevoked?: number;
+}
+
+const formatTime = (timestamp?: number) => timestamp ? new Date(timestamp).toISOString().replace('T', ' ').substring(0, 16) : '';
+
+const formatRatio = (ratio: number | null) => ratio === null ? 'n/a' : `${(ratio * 100).toFixed(1)}%`;
+
+// Compare without an early exit, so response time doesn't reveal how much of the key matched
+function constantTimeEqual(a: string, b: string): boolean {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    difference |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+}
+
+export class AdminDashboard {
+  isConfigured(env: any): boolean {
+    return !!env?.ADMIN_API_KEY;
+  }
+
+  /**
+   * Accept the admin key as "Bearer <key>" or as the password of HTTP Basic auth, which lets a
+   * browser open the HTML page directly
+   */
+  isAuthorized(request: Request, env: any): boolean {
+    const key = env?.ADMIN_API_KEY;
+    const header = request.headers.get('Authorization') ?? '';
+    if (!key) {
+      return false;
+    }
+
+    if (header.startsWith('Bearer ')) {
+      return constantTimeEqual(header.substring('Bearer '.length), key);
+    }
+    if (header.startsWith('Basic ')) {
+      try {
+        const decoded = atob(header.substring('Basic '.length));
+        return constantTimeEqual(decoded.substring(decoded.indexOf(':') + 1), key);
+      } catch {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Everything the dashboard shows. Buffered usage counts from this isolate are saved first
+   */
+  async overview(env: any, days: number = DEFAULT_USAGE_WINDOW_DAYS): Promise<AdminOverview> {
+    const oauthKv = env?.OAUTH_KV;
+    await usageStats.flush(env);
+
+    const [registered, grants, vaultTokens, usageDays] = await Promise.all([
+      oauthClients.list(oauthKv),
+      oauthKv ? oauthTokens.listGrants(oauthKv) : Promise.resolve([]),
+      credentialVault.kvFor(env) ? credentialVault.list(env) : Promise.resolve([]),
+      usageStats.read(env, days)
+    ]);
+
+    const grantCounts = new Map<string, number>();
+    for (const grant of grants) {
+      grantCounts.set(grant.client_id, (grantCounts.get(grant.client_id) ?? 0) + 1);
+    }
+    const clients: ClientSummary[] = registered.map(client => ({
+      ...client,
+      registered: true,
+      active_grants: grantCounts.get(client.client_id) ?? 0
+    }));
+    for (const [clientId, count] of grantCounts) {
+      if (!registered.some(client => client.client_id === clientId)) {
+        clients.push({ client_id: clientId, registered: false, active_grants: count });
+      }
+    }
+
+    const users = usageStats.summarize(usageDays);
+    const sum = (field: 'calls' | 'errors' | 'cacheHits' | 'cacheMisses') => users.reduce((total, user) => total + user[field], 0);
+    const calls = sum('calls');
+    const cacheHits = sum('cacheHits');
+    const cacheMisses = sum('cacheMisses');
+
+    return {
+      generated_at: new Date().toISOString(),
+      usage_window_days: Math.min(Math.max(Math.floor(days), 1), MAX_USAGE_WINDOW_DAYS),
+      clients,
+      grants,
+      vault_tokens: vaultTokens,
+      usage: {
+        users,
+        totals: {
+          calls,
+          errors: sum('errors'),
+          errorRate: calls > 0 ? sum('errors') / calls : 0,
+          cacheHits,
+          cacheMisses,
+          cacheHitRatio: cacheHits + cacheMisses > 0 ? cacheHits / (cacheHits + cacheMisses) : null
+        }
+      }
+    };
+  }
+
+  /**
+   * Revoke an OAuth grant, a vault token, or a client together with all of its grants
+   */
+  async revoke(env: any, kind: RevocableKind, id: string): Promise<RevokeResult> {
+    switch (kind) {
+      case 'grants':
+        return { revoked: !!env?.OAUTH_KV && await oauthTokens.revokeGrantById(env.OAUTH_KV, id) };
+      case 'tokens':
+        return { revoked: !!credentialVault.kvFor(env) && await credentialVault.revokeById(env, id) };
+      case 'clients': {
+        if (!env?.OAUTH_KV) {
+          return { revoked: false };
+        }
+        const grantsRevoked = await oauthTokens.revokeClient(env.OAUTH_KV, id);
+        const revoked = await oauthClients.revoke(env.OAUTH_KV, id);
+        return { revoked: revoked || grantsRevoked > 0, grantsRevoked };
+      }
+    }
+  }
+
+  renderHtml(overview: AdminOverview): string {
+    const revokeButton = (kind: RevocableKind, id: string) =>
+      `<button data-kind="${kind}" data-id="${escapeHtml(id)}">Revoke</button>`;
+    const table = (headings: string[], rows: string[][]) => rows.length === 0
+      ? '<p class="empty">None</p>'
+      : `<table><tr>${headings.map(heading => `<th>${heading}</th>`).join('')}</tr>${rows.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('')}</table>`;
+    const { totals } = overview.usage;
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+    <title>${ADMIN_REALM}</title>
+    <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 32px; color: #2c3e50; background: #f8f9fa; }
+        h1 { font-size: 24px; }
+        h2 { font-size: 18px; margin-top: 32px; }
+        table { border-collapse: collapse; background: white; width: 100%; }
+        th, td { text-align: left; padding: 6px 10px; border-bottom: 1px solid #e9ecef; font-size: 14px; }
+        th { background: #e9ecef; }
+        .summary span { display: inline-block; margin-right: 24px; }
+        .empty { color: #6c757d; }
+        .revoked { color: #c0392b; }
+        button { background: #c0392b; color: white; border: none; border-radius: 4px; padding: 4px 10px; cursor: pointer; }
+    </style>
+</head>
+<body>
+    <h1>${ADMIN_REALM}</h1>
+    <p class="summary">
+        <span><strong>Calls (${overview.usage_window_days}d):</strong> ${totals.calls}</span>
+        <span><strong>Error rate:</strong> ${formatRatio(totals.errorRate)}</span>
+        <span><strong>Cache hit ratio:</strong> ${formatRatio(totals.cacheHitRatio)}</span>
+        <span><strong>Generated:</strong> ${escapeHtml(overview.generated_at)}</span>
+    </p>
+
+    <h2>Usage by user</h2>
+    ${table(['User', 'Calls', 'Errors', 'Error rate', 'Cache hit ratio', 'Top tools'], overview.usage.users.map(user => [
+      escapeHtml(user.user), String(user.calls), String(user.errors), formatRatio(user.errorRate), formatRatio(user.cacheHitRatio),
+      escapeHtml(user.topTools.map(tool => `${tool.tool} (${tool.calls})`).join(', '))
+    ]))}
+
+    <h2>OAuth clients</h2>
+    ${table(['Client ID', 'Name', 'Redirect URIs', 'Registered', 'Active grants', ''], overview.clients.map(client => [
+      escapeHtml(client.client_id), escapeHtml(client.client_name), escapeHtml(client.redirect_uris?.join(' ')),
+      client.registered ? formatTime(client.created_at) : 'no', String(client.active_grants),
+      client.revoked_at ? `<span class="revoked">Revoked ${formatTime(client.revoked_at)}</span>` : revokeButton('clients', client.client_id)
+    ]))}
+
+    <h2>OAuth grants</h2>
+    ${table(['User', 'Client', 'Scope', 'Subtree', 'Last refreshed', 'Expires', ''], overview.grants.map(grant => [
+      escapeHtml(grant.username), escapeHtml(grant.client_id), escapeHtml(grant.scope), escapeHtml(grant.root_id),
+      formatTime(grant.refreshed_at), formatTime(grant.expires_at), revokeButton('grants', grant.grant_id)
+    ]))}
+
+    <h2>Connector tokens</h2>
+    ${table(['User', 'Label', 'Scopes', 'Subtree', 'Created', 'Expires', ''], overview.vault_tokens.map(token => [
+      escapeHtml(token.username), escapeHtml(token.label), escapeHtml(token.scopes.join(' ')), escapeHtml(token.root_id),
+      formatTime(token.created_at), formatTime(token.expires_at), revokeButton('tokens', token.id)
+    ]))}
+
+    <script>
+        document.querySelectorAll('button[data-kind]').forEach(button => button.addEventListener('click', async () => {
+            if (!confirm('Revoke ' + button.dataset.id + '?')) return;
+            const response = await fetch('/admin/api/' + button.dataset.kind + '/' + encodeURIComponent(button.dataset.id), { method: 'DELETE' });
+            if (response.ok) location.reload(); else alert('Revocation failed: ' + response.status);
+        }));
+    </script>
+</body>
+</html>`;
+  }
+}
+
+export const adminDashboard = new AdminDashboard();
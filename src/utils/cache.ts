@@ -1,8 +1,13 @@
 /**
  * Cloudflare Workers caching utility
  * Implements caching strategies based on 2025 CF Workers best practices
+ * Given a user's state (see user-state.ts) entries live in that user's Durable Object, so tag
+ * invalidation reaches every isolate; otherwise they go to caches.default with a per-isolate tag index
  */
 
+import type { UserStateApi } from './user-state.js';
+import { ROOT_NODE_ID } from './invalidation.js';
+
 export interface CacheConfig {
   ttl: number; // Time to live in seconds
   staleWhileRevalidate?: number; // Optional stale-while-revalidate time
@@ -19,6 +24,7 @@ export interface CacheEntry<T = any> {
 
 export class WorkerCache {
   private cache: Cache | null = null;
+  private tagIndex = new Map<string, Set<string>>(); // Tag -> cache URLs stored by this isolate
 
   constructor() {
     // Handle environments where caches might not be available (like tests)
@@ -30,7 +36,7 @@ export class WorkerCache {
   /**
    * Generate consistent cache key for requests
    */
-  private generateCacheKey(
+  generateCacheKey(
     method: string,
     params: any,
     credentials?: { username?: string }
@@ -73,8 +79,18 @@ export class WorkerCache {
   async get<T>(
     method: string,
     params: any,
-    credentials?: { username?: string }
+    credentials?: { username?: string },
+    state?: UserStateApi
   ): Promise<T | null> {
+    if (state) {
+      try {
+        const entry = await state.getCached(this.generateCacheKey(method, params, credentials));
+        return entry ? entry.data : null;
+      } catch (error) {
+        return null;
+      }
+    }
+
     if (!this.cache) {
       return null; // No cache available
     }
@@ -112,8 +128,25 @@ export class WorkerCache {
     params: any,
     data: T,
     config: CacheConfig,
-    credentials?: { username?: string }
+    credentials?: { username?: string },
+    state?: UserStateApi,
+    revision?: number // Document revision the data was read at, so a write during the read discards it
   ): Promise<void> {
+    if (state) {
+      try {
+        await state.setCached(this.generateCacheKey(method, params, credentials), {
+          data,
+          timestamp: Date.now(),
+          ttl: config.ttl,
+          tags: config.tags || [],
+          revision
+        });
+      } catch (error) {
+        // Caching failures shouldn't break the application
+      }
+      return;
+    }
+
     if (!this.cache) {
       return; // No cache available
     }
@@ -139,6 +172,13 @@ export class WorkerCache {
       });
 
       await this.cache.put(new Request(cacheUrl.toString()), response);
+
+      for (const tag of config.tags || []) {
+        if (!this.tagIndex.has(tag)) {
+          this.tagIndex.set(tag, new Set());
+        }
+        this.tagIndex.get(tag)!.add(cacheUrl.toString());
+      }
     } catch (error) {
       // Cache error logging removed to avoid breaking MCP stdio protocol
       // Don't throw - caching failures shouldn't break the application
@@ -167,6 +207,7 @@ export class WorkerCache {
 
   /**
    * Get cache configuration based on method type
+   * Reads are also tagged node:<id> with the node they start from, so writes purge only what they touch
    */
   getCacheConfig(method: string, params: any): CacheConfig {
     switch (method) {
@@ -174,7 +215,7 @@ export class WorkerCache {
         // Cache list operations for 5 minutes
         return {
           ttl: 300,
-          tags: ['nodes', 'list'],
+          tags: ['nodes', 'list', `node:${params.parentId || ROOT_NODE_ID}`],
           staleWhileRevalidate: 60
         };
 
@@ -190,7 +231,7 @@ export class WorkerCache {
         // Cache individual node lookups for 10 minutes
         return {
           ttl: 600,
-          tags: ['nodes', 'single'],
+          tags: ['nodes', 'single', `node:${params.id}`],
           staleWhileRevalidate: 120
         };
 
@@ -205,12 +246,39 @@ export class WorkerCache {
 
   /**
    * Invalidate cache entries by tags
+   * With a user state this covers all isolates; caches.default entries are only found through
+   * this isolate's tag index, since the Cache API has no tag-based purge
+   * @returns Number of caches.default entries removed (0 for user state, which counts internally)
    */
-  async invalidate(tags: string[]): Promise<void> {
-    // Note: Cloudflare Workers Cache API doesn't support tag-based invalidation
-    // In a full implementation, you'd need to track cache keys by tags
-    // For now, we'll implement basic key tracking if needed
-    // Cache invalidation logging removed to avoid breaking MCP stdio protocol
+  async invalidateByTags(tags: string[], state?: UserStateApi): Promise<number> {
+    if (state) {
+      try {
+        await state.invalidateTags(tags);
+      } catch (error) {
+        // Entries still expire by TTL
+      }
+      return 0;
+    }
+
+    const urls = new Set<string>();
+    for (const tag of tags) {
+      for (const url of this.tagIndex.get(tag) || []) {
+        urls.add(url);
+      }
+      this.tagIndex.delete(tag);
+    }
+
+    let removed = 0;
+    for (const url of urls) {
+      try {
+        if (await this.cache?.delete(new Request(url))) {
+          removed++;
+        }
+      } catch (error) {
+        // Cache error logging removed to avoid breaking MCP stdio protocol
+      }
+    }
+    return removed;
   }
 
   /**
@@ -218,8 +286,8 @@ export class WorkerCache {
    */
   async clear(): Promise<void> {
     // Note: Cloudflare Workers Cache API doesn't have a clear-all method
-    // This would require tracking all cache keys
-    // Cache clear logging removed to avoid breaking MCP stdio protocol
+    // so only entries in this isolate's tag index are removed
+    await this.invalidateByTags([...this.tagIndex.keys()]);
   }
 }
 
@@ -0,0 +1,258 @@
+/**
+ * Encrypted credential vault for connector tokens and OAuth grants
+ * Workflowy credentials are sealed with AES-GCM under a key derived from the CREDENTIAL_VAULT_KEY
+ * worker secret. Connector tokens are opaque random IDs; KV stores only a hash of the ID next to
+ * the sealed credentials, their scopes and expiry. Vault entries live in CREDENTIAL_KV, falling back to OAUTH_KV
+ */
+
+import { SCOPES, DEFAULT_SCOPES } from './access-control.js';
+import { listKeys } from './kv.js';
+
+export const VAULT_TOKEN_PREFIX = 'wfy_';
+
+export const DEFAULT_TOKEN_TTL_DAYS = 30;
+export const MAX_TOKEN_TTL_DAYS = 365;
+
+// Pre-vault connector tokens were base64(username:password:timestamp) and lasted 30 days
+const LEGACY_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const SEALED_VERSION = 'v1';
+const KEY_INFO = 'workflowy-credential-vault';
+
+export interface WorkflowyCredentials {
+  username: string;
+  password: string;
+}
+
+export interface VaultRecord {
+  credentials: string;  // Sealed WorkflowyCredentials
+  username: string;     // Not secret; lets operators see whose token it is
+  scopes: string[];
+  root_id?: string;     // Subtree restriction, see access-control.ts
+  label?: string;
+  created_at: number;
+  expires_at: number;
+}
+
+export interface VaultEntry extends WorkflowyCredentials {
+  id: string;  // Hash of the token; safe to log and to revoke by
+  scopes: string[];
+  rootId?: string;
+  expiresAt: number;
+  legacy?: boolean;
+}
+
+export interface IssuedToken {
+  token: string;
+  id: string;
+  scopes: string[];
+  rootId?: string;
+  expiresAt: number;
+}
+
+// A stored token as operators see it; the sealed credentials are left out
+export interface VaultTokenSummary {
+  id: string;
+  username: string;
+  scopes: string[];
+  root_id?: string;
+  label?: string;
+  created_at: number;
+  expires_at: number;
+}
+
+export interface IssueOptions {
+  scopes?: string[];
+  ttlDays?: number;
+  label?: string;
+  rootId?: string;
+}
+
+const base64url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export class CredentialVault {
+  private keys = new Map<string, Promise<CryptoKey>>();
+
+  isConfigured(env: any): boolean {
+    return !!env?.CREDENTIAL_VAULT_KEY && !!this.kvFor(env);
+  }
+
+  kvFor(env: any): any {
+    return env?.CREDENTIAL_KV ?? env?.OAUTH_KV;
+  }
+
+  /**
+   * Encrypt credentials into a self-describing string: v1.<iv>.<ciphertext>
+   */
+  async seal(env: any, credentials: WorkflowyCredentials): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const plaintext = new TextEncoder().encode(JSON.stringify({ username: credentials.username, password: credentials.password }));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await this.keyFor(env), plaintext);
+    return [SEALED_VERSION, base64url(iv), base64url(new Uint8Array(ciphertext))].join('.');
+  }
+
+  /**
+   * Decrypt sealed credentials; null when tampered with or sealed under another key
+   */
+  async unseal(env: any, sealed: string): Promise<WorkflowyCredentials | null> {
+    const [version, iv, ciphertext] = sealed.split('.');
+    if (version !== SEALED_VERSION || !iv || !ciphertext) {
+      return null;
+    }
+    try {
+      const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64url(iv) }, await this.keyFor(env), fromBase64url(ciphertext));
+      return JSON.parse(new TextDecoder().decode(plaintext));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store credentials behind a new opaque token. The token itself is returned once and never stored
+   */
+  async issue(env: any, credentials: WorkflowyCredentials, options: IssueOptions = {}): Promise<IssuedToken> {
+    const scopes = options.scopes?.length ? options.scopes : DEFAULT_SCOPES;
+    const invalid = scopes.filter(scope => !SCOPES.includes(scope));
+    if (invalid.length > 0) {
+      throw new Error(`Unknown scopes: ${invalid.join(', ')}`);
+    }
+    const ttlDays = Math.min(Math.max(options.ttlDays ?? DEFAULT_TOKEN_TTL_DAYS, 1), MAX_TOKEN_TTL_DAYS);
+
+    const token = VAULT_TOKEN_PREFIX + base64url(crypto.getRandomValues(new Uint8Array(32)));
+    const id = await sha256Hex(token);
+    const now = Date.now();
+    const record: VaultRecord = {
+      credentials: await this.seal(env, credentials),
+      username: credentials.username,
+      scopes,
+      ...(options.rootId && { root_id: options.rootId }),
+      ...(options.label && { label: options.label }),
+      created_at: now,
+      expires_at: now + ttlDays * 24 * 60 * 60 * 1000
+    };
+
+    await this.kvFor(env).put(`vault:${id}`, JSON.stringify(record), { expirationTtl: ttlDays * 24 * 60 * 60 });
+    return { token, id, scopes, ...(options.rootId && { rootId: options.rootId }), expiresAt: record.expires_at };
+  }
+
+  /**
+   * Resolve a connector token to its credentials. Vault tokens are looked up and decrypted;
+   * legacy base64 tokens keep working until their original 30-day expiry unless
+   * ALLOW_LEGACY_TOKENS=false
+   */
+  async open(env: any, token: string): Promise<VaultEntry | null> {
+    if (!token.startsWith(VAULT_TOKEN_PREFIX)) {
+      return env?.ALLOW_LEGACY_TOKENS === 'false' ? null : this.openLegacy(token);
+    }
+    if (!this.isConfigured(env)) {
+      return null;
+    }
+
+    const id = await sha256Hex(token);
+    const value = await this.kvFor(env).get(`vault:${id}`);
+    if (!value) {
+      return null;
+    }
+
+    const record: VaultRecord = JSON.parse(value);
+    if (record.expires_at < Date.now()) {
+      await this.kvFor(env).delete(`vault:${id}`);
+      return null;
+    }
+
+    const credentials = await this.unseal(env, record.credentials);
+    return credentials ? {
+      ...credentials,
+      id,
+      scopes: record.scopes,
+      ...(record.root_id && { rootId: record.root_id }),
+      expiresAt: record.expires_at
+    } : null;
+  }
+
+  /**
+   * Revoke a vault token. Legacy tokens can't be revoked; they carry their own credentials
+   */
+  async revoke(env: any, token: string): Promise<boolean> {
+    if (!token.startsWith(VAULT_TOKEN_PREFIX) || !this.kvFor(env)) {
+      return false;
+    }
+    return this.revokeById(env, await sha256Hex(token));
+  }
+
+  /**
+   * Unexpired vault tokens, newest first
+   */
+  async list(env: any): Promise<VaultTokenSummary[]> {
+    const kv = this.kvFor(env);
+    const tokens: VaultTokenSummary[] = [];
+    for (const key of await listKeys(kv, 'vault:')) {
+      const value = await kv.get(key);
+      if (!value) {
+        continue;
+      }
+      const { credentials, ...record }: VaultRecord = JSON.parse(value);
+      if (record.expires_at >= Date.now()) {
+        tokens.push({ id: key.substring('vault:'.length), ...record });
+      }
+    }
+    return tokens.sort((a, b) => b.created_at - a.created_at);
+  }
+
+  async revokeById(env: any, id: string): Promise<boolean> {
+    const kv = this.kvFor(env);
+    if (!(await kv.get(`vault:${id}`))) {
+      return false;
+    }
+    await kv.delete(`vault:${id}`);
+    return true;
+  }
+
+  private openLegacy(token: string): VaultEntry | null {
+    try {
+      const parts = atob(token).split(':');
+      if (parts.length !== 3) {
+        return null;
+      }
+      const issuedAt = parseInt(parts[2]);
+      if (isNaN(issuedAt) || Date.now() - issuedAt >= LEGACY_TOKEN_TTL_MS) {
+        return null;
+      }
+      return { username: parts[0], password: parts[1], id: 'legacy', scopes: DEFAULT_SCOPES, expiresAt: issuedAt + LEGACY_TOKEN_TTL_MS, legacy: true };
+    } catch {
+      return null;
+    }
+  }
+
+  private keyFor(env: any): Promise<CryptoKey> {
+    const secret = env?.CREDENTIAL_VAULT_KEY;
+    if (!secret) {
+      throw new Error('Credential vault is not configured: set the CREDENTIAL_VAULT_KEY secret');
+    }
+
+    let key = this.keys.get(secret);
+    if (!key) {
+      key = crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'HKDF', false, ['deriveKey'])
+        .then(material => crypto.subtle.deriveKey(
+          { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode(KEY_INFO) },
+          material,
+          { name: 'AES-GCM', length: 256 },
+          false,
+          ['encrypt', 'decrypt']
+        ));
+      this.keys.set(secret, key);
+    }
+    return key;
+  }
+}
+
+export const credentialVault = new CredentialVault();
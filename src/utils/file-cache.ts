@@ -6,6 +6,10 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import crypto from 'crypto';
+import type { InvalidationSet } from './invalidation.js';
+
+// Entries whose nodeId starts with this hold search results, which any write can change
+export const SEARCH_CACHE_PREFIX = 'search:';
 
 export interface FileCacheEntry {
   data: any;
@@ -23,6 +27,17 @@ export interface CacheOptions {
   username?: string;
 }
 
+/**
+ * True when currentTimestamp is later than a recorded lastModifiedAt.
+ * A missing timestamp on either side never counts as a change
+ */
+export function isModifiedSince(lastModifiedAt: string | undefined, currentTimestamp: string | undefined): boolean {
+  if (!lastModifiedAt || !currentTimestamp) {
+    return false;
+  }
+  return new Date(currentTimestamp) > new Date(lastModifiedAt);
+}
+
 export class FileCache {
   private cacheDir: string;
   private defaultTTL: number = 24 * 60 * 60; // 24 hours in seconds
@@ -80,11 +95,7 @@ export class FileCache {
     }
 
     // Check timestamp if provided
-    if (currentTimestamp && entry.lastModifiedAt) {
-      return new Date(currentTimestamp) <= new Date(entry.lastModifiedAt);
-    }
-
-    return true;
+    return !isModifiedSince(entry.lastModifiedAt, currentTimestamp);
   }
 
   /**
@@ -165,6 +176,36 @@ export class FileCache {
     }
   }
 
+  /**
+   * Delete every entry for the nodes in an invalidation set, whatever options they were cached with
+   * @returns Number of entries deleted
+   */
+  async invalidate(invalidation: InvalidationSet): Promise<number> {
+    const nodeIds = new Set(invalidation.nodeIds);
+    let deletedCount = 0;
+
+    try {
+      const files = await fs.readdir(this.cacheDir);
+      for (const file of files.filter(file => file.endsWith('.json'))) {
+        try {
+          const filePath = path.join(this.cacheDir, file);
+          const entry: FileCacheEntry = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+
+          if (nodeIds.has(entry.nodeId) || (invalidation.search && entry.nodeId.startsWith(SEARCH_CACHE_PREFIX))) {
+            await fs.unlink(filePath);
+            deletedCount++;
+          }
+        } catch {
+          // Skip invalid files
+        }
+      }
+    } catch (error) {
+      // Cache invalidation error - silently fail
+    }
+
+    return deletedCount;
+  }
+
   /**
    * Check if cached data is still valid by comparing timestamps
    */
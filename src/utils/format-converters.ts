@@ -1,5 +1,5 @@
 /**
- * Format conversion utilities for Workflowy data export
+ * Format conversion utilities for Workflowy data export and outline import
  */
 
 export interface WorkflowyNode {
@@ -37,6 +37,22 @@ export interface FormatOptions {
   includeIds?: boolean;
 }
 
+/**
+ * headings: every level is a # header (capped at ######)
+ * bullets: nested - lists
+ * hybrid: headers for the top headingLevels levels, nested - lists below them
+ */
+export type MarkdownStyle = 'headings' | 'bullets' | 'hybrid';
+
+export interface MarkdownOptions extends FormatOptions {
+  style?: MarkdownStyle;
+  headingLevels?: number;  // Header levels in hybrid style (default: 2)
+}
+
+export interface OpmlOptions extends FormatOptions {
+  title?: string;
+}
+
 // Common image file extensions and patterns
 const IMAGE_EXTENSIONS = /\.(jpg|jpeg|png|gif|webp|svg|bmp|ico|tiff?)(\?.*)?$/i;
 const DATA_URL_IMAGE = /^data:image\/(jpg|jpeg|png|gif|webp|svg\+xml|bmp|ico|tiff);base64,/i;
@@ -143,14 +159,33 @@ function s3FileToMarkdown(s3File: S3FileAttachment | undefined, nodeId: string):
 }
 
 /**
- * Convert Workflowy nodes to Markdown format with headers based on hierarchy
+ * Number of levels rendered as headers before switching to bullet lists
+ */
+function headingLevelsFor(options: MarkdownOptions): number {
+  switch (options.style) {
+    case 'bullets':
+      return 0;
+    case 'hybrid':
+      return Math.max(0, options.headingLevels ?? 2);
+    default:
+      return Infinity;
+  }
+}
+
+/**
+ * Convert Workflowy nodes to Markdown format with headers or nested lists based on hierarchy
  */
 export function convertToMarkdown(
   data: WorkflowyNode | WorkflowyNode[],
   depth: number = 0,
-  options: FormatOptions = {}
+  options: MarkdownOptions = {}
 ): string {
   const nodes = Array.isArray(data) ? data : [data];
+  const headingLevels = headingLevelsFor(options);
+
+  if (depth >= headingLevels) {
+    return convertToMarkdownList(nodes, depth - headingLevels, options);
+  }
 
   return nodes.map(node => {
     const idSuffix = options.includeIds ? ` [id: ${node.id}]` : '';
@@ -198,6 +233,47 @@ export function convertToMarkdown(
     const childNodes = node.children || node.items;
     if (childNodes && childNodes.length > 0) {
       result += convertToMarkdown(childNodes, depth + 1, options);
+      // Separate a nested list from the next header
+      if (depth + 1 === headingLevels) {
+        result += '\n';
+      }
+    }
+
+    return result;
+  }).join('');
+}
+
+/**
+ * Convert Workflowy nodes to a nested Markdown list. Completed nodes become - [x] tasks,
+ * notes and attachments are indented under their item so they stay part of it
+ */
+function convertToMarkdownList(nodes: WorkflowyNode[], level: number, options: MarkdownOptions): string {
+  const indent = '  '.repeat(level);
+  const contentIndent = indent + '  ';
+
+  return nodes.map(node => {
+    const idSuffix = options.includeIds ? ` [id: ${node.id}]` : '';
+    const checkbox = node.isCompleted ? '[x] ' : '';
+    const name = processImageUrls(stripHtml(node.name || ''));
+
+    let result = `${indent}- ${checkbox}${name}${idSuffix}\n`;
+
+    const details: string[] = [];
+    if (node.note) {
+      details.push(...processImageUrls(stripHtml(node.note)).split('\n'));
+    }
+    details.push(...fileAttachmentsToMarkdown(node.fileAttachments).split('\n'));
+    if (node.s3File) {
+      details.push(...s3FileToMarkdown(node.s3File, node.id).split('\n'));
+    }
+    result += details
+      .filter(line => line.trim())
+      .map(line => `${contentIndent}${line}\n`)
+      .join('');
+
+    const childNodes = node.children || node.items;
+    if (childNodes && childNodes.length > 0) {
+      result += convertToMarkdownList(childNodes, level + 1, options);
     }
 
     return result;
@@ -256,3 +332,383 @@ export function convertToPlainText(
     return result;
   }).join('');
 }
+
+/**
+ * Escape text for an XML attribute value. Line breaks and tabs are encoded so parsers keep them
+ */
+function escapeXmlAttribute(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;')
+    .replace(/\r/g, '&#13;')
+    .replace(/\t/g, '&#9;');
+}
+
+/**
+ * Build the attributes of an OPML outline element. Names and notes keep Workflowy's HTML;
+ * mirrors and S3 attachments are kept in underscore attributes like Workflowy's own _note and _complete
+ */
+function opmlAttributes(node: WorkflowyNode, options: FormatOptions): string {
+  const attributes: Array<[string, string | number | undefined]> = [
+    ['text', node.name || ''],
+    ['_note', node.note || undefined],
+    ['_complete', node.isCompleted ? 'true' : undefined],
+    ['_id', options.includeIds ? node.id : undefined],
+    ['_mirror', node.isMirror ? 'true' : undefined],
+    ['_originalId', node.isMirror ? node.originalId : undefined]
+  ];
+
+  if (node.s3File?.isFile) {
+    attributes.push(
+      ['_fileName', node.s3File.fileName],
+      ['_fileType', node.s3File.fileType],
+      ['_fileFolder', node.s3File.objectFolder],
+      ['_imageWidth', node.s3File.imageOriginalWidth],
+      ['_imageHeight', node.s3File.imageOriginalHeight],
+      ['_attachmentUrl', node.attachmentUrl]
+    );
+  }
+
+  return attributes
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => `${name}="${escapeXmlAttribute(String(value))}"`)
+    .join(' ');
+}
+
+function nodesToOpml(nodes: WorkflowyNode[], depth: number, options: FormatOptions): string {
+  const indent = '  '.repeat(depth);
+  return nodes.map(node => {
+    const attributes = opmlAttributes(node, options);
+    const childNodes = node.children || node.items;
+    if (!childNodes || childNodes.length === 0) {
+      return `${indent}<outline ${attributes}/>\n`;
+    }
+    return `${indent}<outline ${attributes}>\n${nodesToOpml(childNodes, depth + 1, options)}${indent}</outline>\n`;
+  }).join('');
+}
+
+/**
+ * Convert Workflowy nodes to OPML 2.0, the outline format Workflowy imports and exports
+ */
+export function convertToOpml(data: WorkflowyNode | WorkflowyNode[], options: OpmlOptions = {}): string {
+  const nodes = Array.isArray(data) ? data : [data];
+  const title = escapeXmlAttribute(options.title || 'Workflowy export');
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<opml version="2.0">\n' +
+    `  <head>\n    <title>${title}</title>\n  </head>\n` +
+    '  <body>\n' +
+    nodesToOpml(nodes, 2, options) +
+    '  </body>\n' +
+    '</opml>\n';
+}
+
+export type OutlineFormat = 'markdown' | 'text' | 'opml';
+
+/**
+ * Node parsed from an imported outline
+ */
+export interface OutlineNode {
+  name: string;
+  note?: string;
+  isCompleted?: boolean;
+  line: number;  // 1-based line in the source where the node starts
+  children: OutlineNode[];
+  // Metadata read from OPML exports
+  id?: string;
+  isMirror?: boolean;
+  originalId?: string;
+  s3File?: S3FileAttachment;
+  attachmentUrl?: string;
+}
+
+// Suffix added by exports with includeIds, removed again on import
+const ID_SUFFIX = /\s*\[id: [^\]]+\]\s*$/;
+
+/**
+ * Measure leading whitespace, counting a tab as four spaces
+ */
+function indentWidth(whitespace: string): number {
+  return whitespace.replace(/\t/g, '    ').length;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Convert Markdown inline text to Workflowy's HTML: escaped text with bold and links kept
+ */
+function markdownInlineToHtml(text: string): string {
+  return escapeHtml(text.replace(ID_SUFFIX, '').trim())
+    .replace(/\*\*(.+?)\*\*/g, '<b>$1</b>')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '<a href="$2">$1</a>');
+}
+
+function appendNote(node: OutlineNode, line: string): void {
+  node.note = node.note === undefined ? line : `${node.note}\n${line}`;
+}
+
+function trimNotes(nodes: OutlineNode[]): OutlineNode[] {
+  for (const node of nodes) {
+    if (node.note !== undefined) {
+      node.note = node.note.replace(/^\n+|\n+$/g, '');
+      if (!node.note) delete node.note;
+    }
+    trimNotes(node.children);
+  }
+  return nodes;
+}
+
+/**
+ * Parse Markdown headings and (nested, optionally checkbox) bullet lists into an outline.
+ * Headings nest by level, bullets nest by indentation under the closest heading,
+ * and blockquotes or other text become the note of the node above them
+ */
+export function parseMarkdownOutline(content: string): OutlineNode[] {
+  const roots: OutlineNode[] = [];
+  const headings: Array<{ level: number; node: OutlineNode }> = [];
+  let bullets: Array<{ indent: number; node: OutlineNode }> = [];
+  let last: OutlineNode | undefined;
+  let inCodeBlock = false;
+
+  const addNode = (parent: OutlineNode | undefined, node: OutlineNode) => {
+    (parent ? parent.children : roots).push(node);
+    last = node;
+  };
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+
+    if (/^\s*(```|~~~)/.test(raw)) {
+      inCodeBlock = !inCodeBlock;
+      if (last) appendNote(last, raw.trim());
+      return;
+    }
+    if (inCodeBlock) {
+      if (last) appendNote(last, raw);
+      return;
+    }
+    if (!raw.trim()) {
+      return;
+    }
+
+    const heading = raw.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      const level = heading[1].length;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      const node: OutlineNode = { name: markdownInlineToHtml(heading[2]), line, children: [] };
+      addNode(headings[headings.length - 1]?.node, node);
+      headings.push({ level, node });
+      bullets = [];
+      return;
+    }
+
+    const bullet = raw.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (bullet) {
+      const indent = indentWidth(bullet[1]);
+      while (bullets.length > 0 && bullets[bullets.length - 1].indent >= indent) {
+        bullets.pop();
+      }
+      const checkbox = bullet[2].match(/^\[([ xX])\]\s+(.*)$/);
+      const node: OutlineNode = { name: markdownInlineToHtml(checkbox ? checkbox[2] : bullet[2]), line, children: [] };
+      if (checkbox) {
+        node.isCompleted = checkbox[1] !== ' ';
+      }
+      addNode(bullets[bullets.length - 1]?.node ?? headings[headings.length - 1]?.node, node);
+      bullets.push({ indent, node });
+      return;
+    }
+
+    // Blockquotes and paragraphs are notes of the node above; text before any node becomes a node
+    const text = raw.replace(/^\s*>\s?/, '').trim();
+    if (last) {
+      appendNote(last, escapeHtml(text));
+    } else {
+      addNode(undefined, { name: markdownInlineToHtml(text), line, children: [] });
+    }
+  });
+
+  return trimNotes(roots);
+}
+
+/**
+ * Parse indented plain text into an outline, one node per line.
+ * Understands the plain text export: "[X] " marks completed nodes and indented "Note: " lines are notes
+ */
+export function parsePlainTextOutline(content: string): OutlineNode[] {
+  const roots: OutlineNode[] = [];
+  const stack: Array<{ indent: number; node: OutlineNode }> = [];
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    if (!raw.trim()) {
+      return;
+    }
+
+    const indent = indentWidth(raw.match(/^\s*/)![0]);
+    const text = raw.trim();
+    const top = stack[stack.length - 1];
+
+    const note = text.match(/^Note:\s?(.*)$/);
+    if (note && top && indent > top.indent) {
+      appendNote(top.node, escapeHtml(note[1]));
+      return;
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+
+    const parsed = text.replace(/^(?:[-*+•])\s+/, '').match(/^(?:\[([ xX])\]\s+)?(.*)$/)!;
+    const node: OutlineNode = { name: escapeHtml(parsed[2].replace(ID_SUFFIX, '')), line: index + 1, children: [] };
+    if (parsed[1] !== undefined) {
+      node.isCompleted = parsed[1] !== ' ';
+    }
+
+    const parent = stack[stack.length - 1]?.node;
+    (parent ? parent.children : roots).push(node);
+    stack.push({ indent, node });
+  });
+
+  return trimNotes(roots);
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+function parseXmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXml(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+/**
+ * Read the mirror and attachment attributes written by convertToOpml
+ */
+function readOpmlMetadata(node: OutlineNode, attributes: Record<string, string>): void {
+  if (attributes._id) {
+    node.id = attributes._id;
+  }
+  if (attributes._mirror === 'true') {
+    node.isMirror = true;
+    node.originalId = attributes._originalId;
+  }
+  if (attributes._fileName) {
+    node.s3File = {
+      isFile: true,
+      fileName: attributes._fileName,
+      fileType: attributes._fileType ?? '',
+      objectFolder: attributes._fileFolder ?? ''
+    };
+    if (attributes._imageWidth && attributes._imageHeight) {
+      node.s3File.imageOriginalWidth = Number(attributes._imageWidth);
+      node.s3File.imageOriginalHeight = Number(attributes._imageHeight);
+    }
+    if (attributes._attachmentUrl) {
+      node.attachmentUrl = attributes._attachmentUrl;
+    }
+  }
+}
+
+/**
+ * Parse OPML <outline> elements into an outline. The text attribute is kept as Workflowy HTML,
+ * _note and _complete map to the note and completion state, and convertToOpml metadata is read back
+ */
+export function parseOpml(content: string): OutlineNode[] {
+  const bodyStart = content.search(/<body\b/i);
+  if (bodyStart === -1) {
+    throw new Error('Invalid OPML: missing <body> element');
+  }
+
+  const roots: OutlineNode[] = [];
+  const stack: OutlineNode[] = [];
+  const pattern = /<outline\b((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|<\/outline\s*>/gi;
+  let line = 1;
+  let lineCountedTo = 0;
+
+  for (const match of content.slice(bodyStart).matchAll(pattern)) {
+    const offset = bodyStart + match.index!;
+    for (let i = lineCountedTo; i < offset; i++) {
+      if (content.charCodeAt(i) === 10) line++;
+    }
+    lineCountedTo = offset;
+
+    if (match[0][1] === '/') {
+      if (stack.length === 0) {
+        throw new Error(`Invalid OPML: unexpected </outline> on line ${line}`);
+      }
+      stack.pop();
+      continue;
+    }
+
+    const attributes = parseXmlAttributes(match[1]);
+    const node: OutlineNode = { name: attributes.text ?? attributes.title ?? '', line, children: [] };
+    if (attributes._note) {
+      node.note = attributes._note;
+    }
+    if (attributes._complete !== undefined) {
+      node.isCompleted = attributes._complete === 'true';
+    }
+    readOpmlMetadata(node, attributes);
+
+    const parent = stack[stack.length - 1];
+    (parent ? parent.children : roots).push(node);
+    if (!match[2]) {
+      stack.push(node);
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Invalid OPML: <outline> on line ${stack[stack.length - 1].line} is never closed`);
+  }
+  return roots;
+}
+
+/**
+ * Pick an outline format from the file extension, falling back to the content
+ */
+export function detectOutlineFormat(content: string, fileName?: string): OutlineFormat {
+  const extension = fileName?.toLowerCase().match(/\.(\w+)$/)?.[1];
+  if (extension === 'opml' || extension === 'xml') return 'opml';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (extension === 'txt') return 'text';
+
+  if (/^\s*(<\?xml[^>]*>\s*)?<opml\b/i.test(content)) return 'opml';
+  if (/^(#{1,6}\s|\s*(?:[-*+]|\d+[.)])\s)/m.test(content)) return 'markdown';
+  return 'text';
+}
+
+/**
+ * Parse an outline in the given format, detecting it when format is 'auto'
+ */
+export function parseOutline(
+  content: string,
+  format: OutlineFormat | 'auto' = 'auto',
+  fileName?: string
+): { format: OutlineFormat; nodes: OutlineNode[] } {
+  const resolved = format === 'auto' ? detectOutlineFormat(content, fileName) : format;
+  switch (resolved) {
+    case 'markdown':
+      return { format: resolved, nodes: parseMarkdownOutline(content) };
+    case 'opml':
+      return { format: resolved, nodes: parseOpml(content) };
+    default:
+      return { format: 'text', nodes: parsePlainTextOutline(content) };
+  }
+}
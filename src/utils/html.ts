@@ -0,0 +1,6 @@
+/**
+ * Helpers for the HTML pages the worker serves
+ */
+
+export const escapeHtml = (value: unknown) => String(value ?? '')
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
@@ -0,0 +1,61 @@
+/**
+ * Cache invalidation sets for mutating tool calls
+ * DocumentSnapshot reports the nodes touched by every local edit; a tool call run inside track()
+ * gets back the nodes whose cached reads it made stale, so caches can purge exactly those keys
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Stands for the top level of the outline, i.e. list_nodes without a parentId
+export const ROOT_NODE_ID = 'root';
+
+export interface InvalidationSet {
+  nodeIds: string[];  // Edited nodes, their old and new ancestors up to ROOT_NODE_ID, and moved or deleted subtrees
+  search: boolean;    // Any edit can change what a search matches
+}
+
+/**
+ * Worker cache tags for an invalidation set. Reads are tagged node:<id> for the node they were
+ * read from (see WorkerCache.getCacheConfig), searches are tagged search
+ */
+export function invalidationTags(invalidation: InvalidationSet): string[] {
+  return [
+    ...invalidation.nodeIds.map(id => `node:${id}`),
+    ...(invalidation.search ? ['search'] : [])
+  ];
+}
+
+export class InvalidationTracker {
+  // One set per tracked call, so concurrent tool calls don't see each other's edits
+  private scopes = new AsyncLocalStorage<Set<string>>();
+
+  /**
+   * Run a tool call and hand the nodes it changed to onInvalidate, even if it fails partway
+   * through a batch. Calls that changed nothing don't invalidate anything
+   */
+  async track<T>(operation: () => Promise<T>, onInvalidate: (invalidation: InvalidationSet) => Promise<void>): Promise<T> {
+    const nodeIds = new Set<string>();
+    try {
+      return await this.scopes.run(nodeIds, operation);
+    } finally {
+      if (nodeIds.size > 0) {
+        await onInvalidate({ nodeIds: [...nodeIds], search: true });
+      }
+    }
+  }
+
+  /**
+   * Add nodes to the current tool call's set; edits outside track() are ignored
+   */
+  record(nodeIds: Iterable<string>): void {
+    const scope = this.scopes.getStore();
+    if (!scope) {
+      return;
+    }
+    for (const id of nodeIds) {
+      scope.add(id);
+    }
+  }
+}
+
+export const invalidations = new InvalidationTracker();
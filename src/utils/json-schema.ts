@@ -0,0 +1,229 @@
+/**
+ * Zod to JSON Schema conversion for the worker's tools/list
+ * Produces draft-07 schemas matching what the stdio FastMCP server advertises for the same tools
+ */
+
+import { z } from 'zod';
+
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Convert a Zod schema to JSON Schema. Optional and default wrappers are unwrapped here;
+ * object conversion uses them to decide which properties are required
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const json = convert(schema);
+  if (schema.description !== undefined) {
+    json.description = schema.description;
+  }
+  return json;
+}
+
+/**
+ * Whether an object property may be omitted
+ */
+function isOptionalProperty(schema: z.ZodTypeAny): boolean {
+  return schema instanceof z.ZodOptional || schema instanceof z.ZodDefault || schema.isOptional();
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema._def.innerType), default: schema._def.defaultValue() };
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    const inner = zodToJsonSchema(schema.unwrap());
+    if (typeof inner.type === 'string' && !inner.enum) {
+      return { ...inner, type: [inner.type, 'null'] };
+    }
+    return { anyOf: [inner, { type: 'null' }] };
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType());
+  }
+
+  if (schema instanceof z.ZodObject) {
+    return convertObject(schema);
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const json: JsonSchema = { type: 'array', items: zodToJsonSchema(schema.element) };
+    if (schema._def.minLength) json.minItems = schema._def.minLength.value;
+    if (schema._def.maxLength) json.maxItems = schema._def.maxLength.value;
+    if (schema._def.exactLength) {
+      json.minItems = schema._def.exactLength.value;
+      json.maxItems = schema._def.exactLength.value;
+    }
+    return json;
+  }
+
+  if (schema instanceof z.ZodString) {
+    return convertString(schema);
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    return convertNumber(schema);
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...schema.options] };
+  }
+
+  if (schema instanceof z.ZodNativeEnum) {
+    // Numeric TypeScript enums also map values back to names; keep only the name -> value entries
+    const enumObject = schema.enum as Record<string, string | number>;
+    const values = Object.keys(enumObject)
+      .filter(key => typeof enumObject[enumObject[key]] !== 'number')
+      .map(key => enumObject[key]);
+    return { type: primitiveTypes(values), enum: values };
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    const value = schema.value;
+    return value === null ? { type: 'null' } : { type: typeof value, const: value };
+  }
+
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    return convertUnion([...schema.options] as z.ZodTypeAny[]);
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) };
+  }
+
+  if (schema instanceof z.ZodTuple) {
+    const items = schema.items.map((item: z.ZodTypeAny) => zodToJsonSchema(item));
+    return { type: 'array', minItems: items.length, maxItems: items.length, items };
+  }
+
+  if (schema instanceof z.ZodNull) {
+    return { type: 'null' };
+  }
+
+  if (schema instanceof z.ZodDate) {
+    return { type: 'string', format: 'date-time' };
+  }
+
+  if (schema instanceof z.ZodLazy) {
+    return zodToJsonSchema(schema.schema);
+  }
+
+  // z.any(), z.unknown() and anything without a JSON equivalent accept any value
+  return {};
+}
+
+function convertObject(schema: z.ZodObject<any>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+    properties[key] = zodToJsonSchema(value);
+    if (!isOptionalProperty(value)) {
+      required.push(key);
+    }
+  }
+
+  const json: JsonSchema = { type: 'object', properties };
+  if (required.length > 0) {
+    json.required = required;
+  }
+
+  const catchall = schema._def.catchall;
+  if (catchall && !(catchall instanceof z.ZodNever)) {
+    json.additionalProperties = zodToJsonSchema(catchall);
+  } else {
+    json.additionalProperties = schema._def.unknownKeys === 'passthrough';
+  }
+  return json;
+}
+
+function convertString(schema: z.ZodString): JsonSchema {
+  const json: JsonSchema = { type: 'string' };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        json.minLength = check.value;
+        break;
+      case 'max':
+        json.maxLength = check.value;
+        break;
+      case 'length':
+        json.minLength = check.value;
+        json.maxLength = check.value;
+        break;
+      case 'email':
+        json.format = 'email';
+        break;
+      case 'url':
+        json.format = 'uri';
+        break;
+      case 'uuid':
+        json.format = 'uuid';
+        break;
+      case 'datetime':
+        json.format = 'date-time';
+        break;
+      case 'regex':
+        json.pattern = check.regex.source;
+        break;
+    }
+  }
+  return json;
+}
+
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const json: JsonSchema = { type: 'number' };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        json.type = 'integer';
+        break;
+      case 'min':
+        json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        break;
+      case 'max':
+        json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        break;
+      case 'multipleOf':
+        json.multipleOf = check.value;
+        break;
+    }
+  }
+  return json;
+}
+
+/**
+ * Unions of literals become an enum and unions of plain primitives a type list, as in FastMCP; anything else is anyOf
+ */
+function convertUnion(options: z.ZodTypeAny[]): JsonSchema {
+  if (options.every(option => option instanceof z.ZodLiteral)) {
+    const values = options.map(option => (option as z.ZodLiteral<any>).value);
+    return { type: primitiveTypes(values), enum: values };
+  }
+
+  const converted = options.map(option => zodToJsonSchema(option));
+  const isPlainPrimitive = (json: JsonSchema) =>
+    typeof json.type === 'string' && json.type !== 'object' && json.type !== 'array' && Object.keys(json).length === 1;
+
+  if (converted.every(isPlainPrimitive)) {
+    const types = [...new Set(converted.map(json => json.type as string))];
+    return { type: types.length === 1 ? types[0] : types };
+  }
+  return { anyOf: converted };
+}
+
+function primitiveTypes(values: unknown[]): string | string[] {
+  const types = [...new Set(values.map(value => value === null ? 'null' : typeof value))];
+  return types.length === 1 ? types[0] : types;
+}
@@ -0,0 +1,23 @@
+/**
+ * Helpers for Workers KV namespace bindings
+ */
+
+/**
+ * All key names under a prefix, following list cursors up to limit keys.
+ * Bindings without list() (e.g. minimal test doubles) have no keys to report
+ */
+export async function listKeys(kv: any, prefix: string, limit: number = 1000): Promise<string[]> {
+  if (typeof kv?.list !== 'function') {
+    return [];
+  }
+
+  const names: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix, cursor, limit: Math.min(1000, limit - names.length) });
+    names.push(...page.keys.map((key: { name: string }) => key.name));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor && names.length < limit);
+
+  return names;
+}
@@ -0,0 +1,312 @@
+/**
+ * Session state for the Streamable HTTP transport on /mcp
+ * Tracks Mcp-Session-Id sessions, their negotiated protocol version, and the SSE events sent on
+ * each stream so a client reconnecting with Last-Event-ID can be sent what it missed.
+ * Each session belongs to the credential that initialized it; a request presenting a different one
+ * is treated as if the session did not exist.
+ *
+ * Sessions, buffered events and open streams live in the memory of the isolate that created them.
+ * They are not shared through the user's Durable Object, since a stream writer can't leave its
+ * isolate; a request that lands on another isolate gets 404 and has to initialize again, and
+ * replay after Last-Event-ID is best effort
+ */
+
+import crypto from 'crypto';
+
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-03-26', '2024-11-05'];
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+/**
+ * Use the client's requested version when supported, otherwise offer the latest one
+ */
+export function negotiateProtocolVersion(requested?: string): string {
+  return requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : LATEST_PROTOCOL_VERSION;
+}
+
+/**
+ * Format one JSON-RPC message as an SSE event
+ */
+export function formatSseEvent(message: unknown, eventId?: string): string {
+  const id = eventId ? `id: ${eventId}\n` : '';
+  return `${id}event: message\ndata: ${JSON.stringify(message)}\n\n`;
+}
+
+export interface SessionConfig {
+  sessionTtlMs: number;
+  maxEventsPerSession: number;
+  maxSessions: number;
+}
+
+export interface SessionEvent {
+  id: string;  // `${streamId}_${sequence}`
+  streamId: string;
+  data: string;  // Formatted SSE event
+  timestamp: number;
+}
+
+export interface McpSession {
+  id: string;
+  owner?: string;  // From sessionOwner(); undefined when initialize carried no credential
+  protocolVersion: string;
+  createdAt: number;
+  lastActivityAt: number;
+  standaloneStreamId: string;  // Stream opened by GET for server-initiated messages
+  events: SessionEvent[];
+  completedStreams: Set<string>;
+  writers: Map<string, WritableStreamDefaultWriter<Uint8Array>>;
+  sequence: number;
+}
+
+export interface SessionStats {
+  sessions: number;
+  openStreams: number;
+  bufferedEvents: number;
+  created: number;
+  expired: number;
+}
+
+const encoder = new TextEncoder();
+
+const sequenceOf = (eventId: string) => parseInt(eventId.substring(eventId.lastIndexOf('_') + 1), 10);
+
+const hashKey = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+/**
+ * Who a session belongs to: the OAuth grant behind a bearer token, so a refreshed token keeps
+ * the session, otherwise a hash of the Authorization header or of the X-Workflowy-* credentials
+ */
+export async function sessionOwner(headers: Headers, env: any): Promise<string | undefined> {
+  const authorization = headers.get('Authorization')?.trim();
+  const token = authorization?.replace('Bearer ', '');
+
+  if (token?.startsWith('oauth_access_')) {
+    const tokenData = await env?.OAUTH_KV?.get(`token:${token}`);
+    const grantId = tokenData ? JSON.parse(tokenData).grant_id : undefined;
+    if (grantId) {
+      return `grant:${grantId}`;
+    }
+  }
+  if (authorization) {
+    return `credential:${hashKey(authorization)}`;
+  }
+
+  const username = headers.get('X-Workflowy-Username');
+  const password = headers.get('X-Workflowy-Password');
+  return username && password ? `credential:${hashKey(`${username}\u0000${password}`)}` : undefined;
+}
+
+export class McpSessionStore {
+  private sessions = new Map<string, McpSession>();
+  private created = 0;
+  private expired = 0;
+
+  private config: SessionConfig = {
+    sessionTtlMs: 60 * 60 * 1000,  // 1 hour since last activity
+    maxEventsPerSession: 200,
+    maxSessions: 1000
+  };
+
+  constructor(config?: Partial<SessionConfig>) {
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+  }
+
+  create(protocolVersion: string, owner?: string): McpSession {
+    this.cleanup();
+
+    const now = Date.now();
+    const session: McpSession = {
+      id: crypto.randomUUID(),
+      owner,
+      protocolVersion,
+      createdAt: now,
+      lastActivityAt: now,
+      standaloneStreamId: this.newStreamId(),
+      events: [],
+      completedStreams: new Set(),
+      writers: new Map(),
+      sequence: 0
+    };
+
+    this.sessions.set(session.id, session);
+    this.created++;
+    return session;
+  }
+
+  /**
+   * Look up a session owned by owner and mark it active; expired sessions are removed
+   */
+  get(sessionId: string, owner: string | undefined): McpSession | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.owner !== owner) {
+      return undefined;
+    }
+
+    if (Date.now() - session.lastActivityAt > this.config.sessionTtlMs) {
+      this.remove(session);
+      this.expired++;
+      return undefined;
+    }
+
+    session.lastActivityAt = Date.now();
+    return session;
+  }
+
+  /**
+   * End a session owned by owner and close its open streams
+   */
+  delete(sessionId: string, owner: string | undefined): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.owner !== owner) {
+      return false;
+    }
+    this.remove(session);
+    return true;
+  }
+
+  newStreamId(): string {
+    return crypto.randomUUID().replace(/-/g, '').substring(0, 16);
+  }
+
+  /**
+   * Record a message on a stream and forward it to the stream's writer if one is attached.
+   * Events are kept for replay even when the client has disconnected
+   */
+  async emit(session: McpSession, streamId: string, message: unknown): Promise<SessionEvent> {
+    const id = `${streamId}_${++session.sequence}`;
+    const event: SessionEvent = { id, streamId, data: formatSseEvent(message, id), timestamp: Date.now() };
+
+    session.events.push(event);
+    if (session.events.length > this.config.maxEventsPerSession) {
+      session.events.splice(0, session.events.length - this.config.maxEventsPerSession);
+    }
+
+    await this.write(session, streamId, event.data);
+    return event;
+  }
+
+  /**
+   * Send a server-initiated message on the session's standalone GET stream
+   */
+  async send(sessionId: string, message: unknown): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+    await this.emit(session, session.standaloneStreamId, message);
+    return session.writers.has(session.standaloneStreamId);
+  }
+
+  /**
+   * Attach a writer to a stream, replacing (and closing) any previous one
+   */
+  attach(session: McpSession, streamId: string, writer: WritableStreamDefaultWriter<Uint8Array>): void {
+    const previous = session.writers.get(streamId);
+    if (previous && previous !== writer) {
+      previous.close().catch(() => {});
+    }
+    session.writers.set(streamId, writer);
+  }
+
+  /**
+   * Mark a stream as finished and close its writer. Request streams finish once every response is sent
+   */
+  async complete(session: McpSession, streamId: string): Promise<void> {
+    session.completedStreams.add(streamId);
+    const writer = session.writers.get(streamId);
+    session.writers.delete(streamId);
+    await writer?.close().catch(() => {});
+  }
+
+  isComplete(session: McpSession, streamId: string): boolean {
+    return session.completedStreams.has(streamId);
+  }
+
+  /**
+   * Events sent on the same stream after lastEventId, or null when the ID is unknown for this session
+   */
+  eventsAfter(session: McpSession, lastEventId: string): { streamId: string; events: SessionEvent[] } | null {
+    const separator = lastEventId.lastIndexOf('_');
+    const streamId = lastEventId.substring(0, separator);
+    const sequence = sequenceOf(lastEventId);
+
+    if (separator <= 0 || isNaN(sequence) || sequence > session.sequence) {
+      return null;
+    }
+    const known = streamId === session.standaloneStreamId || session.events.some(event => event.streamId === streamId);
+    if (!known) {
+      return null;
+    }
+
+    return {
+      streamId,
+      events: session.events.filter(event => event.streamId === streamId && sequenceOf(event.id) > sequence)
+    };
+  }
+
+  getStats(): SessionStats {
+    let openStreams = 0;
+    let bufferedEvents = 0;
+    for (const session of this.sessions.values()) {
+      openStreams += session.writers.size;
+      bufferedEvents += session.events.length;
+    }
+    return {
+      sessions: this.sessions.size,
+      openStreams,
+      bufferedEvents,
+      created: this.created,
+      expired: this.expired
+    };
+  }
+
+  clear(): void {
+    for (const session of [...this.sessions.values()]) {
+      this.remove(session);
+    }
+  }
+
+  private async write(session: McpSession, streamId: string, data: string): Promise<void> {
+    const writer = session.writers.get(streamId);
+    if (!writer) {
+      return;
+    }
+    try {
+      await writer.write(encoder.encode(data));
+    } catch {
+      // Client went away; keep the event for replay via Last-Event-ID
+      session.writers.delete(streamId);
+    }
+  }
+
+  private remove(session: McpSession): void {
+    for (const writer of session.writers.values()) {
+      writer.close().catch(() => {});
+    }
+    session.writers.clear();
+    this.sessions.delete(session.id);
+  }
+
+  /**
+   * Drop expired sessions, then the least recently active ones over the limit
+   */
+  private cleanup(): void {
+    const now = Date.now();
+    for (const session of [...this.sessions.values()]) {
+      if (now - session.lastActivityAt > this.config.sessionTtlMs) {
+        this.remove(session);
+        this.expired++;
+      }
+    }
+
+    if (this.sessions.size >= this.config.maxSessions) {
+      const oldest = [...this.sessions.values()].sort((a, b) => a.lastActivityAt - b.lastActivityAt);
+      for (const session of oldest.slice(0, this.sessions.size - this.config.maxSessions + 1)) {
+        this.remove(session);
+      }
+    }
+  }
+}
+
+export const mcpSessions = new McpSessionStore();
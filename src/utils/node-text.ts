@@ -0,0 +1,190 @@
+/**
+ * Text helpers for Workflowy node names and notes
+ * Names and notes are stored as HTML fragments; these helpers work on their visible text
+ */
+
+const TAG_PATTERN = /(?:^|[^\w&/])#([\w][\w-]*)/g;
+const MENTION_PATTERN = /(?:^|[^\w./])@([\w][\w.-]*[\w]|[\w])/g;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' '
+};
+
+/**
+ * Strip HTML formatting and decode entities
+ */
+export function toPlainText(text: string | undefined): string {
+  if (!text) return '';
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, entity => HTML_ENTITIES[entity]);
+}
+
+function collectMatches(text: string, pattern: RegExp): string[] {
+  const found = new Set<string>();
+  for (const match of toPlainText(text).matchAll(pattern)) {
+    found.add(match[1].toLowerCase());
+  }
+  return [...found];
+}
+
+/**
+ * Extract lowercase #tags (without the #) in order of first appearance
+ */
+export function extractTags(text: string | undefined): string[] {
+  return text ? collectMatches(text, TAG_PATTERN) : [];
+}
+
+/**
+ * Extract lowercase @mentions (without the @) in order of first appearance
+ */
+export function extractMentions(text: string | undefined): string[] {
+  return text ? collectMatches(text, MENTION_PATTERN) : [];
+}
+
+export interface NodeDate {
+  date: string;        // YYYY-MM-DD
+  time?: string;       // HH:MM, when the date has a time
+  endDate?: string;
+  endTime?: string;
+  text: string;        // Text as shown in Workflowy
+  source: 'time' | 'text';
+}
+
+export interface NodeLink {
+  url: string;
+  text?: string;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// Full month names and their standard abbreviations, so words like "market" or "decision" aren't dates
+const MONTH_NAME = '(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec)\\.?';
+
+const pad = (value: number | string) => String(value).padStart(2, '0');
+
+function formatDate(year: number | string, month: number | string, day: number | string): string | undefined {
+  const y = Number(year), m = Number(month), d = Number(day);
+  const parsed = new Date(Date.UTC(y, m - 1, d));
+  if (!y || parsed.getUTCMonth() !== m - 1 || parsed.getUTCDate() !== d) {
+    return undefined;
+  }
+  return `${y}-${pad(m)}-${pad(d)}`;
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+function getAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w-]+)="([^"]*)"/g)) {
+    attributes[match[1]] = match[2];
+  }
+  return attributes;
+}
+
+/**
+ * Read a Workflowy date element: <time startYear="2024" startMonth="3" startDay="15" ...>
+ */
+function parseTimeElement(openingTag: string, inner: string): NodeDate | undefined {
+  const attrs = getAttributes(openingTag);
+  const date = formatDate(attrs.startYear, attrs.startMonth, attrs.startDay);
+  if (!date) {
+    return undefined;
+  }
+
+  const result: NodeDate = { date, text: toPlainText(inner), source: 'time' };
+  if (attrs.startHour !== undefined) {
+    result.time = `${pad(attrs.startHour)}:${pad(attrs.startMinute ?? 0)}`;
+  }
+  const endDate = formatDate(attrs.endYear, attrs.endMonth, attrs.endDay);
+  if (endDate) {
+    result.endDate = endDate;
+    if (attrs.endHour !== undefined) {
+      result.endTime = `${pad(attrs.endHour)}:${pad(attrs.endMinute ?? 0)}`;
+    }
+  }
+  return result;
+}
+
+/**
+ * Extract dates from Workflowy <time> elements, followed by dates written as text
+ * (2024-03-15, Mar 15 2024, 15 March 2024) in order of appearance
+ */
+export function extractDates(text: string | undefined): NodeDate[] {
+  if (!text) return [];
+
+  const dates: NodeDate[] = [];
+  const withoutTimeElements = text.replace(/(<time\b[^>]*>)([\s\S]*?)<\/time>/gi, (_, openingTag, inner) => {
+    const parsed = parseTimeElement(openingTag, inner);
+    if (parsed) {
+      dates.push(parsed);
+    }
+    return ' ';
+  });
+
+  const plain = toPlainText(withoutTimeElements);
+  const patterns: Array<{ regex: RegExp; toDate: (m: RegExpMatchArray) => string | undefined }> = [
+    {
+      regex: /\b(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?\b/g,
+      toDate: m => formatDate(m[1], m[2], m[3])
+    },
+    {
+      regex: new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi'),
+      toDate: m => formatDate(m[3], monthNumber(m[1]), m[2])
+    },
+    {
+      regex: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_NAME}\\s+(\\d{4})\\b`, 'gi'),
+      toDate: m => formatDate(m[3], monthNumber(m[2]), m[1])
+    }
+  ];
+
+  const found: Array<NodeDate & { index: number }> = [];
+  for (const { regex, toDate } of patterns) {
+    for (const match of plain.matchAll(regex)) {
+      const date = toDate(match);
+      if (date) {
+        const entry: NodeDate & { index: number } = { date, text: match[0], source: 'text', index: match.index ?? 0 };
+        if (regex === patterns[0].regex && match[4] !== undefined) {
+          entry.time = `${match[4]}:${match[5]}`;
+        }
+        found.push(entry);
+      }
+    }
+  }
+
+  found.sort((a, b) => a.index - b.index);
+  return [...dates, ...found.map(({ index, ...date }) => date)];
+}
+
+/**
+ * Extract links from <a href> elements and bare URLs, without duplicates
+ */
+export function extractLinks(text: string | undefined): NodeLink[] {
+  if (!text) return [];
+
+  const links = new Map<string, NodeLink>();
+  const withoutAnchors = text.replace(/(<a\b[^>]*>)([\s\S]*?)<\/a>/gi, (_, openingTag, inner) => {
+    const href = getAttributes(openingTag).href;
+    if (href) {
+      const url = toPlainText(href);
+      const linkText = toPlainText(inner).trim();
+      links.set(url, linkText && linkText !== url ? { url, text: linkText } : { url });
+    }
+    return ' ';
+  });
+
+  for (const match of toPlainText(withoutAnchors).matchAll(/\bhttps?:\/\/[^\s<>"']+/g)) {
+    const url = match[0].replace(/[.,;:!?)\]]+$/, '');
+    if (!links.has(url)) {
+      links.set(url, { url });
+    }
+  }
+
+  return [...links.values()];
+}
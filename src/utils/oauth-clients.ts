@@ -0,0 +1,281 @@
+/**
+ * OAuth clients registered through dynamic client registration (RFC 7591), stored in OAUTH_KV
+ * Authorization requests must name a registered client and one of its redirect URIs. Confidential
+ * clients get a client_secret at registration and must present it to the token endpoint, in an
+ * HTTP Basic header (client_secret_basic) or the form body (client_secret_post); KV keeps only its
+ * hash. Public clients authenticate with none and must send a PKCE S256 code_challenge with every
+ * authorization. Clients are kept after revocation, marked with revoked_at, so a revoked client_id
+ * can't quietly come back through the authorize and token endpoints
+ */
+
+import { listKeys } from './kv.js';
+import { OAuthFailure, OAuthErrorCode } from './oauth-tokens.js';
+
+export const DEFAULT_REDIRECT_URIS = ['https://claude.ai/api/mcp/auth_callback'];
+
+export type TokenEndpointAuthMethod = 'none' | 'client_secret_basic' | 'client_secret_post';
+
+export const TOKEN_ENDPOINT_AUTH_METHODS: TokenEndpointAuthMethod[] = ['none', 'client_secret_basic', 'client_secret_post'];
+
+const CLIENT_SECRET_PREFIX = 'wfy_secret_';
+
+// Schemes that would run script or read local files when a browser follows the redirect
+const FORBIDDEN_REDIRECT_SCHEMES = ['javascript:', 'data:', 'vbscript:', 'file:'];
+
+export interface OAuthClientRecord {
+  client_id: string;
+  client_name: string;
+  redirect_uris: string[];
+  grant_types: string[];
+  response_types: string[];
+  scope: string;
+  token_endpoint_auth_method?: TokenEndpointAuthMethod;  // Missing means none
+  created_at: number;
+  revoked_at?: number;
+}
+
+// As stored in KV; the secret hash never leaves this module
+interface StoredClient extends OAuthClientRecord {
+  client_secret_hash?: string;
+}
+
+export interface ClientRegistration {
+  client_name?: string;
+  redirect_uris?: string[];
+  scope?: string;
+  token_endpoint_auth_method?: string;
+}
+
+export interface RegisteredClient extends OAuthClientRecord {
+  client_secret?: string;  // Returned once, for confidential clients
+}
+
+// Client credentials as presented to the token endpoint
+export interface ClientCredentials {
+  client_id?: string;
+  client_secret?: string;
+  method: TokenEndpointAuthMethod;
+}
+
+const failure = (error: OAuthErrorCode, error_description: string): OAuthFailure => ({ error, error_description });
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function publicView(stored: StoredClient): OAuthClientRecord {
+  const { client_secret_hash, ...client } = stored;
+  return client;
+}
+
+const isLoopbackHost = (hostname: string) => ['localhost', '127.0.0.1', '[::1]'].includes(hostname);
+
+/**
+ * Public clients have no secret, so PKCE is their only proof of holding an authorization code
+ */
+export function isPublicClient(client: OAuthClientRecord): boolean {
+  return (client.token_endpoint_auth_method ?? 'none') === 'none';
+}
+
+/**
+ * Check redirect URIs offered at registration: absolute, without a fragment, and https unless
+ * they point at a loopback address (native apps, RFC 8252 §7.3) or use a private scheme
+ */
+export function validateRedirectUris(uris: unknown): OAuthFailure | null {
+  if (!Array.isArray(uris) || uris.length === 0 || uris.some(uri => typeof uri !== 'string')) {
+    return failure('invalid_redirect_uri', 'redirect_uris must be a non-empty array of URIs');
+  }
+
+  for (const uri of uris as string[]) {
+    let parsed: URL;
+    try {
+      parsed = new URL(uri);
+    } catch {
+      return failure('invalid_redirect_uri', `Not an absolute URI: ${uri}`);
+    }
+    if (parsed.hash || uri.includes('#')) {
+      return failure('invalid_redirect_uri', `Redirect URIs can't contain a fragment: ${uri}`);
+    }
+    if (FORBIDDEN_REDIRECT_SCHEMES.includes(parsed.protocol)) {
+      return failure('invalid_redirect_uri', `Unsupported redirect URI scheme: ${parsed.protocol}`);
+    }
+    if (parsed.protocol === 'http:' && !isLoopbackHost(parsed.hostname)) {
+      return failure('invalid_redirect_uri', `Redirect URIs must use https unless they point at localhost: ${uri}`);
+    }
+  }
+  return null;
+}
+
+/**
+ * Read client credentials from an "Authorization: Basic" header or the client_id and client_secret
+ * form fields. Using both at once is rejected (RFC 6749 §2.3)
+ */
+export function clientCredentials(authorization: string | null, form: { get(name: string): unknown }): ClientCredentials | OAuthFailure {
+  const formId = (form.get('client_id') as string | null) || undefined;
+  const formSecret = (form.get('client_secret') as string | null) || undefined;
+
+  if (!authorization?.startsWith('Basic ')) {
+    return { client_id: formId, client_secret: formSecret, method: formSecret ? 'client_secret_post' : 'none' };
+  }
+
+  if (formSecret) {
+    return failure('invalid_request', 'Use one client authentication method, not both');
+  }
+  // Both parts are form-urlencoded before encoding (RFC 6749 §2.3.1)
+  const unescape = (value: string) => decodeURIComponent(value.replace(/\+/g, ' '));
+  let client_id: string;
+  let client_secret: string;
+  try {
+    const decoded = atob(authorization.substring('Basic '.length));
+    const separator = decoded.indexOf(':');
+    if (separator < 0) {
+      return failure('invalid_client', 'Malformed Basic authorization header');
+    }
+    client_id = unescape(decoded.substring(0, separator));
+    client_secret = unescape(decoded.substring(separator + 1));
+  } catch {
+    return failure('invalid_client', 'Malformed Basic authorization header');
+  }
+
+  if (formId && formId !== client_id) {
+    return failure('invalid_request', 'client_id does not match the authenticated client');
+  }
+  return { client_id, client_secret, method: 'client_secret_basic' };
+}
+
+export class OAuthClientRegistry {
+  /**
+   * Register a client. Clients asking for client_secret_basic or client_secret_post are confidential
+   * and get a secret, which is only ever returned here
+   */
+  async register(kv: any, registration: ClientRegistration): Promise<RegisteredClient | OAuthFailure> {
+    const redirect_uris = registration.redirect_uris ?? DEFAULT_REDIRECT_URIS;
+    const invalidRedirect = validateRedirectUris(redirect_uris);
+    if (invalidRedirect) {
+      return invalidRedirect;
+    }
+
+    const method = (registration.token_endpoint_auth_method ?? 'none') as TokenEndpointAuthMethod;
+    if (!TOKEN_ENDPOINT_AUTH_METHODS.includes(method)) {
+      return failure('invalid_client_metadata', `Unsupported token_endpoint_auth_method: ${method}`);
+    }
+
+    const record: StoredClient = {
+      client_id: `claude_${Date.now()}_${Math.random().toString(36).substring(7)}`,
+      client_name: registration.client_name || 'Claude Desktop',
+      redirect_uris,
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      scope: registration.scope || 'workflowy:read workflowy:write',
+      token_endpoint_auth_method: method,
+      created_at: Date.now()
+    };
+
+    let client_secret: string | undefined;
+    if (method !== 'none') {
+      const bytes = crypto.getRandomValues(new Uint8Array(32));
+      client_secret = CLIENT_SECRET_PREFIX + Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+      record.client_secret_hash = await sha256Hex(client_secret);
+    }
+
+    if (kv) {
+      await kv.put(`client:${record.client_id}`, JSON.stringify(record));
+    }
+    return { ...publicView(record), ...(client_secret && { client_secret }) };
+  }
+
+  async get(kv: any, clientId: string): Promise<OAuthClientRecord | null> {
+    const stored = await this.load(kv, clientId);
+    return stored ? publicView(stored) : null;
+  }
+
+  /**
+   * Registered clients, newest first
+   */
+  async list(kv: any): Promise<OAuthClientRecord[]> {
+    const clients: OAuthClientRecord[] = [];
+    for (const key of await listKeys(kv, 'client:')) {
+      const value = await kv.get(key);
+      if (value) {
+        clients.push(publicView(JSON.parse(value)));
+      }
+    }
+    return clients.sort((a, b) => b.created_at - a.created_at);
+  }
+
+  async isRevoked(kv: any, clientId: string): Promise<boolean> {
+    return !!(await this.load(kv, clientId))?.revoked_at;
+  }
+
+  /**
+   * The redirect URI an authorization request resolves to: an exact match among the client's
+   * registered URIs, or its only URI when the request names none (RFC 6749 §3.1.2.3)
+   */
+  resolveRedirectUri(client: OAuthClientRecord, requested?: string | null): string | null {
+    if (!requested) {
+      return client.redirect_uris.length === 1 ? client.redirect_uris[0] : null;
+    }
+    return client.redirect_uris.includes(requested) ? requested : null;
+  }
+
+  /**
+   * Check credentials presented to the token endpoint. Confidential clients may use either secret
+   * method; public clients must not send a secret
+   */
+  async authenticate(kv: any, credentials: ClientCredentials): Promise<OAuthClientRecord | OAuthFailure> {
+    if (!credentials.client_id) {
+      return failure('invalid_request', 'client_id is required');
+    }
+
+    const stored = await this.load(kv, credentials.client_id);
+    if (!stored) {
+      return failure('invalid_client', 'Unknown client');
+    }
+    if (stored.revoked_at) {
+      return failure('unauthorized_client', 'Client has been revoked');
+    }
+
+    if (!stored.client_secret_hash) {
+      return credentials.client_secret ? failure('invalid_client', 'Public clients have no client_secret') : publicView(stored);
+    }
+    if (!credentials.client_secret) {
+      return failure('invalid_client', 'Client authentication required');
+    }
+    // Comparing hashes leaks nothing useful about the secret through timing
+    if (await sha256Hex(credentials.client_secret) !== stored.client_secret_hash) {
+      return failure('invalid_client', 'Client authentication failed');
+    }
+    return publicView(stored);
+  }
+
+  /**
+   * Stop a client from starting new grants. Client IDs that never registered (e.g. ones holding
+   * grants from before the registry existed) get a record so the revocation sticks
+   */
+  async revoke(kv: any, clientId: string): Promise<boolean> {
+    const stored = await this.load(kv, clientId);
+    if (stored?.revoked_at) {
+      return false;
+    }
+
+    const revoked: StoredClient = stored ?? {
+      client_id: clientId,
+      client_name: clientId,
+      redirect_uris: [],
+      grant_types: [],
+      response_types: [],
+      scope: '',
+      created_at: Date.now()
+    };
+    await kv.put(`client:${clientId}`, JSON.stringify({ ...revoked, revoked_at: Date.now() }));
+    return true;
+  }
+
+  private async load(kv: any, clientId: string): Promise<StoredClient | null> {
+    const value = await kv?.get(`client:${clientId}`);
+    return value ? JSON.parse(value) : null;
+  }
+}
+
+export const oauthClients = new OAuthClientRegistry();
@@ -0,0 +1,303 @@
+/**
+ * OAuth access and refresh tokens stored in OAUTH_KV
+ * Every authorization code exchange starts a grant: a 1-hour access token plus a 30-day refresh token.
+ * Refresh tokens rotate on use; presenting one that was already rotated revokes the whole grant,
+ * since either the client or an attacker is replaying a leaked token (RFC 9700 §4.14.2).
+ * Also backs RFC 7009 revocation and RFC 7662 introspection
+ */
+
+import { listKeys } from './kv.js';
+
+export const ACCESS_TOKEN_PREFIX = 'oauth_access_';
+export const REFRESH_TOKEN_PREFIX = 'oauth_refresh_';
+
+export const ACCESS_TOKEN_TTL_SECONDS = 3600;
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 3600;
+
+export type OAuthErrorCode = 'invalid_request' | 'invalid_client' | 'invalid_grant' | 'invalid_scope' | 'unauthorized_client'
+  | 'unsupported_token_type' | 'invalid_redirect_uri' | 'invalid_client_metadata';
+
+export interface OAuthFailure {
+  error: OAuthErrorCode;
+  error_description: string;
+}
+
+// What the user authorized; copied onto every token issued for the grant
+export interface OAuthGrant {
+  client_id: string;
+  scope: string;
+  workflowy_username: string;
+  credentials: string;  // Sealed by the credential vault
+  root_id?: string;     // Subtree restriction, see access-control.ts
+}
+
+export interface AccessTokenRecord extends OAuthGrant {
+  created_at: number;
+  expires_at: number;
+  grant_id?: string;  // Missing on tokens issued before refresh tokens existed
+  workflowy_password?: string;  // Plaintext on tokens issued before the credential vault, until they expire
+}
+
+export interface RefreshTokenRecord extends OAuthGrant {
+  created_at: number;
+  expires_at: number;
+  grant_id: string;
+  rotated_at?: number;  // Set once exchanged; kept until expiry to detect reuse
+}
+
+// The grant's live token pair, so revocation and reuse detection can reach the newest tokens
+interface GrantRecord {
+  access_token: string;
+  refresh_token: string;
+}
+
+export interface TokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  refresh_token: string;
+  scope: string;
+}
+
+export interface TokenIntrospection {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  username?: string;
+  root_id?: string;
+  token_type?: 'Bearer' | 'refresh_token';
+  exp?: number;
+  iat?: number;
+}
+
+// A live grant as operators see it; token values and credentials are left out
+export interface GrantSummary {
+  grant_id: string;
+  client_id: string;
+  username: string;
+  scope: string;
+  root_id?: string;
+  refreshed_at: number;  // When the current token pair was issued
+  expires_at: number;    // When the refresh token runs out
+  access_expires_at?: number;
+}
+
+export type TokenTypeHint = 'access_token' | 'refresh_token';
+
+const failure = (error: OAuthErrorCode, error_description: string): OAuthFailure => ({ error, error_description });
+
+const scopesOf = (scope: string | undefined) => (scope ?? '').split(' ').filter(Boolean);
+
+function randomToken(prefix: string): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return prefix + Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function isOAuthFailure(result: unknown): result is OAuthFailure {
+  return typeof result === 'object' && result !== null && 'error' in result;
+}
+
+export class OAuthTokenStore {
+  /**
+   * Start a grant after a successful authorization code exchange
+   */
+  async issue(kv: any, grant: OAuthGrant): Promise<TokenResponse> {
+    return this.issuePair(kv, grant, randomToken('grant_'), grant.scope);
+  }
+
+  /**
+   * Exchange a refresh token for a new pair (grant_type=refresh_token). The old refresh token
+   * and its access token stop working; a narrower scope applies to the new access token only
+   */
+  async refresh(kv: any, refreshToken: string, clientId: string, scope?: string): Promise<TokenResponse | OAuthFailure> {
+    const record = await this.read<RefreshTokenRecord>(kv, `refresh:${refreshToken}`);
+    if (!record || record.expires_at < Date.now()) {
+      return failure('invalid_grant', 'Refresh token is invalid or expired');
+    }
+    if (record.client_id !== clientId) {
+      return failure('invalid_grant', 'Refresh token was issued to another client');
+    }
+    if (record.rotated_at) {
+      await this.revokeGrant(kv, record.grant_id);
+      return failure('invalid_grant', 'Refresh token was already used; the grant has been revoked');
+    }
+
+    const requested = scope ? scopesOf(scope) : scopesOf(record.scope);
+    if (requested.some(item => !scopesOf(record.scope).includes(item))) {
+      return failure('invalid_scope', 'Requested scope exceeds the original grant');
+    }
+
+    const grant = await this.read<GrantRecord>(kv, `grant:${record.grant_id}`);
+    if (grant) {
+      await kv.delete(`token:${grant.access_token}`);
+    }
+    await kv.put(`refresh:${refreshToken}`, JSON.stringify({ ...record, rotated_at: Date.now() }), {
+      expirationTtl: this.remainingSeconds(record.expires_at)
+    });
+
+    return this.issuePair(kv, record, record.grant_id, requested.join(' '));
+  }
+
+  /**
+   * RFC 7009 revocation. Revoking a refresh token ends the whole grant; revoking an access token
+   * ends only that token. Unknown tokens succeed silently, as the RFC requires
+   */
+  async revoke(kv: any, token: string, hint?: string, clientId?: string): Promise<OAuthFailure | null> {
+    if (hint && hint !== 'access_token' && hint !== 'refresh_token') {
+      return failure('unsupported_token_type', `Unsupported token_type_hint: ${hint}`);
+    }
+
+    const found = await this.find(kv, token, hint as TokenTypeHint | undefined);
+    if (!found) {
+      return null;
+    }
+    if (clientId && found.record.client_id !== clientId) {
+      return failure('unauthorized_client', 'Token was issued to another client');
+    }
+
+    if (found.type === 'refresh_token') {
+      await this.revokeGrant(kv, found.record.grant_id!);
+      await kv.delete(`refresh:${token}`);
+    } else {
+      await kv.delete(`token:${token}`);
+    }
+    return null;
+  }
+
+  /**
+   * RFC 7662 introspection. Credentials are never part of the response
+   */
+  async introspect(kv: any, token: string, hint?: string): Promise<TokenIntrospection> {
+    const found = await this.find(kv, token, hint as TokenTypeHint | undefined);
+    if (!found || found.record.expires_at < Date.now() || (found.record as RefreshTokenRecord).rotated_at) {
+      return { active: false };
+    }
+
+    return {
+      active: true,
+      scope: found.record.scope,
+      client_id: found.record.client_id,
+      username: found.record.workflowy_username,
+      ...(found.record.root_id && { root_id: found.record.root_id }),
+      token_type: found.type === 'access_token' ? 'Bearer' : 'refresh_token',
+      exp: Math.floor(found.record.expires_at / 1000),
+      iat: Math.floor(found.record.created_at / 1000)
+    };
+  }
+
+  /**
+   * Live grants, newest first
+   */
+  async listGrants(kv: any): Promise<GrantSummary[]> {
+    const grants: GrantSummary[] = [];
+    for (const key of await listKeys(kv, 'grant:')) {
+      const grant = await this.read<GrantRecord>(kv, key);
+      const refresh = grant && await this.read<RefreshTokenRecord>(kv, `refresh:${grant.refresh_token}`);
+      if (!grant || !refresh || refresh.expires_at < Date.now()) {
+        continue;
+      }
+      const access = await this.read<AccessTokenRecord>(kv, `token:${grant.access_token}`);
+      grants.push({
+        grant_id: key.substring('grant:'.length),
+        client_id: refresh.client_id,
+        username: refresh.workflowy_username,
+        scope: refresh.scope,
+        ...(refresh.root_id && { root_id: refresh.root_id }),
+        refreshed_at: refresh.created_at,
+        expires_at: refresh.expires_at,
+        ...(access && access.expires_at > Date.now() && { access_expires_at: access.expires_at })
+      });
+    }
+    return grants.sort((a, b) => b.refreshed_at - a.refreshed_at);
+  }
+
+  /**
+   * End a grant by ID: its access token stops working and its refresh token can't be used again
+   */
+  async revokeGrantById(kv: any, grantId: string): Promise<boolean> {
+    if (!(await this.read<GrantRecord>(kv, `grant:${grantId}`))) {
+      return false;
+    }
+    await this.revokeGrant(kv, grantId);
+    return true;
+  }
+
+  /**
+   * End every grant issued to a client. Returns how many were revoked
+   */
+  async revokeClient(kv: any, clientId: string): Promise<number> {
+    const grants = (await this.listGrants(kv)).filter(grant => grant.client_id === clientId);
+    for (const grant of grants) {
+      await this.revokeGrant(kv, grant.grant_id);
+    }
+    return grants.length;
+  }
+
+  private async issuePair(kv: any, grant: OAuthGrant, grantId: string, accessScope: string): Promise<TokenResponse> {
+    const now = Date.now();
+    const access_token = randomToken(ACCESS_TOKEN_PREFIX);
+    const refresh_token = randomToken(REFRESH_TOKEN_PREFIX);
+    const base: OAuthGrant = {
+      client_id: grant.client_id,
+      scope: grant.scope,
+      workflowy_username: grant.workflowy_username,
+      credentials: grant.credentials,
+      ...(grant.root_id && { root_id: grant.root_id })
+    };
+
+    const accessRecord: AccessTokenRecord = {
+      ...base,
+      scope: accessScope,
+      created_at: now,
+      expires_at: now + ACCESS_TOKEN_TTL_SECONDS * 1000,
+      grant_id: grantId
+    };
+    const refreshRecord: RefreshTokenRecord = {
+      ...base,
+      created_at: now,
+      expires_at: now + REFRESH_TOKEN_TTL_SECONDS * 1000,
+      grant_id: grantId
+    };
+    const grantRecord: GrantRecord = { access_token, refresh_token };
+
+    await kv.put(`token:${access_token}`, JSON.stringify(accessRecord), { expirationTtl: ACCESS_TOKEN_TTL_SECONDS });
+    await kv.put(`refresh:${refresh_token}`, JSON.stringify(refreshRecord), { expirationTtl: REFRESH_TOKEN_TTL_SECONDS });
+    await kv.put(`grant:${grantId}`, JSON.stringify(grantRecord), { expirationTtl: REFRESH_TOKEN_TTL_SECONDS });
+
+    return { access_token, token_type: 'Bearer', expires_in: ACCESS_TOKEN_TTL_SECONDS, refresh_token, scope: accessScope };
+  }
+
+  private async revokeGrant(kv: any, grantId: string): Promise<void> {
+    const grant = await this.read<GrantRecord>(kv, `grant:${grantId}`);
+    if (grant) {
+      await kv.delete(`token:${grant.access_token}`);
+      await kv.delete(`refresh:${grant.refresh_token}`);
+      await kv.delete(`grant:${grantId}`);
+    }
+  }
+
+  // The hint only decides which lookup goes first; the token's prefix is not trusted
+  private async find(kv: any, token: string, hint?: TokenTypeHint):
+    Promise<{ type: TokenTypeHint; record: AccessTokenRecord | RefreshTokenRecord } | null> {
+    const order: TokenTypeHint[] = hint === 'refresh_token' ? ['refresh_token', 'access_token'] : ['access_token', 'refresh_token'];
+    for (const type of order) {
+      const record = await this.read<AccessTokenRecord | RefreshTokenRecord>(kv, `${type === 'access_token' ? 'token' : 'refresh'}:${token}`);
+      if (record) {
+        return { type, record };
+      }
+    }
+    return null;
+  }
+
+  private async read<T>(kv: any, key: string): Promise<T | null> {
+    const value = await kv?.get(key);
+    return value ? JSON.parse(value) as T : null;
+  }
+
+  // KV rejects expirationTtl below 60 seconds
+  private remainingSeconds(expiresAt: number): number {
+    return Math.max(60, Math.ceil((expiresAt - Date.now()) / 1000));
+  }
+}
+
+export const oauthTokens = new OAuthTokenStore();
@@ -0,0 +1,224 @@
+/**
+ * Token-bucket rate limiting for the worker's MCP endpoints
+ * Each API key or OAuth client gets separate read and write buckets that refill continuously at
+ * ServerConfig.rateLimit's per-minute rates, so a runaway agent can't exhaust the Workflowy account.
+ * Buckets live in KV (RATE_LIMIT_KV, falling back to OAUTH_KV) or in memory when no KV is bound
+ */
+
+import crypto from 'crypto';
+
+export type RateLimitBucket = 'read' | 'write';
+
+export interface RateLimitPolicy {
+  enabled: boolean;
+  requestsPerMinute: number;       // Read budget
+  writeRequestsPerMinute: number;  // Write budget
+}
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  bucket: RateLimitBucket;  // The bucket that was exhausted, or the one these headers describe
+  limit: number;
+  remaining: number;
+  resetSeconds: number;       // Until the bucket is full again
+  retryAfterSeconds: number;  // Until the request would have been allowed (0 when allowed)
+}
+
+export type RateLimitCosts = Partial<Record<RateLimitBucket, number>>;
+
+export interface RateLimitStore {
+  get(key: string): Promise<BucketState | null>;
+  put(key: string, state: BucketState, ttlSeconds: number): Promise<void>;
+}
+
+// Methods that reach Workflowy; protocol housekeeping (initialize, lists, pings) is free
+const READ_METHODS = ['resources/list', 'resources/read', 'resources/subscribe', 'prompts/get'];
+
+// KV rejects expirationTtl below 60 seconds
+const MIN_KV_TTL_SECONDS = 60;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { state: BucketState; expiresAt: number }>();
+
+  async get(key: string): Promise<BucketState | null> {
+    const entry = this.buckets.get(key);
+    if (!entry || entry.expiresAt < Date.now()) {
+      this.buckets.delete(key);
+      return null;
+    }
+    return { ...entry.state };
+  }
+
+  async put(key: string, state: BucketState, ttlSeconds: number): Promise<void> {
+    this.buckets.set(key, { state: { ...state }, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  clear(): void {
+    this.buckets.clear();
+  }
+}
+
+/**
+ * KV-backed buckets. KV has no compare-and-set, so concurrent requests in different
+ * locations can briefly overspend a bucket; limits are approximate, not exact
+ */
+export class KvRateLimitStore implements RateLimitStore {
+  constructor(private kv: any) {}
+
+  async get(key: string): Promise<BucketState | null> {
+    const value = await this.kv.get(`ratelimit:${key}`);
+    return value ? JSON.parse(value) : null;
+  }
+
+  async put(key: string, state: BucketState, ttlSeconds: number): Promise<void> {
+    await this.kv.put(`ratelimit:${key}`, JSON.stringify(state), {
+      expirationTtl: Math.max(MIN_KV_TTL_SECONDS, Math.ceil(ttlSeconds))
+    });
+  }
+}
+
+const hashKey = (value: string) => crypto.createHash('sha256').update(value).digest('hex').substring(0, 16);
+
+/**
+ * Which bucket a JSON-RPC message draws from, or null when it is free
+ */
+export function bucketFor(message: { method?: string; params?: any }, isWriteTool: (name: string) => boolean): RateLimitBucket | null {
+  if (message.method === 'tools/call') {
+    return isWriteTool(message.params?.name) ? 'write' : 'read';
+  }
+  return message.method && READ_METHODS.includes(message.method) ? 'read' : null;
+}
+
+export function costsFor(messages: Array<{ method?: string; params?: any }>, isWriteTool: (name: string) => boolean): RateLimitCosts {
+  const costs: RateLimitCosts = {};
+  for (const message of messages) {
+    const bucket = bucketFor(message, isWriteTool);
+    if (bucket) {
+      costs[bucket] = (costs[bucket] ?? 0) + 1;
+    }
+  }
+  return costs;
+}
+
+/**
+ * Who a request is charged to: the OAuth client behind a bearer token, the API key itself,
+ * a connector authorization_token param, or the client IP when unauthenticated
+ */
+export async function rateLimitIdentity(request: Request, env: any, messages: Array<{ params?: any }> = []): Promise<string> {
+  const token = request.headers.get('Authorization')?.replace('Bearer ', '').trim();
+
+  if (token?.startsWith('oauth_access_')) {
+    const tokenData = await env.OAUTH_KV?.get(`token:${token}`);
+    const clientId = tokenData ? JSON.parse(tokenData).client_id : undefined;
+    return clientId ? `client:${clientId}` : `token:${hashKey(token)}`;
+  }
+  if (token) {
+    return `key:${hashKey(token)}`;
+  }
+
+  const authorizationToken = messages.find(message => message.params?.authorization_token)?.params.authorization_token;
+  if (authorizationToken) {
+    return `key:${hashKey(authorizationToken)}`;
+  }
+
+  return `ip:${request.headers.get('CF-Connecting-IP') || 'unknown'}`;
+}
+
+export class RateLimiter {
+  private memory = new MemoryRateLimitStore();
+
+  storeFor(env: any): RateLimitStore {
+    const kv = env?.RATE_LIMIT_KV ?? env?.OAUTH_KV;
+    return kv ? new KvRateLimitStore(kv) : this.memory;
+  }
+
+  /**
+   * Take costs from the identity's buckets. Nothing is taken unless every bucket can pay,
+   * so a rejected batch doesn't partly drain the other budget
+   */
+  async consume(identity: string, costs: RateLimitCosts, policy: RateLimitPolicy, store: RateLimitStore): Promise<RateLimitResult> {
+    const buckets = (Object.keys(costs) as RateLimitBucket[]).filter(bucket => (costs[bucket] ?? 0) > 0);
+    const primary: RateLimitBucket = buckets.includes('write') ? 'write' : 'read';
+    const now = Date.now();
+
+    const states = new Map<RateLimitBucket, BucketState>();
+    for (const bucket of buckets) {
+      states.set(bucket, this.refill(await store.get(`${identity}:${bucket}`), this.limitOf(bucket, policy), now));
+    }
+
+    for (const bucket of buckets) {
+      const limit = this.limitOf(bucket, policy);
+      const state = states.get(bucket)!;
+      const cost = costs[bucket]!;
+      if (state.tokens < cost) {
+        return {
+          allowed: false,
+          bucket,
+          limit,
+          remaining: Math.floor(state.tokens),
+          resetSeconds: this.secondsUntil(limit - state.tokens, limit),
+          // A batch bigger than the whole bucket can never pass; wait for a full bucket and split it
+          retryAfterSeconds: this.secondsUntil(Math.min(cost, limit) - state.tokens, limit)
+        };
+      }
+    }
+
+    for (const bucket of buckets) {
+      const state = states.get(bucket)!;
+      state.tokens -= costs[bucket]!;
+      await store.put(`${identity}:${bucket}`, state, this.secondsUntil(this.limitOf(bucket, policy) - state.tokens, this.limitOf(bucket, policy)));
+    }
+
+    const limit = this.limitOf(primary, policy);
+    const state = states.get(primary) ?? this.refill(await store.get(`${identity}:${primary}`), limit, now);
+    return {
+      allowed: true,
+      bucket: primary,
+      limit,
+      remaining: Math.floor(state.tokens),
+      resetSeconds: this.secondsUntil(limit - state.tokens, limit),
+      retryAfterSeconds: 0
+    };
+  }
+
+  headers(result: RateLimitResult): Record<string, string> {
+    const headers: Record<string, string> = {
+      'X-RateLimit-Limit': String(result.limit),
+      'X-RateLimit-Remaining': String(Math.max(0, result.remaining)),
+      'X-RateLimit-Reset': String(result.resetSeconds),
+      'X-RateLimit-Bucket': result.bucket
+    };
+    if (!result.allowed) {
+      headers['Retry-After'] = String(result.retryAfterSeconds);
+    }
+    return headers;
+  }
+
+  clear(): void {
+    this.memory.clear();
+  }
+
+  private limitOf(bucket: RateLimitBucket, policy: RateLimitPolicy): number {
+    return bucket === 'write' ? policy.writeRequestsPerMinute : policy.requestsPerMinute;
+  }
+
+  // Buckets start full and refill at limit tokens per minute, up to limit
+  private refill(state: BucketState | null, limit: number, now: number): BucketState {
+    if (!state) {
+      return { tokens: limit, updatedAt: now };
+    }
+    const refilled = state.tokens + ((now - state.updatedAt) / 60000) * limit;
+    return { tokens: Math.min(limit, refilled), updatedAt: now };
+  }
+
+  private secondsUntil(tokens: number, limit: number): number {
+    return tokens <= 0 ? 0 : Math.ceil((tokens / limit) * 60);
+  }
+}
+
+export const rateLimiter = new RateLimiter();
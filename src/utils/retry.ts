@@ -8,8 +8,8 @@ export interface RetryConfig {
   baseDelayMs: number;
   maxDelayMs: number;
   backoffMultiplier: number;
-  retryableErrors?: string[];
-  nonRetryableErrors?: string[];
+  retryableErrors?: readonly string[];
+  nonRetryableErrors?: readonly string[];
 }
 
 export interface RetryError extends Error {
@@ -32,6 +32,20 @@ export interface LogEntry {
   };
 }
 
+export type LogObserver = (entry: LogEntry) => void;
+
+// Shared by every logger, child loggers included
+const observers = new Set<LogObserver>();
+
+/**
+ * Receive every entry before level filtering, e.g. to count calls and errors for metrics.
+ * Returns a function that removes the observer
+ */
+export function observeLogs(observer: LogObserver): () => void {
+  observers.add(observer);
+  return () => observers.delete(observer);
+}
+
 export class StructuredLogger {
   private level: LogLevel;
   private environment: string;
@@ -83,9 +97,20 @@ export class StructuredLogger {
    * Log message if level is sufficient
    */
   private log(level: LogLevel, message: string, context?: LogContext, error?: Error): void {
-    if (level <= this.level) {
-      const entry = this.createLogEntry(level, message, context, error);
+    if (level > this.level && observers.size === 0) {
+      return;
+    }
+
+    const entry = this.createLogEntry(level, message, context, error);
+    for (const observer of observers) {
+      try {
+        observer(entry);
+      } catch {
+        // Metrics must never break logging
+      }
+    }
 
+    if (level <= this.level) {
       // In Cloudflare Workers, console methods are available
       switch (level) {
         case LogLevel.ERROR:
@@ -0,0 +1,207 @@
+/**
+ * Per-user tool call counts, error rates and cache hit ratios for the admin dashboard
+ * Counts come from the structured logger: every MCP tool call, tool failure and worker cache
+ * lookup is logged anyway, so observing the log entries needs no extra hooks in the call path.
+ * Counts are buffered per isolate and merged into one KV document per UTC day. Concurrent
+ * flushes from different isolates can lose increments, so treat the numbers as approximate
+ */
+
+import { LogEntry, observeLogs } from './structured-logger.js';
+
+export const USAGE_RETENTION_DAYS = 35;
+export const MAX_USAGE_WINDOW_DAYS = 30;
+
+const FLUSH_INTERVAL_MS = 60 * 1000;
+const ANONYMOUS = 'anonymous';
+
+export interface UserUsage {
+  calls: number;
+  errors: number;
+  cacheHits: number;
+  cacheMisses: number;
+  tools: Record<string, number>;
+}
+
+export interface UsageDay {
+  date: string;  // YYYY-MM-DD, UTC
+  users: Record<string, UserUsage>;
+}
+
+export interface UsageSummary {
+  user: string;
+  calls: number;
+  errors: number;
+  errorRate: number;
+  cacheHits: number;
+  cacheMisses: number;
+  cacheHitRatio: number | null;  // Null when no cacheable reads were made
+  topTools: Array<{ tool: string; calls: number }>;
+}
+
+const emptyUsage = (): UserUsage => ({ calls: 0, errors: 0, cacheHits: 0, cacheMisses: 0, tools: {} });
+
+function mergeUsage(target: UserUsage, delta: UserUsage): void {
+  target.calls += delta.calls;
+  target.errors += delta.errors;
+  target.cacheHits += delta.cacheHits;
+  target.cacheMisses += delta.cacheMisses;
+  for (const [tool, calls] of Object.entries(delta.tools)) {
+    target.tools[tool] = (target.tools[tool] ?? 0) + calls;
+  }
+}
+
+export class UsageStats {
+  // date -> user -> counts not yet written to KV
+  private pending = new Map<string, Map<string, UserUsage>>();
+  private lastFlush = 0;
+
+  /**
+   * Count a log entry if it is a tool call, a failed tool call or a worker cache lookup
+   */
+  observe(entry: LogEntry): void {
+    const context = entry.context ?? {};
+    const user = context.userId || ANONYMOUS;
+
+    if (context.mcpOperation && context.mcpMethod === 'tools/call') {
+      const usage = this.usageFor(entry.timestamp, user);
+      usage.calls++;
+      usage.tools[context.mcpTool] = (usage.tools[context.mcpTool] ?? 0) + 1;
+      if (context.isError) {
+        usage.errors++;
+      }
+    } else if (entry.level === 'ERROR' && context.toolName) {
+      // Thrown tool failures never reach mcpOperation, so they count as calls here
+      const usage = this.usageFor(entry.timestamp, user);
+      usage.calls++;
+      usage.errors++;
+      usage.tools[context.toolName] = (usage.tools[context.toolName] ?? 0) + 1;
+    } else if (context.cacheOperation === 'hit') {
+      this.usageFor(entry.timestamp, user).cacheHits++;
+    } else if (context.cacheOperation === 'miss') {
+      this.usageFor(entry.timestamp, user).cacheMisses++;
+    }
+  }
+
+  kvFor(env: any): any {
+    return env?.ADMIN_KV ?? env?.OAUTH_KV;
+  }
+
+  /**
+   * Write buffered counts at most once a minute; meant for ctx.waitUntil after a request
+   */
+  async flushIfDue(env: any): Promise<void> {
+    if (Date.now() - this.lastFlush >= FLUSH_INTERVAL_MS) {
+      await this.flush(env);
+    }
+  }
+
+  /**
+   * Merge buffered counts into the stored daily documents. Counts that fail to save stay buffered
+   */
+  async flush(env: any): Promise<void> {
+    const kv = this.kvFor(env);
+    this.lastFlush = Date.now();
+    if (!kv || this.pending.size === 0) {
+      return;
+    }
+
+    const pending = this.pending;
+    this.pending = new Map();
+    for (const [date, users] of pending) {
+      try {
+        const day = await this.readDay(kv, date);
+        for (const [user, delta] of users) {
+          mergeUsage(day.users[user] ??= emptyUsage(), delta);
+        }
+        await kv.put(`usage:${date}`, JSON.stringify(day), { expirationTtl: USAGE_RETENTION_DAYS * 24 * 60 * 60 });
+      } catch {
+        for (const [user, delta] of users) {
+          mergeUsage(this.usageFor(`${date}T00:00:00.000Z`, user), delta);
+        }
+      }
+    }
+  }
+
+  /**
+   * Stored days, most recent first, covering the last `days` days including today
+   */
+  async read(env: any, days: number = 7): Promise<UsageDay[]> {
+    const kv = this.kvFor(env);
+    if (!kv) {
+      return [];
+    }
+
+    const result: UsageDay[] = [];
+    const window = Math.min(Math.max(Math.floor(days), 1), MAX_USAGE_WINDOW_DAYS);
+    for (let offset = 0; offset < window; offset++) {
+      const date = new Date(Date.now() - offset * 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
+      const day = await this.readDay(kv, date);
+      if (Object.keys(day.users).length > 0) {
+        result.push(day);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Totals per user across days, busiest first
+   */
+  summarize(days: UsageDay[]): UsageSummary[] {
+    const totals = new Map<string, UserUsage>();
+    for (const day of days) {
+      for (const [user, usage] of Object.entries(day.users)) {
+        let total = totals.get(user);
+        if (!total) {
+          total = emptyUsage();
+          totals.set(user, total);
+        }
+        mergeUsage(total, usage);
+      }
+    }
+
+    return [...totals.entries()]
+      .map(([user, usage]) => ({
+        user,
+        calls: usage.calls,
+        errors: usage.errors,
+        errorRate: usage.calls > 0 ? usage.errors / usage.calls : 0,
+        cacheHits: usage.cacheHits,
+        cacheMisses: usage.cacheMisses,
+        cacheHitRatio: usage.cacheHits + usage.cacheMisses > 0 ? usage.cacheHits / (usage.cacheHits + usage.cacheMisses) : null,
+        topTools: Object.entries(usage.tools)
+          .map(([tool, calls]) => ({ tool, calls }))
+          .sort((a, b) => b.calls - a.calls)
+          .slice(0, 5)
+      }))
+      .sort((a, b) => b.calls - a.calls);
+  }
+
+  clear(): void {
+    this.pending.clear();
+    this.lastFlush = 0;
+  }
+
+  private usageFor(timestamp: string, user: string): UserUsage {
+    const date = timestamp.substring(0, 10);
+    let users = this.pending.get(date);
+    if (!users) {
+      users = new Map();
+      this.pending.set(date, users);
+    }
+    let usage = users.get(user);
+    if (!usage) {
+      usage = emptyUsage();
+      users.set(user, usage);
+    }
+    return usage;
+  }
+
+  private async readDay(kv: any, date: string): Promise<UsageDay> {
+    const value = await kv.get(`usage:${date}`);
+    return value ? JSON.parse(value) : { date, users: {} };
+  }
+}
+
+export const usageStats = new UsageStats();
+
+observeLogs(entry => usageStats.observe(entry));
@@ -0,0 +1,502 @@
+/**
+ * Per-user state shared by every isolate of the worker
+ * A Durable Object keyed by the user's session pool key (a hash of the Workflowy credentials, so a
+ * wrong password never reaches someone else's state) holds the session cookie, cached tool
+ * results with a tag index, in-flight deduplication claims, the undo journal and a document
+ * revision that every write bumps, so a write in one isolate invalidates reads in all of them.
+ * Without a USER_STATE binding (tests, local dev) the same logic runs over isolate memory.
+ *
+ * The parsed document tree itself stays in each isolate's DocumentSnapshotStore: Workflowy deltas
+ * are tied to the transaction IDs of the client that loaded the tree, so the shared part is the
+ * revision, and an isolate that sees it move polls for the changes before reading.
+ * Keep this module free of Workflowy and Node imports; it is bundled on its own for Miniflare tests
+ */
+
+/**
+ * The subset of DurableObjectStorage used here
+ */
+export interface UserStateStorage {
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  put<T>(key: string, value: T): Promise<void>;
+  delete(keys: string[]): Promise<number>;
+  list<T = unknown>(options: { prefix: string }): Promise<Map<string, T>>;
+}
+
+export interface StoredSession {
+  cookie: string;
+  storedAt: number;
+}
+
+export interface StoredCacheEntry<T = any> {
+  data: T;
+  timestamp: number;
+  ttl: number;  // Seconds
+  tags: string[];
+  revision?: number;  // Document revision the data was read at; dropped if a write has happened since
+}
+
+export type DedupClaim =
+  | { status: 'leader' }                    // Caller should execute and complete() or release()
+  | { status: 'pending' }                   // Another caller is executing; poll again
+  | { status: 'done'; result: unknown };    // Another caller finished recently
+
+interface DedupRecord {
+  claimedAt: number;
+  completedAt?: number;
+  result?: unknown;
+}
+
+/**
+ * The fields of an undo journal entry that the state reads; the rest is stored as given
+ */
+export interface StoredJournalEntry {
+  id: string;
+  timestamp: number;
+  undoneAt?: number;
+}
+
+export type UndoClaim<T extends StoredJournalEntry = StoredJournalEntry> =
+  | { status: 'claimed'; entry: T }  // Now marked undone; the caller applies the inverse
+  | { status: 'undone' }             // Undone already, or being undone by another call
+  | { status: 'not_found' };
+
+/**
+ * Operations on one user's state, served by the Durable Object or in memory
+ */
+export interface UserStateApi {
+  getSession(): Promise<StoredSession | null>;
+  setSession(session: StoredSession): Promise<void>;
+  clearSession(): Promise<void>;
+  getCached(key: string): Promise<StoredCacheEntry | null>;
+  setCached(key: string, entry: StoredCacheEntry): Promise<void>;
+  /** Remove cached entries carrying any of the tags and bump the revision; returns the new revision */
+  invalidateTags(tags: string[]): Promise<number>;
+  claim(key: string, maxAgeMs: number): Promise<DedupClaim>;
+  complete(key: string, result: unknown): Promise<void>;
+  release(key: string): Promise<void>;
+  getRevision(): Promise<number>;
+  /** Append to an undo journal, dropping expired entries and the oldest beyond maxEntries */
+  recordOperation(journal: string, entry: StoredJournalEntry, maxEntries: number, maxAgeMs: number): Promise<void>;
+  /** Unexpired entries of an undo journal, oldest first */
+  listOperations<T extends StoredJournalEntry>(journal: string, maxAgeMs: number): Promise<T[]>;
+  /** Mark an entry undone unless it already is, so only one caller ever applies its inverse */
+  claimUndo<T extends StoredJournalEntry>(journal: string, entryId: string, maxAgeMs: number): Promise<UndoClaim<T>>;
+  /** Make an entry undoable again after an undo that sent nothing */
+  releaseUndo(journal: string, entryId: string): Promise<void>;
+}
+
+const USER_STATE_OPERATIONS: Array<keyof UserStateApi> = [
+  'getSession', 'setSession', 'clearSession', 'getCached', 'setCached',
+  'invalidateTags', 'claim', 'complete', 'release', 'getRevision',
+  'recordOperation', 'listOperations', 'claimUndo', 'releaseUndo'
+];
+
+// Completed results are handed to late duplicates for this long, unless a write invalidates them first
+const DEDUP_RESULT_TTL_MS = 2000;
+const PRUNE_INTERVAL_MS = 60000;
+// Journal entries are stored one per key, under a sequence number that keeps them in order
+const JOURNAL_SEQUENCE_DIGITS = 12;
+
+const journalPrefix = (journal: string) => `journal:${journal}/`;
+
+export class MemoryUserStateStorage implements UserStateStorage {
+  private values = new Map<string, unknown>();
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    return this.values.get(key) as T | undefined;
+  }
+
+  async put<T>(key: string, value: T): Promise<void> {
+    // Durable Object storage stores structured clones, never live references
+    this.values.set(key, structuredClone(value));
+  }
+
+  async delete(keys: string[]): Promise<number> {
+    return keys.filter(key => this.values.delete(key)).length;
+  }
+
+  async list<T = unknown>({ prefix }: { prefix: string }): Promise<Map<string, T>> {
+    const keys = [...this.values.keys()].filter(key => key.startsWith(prefix)).sort();
+    return new Map(keys.map(key => [key, this.values.get(key) as T]));
+  }
+}
+
+/**
+ * State logic for one user, independent of where the storage lives
+ */
+export class UserStateCore implements UserStateApi {
+  private lastPrune = 0;
+
+  constructor(private storage: UserStateStorage) {}
+
+  async getSession(): Promise<StoredSession | null> {
+    return (await this.storage.get<StoredSession>('session')) ?? null;
+  }
+
+  async setSession(session: StoredSession): Promise<void> {
+    await this.storage.put('session', session);
+  }
+
+  async clearSession(): Promise<void> {
+    await this.storage.delete(['session']);
+  }
+
+  async getCached(key: string): Promise<StoredCacheEntry | null> {
+    const entry = await this.storage.get<StoredCacheEntry>(`cache:${key}`);
+    if (!entry) {
+      return null;
+    }
+    if (this.isExpired(entry)) {
+      await this.removeCached(key, entry);
+      return null;
+    }
+    return entry;
+  }
+
+  async setCached(key: string, entry: StoredCacheEntry): Promise<void> {
+    if (entry.revision !== undefined && entry.revision < await this.getRevision()) {
+      return;
+    }
+    await this.pruneIfNeeded();
+    await this.storage.put(`cache:${key}`, entry);
+    for (const tag of entry.tags) {
+      await this.storage.put(`tag:${tag}:${key}`, true);
+    }
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    for (const tag of tags) {
+      const prefix = `tag:${tag}:`;
+      for (const indexKey of (await this.storage.list({ prefix })).keys()) {
+        const key = indexKey.substring(prefix.length);
+        const entry = await this.storage.get<StoredCacheEntry>(`cache:${key}`);
+        if (entry) {
+          await this.removeCached(key, entry);
+        } else {
+          await this.storage.delete([indexKey]);
+        }
+      }
+    }
+
+    // Claimed and finished reads started before the write; their results must not be handed out after it
+    await this.storage.delete([...(await this.storage.list({ prefix: 'dedup:' })).keys()]);
+
+    const revision = (await this.getRevision()) + 1;
+    await this.storage.put('revision', revision);
+    return revision;
+  }
+
+  async claim(key: string, maxAgeMs: number): Promise<DedupClaim> {
+    const record = await this.storage.get<DedupRecord>(`dedup:${key}`);
+    const now = Date.now();
+
+    if (record?.completedAt !== undefined && now - record.completedAt < DEDUP_RESULT_TTL_MS) {
+      return { status: 'done', result: record.result };
+    }
+    if (record && record.completedAt === undefined && now - record.claimedAt < maxAgeMs) {
+      return { status: 'pending' };
+    }
+
+    // No claim, a finished one that aged out, or a leader that never reported back
+    await this.storage.put<DedupRecord>(`dedup:${key}`, { claimedAt: now });
+    return { status: 'leader' };
+  }
+
+  async complete(key: string, result: unknown): Promise<void> {
+    const record = await this.storage.get<DedupRecord>(`dedup:${key}`);
+    // A write may have cleared the claim while the leader was reading; its result is already stale
+    if (!record) {
+      return;
+    }
+    await this.storage.put<DedupRecord>(`dedup:${key}`, { ...record, completedAt: Date.now(), result });
+  }
+
+  async release(key: string): Promise<void> {
+    await this.storage.delete([`dedup:${key}`]);
+  }
+
+  async getRevision(): Promise<number> {
+    return (await this.storage.get<number>('revision')) ?? 0;
+  }
+
+  async recordOperation(journal: string, entry: StoredJournalEntry, maxEntries: number, maxAgeMs: number): Promise<void> {
+    const keys = [...(await this.journalEntries(journal, maxAgeMs)).keys()];
+    const last = keys[keys.length - 1];
+    const sequence = last ? Number(last.substring(journalPrefix(journal).length)) + 1 : 0;
+    await this.storage.put(`${journalPrefix(journal)}${String(sequence).padStart(JOURNAL_SEQUENCE_DIGITS, '0')}`, entry);
+    await this.storage.delete(keys.slice(0, Math.max(0, keys.length + 1 - maxEntries)));
+  }
+
+  async listOperations<T extends StoredJournalEntry>(journal: string, maxAgeMs: number): Promise<T[]> {
+    return [...(await this.journalEntries<T>(journal, maxAgeMs)).values()];
+  }
+
+  async claimUndo<T extends StoredJournalEntry>(journal: string, entryId: string, maxAgeMs: number): Promise<UndoClaim<T>> {
+    for (const [key, entry] of await this.journalEntries<T>(journal, maxAgeMs)) {
+      if (entry.id !== entryId) {
+        continue;
+      }
+      if (entry.undoneAt !== undefined) {
+        return { status: 'undone' };
+      }
+      const claimed = { ...entry, undoneAt: Date.now() };
+      await this.storage.put(key, claimed);
+      return { status: 'claimed', entry: claimed };
+    }
+    return { status: 'not_found' };
+  }
+
+  async releaseUndo(journal: string, entryId: string): Promise<void> {
+    for (const [key, entry] of await this.storage.list<StoredJournalEntry>({ prefix: journalPrefix(journal) })) {
+      if (entry.id === entryId) {
+        const { undoneAt, ...released } = entry;
+        await this.storage.put(key, released);
+      }
+    }
+  }
+
+  private isExpired(entry: StoredCacheEntry): boolean {
+    return (Date.now() - entry.timestamp) / 1000 >= entry.ttl;
+  }
+
+  /**
+   * A journal's entries by storage key, in order, with expired ones deleted
+   */
+  private async journalEntries<T extends StoredJournalEntry>(journal: string, maxAgeMs: number): Promise<Map<string, T>> {
+    const entries = await this.storage.list<T>({ prefix: journalPrefix(journal) });
+    const cutoff = Date.now() - maxAgeMs;
+    const expired = [...entries].filter(([, entry]) => entry.timestamp < cutoff).map(([key]) => key);
+    await this.storage.delete(expired);
+    expired.forEach(key => entries.delete(key));
+    return entries;
+  }
+
+  private async removeCached(key: string, entry: StoredCacheEntry): Promise<void> {
+    await this.storage.delete([`cache:${key}`, ...entry.tags.map(tag => `tag:${tag}:${key}`)]);
+  }
+
+  /**
+   * Drop expired cache entries and dedup records so storage doesn't grow with keys nobody reads again
+   */
+  private async pruneIfNeeded(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastPrune < PRUNE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPrune = now;
+
+    for (const [storageKey, entry] of await this.storage.list<StoredCacheEntry>({ prefix: 'cache:' })) {
+      if (this.isExpired(entry)) {
+        await this.removeCached(storageKey.substring('cache:'.length), entry);
+      }
+    }
+
+    const stale = [...(await this.storage.list<DedupRecord>({ prefix: 'dedup:' })).entries()]
+      .filter(([, record]) => now - (record.completedAt ?? record.claimedAt) > PRUNE_INTERVAL_MS)
+      .map(([key]) => key);
+    await this.storage.delete(stale);
+  }
+}
+
+/**
+ * Durable Object holding one user's state. Storage calls made while handling a request are not
+ * interleaved with other requests, so claim() and invalidateTags() are atomic per user
+ */
+export class UserStateObject {
+  private core: UserStateCore;
+
+  constructor(state: { storage: UserStateStorage }, env?: unknown) {
+    this.core = new UserStateCore(state.storage);
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const { op, args = [] } = await request.json() as { op: keyof UserStateApi; args?: unknown[] };
+
+    if (!USER_STATE_OPERATIONS.includes(op)) {
+      return new Response(JSON.stringify({ error: `Unknown user state operation: ${op}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const result = await (this.core[op] as (...args: unknown[]) => Promise<unknown>)(...args);
+    return new Response(JSON.stringify({ result: result ?? null }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+/**
+ * Calls a UserStateObject through its Durable Object stub
+ */
+export class DurableUserState implements UserStateApi {
+  constructor(private stub: { fetch(input: string, init?: RequestInit): Promise<Response> }) {}
+
+  private async call<T>(op: keyof UserStateApi, ...args: unknown[]): Promise<T> {
+    const response = await this.stub.fetch('https://user-state.internal/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ op, args })
+    });
+    if (!response.ok) {
+      throw new Error(`User state ${op} failed with status ${response.status}`);
+    }
+    return ((await response.json()) as { result: T }).result;
+  }
+
+  getSession() { return this.call<StoredSession | null>('getSession'); }
+  setSession(session: StoredSession) { return this.call<void>('setSession', session); }
+  clearSession() { return this.call<void>('clearSession'); }
+  getCached(key: string) { return this.call<StoredCacheEntry | null>('getCached', key); }
+  setCached(key: string, entry: StoredCacheEntry) { return this.call<void>('setCached', key, entry); }
+  invalidateTags(tags: string[]) { return this.call<number>('invalidateTags', tags); }
+  claim(key: string, maxAgeMs: number) { return this.call<DedupClaim>('claim', key, maxAgeMs); }
+  complete(key: string, result: unknown) { return this.call<void>('complete', key, result); }
+  release(key: string) { return this.call<void>('release', key); }
+  getRevision() { return this.call<number>('getRevision'); }
+  recordOperation(journal: string, entry: StoredJournalEntry, maxEntries: number, maxAgeMs: number) {
+    return this.call<void>('recordOperation', journal, entry, maxEntries, maxAgeMs);
+  }
+  listOperations<T extends StoredJournalEntry>(journal: string, maxAgeMs: number) {
+    return this.call<T[]>('listOperations', journal, maxAgeMs);
+  }
+  claimUndo<T extends StoredJournalEntry>(journal: string, entryId: string, maxAgeMs: number) {
+    return this.call<UndoClaim<T>>('claimUndo', journal, entryId, maxAgeMs);
+  }
+  releaseUndo(journal: string, entryId: string) { return this.call<void>('releaseUndo', journal, entryId); }
+}
+
+export interface UserStatesConfig {
+  dedupMaxAgeMs: number;  // A claim older than this is taken over, as with RequestDeduplicator
+  dedupWaitMs: number;    // How long a duplicate waits for the leader before running itself
+  dedupPollMs: number;
+  maxLocalUsers: number;  // In-memory fallback only
+}
+
+export class UserStates {
+  private config: UserStatesConfig = {
+    dedupMaxAgeMs: 30000,  // 30 seconds
+    dedupWaitMs: 10000,    // 10 seconds
+    dedupPollMs: 100,
+    maxLocalUsers: 100
+  };
+
+  private local = new Map<string, UserStateCore>();
+  private seenRevisions = new Map<string, number>();
+
+  constructor(config: Partial<UserStatesConfig> = {}) {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Get the state for a user: the USER_STATE Durable Object when bound, isolate memory otherwise
+   * @param userKey Session pool key of the user's credentials
+   */
+  forUser(env: any, userKey: string): UserStateApi {
+    const namespace = env?.USER_STATE;
+    if (namespace) {
+      return new DurableUserState(namespace.get(namespace.idFromName(userKey)));
+    }
+
+    let core = this.local.get(userKey);
+    if (!core) {
+      core = new UserStateCore(new MemoryUserStateStorage());
+      this.local.set(userKey, core);
+      if (this.local.size > this.config.maxLocalUsers) {
+        this.local.delete(this.local.keys().next().value!);
+      }
+    }
+    return core;
+  }
+
+  /**
+   * Run a read once across isolates: the first caller executes, duplicates wait for its result.
+   * State failures never fail the read; it just runs without deduplication
+   */
+  async deduplicate<T>(state: UserStateApi, key: string, executor: () => Promise<T>): Promise<T> {
+    let claim: DedupClaim;
+    try {
+      claim = await state.claim(key, this.config.dedupMaxAgeMs);
+      const deadline = Date.now() + this.config.dedupWaitMs;
+      while (claim.status === 'pending' && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, this.config.dedupPollMs));
+        claim = await state.claim(key, this.config.dedupMaxAgeMs);
+      }
+    } catch {
+      return executor();
+    }
+
+    if (claim.status === 'done') {
+      return claim.result as T;
+    }
+    if (claim.status === 'pending') {
+      // The leader is slow; don't take its claim, just answer this caller
+      return executor();
+    }
+
+    try {
+      const result = await executor();
+      await state.complete(key, result).catch(() => undefined);
+      return result;
+    } catch (error) {
+      await state.release(key).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a write alone across isolates: wait for the claim on key, hold it while the operation
+   * runs and release it after. A holder older than dedupMaxAgeMs is taken over.
+   * State failures never fail the write; it just runs without the shared lock
+   */
+  async exclusive<T>(state: UserStateApi, key: string, operation: () => Promise<T>): Promise<T> {
+    try {
+      let claim = await state.claim(key, this.config.dedupMaxAgeMs);
+      while (claim.status !== 'leader') {
+        await new Promise(resolve => setTimeout(resolve, this.config.dedupPollMs));
+        claim = await state.claim(key, this.config.dedupMaxAgeMs);
+      }
+    } catch {
+      return operation();
+    }
+
+    try {
+      return await operation();
+    } finally {
+      await state.release(key).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Get the current document revision, and whether another isolate has written since this isolate
+   * last looked, in which case local snapshots must catch up before reading
+   */
+  async checkRevision(state: UserStateApi, userKey: string): Promise<{ revision: number; changedElsewhere: boolean }> {
+    const revision = await state.getRevision();
+    const seen = this.seenRevisions.get(userKey);
+    this.seenRevisions.set(userKey, revision);
+    return { revision, changedElsewhere: seen === undefined || revision > seen };
+  }
+
+  /**
+   * Invalidate cached reads after a write made in this isolate
+   */
+  async recordWrite(state: UserStateApi, tags: string[], userKey: string): Promise<void> {
+    const seen = this.seenRevisions.get(userKey);
+    const revision = await state.invalidateTags(tags);
+    // Only skip the next poll if no other isolate wrote in between
+    if (seen !== undefined && revision === seen + 1) {
+      this.seenRevisions.set(userKey, revision);
+    }
+  }
+
+  /**
+   * Drop in-memory state and seen revisions (for testing)
+   */
+  clear(): void {
+    this.local.clear();
+    this.seenRevisions.clear();
+  }
+}
+
+export const userStates = new UserStates();
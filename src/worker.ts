@@ -6,12 +6,32 @@
 import { z } from "zod";
 import { workflowyTools } from "./tools/workflowy.js";
 import { workflowyClient } from "./workflowy/client.js";
+import { trashSettings } from "./workflowy/trash.js";
+import { workflowyResources } from "./workflowy/resources.js";
+import { resourceSubscriptions } from "./workflowy/resource-subscriptions.js";
+import { dailyJournal } from "./workflowy/daily-journal.js";
+import { workflowyPrompts } from "./workflowy/prompts.js";
+import { zodToJsonSchema } from "./utils/json-schema.js";
+import { rateLimiter, rateLimitIdentity, costsFor, RateLimitResult, RateLimitCosts } from "./utils/rate-limiter.js";
+import { mcpSessions, McpSession, sessionOwner, SUPPORTED_PROTOCOL_VERSIONS, LATEST_PROTOCOL_VERSION, negotiateProtocolVersion, formatSseEvent } from "./utils/mcp-sessions.js";
 import packageJson from "../package.json" assert { type: "json" };
 import ConfigManager from "./config.js";
 import { workerCache } from "./utils/cache.js";
 import { requestDeduplicator } from "./utils/deduplication.js";
+import { userStates, UserStateApi, StoredSession } from "./utils/user-state.js";
+import { sessionPool } from "./workflowy/session-pool.js";
+import { documentSnapshots } from "./workflowy/document-snapshot.js";
+import { operationJournal } from "./workflowy/operation-journal.js";
+import { invalidations, invalidationTags } from "./utils/invalidation.js";
+import { oauthTokens, isOAuthFailure } from "./utils/oauth-tokens.js";
+import { oauthClients, clientCredentials, isPublicClient, OAuthClientRecord, TOKEN_ENDPOINT_AUTH_METHODS } from "./utils/oauth-clients.js";
+import { escapeHtml } from "./utils/html.js";
+import { adminDashboard, ADMIN_REALM, DEFAULT_USAGE_WINDOW_DAYS, RevocableKind } from "./utils/admin-dashboard.js";
+import { usageStats } from "./utils/usage-stats.js";
+import { credentialVault, VAULT_TOKEN_PREFIX } from "./utils/credential-vault.js";
+import { accessControl, AccessClaims, requiredScopes, SCOPES, DEFAULT_SCOPES, READ_SCOPE } from "./utils/access-control.js";
 import { createLogger, generateRequestId } from "./utils/structured-logger.js";
-import { WorkflowyError, AuthenticationError, NetworkError, NotFoundError, OverloadError } from "./workflowy/client.js";
+import { WorkflowyError, AuthenticationError, AuthorizationError, NetworkError, NotFoundError, OverloadError } from "./workflowy/client.js";
 
 // MCP JSON-RPC message types
 interface JsonRpcRequest {
@@ -38,11 +58,23 @@ interface JsonRpcNotification {
   params?: any;
 }
 
+// Tools that modify the outline draw from the write rate limit budget
+const isWriteTool = (name: string) => workflowyTools[name]?.annotations?.readOnlyHint === false;
+
+// Tool handlers report failures as text content ("Error listing nodes: ...") rather than throwing
+const isErrorResult = (result: any) =>
+  result?.isError === true || /^Error\b/.test(result?.content?.[0]?.text ?? '');
+
+const RATE_LIMIT_HEADERS = 'X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, X-RateLimit-Bucket, Retry-After';
+
+// Durable Object class for the USER_STATE binding (see wrangler.toml)
+export { UserStateObject } from "./utils/user-state.js";
+
 // MCP server implementation for Cloudflare Workers
 class WorkflowyMCPServer {
   name = "workflowy-remote";
   version = packageJson.version;
-  protocolVersion = "2024-11-05";
+  protocolVersion = LATEST_PROTOCOL_VERSION;
 
   // Tool definitions adapted from FastMCP tools
   tools: { [key: string]: { description: string, inputSchema: z.ZodSchema, handler: (params: any, env: any, headers?: Headers, authorizationToken?: string) => Promise<any> } } = {};
@@ -52,31 +84,27 @@ class WorkflowyMCPServer {
     Object.entries(workflowyTools).forEach(([toolName, tool]) => {
       this.tools[toolName] = {
         description: tool.description,
-        inputSchema: this.getInputSchema(toolName, tool),
+        inputSchema: this.getInputSchema(tool),
         handler: this.createEnvHandler(tool.handler)
       };
     });
   }
 
-  private getInputSchema(toolName: string, tool: any): z.ZodSchema {
-    // If tool has inputSchema, convert it. Otherwise provide fallback schemas
+  private getInputSchema(tool: any): z.ZodSchema {
+    // Tools built with createTool expose their Zod object as parameters
+    if (tool.parameters instanceof z.ZodType) {
+      return tool.parameters;
+    }
+
+    // Raw shapes from tools that still define inputSchema
     if (tool.inputSchema) {
       return z.object(tool.inputSchema);
     }
 
-    // Fallback schemas for tools missing inputSchema (like create_node)
-    const fallbackSchemas: Record<string, z.ZodSchema> = {
-      create_node: z.object({
-        parentId: z.string().describe("ID of the parent node"),
-        name: z.string().describe("Name/title for the new node"),
-        description: z.string().optional().describe("Description/note for the new node")
-      })
-    };
-
-    return fallbackSchemas[toolName] || z.object({});
+    return z.object({});
   }
 
-  private validateApiKey(apiKey: string | null, env: any): boolean {
+  private async validateApiKey(apiKey: string | null, env: any): Promise<boolean> {
     if (!apiKey) return false;
 
     // Check against environment allowlist (comma-separated API keys)
@@ -87,37 +115,98 @@ class WorkflowyMCPServer {
       return true;
     }
 
+    // OAuth access tokens are valid while their KV record holds usable credentials
+    if (apiKey.startsWith('oauth_access_')) {
+      return !!(await this.extractCredentialsFromOAuthToken(apiKey, env));
+    }
+
     // Check if it's a user-generated token from /connector/setup
-    if (apiKey.length > 20 && this.isValidUserToken(apiKey)) {
+    if (apiKey.length > 20 && await credentialVault.open(env, apiKey)) {
       return true;
     }
 
     return allowedKeys.includes(apiKey);
   }
 
-  private isValidUserToken(token: string): boolean {
-    try {
-      // Decode the base64 token to validate format
-      const decoded = atob(token);
-      const parts = decoded.split(':');
-
-      // Should have format: username:password:timestamp
-      if (parts.length === 3) {
-        const timestamp = parseInt(parts[2]);
-        const now = Date.now();
-
-        // Token should be less than 30 days old
-        const thirtyDays = 30 * 24 * 60 * 60 * 1000;
-        return (now - timestamp) < thirtyDays;
+  // Accept an API key in the Authorization header or a connector authorization_token param
+  private async hasValidAuth(headers: Headers | undefined, env: any, authorizationToken?: string): Promise<boolean> {
+    const httpApiKey = headers?.get('Authorization')?.replace('Bearer ', '') || null;
+    return !!(
+      (httpApiKey && await this.validateApiKey(httpApiKey, env)) ||
+      (authorizationToken && (authorizationToken.startsWith('oauth_access_')
+        ? await this.extractCredentialsFromOAuthToken(authorizationToken, env)
+        : await credentialVault.open(env, authorizationToken)))
+    );
+  }
+
+  private authRequiredError(id: JsonRpcRequest['id']): JsonRpcResponse {
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: {
+        code: -32600,
+        message: "Authentication required. Provide credentials via Authorization header or authorization_token parameter.",
+        data: {
+          retryable: false,
+          authMethods: ["Bearer token in Authorization header", "authorization_token in request params"]
+        }
+      }
+    };
+  }
+
+  // Map resource and prompt failures to JSON-RPC errors. Unknown nodes use the MCP "Resource not found"
+  // code for resources; prompts report them as invalid params like any other bad argument
+  /**
+   * JSON-RPC error for a scoped token that lacks every scope a method accepts
+   */
+  private insufficientScopeError(id: JsonRpcRequest['id'], target: string, required: string[], granted: string[] | undefined): JsonRpcResponse {
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: {
+        code: -32600,
+        message: `Insufficient scope: ${target} requires ${required.join(' or ')}`,
+        data: { requiredScopes: required, grantedScopes: granted }
       }
+    };
+  }
 
-      return false;
-    } catch {
-      return false;
+  private resourceError(id: JsonRpcRequest['id'], error: any, env: any, notFoundCode: number = -32002): JsonRpcResponse {
+    let code = -32603;
+    let message = `Internal error: ${error.message}`;
+
+    if (error instanceof NotFoundError) {
+      code = notFoundCode;
+      message = `Resource not found: ${error.message}`;
+    } else if (error instanceof WorkflowyError && ['INVALID_RESOURCE_URI', 'UNKNOWN_PROMPT', 'INVALID_PROMPT_ARGUMENTS'].includes(error.code!)) {
+      code = -32602;
+      message = error.message;
+    } else if (error instanceof AuthenticationError) {
+      code = -32600;
+      message = `Authentication failed: ${error.message}`;
+    } else if (error instanceof AuthorizationError) {
+      code = -32600;
+      message = `Forbidden: ${error.message}`;
     }
+
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: {
+        code,
+        message,
+        data: {
+          type: error.constructor.name,
+          retryable: error.retryable || false,
+          ...(env.ENVIRONMENT !== 'production' && { stack: error.stack })
+        }
+      }
+    };
   }
 
-  private async extractCredentials(params: any, env: any, headers?: Headers, authorizationToken?: string): Promise<{ username?: string, password?: string }> {
+  // Credentials for the Workflowy client plus the scopes and subtree restriction of the token they came from.
+  // API keys and raw credentials carry no claims
+  private async extractCredentials(params: any, env: any, headers?: Headers, authorizationToken?: string): Promise<{ username?: string, password?: string, access: AccessClaims }> {
     // First check for authorization_token parameter (Claude MCP connector)
     if (authorizationToken) {
       // Check for OAuth access token
@@ -129,9 +218,9 @@ class WorkflowyMCPServer {
       }
 
       // Check for user token from connector setup
-      const credentials = this.extractCredentialsFromToken(authorizationToken);
-      if (credentials) {
-        return credentials;
+      const entry = await credentialVault.open(env, authorizationToken);
+      if (entry) {
+        return { username: entry.username, password: entry.password, access: { scopes: entry.scopes, rootId: entry.rootId } };
       }
     }
 
@@ -149,40 +238,21 @@ class WorkflowyMCPServer {
       }
 
       // Check for user token from connector setup
-      const credentials = this.extractCredentialsFromToken(token);
-      if (credentials) {
-        return credentials;
+      const entry = await credentialVault.open(env, token);
+      if (entry) {
+        return { username: entry.username, password: entry.password, access: { scopes: entry.scopes, rootId: entry.rootId } };
       }
     }
 
     // Priority: 1. Client-provided credentials, 2. Headers (no environment fallback for workers)
     return {
       username: params.workflowy_username || headers?.get('X-Workflowy-Username'),
-      password: params.workflowy_password || headers?.get('X-Workflowy-Password')
+      password: params.workflowy_password || headers?.get('X-Workflowy-Password'),
+      access: {}
     };
   }
 
-  private extractCredentialsFromToken(token: string): { username?: string, password?: string } | null {
-    try {
-      if (this.isValidUserToken(token)) {
-        const decoded = atob(token);
-        const parts = decoded.split(':');
-
-        if (parts.length === 3) {
-          return {
-            username: parts[0],
-            password: parts[1]
-          };
-        }
-      }
-
-      return null;
-    } catch {
-      return null;
-    }
-  }
-
-  private async extractCredentialsFromOAuthToken(token: string, env: any): Promise<{ username?: string, password?: string } | null> {
+  private async extractCredentialsFromOAuthToken(token: string, env: any): Promise<{ username?: string, password?: string, access: AccessClaims } | null> {
     try {
       // OAuth access tokens are stored in KV with format oauth_access_[random]
       if (!token.startsWith('oauth_access_')) {
@@ -204,11 +274,22 @@ class WorkflowyMCPServer {
         return null;
       }
 
-      // Return the stored Workflowy credentials (stored as workflowy_username/workflowy_password)
+      // Tokens issued before scopes were enforced may have an empty scope; they keep full access
+      const scopes = (parsedData.scope ?? '').split(' ').filter(Boolean);
+      const access: AccessClaims = { scopes: scopes.length > 0 ? scopes : DEFAULT_SCOPES, rootId: parsedData.root_id };
+
+      // Stored Workflowy credentials are sealed by the credential vault
+      if (parsedData.credentials) {
+        const credentials = await credentialVault.unseal(env, parsedData.credentials);
+        return credentials && { ...credentials, access };
+      }
+
+      // Tokens issued before the vault carry plaintext credentials until they expire
       if (parsedData.workflowy_username && parsedData.workflowy_password) {
         return {
           username: parsedData.workflowy_username,
-          password: parsedData.workflowy_password
+          password: parsedData.workflowy_password,
+          access
         };
       }
 
@@ -218,10 +299,43 @@ class WorkflowyMCPServer {
     }
   }
 
+  /**
+   * Catch this isolate up with the user's shared state before running a tool: adopt a session cookie
+   * another isolate logged in with, and poll for writes made elsewhere. Shared state only saves work,
+   * so failures are logged and the tool runs anyway
+   */
+  private async syncFromUserState(state: UserStateApi, userKey: string, logger: any): Promise<{ revision?: number, sharedSession: StoredSession | null }> {
+    try {
+      const sharedSession = await state.getSession();
+      if (sharedSession) {
+        sessionPool.adoptCookie(userKey, sharedSession.cookie, sharedSession.storedAt);
+      }
+
+      const { revision, changedElsewhere } = await userStates.checkRevision(state, userKey);
+      if (changedElsewhere) {
+        documentSnapshots.requestPoll(userKey);
+      }
+      return { revision, sharedSession };
+    } catch (error: any) {
+      logger.warn('Shared user state unavailable', { error: error.message });
+      return { sharedSession: null };
+    }
+  }
+
+  /**
+   * Publish this isolate's session cookie when it differs from the shared one
+   */
+  private async shareSession(state: UserStateApi, userKey: string, sharedSession: StoredSession | null): Promise<void> {
+    const local = sessionPool.getCookie(userKey);
+    if (local && local.cookie !== sharedSession?.cookie) {
+      await state.setSession(local).catch(() => undefined);
+    }
+  }
+
   private createEnvHandler(fastmcpHandler: Function) {
     return async (params: any, env: any, headers?: Headers, authorizationToken?: string) => {
       // Extract credentials from params, headers, authorization token, or environment
-      const credentials = await this.extractCredentials(params, env, headers, authorizationToken);
+      const { access, ...credentials } = await this.extractCredentials(params, env, headers, authorizationToken);
 
       // Remove credentials from params to avoid passing to Workflowy API
       const { workflowy_username, workflowy_password, authorization_token, ...toolParams } = params;
@@ -244,10 +358,17 @@ class WorkflowyMCPServer {
             jsonrpc: "2.0",
             id: request.id,
             result: {
-              protocolVersion: this.protocolVersion,
+              protocolVersion: negotiateProtocolVersion(request.params?.protocolVersion),
               capabilities: {
                 tools: {
                   listChanged: false
+                },
+                resources: {
+                  subscribe: true,
+                  listChanged: false
+                },
+                prompts: {
+                  listChanged: false
                 }
               },
               serverInfo: {
@@ -290,33 +411,14 @@ class WorkflowyMCPServer {
           const authorizationToken = request.params?.authorization_token;
 
           // Validate authentication at MCP level (check both HTTP headers and authorization_token)
-          const httpApiKey = headers?.get('Authorization')?.replace('Bearer ', '') || null;
-          const hasValidAuth =
-            (httpApiKey && this.validateApiKey(httpApiKey, env)) ||
-            (authorizationToken && (
-              authorizationToken.startsWith('oauth_access_') ||
-              this.isValidUserToken(authorizationToken)
-            ));
-
-          if (!hasValidAuth) {
+          if (!(await this.hasValidAuth(headers, env, authorizationToken))) {
             requestLogger.warn('MCP tool call authentication failed', {
-              hasHttpApiKey: !!httpApiKey,
+              hasHttpApiKey: !!headers?.get('Authorization'),
               hasAuthorizationToken: !!authorizationToken,
               toolName
             });
 
-            return {
-              jsonrpc: "2.0",
-              id: request.id,
-              error: {
-                code: -32600,
-                message: "Authentication required. Provide credentials via Authorization header or authorization_token parameter.",
-                data: {
-                  retryable: false,
-                  authMethods: ["Bearer token in Authorization header", "authorization_token in request params"]
-                }
-              }
-            };
+            return this.authRequiredError(request.id);
           }
 
           // Validate and execute tool with caching and deduplication
@@ -325,46 +427,92 @@ class WorkflowyMCPServer {
           const startTime = Date.now();
           let cached = false;
           let result;
+          // Tool calls, failures and cache lookups are logged per user; the admin dashboard counts them
+          let callLogger = requestLogger;
 
           try {
             // Extract credentials for cache/deduplication key
-            const credentials = await this.extractCredentials(validatedParams, env, headers, authorizationToken);
+            const { access, ...tokenCredentials } = await this.extractCredentials(validatedParams, env, headers, authorizationToken);
+            callLogger = requestLogger.child({ userId: tokenCredentials.username || 'anonymous' });
+
+            // Scoped tokens may only call tools their scopes cover (see access-control.ts)
+            if (!accessControl.allowsTool(access, workflowyTools[toolName]?.annotations)) {
+              const required = requiredScopes(workflowyTools[toolName]?.annotations);
+              requestLogger.warn('MCP tool call denied by token scope', { toolName, grantedScopes: access.scopes });
+              return this.insufficientScopeError(request.id, toolName, required, access.scopes);
+            }
+
+            // A subtree-restricted token sees different results than the whole account, so it gets its own cache entries
+            const credentials = access.rootId ?
+              { ...tokenCredentials, username: `${tokenCredentials.username}:subtree:${access.rootId}` } : tokenCredentials;
+
+            // Per-user state shared across isolates: session cookie, cached reads, dedup claims, undo journal
+            const userKey = tokenCredentials.username && tokenCredentials.password ?
+              sessionPool.getKey(tokenCredentials.username, tokenCredentials.password) : 'anonymous';
+            const userState = userStates.forUser(env, userKey);
+            const { revision, sharedSession } = await this.syncFromUserState(userState, userKey, requestLogger);
 
             // Try cache first if caching is enabled for this tool
             if (workerCache.shouldCache(toolName, validatedParams)) {
-              const cachedResult = await workerCache.get(toolName, validatedParams, credentials);
+              const cachedResult = await workerCache.get(toolName, validatedParams, credentials, userState);
               if (cachedResult !== null) {
                 cached = true;
                 result = cachedResult;
-                requestLogger.cache('hit', `${toolName}:${JSON.stringify(validatedParams).substring(0, 50)}`);
+                callLogger.cache('hit', `${toolName}:${JSON.stringify(validatedParams).substring(0, 50)}`);
+              } else {
+                callLogger.cache('miss', `${toolName}:${JSON.stringify(validatedParams).substring(0, 50)}`);
               }
             }
 
-            // If not cached, execute with deduplication
+            // If not cached, execute with deduplication: within this isolate first, then across isolates
             if (result === undefined) {
+              // Writes purge the cached reads of the nodes they touched, in every isolate
+              const runTool = async () => {
+                try {
+                  return await invalidations.track(
+                    () => accessControl.run(access, () => operationJournal.run(userState, () => tool.handler(validatedParams, env, headers, authorizationToken))),
+                    invalidation => userStates.recordWrite(userState, invalidationTags(invalidation), userKey)
+                      .catch(error => requestLogger.warn('Failed to invalidate shared user state after write', { toolName, error: error.message }))
+                  );
+                } catch (error) {
+                  if (error instanceof AuthenticationError) {
+                    await userState.clearSession().catch(() => undefined);
+                  }
+                  throw error;
+                }
+              };
+
               result = await requestDeduplicator.execute(
                 toolName,
                 validatedParams,
                 credentials,
                 async () => {
-                  const toolResult = await tool.handler(validatedParams, env, headers, authorizationToken);
-
-                  // Cache the result if caching is enabled
-                  if (workerCache.shouldCache(toolName, validatedParams)) {
-                    const cacheConfig = workerCache.getCacheConfig(toolName, validatedParams);
-                    await workerCache.set(toolName, validatedParams, toolResult, cacheConfig, credentials);
-                    requestLogger.cache('set', `${toolName}:${JSON.stringify(validatedParams).substring(0, 50)}`);
+                  if (!requestDeduplicator.shouldDeduplicate(toolName, validatedParams)) {
+                    return runTool();
                   }
+                  return userStates.deduplicate(userState, workerCache.generateCacheKey(toolName, validatedParams, credentials), async () => {
+                    const toolResult = await runTool();
 
-                  return toolResult;
+                    // Cache the result if caching is enabled
+                    if (workerCache.shouldCache(toolName, validatedParams)) {
+                      const cacheConfig = workerCache.getCacheConfig(toolName, validatedParams);
+                      await workerCache.set(toolName, validatedParams, toolResult, cacheConfig, credentials, userState, revision);
+                      callLogger.cache('set', `${toolName}:${JSON.stringify(validatedParams).substring(0, 50)}`);
+                    }
+
+                    return toolResult;
+                  });
                 }
               );
+
+              await this.shareSession(userState, userKey, sharedSession);
             }
 
             const duration = Date.now() - startTime;
-            requestLogger.mcpOperation("tools/call", toolName, duration, cached, {
+            callLogger.mcpOperation("tools/call", toolName, duration, cached, {
               requestId: request.id,
-              paramsSize: JSON.stringify(validatedParams).length
+              paramsSize: JSON.stringify(validatedParams).length,
+              isError: isErrorResult(result)
             });
 
             return {
@@ -375,7 +523,7 @@ class WorkflowyMCPServer {
 
           } catch (error: any) {
             const duration = Date.now() - startTime;
-            requestLogger.error(`Tool execution failed: ${toolName}`, error, {
+            callLogger.error(`Tool execution failed: ${toolName}`, error, {
               requestId: request.id,
               duration,
               toolName,
@@ -389,6 +537,9 @@ class WorkflowyMCPServer {
             if (error instanceof AuthenticationError) {
               errorCode = -32600; // Invalid request (auth issue)
               errorMessage = `Authentication failed: ${error.message}`;
+            } else if (error instanceof AuthorizationError) {
+              errorCode = -32600; // Invalid request (token may not touch this node)
+              errorMessage = `Forbidden: ${error.message}`;
             } else if (error instanceof NotFoundError) {
               errorCode = -32602; // Invalid params
               errorMessage = `Resource not found: ${error.message}`;
@@ -416,6 +567,149 @@ class WorkflowyMCPServer {
             };
           }
 
+        case "resources/templates/list":
+          return {
+            jsonrpc: "2.0",
+            id: request.id,
+            result: { resourceTemplates: workflowyResources.templates() }
+          };
+
+        case "resources/list":
+        case "resources/read": {
+          const resourceToken = request.params?.authorization_token;
+          if (!(await this.hasValidAuth(headers, env, resourceToken))) {
+            requestLogger.warn('MCP resource request authentication failed', {
+              hasHttpApiKey: !!headers?.get('Authorization'),
+              hasAuthorizationToken: !!resourceToken,
+              method: request.method
+            });
+            return this.authRequiredError(request.id);
+          }
+
+          const resourceStart = Date.now();
+          try {
+            const { username, password, access } = await this.extractCredentials(request.params ?? {}, env, headers, resourceToken);
+
+            // Resources expose outline content, so they need the same scope as the read-only tools
+            if (!accessControl.hasAnyScope(access, [READ_SCOPE])) {
+              requestLogger.warn('MCP resource request denied by token scope', { method: request.method, grantedScopes: access.scopes });
+              return this.insufficientScopeError(request.id, request.method, [READ_SCOPE], access.scopes);
+            }
+
+            if (request.method === "resources/list") {
+              const resources = await accessControl.run(access, () => workflowyResources.list(username, password));
+              requestLogger.mcpOperation("resources/list", "resources", Date.now() - resourceStart, false, { requestId: request.id });
+              return { jsonrpc: "2.0", id: request.id, result: { resources } };
+            }
+
+            const uri = request.params?.uri;
+            if (typeof uri !== 'string') {
+              return {
+                jsonrpc: "2.0",
+                id: request.id,
+                error: { code: -32602, message: "Missing required parameter: uri" }
+              };
+            }
+
+            const contents = await accessControl.run(access, () => workflowyResources.read(uri, username, password));
+            requestLogger.mcpOperation("resources/read", uri, Date.now() - resourceStart, false, { requestId: request.id });
+            return { jsonrpc: "2.0", id: request.id, result: { contents: [contents] } };
+          } catch (error: any) {
+            requestLogger.error(`Resource request failed: ${request.method}`, error, {
+              requestId: request.id,
+              duration: Date.now() - resourceStart,
+              uri: request.params?.uri
+            });
+            return this.resourceError(request.id, error, env);
+          }
+        }
+
+        case "prompts/list":
+          return {
+            jsonrpc: "2.0",
+            id: request.id,
+            result: { prompts: workflowyPrompts.list() }
+          };
+
+        case "prompts/get": {
+          const promptToken = request.params?.authorization_token;
+          if (!(await this.hasValidAuth(headers, env, promptToken))) {
+            return this.authRequiredError(request.id);
+          }
+
+          const promptStart = Date.now();
+          const promptName = request.params?.name;
+          try {
+            const { username, password, access } = await this.extractCredentials(request.params ?? {}, env, headers, promptToken);
+            if (!accessControl.hasAnyScope(access, [READ_SCOPE])) {
+              requestLogger.warn('MCP prompt request denied by token scope', { promptName, grantedScopes: access.scopes });
+              return this.insufficientScopeError(request.id, request.method, [READ_SCOPE], access.scopes);
+            }
+            const result = await accessControl.run(access, () => workflowyPrompts.get(promptName, request.params?.arguments ?? {}, username, password));
+            requestLogger.mcpOperation("prompts/get", promptName, Date.now() - promptStart, false, { requestId: request.id });
+            return { jsonrpc: "2.0", id: request.id, result };
+          } catch (error: any) {
+            requestLogger.error(`Prompt request failed: ${promptName}`, error, {
+              requestId: request.id,
+              duration: Date.now() - promptStart
+            });
+            return this.resourceError(request.id, error, env, -32602);
+          }
+        }
+
+        case "resources/subscribe":
+        case "resources/unsubscribe": {
+          // Updates are delivered on the session's GET stream, so a subscription needs a session
+          const subscriberId = headers?.get('Mcp-Session-Id');
+          if (!subscriberId || !headers || !mcpSessions.get(subscriberId, await sessionOwner(headers, env))) {
+            return {
+              jsonrpc: "2.0",
+              id: request.id,
+              error: { code: -32600, message: `${request.method} requires an Mcp-Session-Id from initialize on /mcp` }
+            };
+          }
+
+          const uri = request.params?.uri;
+          if (typeof uri !== 'string') {
+            return {
+              jsonrpc: "2.0",
+              id: request.id,
+              error: { code: -32602, message: "Missing required parameter: uri" }
+            };
+          }
+
+          if (request.method === "resources/unsubscribe") {
+            resourceSubscriptions.unsubscribe(subscriberId, uri);
+            return { jsonrpc: "2.0", id: request.id, result: {} };
+          }
+
+          const subscribeToken = request.params?.authorization_token;
+          if (!(await this.hasValidAuth(headers, env, subscribeToken))) {
+            return this.authRequiredError(request.id);
+          }
+
+          try {
+            const { username, password, access } = await this.extractCredentials(request.params, env, headers, subscribeToken);
+            if (!accessControl.hasAnyScope(access, [READ_SCOPE])) {
+              requestLogger.warn('MCP resource subscription denied by token scope', { uri, grantedScopes: access.scopes });
+              return this.insufficientScopeError(request.id, request.method, [READ_SCOPE], access.scopes);
+            }
+            await accessControl.run(access, () => resourceSubscriptions.subscribe(subscriberId, uri, updatedUri => {
+              mcpSessions.send(subscriberId, {
+                jsonrpc: "2.0",
+                method: "notifications/resources/updated",
+                params: { uri: updatedUri }
+              });
+            }, username, password));
+
+            requestLogger.info('MCP resource subscribed', { sessionId: subscriberId, uri });
+            return { jsonrpc: "2.0", id: request.id, result: {} };
+          } catch (error: any) {
+            requestLogger.error('Resource subscription failed', error, { requestId: request.id, uri });
+            return this.resourceError(request.id, error, env);
+          }
+        }
+
         default:
           return {
             jsonrpc: "2.0",
@@ -448,28 +742,12 @@ class WorkflowyMCPServer {
   }
 
   // Convert Zod schema to JSON Schema for MCP
-  private convertZodToJsonSchema(zodSchema: z.ZodSchema): any {
-    // Simple conversion - in practice you'd want a proper zod-to-json-schema library
-    if (zodSchema instanceof z.ZodObject) {
-      const shape = zodSchema._def.shape();
-      const properties: any = {};
-      const required: string[] = [];
-
-      Object.entries(shape).forEach(([key, schema]: [string, any]) => {
-        properties[key] = { type: "string" }; // Simplified
-        if (!schema.isOptional()) {
-          required.push(key);
-        }
-      });
-
-      return {
-        type: "object",
-        properties,
-        required: required.length > 0 ? required : undefined
-      };
-    }
-
-    return { type: "object" };
+  // Same draft-07 schemas the stdio FastMCP server advertises for these tools
+  convertZodToJsonSchema(zodSchema: z.ZodSchema): any {
+    return {
+      ...zodToJsonSchema(zodSchema),
+      $schema: "http://json-schema.org/draft-07/schema#"
+    };
   }
 }
 
@@ -503,8 +781,11 @@ export default {
 
                 if (message.jsonrpc === "2.0" && message.method) {
                   if (message.id !== undefined) {
-                    // JSON-RPC Request (has id)
-                    const response = await server.handleJsonRpcRequest(message as JsonRpcRequest, env, request.headers);
+                    // JSON-RPC Request (has id); the stream is already open, so rate limits are reported per message
+                    const rateLimit = await this.checkRateLimit(request, env, [message]);
+                    const response = rateLimit && !rateLimit.allowed
+                      ? this.rateLimitError(message.id, rateLimit)
+                      : await server.handleJsonRpcRequest(message as JsonRpcRequest, env, request.headers);
 
                     // Send response via SSE
                     const sseData = `data: ${JSON.stringify(response)}\n\n`;
@@ -553,13 +834,303 @@ export default {
     });
   },
 
-  async fetch(request: Request, env: any): Promise<Response> {
+  // Charge JSON-RPC messages to the caller's read and write token buckets.
+  // Returns null when rate limiting is disabled or none of the messages are billable
+  async checkRateLimit(request: Request, env: any, messages: any[], logger?: any, costs: RateLimitCosts = costsFor(messages, isWriteTool)): Promise<RateLimitResult | null> {
+    const policy = new ConfigManager(env).getConfig().rateLimit;
+    if (!policy.enabled || (!costs.read && !costs.write)) {
+      return null;
+    }
+
+    const identity = await rateLimitIdentity(request, env, messages);
+    const result = await rateLimiter.consume(identity, costs, policy, rateLimiter.storeFor(env));
+    if (!result.allowed) {
+      (logger || createLogger(env)).warn('Rate limit exceeded', {
+        identity,
+        bucket: result.bucket,
+        limit: result.limit,
+        retryAfter: result.retryAfterSeconds
+      });
+    }
+    return result;
+  },
+
+  rateLimitError(id: JsonRpcRequest['id'] | null, result: RateLimitResult) {
+    return {
+      jsonrpc: "2.0" as const,
+      id,
+      error: {
+        code: -32000,
+        message: `Rate limit exceeded for ${result.bucket} requests (${result.limit} per minute). Retry after ${result.retryAfterSeconds}s.`,
+        data: { retryable: true, bucket: result.bucket, retryAfter: result.retryAfterSeconds }
+      }
+    };
+  },
+
+  rateLimitedResponse(result: RateLimitResult, headers: Record<string, string>): Response {
+    return new Response(JSON.stringify(this.rateLimitError(null, result)), {
+      status: 429,
+      headers: { 'Content-Type': 'application/json', ...headers, ...rateLimiter.headers(result) }
+    });
+  },
+
+  // Streamable HTTP transport (MCP 2025-03-26): POST sends messages, GET opens a stream for
+  // server-initiated messages or resumes one after Last-Event-ID, DELETE ends the session
+  async handleStreamableHttp(request: Request, server: WorkflowyMCPServer, env: any, logger: any, requestId: string, startTime: number): Promise<Response> {
+    const baseHeaders: Record<string, string> = {
+      'X-Request-ID': requestId,
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Expose-Headers': `Mcp-Session-Id, ${RATE_LIMIT_HEADERS}`
+    };
+    const errorResponse = (status: number, code: number, message: string) =>
+      new Response(JSON.stringify({ jsonrpc: "2.0", id: null, error: { code, message } }), {
+        status,
+        headers: { 'Content-Type': 'application/json', ...baseHeaders }
+      });
+
+    const accept = request.headers.get('Accept') || '';
+    const sessionId = request.headers.get('Mcp-Session-Id');
+    // Sessions only answer to the credential that created them; anyone else gets 404
+    const owner = await sessionOwner(request.headers, env);
+    const protocolHeader = request.headers.get('MCP-Protocol-Version');
+
+    if (protocolHeader && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolHeader)) {
+      return errorResponse(400, -32600, `Unsupported MCP-Protocol-Version ${protocolHeader}. Supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`);
+    }
+
+    if (request.method === 'DELETE') {
+      if (!sessionId) {
+        return errorResponse(400, -32600, 'Mcp-Session-Id header required');
+      }
+      if (!mcpSessions.delete(sessionId, owner)) {
+        return errorResponse(404, -32001, 'Session not found');
+      }
+      resourceSubscriptions.unsubscribeAll(sessionId);
+      logger.info('MCP session terminated', { sessionId });
+      return new Response(null, { status: 204, headers: baseHeaders });
+    }
+
+    if (request.method === 'GET') {
+      if (!accept.includes('text/event-stream')) {
+        return errorResponse(406, -32600, 'GET /mcp opens an SSE stream and requires Accept: text/event-stream');
+      }
+      if (!sessionId) {
+        return errorResponse(400, -32600, 'Mcp-Session-Id header required. Send initialize first.');
+      }
+      const session = mcpSessions.get(sessionId, owner);
+      if (!session) {
+        return errorResponse(404, -32001, 'Session not found. Send a new initialize request.');
+      }
+      return this.openSessionStream(session, request.headers.get('Last-Event-ID'), baseHeaders, logger);
+    }
+
+    if (request.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { ...baseHeaders, 'Allow': 'GET, POST, DELETE' } });
+    }
+
+    // A single message or a JSON array batch; older clients send newline-delimited messages
+    const body = await request.text();
+    let messages: any[];
+    let batch = false;
+    let newlineDelimited = false;
+    try {
+      const parsed = JSON.parse(body);
+      batch = Array.isArray(parsed);
+      messages = batch ? parsed : [parsed];
+    } catch {
+      try {
+        messages = body.trim().split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+        newlineDelimited = batch = messages.length > 1;
+      } catch (parseError: any) {
+        logger.error('Failed to parse JSON-RPC message', parseError);
+        return errorResponse(400, -32700, `Parse error: ${parseError.message}`);
+      }
+    }
+    if (messages.length === 0) {
+      return errorResponse(400, -32600, 'Empty JSON-RPC batch');
+    }
+
+    const isInitialize = messages.some(message => message?.method === 'initialize');
+    if (isInitialize && messages.length > 1) {
+      return errorResponse(400, -32600, 'initialize must not be part of a batch');
+    }
+
+    let session: McpSession | undefined;
+    if (sessionId && !isInitialize) {
+      session = mcpSessions.get(sessionId, owner);
+      if (!session) {
+        return errorResponse(404, -32001, 'Session not found. Send a new initialize request without Mcp-Session-Id.');
+      }
+    }
+
+    // Requests get responses; notifications and client responses are only acknowledged
+    const isValid = (message: any) =>
+      message?.jsonrpc === "2.0" && (typeof message.method === 'string' || message.result !== undefined || message.error !== undefined);
+    const toAnswer = messages.filter(message => !isValid(message) || (message.method && message.id !== undefined));
+
+    messages.filter(message => isValid(message) && message.method && message.id === undefined).forEach(message => {
+      logger.info('Received JSON-RPC notification', { method: message.method, sessionId: session?.id });
+    });
+
+    if (toAnswer.length === 0) {
+      return new Response(null, { status: 202, headers: baseHeaders });
+    }
+
+    // Charge the whole batch before doing any work, so a rejected batch has no partial effects
+    const rateLimit = await this.checkRateLimit(request, env, toAnswer, logger);
+    if (rateLimit && !rateLimit.allowed) {
+      return this.rateLimitedResponse(rateLimit, baseHeaders);
+    }
+    if (rateLimit) {
+      Object.assign(baseHeaders, rateLimiter.headers(rateLimit));
+    }
+
+    const answer = async (message: any): Promise<JsonRpcResponse> => {
+      if (!isValid(message)) {
+        logger.warn('Invalid JSON-RPC message format', { message });
+        return { jsonrpc: "2.0", id: message?.id ?? null, error: { code: -32600, message: "Invalid JSON-RPC request format" } };
+      }
+      return server.handleJsonRpcRequest(message as JsonRpcRequest, env, request.headers, logger);
+    };
+
+    // Tool calls can be slow, so stream them as SSE when the client accepts it
+    const stream = accept.includes('text/event-stream') && toAnswer.some(message => message.method === 'tools/call');
+
+    if (stream) {
+      const { readable, writable } = new TransformStream();
+      const writer = writable.getWriter();
+      const encoder = new TextEncoder();
+      const streamId = session ? mcpSessions.newStreamId() : undefined;
+      if (session && streamId) {
+        mcpSessions.attach(session, streamId, writer);
+      }
+
+      const processMessages = async () => {
+        try {
+          for (const message of toAnswer) {
+            const response = await answer(message);
+            if (session && streamId) {
+              await mcpSessions.emit(session, streamId, response);
+            } else {
+              await writer.write(encoder.encode(formatSseEvent(response)));
+            }
+          }
+        } catch (error: any) {
+          logger.error('MCP stream processing failed', error, { sessionId: session?.id });
+        } finally {
+          if (session && streamId) {
+            await mcpSessions.complete(session, streamId);
+          } else {
+            await writer.close().catch(() => {});
+          }
+          logger.performance('MCP streamed request', Date.now() - startTime, { messageCount: messages.length, sessionId: session?.id });
+        }
+      };
+
+      // Process messages in background
+      processMessages();
+
+      return new Response(readable, {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          ...baseHeaders
+        }
+      });
+    }
+
+    const responses: JsonRpcResponse[] = [];
+    for (const message of toAnswer) {
+      responses.push(await answer(message));
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', ...baseHeaders };
+    if (isInitialize && responses[0].result) {
+      const created = mcpSessions.create(responses[0].result.protocolVersion, owner);
+      headers['Mcp-Session-Id'] = created.id;
+      logger.info('MCP session created', { sessionId: created.id, protocolVersion: created.protocolVersion });
+    }
+
+    const duration = Date.now() - startTime;
+    headers['X-Response-Time'] = duration.toString();
+    logger.performance('MCP batch request', duration, {
+      messageCount: messages.length,
+      responseCount: responses.length
+    });
+
+    const responseBody = !batch
+      ? JSON.stringify(responses[0])
+      : newlineDelimited ? responses.map(r => JSON.stringify(r)).join('\n') : JSON.stringify(responses);
+    return new Response(responseBody, { headers });
+  },
+
+  // SSE stream for a session: replays events after Last-Event-ID, then stays open for new ones.
+  // A resumed request stream closes once all of its responses have been sent
+  openSessionStream(session: McpSession, lastEventId: string | null, baseHeaders: Record<string, string>, logger: any): Response {
+    const { readable, writable } = new TransformStream();
+    const writer = writable.getWriter();
+    const encoder = new TextEncoder();
+
+    const resumed = lastEventId ? mcpSessions.eventsAfter(session, lastEventId) : null;
+    if (lastEventId && !resumed) {
+      logger.warn('Unknown Last-Event-ID, opening a new stream', { sessionId: session.id, lastEventId });
+    }
+    const streamId = resumed?.streamId ?? session.standaloneStreamId;
+
+    const replay = async () => {
+      try {
+        // Keep replaying until caught up, then attach without yielding so no event is missed
+        let lastSent = resumed ? lastEventId! : undefined;
+        while (lastSent) {
+          const pending = mcpSessions.eventsAfter(session, lastSent)?.events ?? [];
+          if (pending.length === 0) {
+            break;
+          }
+          for (const event of pending) {
+            await writer.write(encoder.encode(event.data));
+            lastSent = event.id;
+          }
+        }
+
+        if (streamId !== session.standaloneStreamId && mcpSessions.isComplete(session, streamId)) {
+          await writer.close();
+        } else {
+          mcpSessions.attach(session, streamId, writer);
+        }
+
+        // Check subscribed resources for changes while the session's GET stream stays open
+        if (streamId === session.standaloneStreamId) {
+          const stopPolling = resourceSubscriptions.poll(session.id);
+          writer.closed.then(stopPolling, stopPolling);
+        }
+      } catch (error: any) {
+        logger.warn('MCP stream closed during replay', { sessionId: session.id, error: error.message });
+      }
+    };
+
+    replay();
+
+    return new Response(readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Mcp-Session-Id': session.id,
+        ...baseHeaders
+      }
+    });
+  },
+
+  async fetch(request: Request, env: any, ctx?: { waitUntil(promise: Promise<unknown>): void }): Promise<Response> {
     const requestId = generateRequestId();
     const logger = createLogger(env).forRequest(requestId, request.method, new URL(request.url).pathname);
     const startTime = Date.now();
 
     const server = new WorkflowyMCPServer();
     const config = new ConfigManager(env);
+    trashSettings.configureFromEnv(env);
+    workflowyResources.configureFromEnv(env);
+    resourceSubscriptions.configureFromEnv(env);
+    dailyJournal.configureFromEnv(env);
 
     logger.info('Request received', {
       method: request.method,
@@ -569,9 +1140,9 @@ export default {
     });
 
     // Validate API key for authenticated endpoints with logging
-    const validateAuth = () => {
+    const validateAuth = async () => {
       const apiKey = request.headers.get('Authorization')?.replace('Bearer ', '') || null;
-      if (!config.validateApiKey(apiKey) && !server.validateApiKey(apiKey, env)) {
+      if (!config.validateApiKey(apiKey) && !(await server.validateApiKey(apiKey, env))) {
         logger.warn('Authentication failed', {
           hasApiKey: !!apiKey,
           apiKeyLength: apiKey?.length,
@@ -611,6 +1182,8 @@ export default {
       '/oauth/register',
       '/oauth/authorize',
       '/oauth/token',
+      '/oauth/revoke',
+      '/oauth/introspect',
       '/.well-known/oauth-authorization-server',
       '/.well-known/oauth-authorization-server/mcp',
       '/connector/setup',
@@ -623,11 +1196,19 @@ export default {
 
     // Server-Sent Events endpoint for MCP communication (authenticated)
     if (url.pathname === '/sse') {
-      const authError = validateAuth();
+      const authError = await validateAuth();
       if (authError) return authError;
 
       // Handle SSE connection
       if (request.headers.get('Accept') === 'text/event-stream') {
+        // Opening a stream costs one read, so a caller with an empty budget gets a 429 up front
+        const rateLimit = await this.checkRateLimit(request, env, [], logger, { read: 1 });
+        if (rateLimit && !rateLimit.allowed) {
+          return this.rateLimitedResponse(rateLimit, {
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Expose-Headers': RATE_LIMIT_HEADERS
+          });
+        }
         return this.handleSSE(request, server, env);
       }
 
@@ -658,7 +1239,9 @@ export default {
           workflowy: {
             available: healthCheck.available,
             responseTime: healthCheck.responseTime,
-            error: healthCheck.error
+            error: healthCheck.error,
+            sessionPool: healthCheck.pool,
+            documentSnapshots: healthCheck.snapshots
           },
           environment: config.getEnvironment(),
           requestId,
@@ -697,7 +1280,25 @@ export default {
       if (request.method === 'POST') {
         try {
           const body = await request.json();
-          const { username, password } = body;
+          let { username, password } = body;
+
+          // Migration path: exchange an unexpired pre-vault base64 token without re-entering credentials
+          if (body.token && !username && !password) {
+            const legacy = body.token.startsWith(VAULT_TOKEN_PREFIX) ? null : await credentialVault.open(env, body.token);
+            if (!legacy) {
+              return new Response(JSON.stringify({
+                error: 'Invalid token',
+                message: 'Only unexpired legacy tokens can be exchanged'
+              }), {
+                status: 400,
+                headers: {
+                  'Content-Type': 'application/json',
+                  'Access-Control-Allow-Origin': '*'
+                }
+              });
+            }
+            ({ username, password } = legacy);
+          }
 
           if (!username || !password) {
             return new Response(JSON.stringify({
@@ -712,6 +1313,34 @@ export default {
             });
           }
 
+          const scopes: string[] | undefined = body.scopes;
+          if (scopes !== undefined && (!Array.isArray(scopes) || scopes.some(scope => !SCOPES.includes(scope)))) {
+            return new Response(JSON.stringify({
+              error: 'Invalid scopes',
+              message: `Scopes must be a subset of: ${SCOPES.join(', ')}`
+            }), {
+              status: 400,
+              headers: {
+                'Content-Type': 'application/json',
+                'Access-Control-Allow-Origin': '*'
+              }
+            });
+          }
+
+          if (!credentialVault.isConfigured(env)) {
+            logger.error('Connector setup unavailable - credential vault not configured');
+            return new Response(JSON.stringify({
+              error: 'Credential vault unavailable',
+              message: 'The server has no CREDENTIAL_VAULT_KEY secret or KV namespace for storing tokens'
+            }), {
+              status: 503,
+              headers: {
+                'Content-Type': 'application/json',
+                'Access-Control-Allow-Origin': '*'
+              }
+            });
+          }
+
           // Validate credentials by attempting authentication
           try {
             const healthCheck = await workflowyClient.checkServiceHealth(username, password);
@@ -729,23 +1358,6 @@ export default {
               });
             }
 
-            // Generate a secure token for this user session
-            const userToken = btoa(`${username}:${password}:${Date.now()}`);
-
-            // In a production system, you'd store this securely
-            // For now, we'll return it to be used as the API key
-            return new Response(JSON.stringify({
-              success: true,
-              token: userToken,
-              message: 'Credentials validated successfully',
-              instructions: 'Use this token as your API key when configuring the Anthropic connector'
-            }), {
-              headers: {
-                'Content-Type': 'application/json',
-                'Access-Control-Allow-Origin': '*'
-              }
-            });
-
           } catch (error: any) {
             logger.error('Credential validation failed', error);
             return new Response(JSON.stringify({
@@ -760,6 +1372,31 @@ export default {
             });
           }
 
+          // Seal the credentials in the vault; the token is an opaque ID that reveals nothing
+          const issued = await credentialVault.issue(env, { username, password }, {
+            scopes,
+            ttlDays: body.expires_in_days,
+            label: body.label,
+            rootId: typeof body.root_node_id === 'string' && body.root_node_id ? body.root_node_id : undefined
+          });
+          logger.info('Connector token issued', { tokenId: issued.id.substring(0, 12), scopes: issued.scopes, migrated: !!body.token });
+
+          return new Response(JSON.stringify({
+            success: true,
+            token: issued.token,
+            token_id: issued.id,
+            scopes: issued.scopes,
+            ...(issued.rootId && { root_node_id: issued.rootId }),
+            expires_at: new Date(issued.expiresAt).toISOString(),
+            message: 'Credentials validated successfully',
+            instructions: 'Use this token as your API key when configuring the Anthropic connector'
+          }), {
+            headers: {
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': '*'
+            }
+          });
+
         } catch (error: any) {
           return new Response(JSON.stringify({
             error: 'Invalid request',
@@ -774,6 +1411,47 @@ export default {
         }
       }
 
+      // DELETE revokes a token, passed as the bearer token or in the body
+      if (request.method === 'DELETE') {
+        const body = await request.json().catch(() => ({})) as { token?: string };
+        const token = body.token || request.headers.get('Authorization')?.replace('Bearer ', '');
+
+        if (!token) {
+          return new Response(JSON.stringify({
+            error: 'Missing token',
+            message: 'Pass the token to revoke as a Bearer token or in the request body'
+          }), {
+            status: 400,
+            headers: {
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': '*'
+            }
+          });
+        }
+
+        if (!token.startsWith(VAULT_TOKEN_PREFIX)) {
+          return new Response(JSON.stringify({
+            error: 'Unsupported token',
+            message: 'Legacy tokens cannot be revoked; exchange them for a vault token or set ALLOW_LEGACY_TOKENS=false'
+          }), {
+            status: 400,
+            headers: {
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': '*'
+            }
+          });
+        }
+
+        const revoked = await credentialVault.revoke(env, token);
+        logger.info('Connector token revocation', { revoked });
+        return new Response(JSON.stringify({ success: true, revoked }), {
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*'
+          }
+        });
+      }
+
       // GET method returns setup instructions
       if (request.method === 'GET') {
         return new Response(JSON.stringify({
@@ -789,8 +1467,21 @@ export default {
             method: "POST",
             body: {
               username: "your_workflowy_username",
-              password: "your_workflowy_password"
+              password: "your_workflowy_password",
+              scopes: `optional, subset of ${JSON.stringify(SCOPES)} (default ${JSON.stringify(DEFAULT_SCOPES)})`,
+              root_node_id: "optional, restricts the token to descendants of this node",
+              expires_in_days: "optional, 1-365 (default 30)",
+              label: "optional, shown to operators"
             }
+          },
+          migration: {
+            method: "POST",
+            body: { token: "legacy base64 token" },
+            description: "Exchange a legacy token for a vault token without re-entering credentials"
+          },
+          revocation: {
+            method: "DELETE",
+            body: { token: "token to revoke" }
           }
         }), {
           headers: {
@@ -828,7 +1519,9 @@ export default {
           oauth_metadata: '/.well-known/oauth-authorization-server',
           oauth_register: '/oauth/register',
           oauth_authorize: '/oauth/authorize',
-          oauth_token: '/oauth/token'
+          oauth_token: '/oauth/token',
+          oauth_revoke: '/oauth/revoke',
+          oauth_introspect: '/oauth/introspect'
         }
       }), {
         headers: {
@@ -915,124 +1608,9 @@ export default {
         });
       }
 
-      if (request.method === 'POST') {
-        try {
-          const body = await request.text();
-
-          // Handle both single messages and batched messages
-          const messages = body.trim().split('\n').filter(line => line.trim());
-          const responses: JsonRpcResponse[] = [];
-
-          for (const messageText of messages) {
-            try {
-              const message = JSON.parse(messageText);
-
-              // Handle JSON-RPC request and notification with logging
-              if (message.jsonrpc === "2.0" && message.method) {
-                if (message.id !== undefined) {
-                  // JSON-RPC Request (has id)
-                  const response = await server.handleJsonRpcRequest(message as JsonRpcRequest, env, request.headers, logger);
-                  responses.push(response);
-                } else {
-                  // JSON-RPC Notification (no id) - just acknowledge receipt
-                  logger.info('Received JSON-RPC notification', { method: message.method });
-                  // Notifications don't require responses
-                }
-              } else {
-                // Handle invalid JSON-RPC format
-                logger.warn('Invalid JSON-RPC message format', { message });
-                responses.push({
-                  jsonrpc: "2.0",
-                  id: message.id || null,
-                  error: {
-                    code: -32600,
-                    message: "Invalid JSON-RPC request format"
-                  }
-                });
-              }
-            } catch (parseError: any) {
-              // Handle JSON parsing errors
-              logger.error('Failed to parse JSON-RPC message', parseError);
-              responses.push({
-                jsonrpc: "2.0",
-                id: null,
-                error: {
-                  code: -32700,
-                  message: `Parse error: ${parseError.message}`
-                }
-              });
-            }
-          }
-
-          // Return responses as JSON with request tracking
-          const duration = Date.now() - startTime;
-          logger.performance('MCP batch request', duration, {
-            messageCount: messages.length,
-            responseCount: responses.length
-          });
-
-          if (responses.length === 1) {
-            return new Response(JSON.stringify(responses[0]), {
-              headers: {
-                'Content-Type': 'application/json',
-                'X-Request-ID': requestId,
-                'X-Response-Time': duration.toString(),
-                'Access-Control-Allow-Origin': '*'
-              }
-            });
-          } else {
-            return new Response(responses.map(r => JSON.stringify(r)).join('\n'), {
-              headers: {
-                'Content-Type': 'application/json',
-                'X-Request-ID': requestId,
-                'X-Response-Time': duration.toString(),
-                'Access-Control-Allow-Origin': '*'
-              }
-            });
-          }
-
-        } catch (error: any) {
-          const duration = Date.now() - startTime;
-          logger.error('MCP request parsing failed', error, { duration });
-
-          return new Response(JSON.stringify({
-            jsonrpc: "2.0",
-            id: null,
-            error: {
-              code: -32700,
-              message: `Parse error: ${error.message}`
-            },
-            requestId
-          }), {
-            status: 400,
-            headers: {
-              'Content-Type': 'application/json',
-              'X-Request-ID': requestId,
-              'Access-Control-Allow-Origin': '*'
-            }
-          });
-        }
-      }
-
-      // GET method for MCP endpoint (for session resumption)
-      if (request.method === 'GET') {
-        return new Response(JSON.stringify({
-          jsonrpc: "2.0",
-          method: "notifications/initialized",
-          params: {
-            protocolVersion: server.protocolVersion,
-            serverInfo: {
-              name: server.name,
-              version: server.version
-            }
-          }
-        }), {
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*'
-          }
-        });
-      }
+      const response = await this.handleStreamableHttp(request, server, env, logger, requestId, startTime);
+      ctx?.waitUntil(usageStats.flushIfDue(env));
+      return response;
     }
 
     // OAuth Authorization Server Metadata (RFC 8414) - No authentication required
@@ -1043,11 +1621,15 @@ export default {
         authorization_endpoint: `${baseUrl}/oauth/authorize`,
         token_endpoint: `${baseUrl}/oauth/token`,
         registration_endpoint: `${baseUrl}/oauth/register`, // Dynamic Client Registration
-        scopes_supported: ['workflowy:read', 'workflowy:write'],
+        revocation_endpoint: `${baseUrl}/oauth/revoke`, // RFC 7009
+        introspection_endpoint: `${baseUrl}/oauth/introspect`, // RFC 7662
+        scopes_supported: SCOPES,
         response_types_supported: ['code'],
         grant_types_supported: ['authorization_code', 'refresh_token'],
-        token_endpoint_auth_methods_supported: ['none'],
-        registration_endpoint_auth_methods_supported: ['none']
+        token_endpoint_auth_methods_supported: TOKEN_ENDPOINT_AUTH_METHODS,
+        code_challenge_methods_supported: ['S256'],
+        registration_endpoint_auth_methods_supported: ['none'],
+        revocation_endpoint_auth_methods_supported: ['none']
       }), {
         headers: {
           'Content-Type': 'application/json',
@@ -1064,11 +1646,15 @@ export default {
         authorization_endpoint: `${baseUrl}/oauth/authorize`,
         token_endpoint: `${baseUrl}/oauth/token`,
         registration_endpoint: `${baseUrl}/oauth/register`,
-        scopes_supported: ['workflowy:read', 'workflowy:write'],
+        revocation_endpoint: `${baseUrl}/oauth/revoke`,
+        introspection_endpoint: `${baseUrl}/oauth/introspect`,
+        scopes_supported: SCOPES,
         response_types_supported: ['code'],
         grant_types_supported: ['authorization_code', 'refresh_token'],
-        token_endpoint_auth_methods_supported: ['none'],
-        registration_endpoint_auth_methods_supported: ['none']
+        token_endpoint_auth_methods_supported: TOKEN_ENDPOINT_AUTH_METHODS,
+        code_challenge_methods_supported: ['S256'],
+        registration_endpoint_auth_methods_supported: ['none'],
+        revocation_endpoint_auth_methods_supported: ['none']
       }), {
         headers: {
           'Content-Type': 'application/json',
@@ -1093,23 +1679,31 @@ export default {
         try {
           const registrationRequest = await request.json();
 
-          // Generate a client ID for Claude Desktop
-          const client_id = `claude_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-
-          // Store basic client info (in production, you'd use KV storage)
-          const clientInfo = {
-            client_id,
-            client_name: registrationRequest.client_name || 'Claude Desktop',
-            redirect_uris: registrationRequest.redirect_uris || ['https://claude.ai/api/mcp/auth_callback'],
-            grant_types: ['authorization_code', 'refresh_token'],
-            response_types: ['code'],
-            scope: 'workflowy:read workflowy:write'
-          };
+          if (!env.OAUTH_KV) {
+            logger.error('Dynamic client registration unavailable - OAUTH_KV not bound');
+            return new Response(JSON.stringify({ error: 'server_error', error_description: 'Client registry is not configured' }), {
+              status: 503, headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' }
+            });
+          }
+
+          // Registered clients are kept in OAUTH_KV; authorize and token requests are checked against them
+          const clientInfo = await oauthClients.register(env.OAUTH_KV, {
+            client_name: registrationRequest.client_name,
+            redirect_uris: registrationRequest.redirect_uris,
+            token_endpoint_auth_method: registrationRequest.token_endpoint_auth_method
+          });
+          if (isOAuthFailure(clientInfo)) {
+            logger.warn('Dynamic client registration rejected', { error: clientInfo.error, reason: clientInfo.error_description });
+            return new Response(JSON.stringify(clientInfo), {
+              status: 400, headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' }
+            });
+          }
 
           logger.info('Dynamic client registration', {
-            client_id,
+            client_id: clientInfo.client_id,
             client_name: clientInfo.client_name,
-            redirect_uris: clientInfo.redirect_uris
+            redirect_uris: clientInfo.redirect_uris,
+            tokenEndpointAuthMethod: clientInfo.token_endpoint_auth_method
           });
 
           return new Response(JSON.stringify({
@@ -1119,10 +1713,14 @@ export default {
             grant_types: clientInfo.grant_types,
             response_types: clientInfo.response_types,
             scope: clientInfo.scope,
-            client_id_issued_at: Math.floor(Date.now() / 1000),
-            // Note: We don't require client_secret for this implementation
+            token_endpoint_auth_method: clientInfo.token_endpoint_auth_method,
+            client_id_issued_at: Math.floor(clientInfo.created_at / 1000),
+            // Confidential clients get their secret once; it never expires
+            ...(clientInfo.client_secret && { client_secret: clientInfo.client_secret, client_secret_expires_at: 0 })
           }), {
+            status: 201,
             headers: {
+              'Cache-Control': 'no-store',
               'Content-Type': 'application/json',
               'Access-Control-Allow-Origin': '*'
             }
@@ -1146,14 +1744,61 @@ export default {
 
     // OAuth Authorization Endpoint - No authentication required
     if (url.pathname === '/oauth/authorize') {
+      // The client must be registered and the redirect URI one of its own, and public clients must
+      // send an S256 PKCE challenge. Errors are shown to the user rather than redirected, since the
+      // redirect target can't be trusted (RFC 6749 §4.1.2.1)
+      const authorizationClient = async (
+        clientId: string | null,
+        requestedRedirect: string | null,
+        codeChallenge: string | null,
+        codeChallengeMethod: string | null
+      ): Promise<{ client: OAuthClientRecord; redirect_uri: string } | Response> => {
+        const reject = (message: string) => new Response(`Invalid authorization request: ${message}`, {
+          status: 400, headers: { 'Content-Type': 'text/plain' }
+        });
+        const client = clientId ? await oauthClients.get(env.OAUTH_KV, clientId) : null;
+        if (!client) {
+          logger.warn('OAuth authorization refused for unknown client', { clientId });
+          return reject('unknown client_id');
+        }
+        if (client.revoked_at) {
+          logger.warn('OAuth authorization refused for revoked client', { clientId });
+          return reject('client has been revoked');
+        }
+        const redirect_uri = oauthClients.resolveRedirectUri(client, requestedRedirect);
+        if (!redirect_uri) {
+          logger.warn('OAuth authorization refused for unregistered redirect URI', { clientId, redirectUri: requestedRedirect });
+          return reject('redirect_uri is not registered for this client');
+        }
+        // Only S256 is checked at the token endpoint; with plain the authorization request itself carries the verifier
+        if (codeChallenge && codeChallengeMethod !== 'S256') {
+          return reject('code_challenge_method must be S256');
+        }
+        if (!codeChallenge && isPublicClient(client)) {
+          logger.warn('OAuth authorization refused for public client without PKCE', { clientId });
+          return reject('public clients must send a code_challenge with code_challenge_method S256');
+        }
+        return { client, redirect_uri };
+      };
+
       if (request.method === 'GET') {
         const params = url.searchParams;
-        const client_id = params.get('client_id') || 'claude-web';
-        const redirect_uri = params.get('redirect_uri') || 'https://claude.ai';
+        const resolved = await authorizationClient(params.get('client_id'), params.get('redirect_uri'),
+          params.get('code_challenge'), params.get('code_challenge_method'));
+        if (resolved instanceof Response) {
+          return resolved;
+        }
+        const { client, redirect_uri } = resolved;
+        const client_id = client.client_id;
         const scope = params.get('scope') || 'workflowy:read workflowy:write';
         const state = params.get('state') || '';
         const code_challenge = params.get('code_challenge') || '';
         const code_challenge_method = params.get('code_challenge_method') || '';
+        // Node IDs are UUIDs or short hex IDs; anything else is dropped rather than echoed into the page
+        const root_node_id = (params.get('root_node_id') || '').replace(/[^\w-]/g, '');
+        // Only pass the redirect URI on when the client sent one, so the POST can tell it was omitted
+        const redirectField = params.get('redirect_uri') ?
+          `<input type="hidden" name="redirect_uri" value="${escapeHtml(redirect_uri)}">` : '';
 
         const html = `<!DOCTYPE html>
 <html>
@@ -1185,18 +1830,24 @@ export default {
         </div>
         
         <div class="client-info">
-            <strong>Application:</strong> ${client_id}<br>
-            <strong>Permissions:</strong> ${scope}<br>
-            <strong>Redirect:</strong> ${redirect_uri}
+            <strong>Application:</strong> ${escapeHtml(client.client_name)} (${escapeHtml(client_id)})<br>
+            <strong>Permissions:</strong> ${escapeHtml(scope)}<br>
+            <strong>Redirect:</strong> ${escapeHtml(redirect_uri)}
         </div>
 
         <form method="POST">
-            <input type="hidden" name="client_id" value="${client_id}">
-            <input type="hidden" name="redirect_uri" value="${redirect_uri}">
-            <input type="hidden" name="scope" value="${scope}">
-            <input type="hidden" name="state" value="${state}">
-            <input type="hidden" name="code_challenge" value="${code_challenge}">
-            <input type="hidden" name="code_challenge_method" value="${code_challenge_method}">
+            <input type="hidden" name="client_id" value="${escapeHtml(client_id)}">
+            ${redirectField}
+            <input type="hidden" name="scope" value="${escapeHtml(scope)}">
+            <input type="hidden" name="state" value="${escapeHtml(state)}">
+            <input type="hidden" name="code_challenge" value="${escapeHtml(code_challenge)}">
+            <input type="hidden" name="code_challenge_method" value="${escapeHtml(code_challenge_method)}">
+            
+            <div class="form-group">
+                <label for="root_node_id">Limit Access to Node (optional):</label>
+                <input type="text" id="root_node_id" name="root_node_id" value="${root_node_id}" placeholder="Node ID">
+                <div class="help-text">Claude will only see and change this node's descendants. Leave empty for your whole outline.</div>
+            </div>
             
             <div class="form-group">
                 <label for="workflowy_username">Workflowy Username/Email:</label>
@@ -1223,19 +1874,35 @@ export default {
       if (request.method === 'POST') {
         try {
           const formData = await request.formData();
-          const client_id = formData.get('client_id') as string;
-          const redirect_uri = formData.get('redirect_uri') as string;
+          const resolved = await authorizationClient(formData.get('client_id') as string | null, formData.get('redirect_uri') as string | null,
+            formData.get('code_challenge') as string | null, formData.get('code_challenge_method') as string | null);
+          if (resolved instanceof Response) {
+            return resolved;
+          }
+          const client_id = resolved.client.client_id;
+          const redirect_uri = resolved.redirect_uri;
           const scope = formData.get('scope') as string;
           const state = formData.get('state') as string;
           const code_challenge = formData.get('code_challenge') as string;
           const code_challenge_method = formData.get('code_challenge_method') as string;
           const workflowy_username = formData.get('workflowy_username') as string;
           const workflowy_password = formData.get('workflowy_password') as string;
+          const root_node_id = (formData.get('root_node_id') as string | null)?.trim() || undefined;
 
           if (!workflowy_username || !workflowy_password) {
             return new Response('Missing credentials', { status: 400 });
           }
 
+          const unknownScopes = (scope ?? '').split(' ').filter(item => item && !SCOPES.includes(item));
+          if (unknownScopes.length > 0) {
+            return new Response(`Unknown scopes: ${unknownScopes.join(', ')}`, { status: 400 });
+          }
+
+          if (env.OAUTH_KV && !credentialVault.isConfigured(env)) {
+            logger.error('OAuth authorization unavailable - credential vault not configured');
+            return new Response('Credential vault is not configured', { status: 503 });
+          }
+
           // Validate credentials (reuse existing validation logic)
           const healthCheck = await workflowyClient.checkServiceHealth(workflowy_username, workflowy_password);
           if (!healthCheck.available) {
@@ -1245,12 +1912,16 @@ export default {
           // Generate authorization code
           const code = btoa(`oauth_${Date.now()}_${Math.random()}`).replace(/[^a-zA-Z0-9]/g, '').substring(0, 32);
 
-          // Store in KV (only if available)
+          // Store in KV (only if available), with the credentials sealed by the vault
           if (env.OAUTH_KV) {
             const authState = {
               client_id, redirect_uri, scope, state,
+              // Without a redirect_uri in the request, the token request may leave it out too (RFC 6749 §4.1.3)
+              ...(!formData.get('redirect_uri') && { redirect_uri_omitted: true }),
               code_challenge, code_challenge_method,
-              workflowy_username, workflowy_password,
+              workflowy_username,
+              credentials: await credentialVault.seal(env, { username: workflowy_username, password: workflowy_password }),
+              root_id: root_node_id,
               expires_at: Date.now() + (10 * 60 * 1000)
             };
             await env.OAUTH_KV.put(`auth:${code}`, JSON.stringify(authState), { expirationTtl: 600 });
@@ -1278,9 +1949,51 @@ export default {
           const grant_type = formData.get('grant_type') as string;
           const code = formData.get('code') as string;
           const redirect_uri = formData.get('redirect_uri') as string;
-          const client_id = formData.get('client_id') as string;
           const code_verifier = formData.get('code_verifier') as string;
 
+          // Confidential clients authenticate with their secret; public clients just name themselves
+          const credentials = clientCredentials(request.headers.get('Authorization'), formData);
+          const client = isOAuthFailure(credentials) ? credentials : await oauthClients.authenticate(env.OAUTH_KV, credentials);
+          if (isOAuthFailure(client)) {
+            const usedBasic = request.headers.get('Authorization')?.startsWith('Basic ');
+            logger.warn('OAuth client authentication failed', { error: client.error, reason: client.error_description });
+            return new Response(JSON.stringify(client), {
+              status: client.error === 'invalid_client' ? 401 : 400,
+              headers: {
+                'Content-Type': 'application/json',
+                ...(usedBasic && { 'WWW-Authenticate': 'Basic realm="oauth"' })
+              }
+            });
+          }
+          const client_id = client.client_id;
+
+          // Refresh token grant (RFC 6749 §6) - rotates the refresh token on every use
+          if (grant_type === 'refresh_token') {
+            const refresh_token = formData.get('refresh_token') as string;
+            if (!refresh_token) {
+              return new Response(JSON.stringify({ error: 'invalid_request', error_description: 'refresh_token is required' }), {
+                status: 400, headers: { 'Content-Type': 'application/json' }
+              });
+            }
+            if (!env.OAUTH_KV) {
+              return new Response(JSON.stringify({ error: 'invalid_grant' }), {
+                status: 400, headers: { 'Content-Type': 'application/json' }
+              });
+            }
+
+            const refreshed = await oauthTokens.refresh(env.OAUTH_KV, refresh_token, client_id, (formData.get('scope') as string) || undefined);
+            if (isOAuthFailure(refreshed)) {
+              logger.warn('OAuth refresh rejected', { clientId: client_id, error: refreshed.error, reason: refreshed.error_description });
+              return new Response(JSON.stringify(refreshed), {
+                status: 400, headers: { 'Content-Type': 'application/json' }
+              });
+            }
+
+            return new Response(JSON.stringify(refreshed), {
+              headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', 'Access-Control-Allow-Origin': '*' }
+            });
+          }
+
           if (grant_type !== 'authorization_code') {
             return new Response(JSON.stringify({ error: 'unsupported_grant_type' }), {
               status: 400, headers: { 'Content-Type': 'application/json' }
@@ -1294,13 +2007,19 @@ export default {
             if (authDataStr) {
               authData = JSON.parse(authDataStr);
 
-              // Validate client_id, redirect_uri, and expiration
-              if (authData.client_id !== client_id || authData.redirect_uri !== redirect_uri || authData.expires_at < Date.now()) {
+              // Validate client_id, redirect_uri (still registered, and as sent to /oauth/authorize), and expiration
+              const expectedRedirect = redirect_uri || (authData.redirect_uri_omitted ? authData.redirect_uri : undefined);
+              if (authData.client_id !== client_id || authData.redirect_uri !== expectedRedirect
+                || !client.redirect_uris.includes(authData.redirect_uri) || authData.expires_at < Date.now()) {
                 authData = null;
               }
 
-              // Validate PKCE code_verifier if code_challenge was provided
-              if (authData && authData.code_challenge && code_verifier) {
+              // A code issued with a PKCE challenge can only be redeemed with its verifier
+              if (authData && authData.code_challenge && !code_verifier) {
+                logger.warn('PKCE code_verifier missing', { clientId: client_id });
+                authData = null;
+              }
+              if (authData && authData.code_challenge) {
                 // Compute SHA-256 hash of code_verifier
                 const encoder = new TextEncoder();
                 const data = encoder.encode(code_verifier);
@@ -1333,26 +2052,20 @@ export default {
             });
           }
 
-          // Generate access token
-          const access_token = `oauth_access_${btoa(`${Date.now()}_${Math.random()}`).replace(/[^a-zA-Z0-9]/g, '').substring(0, 32)}`;
-
-          // Store token in KV (only if available)
-          if (env.OAUTH_KV) {
-            const now = Date.now();
-            const tokenData = {
-              client_id, scope: authData.scope,
-              workflowy_username: authData.workflowy_username,
-              workflowy_password: authData.workflowy_password,
-              created_at: now,
-              expires_at: now + (3600 * 1000)
-            };
-            await env.OAUTH_KV.put(`token:${access_token}`, JSON.stringify(tokenData), { expirationTtl: 3600 });
-          }
+          // Issue an access token and a refresh token for the new grant. Codes issued before
+          // the credential vault hold plaintext credentials, so seal those now
+          const tokens = await oauthTokens.issue(env.OAUTH_KV, {
+            client_id, scope: authData.scope,
+            workflowy_username: authData.workflowy_username,
+            root_id: authData.root_id,
+            credentials: authData.credentials ?? await credentialVault.seal(env, {
+              username: authData.workflowy_username,
+              password: authData.workflowy_password
+            })
+          });
 
-          return new Response(JSON.stringify({
-            access_token, token_type: 'Bearer', expires_in: 3600, scope: authData.scope
-          }), {
-            headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' }
+          return new Response(JSON.stringify(tokens), {
+            headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', 'Access-Control-Allow-Origin': '*' }
           });
 
         } catch (error: any) {
@@ -1364,9 +2077,126 @@ export default {
       }
     }
 
+    // OAuth Token Revocation (RFC 7009) - No authentication required; public clients prove possession of the token
+    if (url.pathname === '/oauth/revoke' && request.method === 'POST') {
+      try {
+        const formData = await request.formData();
+        const token = formData.get('token') as string;
+        if (!token) {
+          return new Response(JSON.stringify({ error: 'invalid_request', error_description: 'token is required' }), {
+            status: 400, headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        const revokeError = env.OAUTH_KV
+          ? await oauthTokens.revoke(env.OAUTH_KV, token, (formData.get('token_type_hint') as string) || undefined, (formData.get('client_id') as string) || undefined)
+          : null;
+        if (revokeError) {
+          return new Response(JSON.stringify(revokeError), {
+            status: 400, headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        logger.info('OAuth token revoked', { tokenTypeHint: formData.get('token_type_hint') });
+        return new Response(null, {
+          status: 200,
+          headers: { 'Cache-Control': 'no-store', 'Access-Control-Allow-Origin': '*' }
+        });
+      } catch (error: any) {
+        logger.error('OAuth token revocation failed', error);
+        return new Response(JSON.stringify({ error: 'server_error' }), {
+          status: 500, headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    // OAuth Token Introspection (RFC 7662) - Requires an API key so tokens can't be probed anonymously
+    if (url.pathname === '/oauth/introspect' && request.method === 'POST') {
+      const authError = await validateAuth();
+      if (authError) return authError;
+
+      try {
+        const formData = await request.formData();
+        const token = formData.get('token') as string;
+        if (!token) {
+          return new Response(JSON.stringify({ error: 'invalid_request', error_description: 'token is required' }), {
+            status: 400, headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        const introspection = env.OAUTH_KV
+          ? await oauthTokens.introspect(env.OAUTH_KV, token, (formData.get('token_type_hint') as string) || undefined)
+          : { active: false };
+        return new Response(JSON.stringify(introspection), {
+          headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', 'Access-Control-Allow-Origin': '*' }
+        });
+      } catch (error: any) {
+        logger.error('OAuth token introspection failed', error);
+        return new Response(JSON.stringify({ error: 'server_error' }), {
+          status: 500, headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    // Admin dashboard - authenticated with ADMIN_API_KEY only, never with API keys or user tokens
+    if (url.pathname === '/admin' || url.pathname.startsWith('/admin/')) {
+      const adminHeaders = { 'Cache-Control': 'no-store', 'X-Request-ID': requestId };
+
+      if (!adminDashboard.isConfigured(env)) {
+        return new Response(JSON.stringify({ error: 'Admin dashboard is not configured', message: 'Set the ADMIN_API_KEY secret to enable it' }), {
+          status: 503, headers: { 'Content-Type': 'application/json', ...adminHeaders }
+        });
+      }
+      if (!adminDashboard.isAuthorized(request, env)) {
+        logger.warn('Admin authentication failed', { hasAuthorization: request.headers.has('Authorization') });
+        return new Response(JSON.stringify({ error: 'Unauthorized', requestId }), {
+          status: 401,
+          headers: { 'Content-Type': 'application/json', 'WWW-Authenticate': `Basic realm="${ADMIN_REALM}"`, ...adminHeaders }
+        });
+      }
+
+      try {
+        const days = Number(url.searchParams.get('days')) || DEFAULT_USAGE_WINDOW_DAYS;
+
+        if (request.method === 'GET' && url.pathname === '/admin') {
+          return new Response(adminDashboard.renderHtml(await adminDashboard.overview(env, days)), {
+            headers: { 'Content-Type': 'text/html', ...adminHeaders }
+          });
+        }
+
+        if (request.method === 'GET' && url.pathname === '/admin/api/overview') {
+          return new Response(JSON.stringify(await adminDashboard.overview(env, days)), {
+            headers: { 'Content-Type': 'application/json', ...adminHeaders }
+          });
+        }
+
+        const revokeMatch = url.pathname.match(/^\/admin\/api\/(grants|tokens|clients)\/([^/]+)$/);
+        if (request.method === 'DELETE' && revokeMatch) {
+          const kind = revokeMatch[1] as RevocableKind;
+          const id = decodeURIComponent(revokeMatch[2]);
+          const result = await adminDashboard.revoke(env, kind, id);
+          logger.info('Admin revocation', { kind, id, ...result });
+
+          return new Response(JSON.stringify({ success: result.revoked, ...result }), {
+            status: result.revoked ? 200 : 404,
+            headers: { 'Content-Type': 'application/json', ...adminHeaders }
+          });
+        }
+      } catch (error: any) {
+        logger.error('Admin request failed', error);
+        return new Response(JSON.stringify({ error: 'Admin request failed', message: error.message, requestId }), {
+          status: 500, headers: { 'Content-Type': 'application/json', ...adminHeaders }
+        });
+      }
+
+      return new Response(JSON.stringify({ error: 'Not Found' }), {
+        status: 404, headers: { 'Content-Type': 'application/json', ...adminHeaders }
+      });
+    }
+
     // Legacy REST endpoints for backward compatibility (authenticated)
     if (!isPublicEndpoint) {
-      const authError = validateAuth();
+      const authError = await validateAuth();
       if (authError) return authError;
     }
 
@@ -1394,6 +2224,7 @@ export default {
         name: server.name,
         version: server.version,
         protocol: server.protocolVersion,
+        supportedProtocols: SUPPORTED_PROTOCOL_VERSIONS,
         environment: config.getEnvironment(),
         description: "Workflowy MCP Server - Remote deployment on Cloudflare Workers",
         endpoints: {
@@ -1404,7 +2235,7 @@ export default {
           ...(config.isFeatureEnabled('legacyRest') && { tools: '/tools (legacy)' })
         },
         features: [
-          ...(config.isFeatureEnabled('jsonRpc') ? ['MCP JSON-RPC'] : []),
+          ...(config.isFeatureEnabled('jsonRpc') ? ['MCP JSON-RPC', 'Streamable HTTP Sessions'] : []),
           ...(config.isFeatureEnabled('sse') ? ['Server-Sent Events'] : []),
           'HTTP Headers Auth',
           'API Key Auth',
@@ -3,11 +3,29 @@ import log from '../utils/logger.js';
 import { retryManager, RetryPresets } from '../utils/retry.js';
 import { createLogger } from '../utils/structured-logger.js';
 import { fileCache } from '../utils/file-cache.js';
+import { toPlainText, extractTags, extractMentions, extractDates, extractLinks } from '../utils/node-text.js';
+import { sessionPool, PooledSession, SessionFactory, SessionPoolStats } from './session-pool.js';
+import { documentSnapshots, DocumentSnapshot, SnapshotList, SnapshotStats } from './document-snapshot.js';
+import { SearchQuery, SearchQueryError, SearchCandidate } from './search-query.js';
+import { PageOptions, PageBudget, TreePage, encodeCursor, decodeCursor, flattenTree, resumeIndex } from './pagination.js';
+import { operationJournal, snapshotSubtree, InverseOperation, NodeSnapshot } from './operation-journal.js';
+import { trashSettings, formatTrashNote, parseTrashNote } from './trash.js';
+import { accessControl } from '../utils/access-control.js';
 
 // Default dimensions for attachment URL resolution
 const DEFAULT_ATTACHMENT_WIDTH = 800;
 const DEFAULT_ATTACHMENT_HEIGHT = 800;
 
+/**
+ * Node to create with batchCreateNodes; children are created beneath it in the same save
+ */
+export interface BatchNodeInput {
+    name: string;
+    note?: string;
+    isCompleted?: boolean;
+    children?: BatchNodeInput[];
+}
+
 // Caching options interface
 export interface CacheOptions {
   forceRefresh?: boolean; // Skip cache and force fresh data
@@ -61,6 +79,13 @@ export class NotFoundError extends WorkflowyError {
   }
 }
 
+export class AuthorizationError extends WorkflowyError {
+  constructor(message: string) {
+    super(message, { retryable: false, code: 'FORBIDDEN' });
+    this.name = 'AuthorizationError';
+  }
+}
+
 export class OverloadError extends WorkflowyError {
   constructor(message: string, retryable: boolean = true) {
     super(message, { retryable, overloaded: true, code: 'OVERLOADED' });
@@ -68,14 +93,37 @@ export class OverloadError extends WorkflowyError {
   }
 }
 
+export class SessionExpiredError extends WorkflowyError {
+  constructor(message: string, cause?: Error) {
+    super(message, { retryable: true, code: 'SESSION_EXPIRED', cause });
+    this.name = 'SessionExpiredError';
+  }
+}
+
 class WorkflowyClient {
     private structuredLogger = createLogger({});
 
     /**
-     * Create authenticated Workflowy client instance with retry logic
-     * @private Helper method to create and authenticate a Workflowy client
+     * Factory used by the session pool to create and log in Workflowy clients
      */
-    private async createAuthenticatedClient(username?: string, password?: string): Promise<{wf: WorkFlowy, client: Client}> {
+    private sessionFactory: SessionFactory = {
+        create: (username: string, password: string) => {
+            const wf = new WorkFlowy(username, password);
+            return { wf, client: wf.getClient() };
+        },
+        login: async (client: Client) => {
+            const ok = await client.login();
+            if (!ok.success) {
+                throw new AuthenticationError('Workflowy authentication failed. Please provide valid credentials.');
+            }
+        }
+    };
+
+    /**
+     * Get an authenticated Workflowy session from the pool with retry logic
+     * @private Logs in only when no pooled session or reusable cookie exists for the credentials
+     */
+    private async createAuthenticatedClient(username?: string, password?: string): Promise<PooledSession> {
         return retryManager.withRetry(async () => {
             const startTime = Date.now();
             
@@ -93,30 +141,21 @@ class WorkflowyClient {
             }
 
             try {
-                // Create a new Workflowy client instance
-                const wf = new WorkFlowy(loginUsername, loginPassword);
-                const client = wf.getClient();
-                
-                this.structuredLogger.debug('Attempting Workflowy authentication', { username: loginUsername });
-                const ok = await client.login();
+                const session = await sessionPool.acquire(loginUsername, loginPassword, this.sessionFactory);
                 const authTime = Date.now() - startTime;
 
-                if (!ok.success) {
-                    this.structuredLogger.error('Workflowy authentication failed', undefined, { 
-                        username: loginUsername, 
-                        duration: authTime 
-                    });
-                    throw new AuthenticationError('Workflowy authentication failed. Please provide valid credentials.');
-                }
-
                 this.structuredLogger.performance('authentication', authTime, { success: true });
-                return { wf, client };
+                return session;
                 
             } catch (error: any) {
                 const authTime = Date.now() - startTime;
                 
                 // Enhanced error classification
                 if (error instanceof AuthenticationError) {
+                    this.structuredLogger.error('Workflowy authentication failed', undefined, { 
+                        username: loginUsername, 
+                        duration: authTime 
+                    });
                     throw error;
                 }
                 
@@ -145,15 +184,13 @@ class WorkflowyClient {
     async getRootItems(username?: string, password?: string, maxDepth: number = 0, includeFields?: string[], previewLength?: number) {
         return retryManager.withRetry(async () => {
             const startTime = Date.now();
-            const { wf, client } = await this.createAuthenticatedClient(username, password);
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
             
             try {
-                const doc = await wf.getDocument();
-                client.getTreeData();
+                const doc = await documentSnapshots.get(sessionKey, client);
                 
                 // Apply filtering (always filter now, with defaults if not specified)
-                const rootData = doc.root.toJson();
-                const rootItems = rootData.items || [];
+                const rootItems = this.readableItems(this.scopeRoot(doc));
                 
                 // Check if metadata fields are requested
                 const needsMetadata = includeFields?.some(field => this.isMetadataField(field));
@@ -166,10 +203,9 @@ class WorkflowyClient {
                 }
                 
                 const result = [];
-                for (let i = 0; i < rootItems.length; i++) {
-                    const item = rootItems[i];
-                    const workflowyList = needsMetadata ? doc.root.items[i] : undefined;
-                    const filteredItem = await this.createFilteredNode(item, maxDepth, includeFields, 0, previewLength, workflowyList, client, userId);
+                for (const item of rootItems) {
+                    const workflowyList = needsMetadata ? item : undefined;
+                    const filteredItem = await this.createFilteredNode(item.toJson(), maxDepth, includeFields, 0, previewLength, workflowyList, client, userId);
                     result.push(filteredItem);
                 }
                 
@@ -186,7 +222,7 @@ class WorkflowyClient {
             } catch (error: any) {
                 const duration = Date.now() - startTime;
                 this.structuredLogger.workflowyApi('getRootItems', duration, false, { error: error.message });
-                throw this.enhanceError(error, 'getRootItems');
+                throw this.enhanceError(error, 'getRootItems', sessionKey);
             }
         }, RetryPresets.STANDARD);
     }
@@ -197,15 +233,16 @@ class WorkflowyClient {
     async getChildItems(parentId: string, username?: string, password?: string, maxDepth: number = 0, includeFields?: string[], previewLength?: number) {
         return retryManager.withRetry(async () => {
             const startTime = Date.now();
-            const {wf, client } = await this.createAuthenticatedClient(username, password);
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
             
             try {
-                let doc = await wf.getDocument();
-                const parent = this.findNodeById(doc.root.items, parentId);
+                const doc = await documentSnapshots.get(sessionKey, client);
+                const parent = doc.getList(parentId);
                 
-                if (!parent) {
+                if (!parent || this.isTrashed(parent)) {
                     throw new NotFoundError(`Parent node with ID ${parentId} not found.`, parentId);
                 }
+                this.assertInScope(doc, [parentId]);
                 
                 // Check if metadata fields are requested
                 const needsMetadata = includeFields?.some(field => this.isMetadataField(field));
@@ -219,8 +256,7 @@ class WorkflowyClient {
                 
                 // Apply filtering (always filter now, with defaults if not specified)
                 const result = [];
-                for (let i = 0; i < parent.items.length; i++) {
-                    const item = parent.items[i];
+                for (const item of this.readableItems(parent)) {
                     const workflowyList = needsMetadata ? item : undefined;
                     const filteredItem = await this.createFilteredNode(item.toJson(), maxDepth, includeFields, 0, previewLength, workflowyList, client, userId);
                     result.push(filteredItem);
@@ -243,7 +279,7 @@ class WorkflowyClient {
                     parentId,
                     error: error.message 
                 });
-                throw this.enhanceError(error, 'getChildItems');
+                throw this.enhanceError(error, 'getChildItems', sessionKey);
             }
         }, RetryPresets.STANDARD);
     }
@@ -311,7 +347,8 @@ class WorkflowyClient {
         const metadataFields = [
             'parentId', 'parentName', 'priority', 'lastModifiedAt', 'completedAt',
             'isMirror', 'originalId', 'isSharedViaUrl', 'sharedUrl', 'hierarchy', 
-            'siblings', 'siblingCount', 's3File', 'hasAttachment', 'attachmentUrl'
+            'siblings', 'siblingCount', 's3File', 'hasAttachment', 'attachmentUrl',
+            'tags', 'mentions', 'dates', 'links', 'plainName'
         ];
         return metadataFields.includes(field);
     }
@@ -321,12 +358,13 @@ class WorkflowyClient {
      */
     private async hydrateMetadataFields(filtered: any, fieldsToInclude: string[], workflowyList: any, client?: Client, userId?: number): Promise<void> {
         try {
-            // Parent information
-            if (fieldsToInclude.includes('parentId') && workflowyList.parent) {
-                filtered.parentId = workflowyList.parent.id;
+            // Parent information; a restricted token's subtree root shows nothing above it
+            const parent = this.visibleParent(workflowyList);
+            if (fieldsToInclude.includes('parentId') && parent) {
+                filtered.parentId = parent.id;
             }
-            if (fieldsToInclude.includes('parentName') && workflowyList.parent) {
-                filtered.parentName = workflowyList.parent.name;
+            if (fieldsToInclude.includes('parentName') && parent) {
+                filtered.parentName = parent.name;
             }
 
             // Position and priority
@@ -366,7 +404,25 @@ class WorkflowyClient {
                 filtered.siblings = await this.getNodeSiblings(workflowyList);
             }
             if (fieldsToInclude.includes('siblingCount')) {
-                filtered.siblingCount = workflowyList.parent ? workflowyList.parent.items.length : 0;
+                filtered.siblingCount = parent ? parent.items.length : 0;
+            }
+
+            // Content-derived fields parsed from the name and note
+            if (fieldsToInclude.includes('plainName')) {
+                filtered.plainName = toPlainText(workflowyList.name);
+            }
+            if (fieldsToInclude.includes('tags')) {
+                filtered.tags = [...new Set([...extractTags(workflowyList.name), ...extractTags(workflowyList.note)])];
+            }
+            if (fieldsToInclude.includes('mentions')) {
+                filtered.mentions = [...new Set([...extractMentions(workflowyList.name), ...extractMentions(workflowyList.note)])];
+            }
+            if (fieldsToInclude.includes('dates')) {
+                filtered.dates = [...extractDates(workflowyList.name), ...extractDates(workflowyList.note)];
+            }
+            if (fieldsToInclude.includes('links')) {
+                const links = [...extractLinks(workflowyList.name), ...extractLinks(workflowyList.note)];
+                filtered.links = links.filter((link, index) => links.findIndex(other => other.url === link.url) === index);
             }
 
             // File attachment metadata
@@ -416,9 +472,9 @@ class WorkflowyClient {
         const path: string[] = [];
         let current = workflowyList;
         
-        while (current && current.parent) {
-            path.unshift(current.parent.name);
-            current = current.parent;
+        for (let parent = this.visibleParent(current); parent; parent = this.visibleParent(current)) {
+            path.unshift(parent.name);
+            current = parent;
         }
         
         return path;
@@ -428,11 +484,12 @@ class WorkflowyClient {
      * Get sibling nodes at the same level
      */
     private async getNodeSiblings(workflowyList: any): Promise<any[]> {
-        if (!workflowyList.parent) {
+        const parent = this.visibleParent(workflowyList);
+        if (!parent) {
             return [];
         }
         
-        return workflowyList.parent.items
+        return this.readableItems(parent)
             .filter((sibling: any) => sibling.id !== workflowyList.id)
             .map((sibling: any) => ({
                 id: sibling.id,
@@ -442,18 +499,38 @@ class WorkflowyClient {
     }
 
     /**
-     * Search for nodes in Workflowy with depth and field control and retry logic
+     * A node's parent, unless the node is the root of the subtree the current call is restricted to
      */
-    async search(query: string, username?: string, password?: string, limit?: number, maxDepth?: number, includeFields?: string[], previewLength?: number) {
+    private visibleParent(workflowyList: any): any {
+        return workflowyList.id === accessControl.rootId() ? undefined : workflowyList.parent;
+    }
+
+    /**
+     * Search for nodes with the search_nodes query language, ranked by relevance
+     * @param cursor Opaque cursor from a previous page of the same query
+     * @param maxTokens Estimated token budget for the page; a page always holds at least one result
+     */
+    async search(query: string, username?: string, password?: string, limit?: number, maxDepth?: number, includeFields?: string[], previewLength?: number, cursor?: string, maxTokens?: number) {
         return retryManager.withRetry(async () => {
             const startTime = Date.now();
             const maxResults = limit || 10;
             const depth = maxDepth ?? 0;
             
-            const { wf, client } = await this.createAuthenticatedClient(username, password);
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
             
             try {
-                const doc = await wf.getDocument();
+                const searchQuery = this.parseSearchQuery(query);
+                const cursorScope = `search:${query}`;
+                const position = cursor ? decodeCursor(cursor, cursorScope) : { offset: 0 };
+                if (position === null) {
+                    throw new WorkflowyError('Invalid or expired search cursor. Repeat the search without a cursor.', {
+                        retryable: false,
+                        code: 'INVALID_CURSOR'
+                    });
+                }
+                const offset = position.offset;
+
+                const doc = await documentSnapshots.get(sessionKey, client);
                 
                 // Check if metadata fields are requested
                 const needsMetadata = includeFields?.some(field => this.isMetadataField(field));
@@ -465,26 +542,60 @@ class WorkflowyClient {
                     userId = initData.mainProjectTreeInfo.ownerId;
                 }
                 
-                const items = doc.root.items;
-                let results = [];
-                let stack = [...doc.root.items];
+                // Score every match in document order; ties keep the most recently changed first
+                const matches: Array<{ node: any; score: number; modified: number; order: number }> = [];
+                const stack: Array<{ node: any; ancestorIds: string[] }> = this.readableItems(this.scopeRoot(doc))
+                    .map(node => ({ node, ancestorIds: [] as string[] }))
+                    .reverse();
                 let nodesExamined = 0;
                 
-                while (stack.length > 0 && results.length < maxResults) {
-                    const current = stack.pop();
+                while (stack.length > 0) {
+                    const { node, ancestorIds } = stack.pop()!;
                     nodesExamined++;
-                    
-                    if (current!.name.toLowerCase().includes(query.toLowerCase())) {
-                        // Create filtered node with depth and field control and metadata hydration
-                        const fullNode = current!.toJson();
-                        const workflowyList = needsMetadata ? current : undefined;
-                        const nodeJson = await this.createFilteredNode(fullNode, depth, includeFields, 0, previewLength, workflowyList, client, userId);
-                        results.push(nodeJson);
+
+                    const candidate: SearchCandidate = {
+                        id: node.id,
+                        name: node.name,
+                        note: node.note,
+                        isCompleted: node.isCompleted,
+                        hasAttachment: node.hasFile,
+                        lastModifiedAt: node.lastModifiedAt,
+                        ancestorIds
+                    };
+
+                    if (searchQuery.matches(candidate)) {
+                        matches.push({
+                            node,
+                            score: searchQuery.score(candidate),
+                            modified: node.lastModifiedAt?.getTime() ?? 0,
+                            order: matches.length
+                        });
+                    }
+
+                    const children = node.items;
+                    if (children.length > 0) {
+                        const childAncestors = [...ancestorIds, node.id];
+                        for (let i = children.length - 1; i >= 0; i--) {
+                            stack.push({ node: children[i], ancestorIds: childAncestors });
+                        }
                     }
-                    if (current!.items && results.length < maxResults) {
-                        stack.push(...current!.items);
+                }
+
+                matches.sort((a, b) => b.score - a.score || b.modified - a.modified || a.order - b.order);
+
+                const budget = new PageBudget({ pageSize: maxResults, maxTokens }, maxResults);
+                const results = [];
+                for (const match of matches.slice(offset)) {
+                    // Create filtered node with depth and field control and metadata hydration
+                    const workflowyList = needsMetadata ? match.node : undefined;
+                    const result = await this.createFilteredNode(match.node.toJson(), depth, includeFields, 0, previewLength, workflowyList, client, userId);
+                    if (!budget.tryAdd(result)) {
+                        break;
                     }
+                    results.push(result);
                 }
+                const nextOffset = offset + results.length;
+                const nextCursor = nextOffset < matches.length ? encodeCursor(cursorScope, { offset: nextOffset }) : undefined;
 
                 const searchTime = Date.now() - startTime;
                 const resultSize = JSON.stringify(results).length;
@@ -503,6 +614,8 @@ class WorkflowyClient {
                 this.structuredLogger.workflowyApi('search', searchTime, true, {
                     query,
                     resultCount: results.length,
+                    totalMatches: matches.length,
+                    offset,
                     nodesExamined,
                     estimatedTokens,
                     maxResults,
@@ -510,33 +623,55 @@ class WorkflowyClient {
                     metadataHydrated: needsMetadata
                 });
 
-                return results;
+                return {
+                    results,
+                    totalMatches: matches.length,
+                    nextCursor
+                };
             } catch (error: any) {
                 const searchTime = Date.now() - startTime;
                 this.structuredLogger.workflowyApi('search', searchTime, false, { 
                     query,
                     error: error.message 
                 });
-                throw this.enhanceError(error, 'search');
+                throw this.enhanceError(error, 'search', sessionKey);
             }
         }, RetryPresets.STANDARD);
     }
 
     /**
-     * Create a new node at a specific location with retry logic
+     * Parse a search query, reporting syntax errors without retrying
+     */
+    private parseSearchQuery(query: string): SearchQuery {
+        try {
+            return new SearchQuery(query);
+        } catch (error: any) {
+            if (error instanceof SearchQueryError) {
+                throw new WorkflowyError(`Invalid search query: ${error.message}`, { retryable: false, code: 'INVALID_QUERY' });
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Create a new node at a specific location with retry logic.
+     * An empty parentId creates it at the top level (the restricted node for subtree tokens)
      */
     async createNode(parentId: string, name: string, note?: string, username?: string, password?: string) {
         return retryManager.withRetry(async () => {
             const startTime = Date.now();
-            const { wf } = await this.createAuthenticatedClient(username, password);
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
 
             try {
-                const doc = await wf.getDocument();
-                const parent = this.findNodeById(doc.root.items, parentId);
+                const doc = await documentSnapshots.get(sessionKey, client);
+                const parent = parentId ? doc.getList(parentId) : this.scopeRoot(doc);
 
                 if (!parent) {
                     throw new NotFoundError(`Parent node with ID ${parentId} not found.`, parentId);
                 }
+                if (parentId) {
+                    this.assertInScope(doc, [parentId]);
+                }
 
                 const newNode = await parent.createItem();
                 newNode.setName(name);
@@ -548,6 +683,10 @@ class WorkflowyClient {
                     await doc.save();
                 }
 
+                await operationJournal.record(this.journalKey(sessionKey), 'createNode', `Created "${this.describeName(name)}"`, [newNode.id], [
+                    { type: 'delete', id: newNode.id }
+                ]);
+
                 const duration = Date.now() - startTime;
                 this.structuredLogger.workflowyApi('createNode', duration, true, {
                     parentId,
@@ -562,7 +701,7 @@ class WorkflowyClient {
                     parentId,
                     error: error.message
                 });
-                throw this.enhanceError(error, 'createNode');
+                throw this.enhanceError(error, 'createNode', sessionKey);
             }
         }, RetryPresets.WRITE);
     }
@@ -573,15 +712,23 @@ class WorkflowyClient {
     async updateNode(id: string, name?: string, note?: string, username?: string, password?: string) {
         return retryManager.withRetry(async () => {
             const startTime = Date.now();
-            const { wf } = await this.createAuthenticatedClient(username, password);
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
 
             try {
-                const doc = await wf.getDocument();
-                const node = this.findNodeById(doc.root.items, id);
+                const doc = await documentSnapshots.get(sessionKey, client);
+                const node = doc.getList(id);
 
                 if (!node) {
                     throw new NotFoundError(`Node with ID ${id} not found.`, id);
                 }
+                this.assertInScope(doc, [id], true);
+
+                const previous: InverseOperation = {
+                    type: 'edit',
+                    id,
+                    name: name !== undefined ? node.name : undefined,
+                    note: note !== undefined ? node.note : undefined
+                };
 
                 if (name !== undefined) {
                     node.setName(name);
@@ -594,6 +741,8 @@ class WorkflowyClient {
                     await doc.save();
                 }
 
+                await operationJournal.record(this.journalKey(sessionKey), 'updateNode', `Updated "${this.describeName(node.name)}"`, [id], [previous]);
+
                 const duration = Date.now() - startTime;
                 this.structuredLogger.workflowyApi('updateNode', duration, true, {
                     nodeId: id,
@@ -607,43 +756,58 @@ class WorkflowyClient {
                     nodeId: id,
                     error: error.message
                 });
-                throw this.enhanceError(error, 'updateNode');
+                throw this.enhanceError(error, 'updateNode', sessionKey);
             }
         }, RetryPresets.WRITE);
     }
 
     /**
-     * Delete a node with retry logic
+     * Delete a node with retry logic. In soft-delete mode the node is moved to the trash instead,
+     * unless it is already in the trash
      */
-    async deleteNode(id: string, username?: string, password?: string) {
+    async deleteNode(id: string, username?: string, password?: string): Promise<{ trashed: boolean; trashId?: string }> {
         return retryManager.withRetry(async () => {
             const startTime = Date.now();
-            const { wf } = await this.createAuthenticatedClient(username, password);
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
 
             try {
-                const doc = await wf.getDocument();
-                const node = this.findNodeById(doc.root.items, id);
+                const doc = await documentSnapshots.get(sessionKey, client);
+                const node = doc.getList(id);
 
                 if (!node) {
                     throw new NotFoundError(`Node with ID ${id} not found.`, id);
                 }
+                this.assertInScope(doc, [id], true);
 
-                await node.delete();
+                const trash = this.trashFor(doc, node);
+                const name = this.describeName(node.name);
+                let inverse: InverseOperation[];
+
+                if (trash) {
+                    inverse = this.moveToTrash(trash, node, 'delete_node', new Date());
+                    this.purgeExpiredTrash(doc, trash);
+                } else {
+                    inverse = [this.restoreOperation(node)];
+                    await node.delete();
+                }
 
                 if (doc.isDirty()) {
                     await doc.save();
                 }
 
+                await operationJournal.record(this.journalKey(sessionKey), 'deleteNode', trash ? `Moved "${name}" to trash` : `Deleted "${name}"`, [id], inverse);
+
                 const duration = Date.now() - startTime;
-                this.structuredLogger.workflowyApi('deleteNode', duration, true, { nodeId: id });
+                this.structuredLogger.workflowyApi('deleteNode', duration, true, { nodeId: id, trashed: !!trash });
 
+                return { trashed: !!trash, trashId: trash?.id };
             } catch (error: any) {
                 const duration = Date.now() - startTime;
                 this.structuredLogger.workflowyApi('deleteNode', duration, false, {
                     nodeId: id,
                     error: error.message
                 });
-                throw this.enhanceError(error, 'deleteNode');
+                throw this.enhanceError(error, 'deleteNode', sessionKey);
             }
         }, RetryPresets.WRITE);
     }
@@ -654,16 +818,18 @@ class WorkflowyClient {
     async toggleComplete(id: string, completed: boolean, username?: string, password?: string) {
         return retryManager.withRetry(async () => {
             const startTime = Date.now();
-            const { wf } = await this.createAuthenticatedClient(username, password);
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
 
             try {
-                const doc = await wf.getDocument();
-                const node = this.findNodeById(doc.root.items, id);
+                const doc = await documentSnapshots.get(sessionKey, client);
+                const node = doc.getList(id);
 
                 if (!node) {
                     throw new NotFoundError(`Node with ID ${id} not found.`, id);
                 }
+                this.assertInScope(doc, [id], true);
 
+                const wasCompleted = node.isCompleted;
                 if (completed) {
                     await node.setCompleted();
                 } else {
@@ -674,6 +840,13 @@ class WorkflowyClient {
                     await doc.save();
                 }
 
+                if (wasCompleted !== completed) {
+                    await operationJournal.record(this.journalKey(sessionKey), 'toggleComplete',
+                        `Marked "${this.describeName(node.name)}" ${completed ? 'complete' : 'incomplete'}`, [id], [
+                            { type: 'complete', id, completed: wasCompleted }
+                        ]);
+                }
+
                 const duration = Date.now() - startTime;
                 this.structuredLogger.workflowyApi('toggleComplete', duration, true, {
                     nodeId: id,
@@ -686,7 +859,7 @@ class WorkflowyClient {
                     completed,
                     error: error.message
                 });
-                throw this.enhanceError(error, 'toggleComplete');
+                throw this.enhanceError(error, 'toggleComplete', sessionKey);
             }
         }, RetryPresets.WRITE);
     }
@@ -697,30 +870,35 @@ class WorkflowyClient {
     async moveNode(id: string, newParentId: string, priority?: number, username?: string, password?: string) {
         return retryManager.withRetry(async () => {
             const startTime = Date.now();
-            const { wf } = await this.createAuthenticatedClient(username, password);
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
 
             try {
-                const doc = await wf.getDocument();
+                const doc = await documentSnapshots.get(sessionKey, client);
 
                 // Find the node to move
-                const node = this.findNodeById(doc.root.items, id);
+                const node = doc.getList(id);
                 if (!node) {
                     throw new NotFoundError(`Node with ID ${id} not found.`, id);
                 }
 
                 // Find the new parent
-                const newParent = this.findNodeById(doc.root.items, newParentId);
+                const newParent = doc.getList(newParentId);
                 if (!newParent) {
                     throw new NotFoundError(`Target parent node with ID ${newParentId} not found.`, newParentId);
                 }
+                this.assertInScope(doc, [id], true);
+                this.assertInScope(doc, [newParentId]);
 
                 // Move the node using the Workflowy API
+                const moveBack = this.moveBackOperation(node);
                 await node.move(newParent, priority);
 
                 if (doc.isDirty()) {
                     await doc.save();
                 }
 
+                await operationJournal.record(this.journalKey(sessionKey), 'moveNode', `Moved "${this.describeName(node.name)}" to "${this.describeName(newParent.name)}"`, [id], [moveBack]);
+
                 const duration = Date.now() - startTime;
                 this.structuredLogger.workflowyApi('moveNode', duration, true, {
                     nodeId: id,
@@ -735,7 +913,7 @@ class WorkflowyClient {
                     priority,
                     error: error.message
                 });
-                throw this.enhanceError(error, 'moveNode');
+                throw this.enhanceError(error, 'moveNode', sessionKey);
             }
         }, RetryPresets.WRITE);
     }
@@ -743,49 +921,65 @@ class WorkflowyClient {
     /**
      * Create multiple nodes under the same parent in a single atomic operation
      */
-    async batchCreateNodes(parentId: string, nodes: Array<{name: string, note?: string}>, username?: string, password?: string) {
+    async batchCreateNodes(parentId: string, nodes: BatchNodeInput[], username?: string, password?: string) {
         return retryManager.withRetry(async () => {
             const startTime = Date.now();
-            const { wf } = await this.createAuthenticatedClient(username, password);
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
 
             try {
-                const doc = await wf.getDocument();
-                const parent = this.findNodeById(doc.root.items, parentId);
+                const doc = await documentSnapshots.get(sessionKey, client);
+                const parent = doc.getList(parentId);
 
                 if (!parent) {
                     throw new NotFoundError(`Parent node with ID ${parentId} not found.`, parentId);
                 }
+                this.assertInScope(doc, [parentId]);
 
-                // Create all nodes in memory (batch operation)
-                const createdNodes = [];
-                for (const nodeData of nodes) {
-                    const newNode = await parent.createItem();
+                // Create all nodes in memory (batch operation), nested children included
+                let nodesCreated = 0;
+                const createNodes = (target: SnapshotList, inputs: BatchNodeInput[]): any[] => inputs.map(nodeData => {
+                    const newNode = target.createItem();
                     newNode.setName(nodeData.name);
                     if (nodeData.note) {
                         newNode.setNote(nodeData.note);
                     }
-                    createdNodes.push({
+                    if (nodeData.isCompleted) {
+                        newNode.setCompleted(true);
+                    }
+                    nodesCreated++;
+                    const created: any = {
                         id: newNode.id,
                         name: nodeData.name,
                         note: nodeData.note
-                    });
-                }
+                    };
+                    if (nodeData.children && nodeData.children.length > 0) {
+                        created.children = createNodes(newNode, nodeData.children);
+                    }
+                    return created;
+                });
+                const createdNodes = createNodes(parent, nodes);
 
                 // Single save operation for all nodes (atomic)
                 if (doc.isDirty()) {
                     await doc.save();
                 }
 
+                // Undo removes nested nodes before their parents, so none of them looks like a child added later
+                const allCreatedIds = (created: any[]): string[] => created.flatMap(node => [node.id, ...allCreatedIds(node.children ?? [])]);
+                await operationJournal.record(this.journalKey(sessionKey), 'batchCreateNodes', `Created ${nodesCreated} nodes under "${this.describeName(parent.name)}"`,
+                    createdNodes.map(node => node.id),
+                    allCreatedIds(createdNodes).reverse().map((id): InverseOperation => ({ type: 'delete', id })));
+
                 const duration = Date.now() - startTime;
                 this.structuredLogger.workflowyApi('batchCreateNodes', duration, true, {
                     parentId,
-                    nodeCount: nodes.length,
+                    nodeCount: nodesCreated,
                     totalNames: nodes.map(n => n.name.substring(0, 30)).join(', ')
                 });
 
                 return {
                     success: true,
-                    nodesCreated: createdNodes.length,
+                    nodesCreated,
                     nodes: createdNodes,
                     parentId,
                     timing: `${duration}ms`
@@ -797,7 +991,7 @@ class WorkflowyClient {
                     nodeCount: nodes.length,
                     error: error.message
                 });
-                throw this.enhanceError(error, 'batchCreateNodes');
+                throw this.enhanceError(error, 'batchCreateNodes', sessionKey);
             }
         }, RetryPresets.BATCH);
     }
@@ -808,22 +1002,36 @@ class WorkflowyClient {
     async batchUpdateNodes(nodes: Array<{id: string, name?: string, note?: string, isCompleted?: boolean}>, username?: string, password?: string) {
         return retryManager.withRetry(async () => {
             const startTime = Date.now();
-            const { wf } = await this.createAuthenticatedClient(username, password);
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
 
             try {
-                const doc = await wf.getDocument();
+                const doc = await documentSnapshots.get(sessionKey, client);
                 const updatedNodes = [];
                 const notFoundNodes = [];
+                const inverse: InverseOperation[] = [];
+                this.assertInScope(doc, nodes.map(node => node.id), true);
 
                 // Update all nodes in memory (batch operation)
                 for (const { id, name, note, isCompleted } of nodes) {
-                    const node = this.findNodeById(doc.root.items, id);
+                    const node = doc.getList(id);
 
                     if (!node) {
                         notFoundNodes.push(id);
                         continue;
                     }
 
+                    if (name !== undefined || note !== undefined) {
+                        inverse.push({
+                            type: 'edit',
+                            id,
+                            name: name !== undefined ? node.name : undefined,
+                            note: note !== undefined ? node.note : undefined
+                        });
+                    }
+                    if (isCompleted !== undefined && isCompleted !== node.isCompleted) {
+                        inverse.push({ type: 'complete', id, completed: node.isCompleted });
+                    }
+
                     if (name !== undefined) {
                         node.setName(name);
                     }
@@ -847,6 +1055,9 @@ class WorkflowyClient {
                     await doc.save();
                 }
 
+                await operationJournal.record(this.journalKey(sessionKey), 'batchUpdateNodes', `Updated ${updatedNodes.length} nodes`,
+                    updatedNodes.map(node => node.id), inverse.reverse());
+
                 const duration = Date.now() - startTime;
                 this.structuredLogger.workflowyApi('batchUpdateNodes', duration, true, {
                     nodeCount: nodes.length,
@@ -867,7 +1078,7 @@ class WorkflowyClient {
                     nodeCount: nodes.length,
                     error: error.message
                 });
-                throw this.enhanceError(error, 'batchUpdateNodes');
+                throw this.enhanceError(error, 'batchUpdateNodes', sessionKey);
             }
         }, RetryPresets.BATCH);
     }
@@ -879,19 +1090,20 @@ class WorkflowyClient {
     async batchDeleteNodes(ids: string[], username?: string, password?: string) {
         return retryManager.withRetry(async () => {
             const startTime = Date.now();
-            const { wf } = await this.createAuthenticatedClient(username, password);
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
 
             try {
-                const doc = await wf.getDocument();
+                const doc = await documentSnapshots.get(sessionKey, client);
                 const deletedNodes = [];
                 const notFoundNodes = [];
 
                 // Collect all delete operations in memory first
                 const deleteOperations = [];
+                this.assertInScope(doc, ids, true);
 
                 for (const id of ids) {
                     // Find the node to delete
-                    const node = this.findNodeById(doc.root.items, id);
+                    const node = doc.getList(id);
                     if (!node) {
                         notFoundNodes.push(id);
                         continue;
@@ -911,16 +1123,50 @@ class WorkflowyClient {
                     throw new NotFoundError(`None of the specified nodes were found: ${notFoundNodes.join(', ')}`);
                 }
 
+                // Nodes inside another deleted subtree go with it. Snapshot the subtrees first and
+                // restore them in original sibling order so each lands at its old position
+                const deletedIds = new Set(deleteOperations.map(op => op.id));
+                const subtreeDeletes = deleteOperations.filter(op => !this.hasAncestorIn(doc, op.node, deletedIds));
+                const trashMoves = [];
+                const hardDeletes = [];
+
+                // In soft-delete mode nodes outside the trash are moved to it; nodes already in the trash are deleted
+                for (const op of subtreeDeletes) {
+                    const trash = this.trashFor(doc, op.node);
+                    if (trash) {
+                        trashMoves.push({ ...op, trash, priority: op.node.priority });
+                    } else {
+                        hardDeletes.push(op);
+                    }
+                }
+
+                const restores = hardDeletes
+                    .map(op => this.restoreOperation(op.node))
+                    .sort((a, b) => a.priority - b.priority);
+                const deletedAt = new Date();
+                const trashInverses = trashMoves
+                    .map(op => ({ priority: op.priority, inverse: this.moveToTrash(op.trash, op.node, 'batch_delete_nodes', deletedAt, op.priority) }))
+                    .sort((a, b) => a.priority - b.priority)
+                    .flatMap(op => op.inverse);
+
                 // Execute all deletes in a single batch
-                for (const op of deleteOperations) {
+                for (const op of hardDeletes) {
                     await op.node.delete();
                 }
+                if (trashMoves.length > 0) {
+                    this.purgeExpiredTrash(doc, trashMoves[0].trash);
+                }
 
                 // Single save operation for all deletes (atomic)
                 if (doc.isDirty()) {
                     await doc.save();
                 }
 
+                const summary = trashMoves.length === 0
+                    ? `Deleted ${deletedNodes.length} nodes`
+                    : hardDeletes.length === 0 ? `Moved ${deletedNodes.length} nodes to trash` : `Deleted ${deletedNodes.length} nodes (${trashMoves.length} moved to trash)`;
+                await operationJournal.record(this.journalKey(sessionKey), 'batchDeleteNodes', summary, deletedNodes, [...trashInverses, ...restores]);
+
                 const duration = Date.now() - startTime;
                 this.structuredLogger.workflowyApi('batchDeleteNodes', duration, true, {
                     deleteCount: ids.length,
@@ -931,6 +1177,7 @@ class WorkflowyClient {
                 return {
                     success: true,
                     deleted: deletedNodes.length,
+                    trashed: trashMoves.length > 0 ? trashMoves.map(op => op.id) : undefined,
                     failed: notFoundNodes.length,
                     notFound: notFoundNodes.length > 0 ? notFoundNodes : undefined
                 };
@@ -940,7 +1187,7 @@ class WorkflowyClient {
                     deleteCount: ids.length,
                     error: error.message
                 });
-                throw this.enhanceError(error, 'batchDeleteNodes');
+                throw this.enhanceError(error, 'batchDeleteNodes', sessionKey);
             }
         }, RetryPresets.BATCH);
     }
@@ -952,29 +1199,31 @@ class WorkflowyClient {
     async batchMoveNodes(moves: Array<{id: string, newParentId: string, priority?: number}>, username?: string, password?: string) {
         return retryManager.withRetry(async () => {
             const startTime = Date.now();
-            const { wf } = await this.createAuthenticatedClient(username, password);
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
 
             try {
-                const doc = await wf.getDocument();
+                const doc = await documentSnapshots.get(sessionKey, client);
                 const movedNodes = [];
                 const notFoundNodes = [];
                 const invalidMoves = [];
 
                 // Collect all move operations in memory first
                 const moveOperations = [];
+                this.assertInScope(doc, moves.map(move => move.id), true);
+                this.assertInScope(doc, moves.map(move => move.newParentId));
                 
                 for (const move of moves) {
                     const { id, newParentId, priority } = move;
                     
                     // Find the node to move
-                    const node = this.findNodeById(doc.root.items, id);
+                    const node = doc.getList(id);
                     if (!node) {
                         notFoundNodes.push({ id, newParentId, error: 'Node not found' });
                         continue;
                     }
 
                     // Find the new parent
-                    const newParent = this.findNodeById(doc.root.items, newParentId);
+                    const newParent = doc.getList(newParentId);
                     if (!newParent) {
                         invalidMoves.push({ id, newParentId, error: 'Target parent not found' });
                         continue;
@@ -997,8 +1246,10 @@ class WorkflowyClient {
                     throw new NotFoundError(`None of the specified nodes were found: ${notFoundNodes.map(n => n.id).join(', ')}`);
                 }
 
-                // Execute all moves in a single batch
+                // Execute all moves in a single batch, remembering where each node was just before its move
+                const moveBacks: InverseOperation[] = [];
                 for (const op of moveOperations) {
+                    moveBacks.push(this.moveBackOperation(op.node));
                     await op.node.move(op.newParent, op.priority);
                 }
 
@@ -1007,6 +1258,9 @@ class WorkflowyClient {
                     await doc.save();
                 }
 
+                await operationJournal.record(this.journalKey(sessionKey), 'batchMoveNodes', `Moved ${movedNodes.length} nodes`,
+                    movedNodes.map(node => node.id), moveBacks.reverse());
+
                 const duration = Date.now() - startTime;
                 this.structuredLogger.workflowyApi('batchMoveNodes', duration, true, {
                     moveCount: moves.length,
@@ -1027,27 +1281,592 @@ class WorkflowyClient {
                     moveCount: moves.length,
                     error: error.message
                 });
-                throw this.enhanceError(error, 'batchMoveNodes');
+                throw this.enhanceError(error, 'batchMoveNodes', sessionKey);
             }
         }, RetryPresets.BATCH);
     }
 
+    /**
+     * List the user's recent mutating operations, most recent first
+     */
+    async listRecentOperations(username?: string, password?: string, limit: number = 20) {
+        const { key: sessionKey } = await this.createAuthenticatedClient(username, password);
+        return (await operationJournal.list(this.journalKey(sessionKey), limit)).map(entry => ({
+            id: entry.id,
+            operation: entry.operation,
+            summary: entry.summary,
+            nodeIds: entry.nodeIds,
+            timestamp: new Date(entry.timestamp).toISOString(),
+            undone: entry.undoneAt !== undefined,
+            undoSteps: entry.inverse.length
+        }));
+    }
+
+    /**
+     * Undo a journaled operation by applying its inverse operations in a single save.
+     * Deleted subtrees are recreated with new IDs; steps whose nodes no longer exist are skipped.
+     * The entry is marked undone first and the save is never retried once sent: a save whose
+     * response was lost may have been applied, and applying it again would duplicate restored subtrees
+     */
+    async undoOperation(operationId: string, username?: string, password?: string) {
+        const { key: sessionKey } = await this.createAuthenticatedClient(username, password);
+        const journalKey = this.journalKey(sessionKey);
+
+        const claim = await operationJournal.claimUndo(journalKey, operationId);
+        if (claim.status === 'not_found') {
+            throw new WorkflowyError(`Operation ${operationId} not found. It may have expired; use list_recent_operations to see available operations.`, {
+                retryable: false,
+                code: 'OPERATION_NOT_FOUND'
+            });
+        }
+        if (claim.status === 'undone') {
+            throw new WorkflowyError(`Operation ${operationId} was already undone.`, { retryable: false, code: 'ALREADY_UNDONE' });
+        }
+        const entry = claim.entry;
+        let sent = false;
+
+        try {
+            return await retryManager.withRetry(async () => {
+                const startTime = Date.now();
+                const { client } = await this.createAuthenticatedClient(username, password);
+
+                try {
+                    const doc = await documentSnapshots.get(sessionKey, client);
+                    const restored: Array<{ originalId: string; newId: string; parentId: string }> = [];
+                    const skipped: Array<{ step: string; id: string; reason: string }> = [];
+
+                    // Judged before anything is applied: restoring a trashed node's note drops the marker that puts it in scope
+                    const outOfScope = entry.inverse.map(step => this.isInverseOutOfScope(doc, step));
+                    const createdIds = new Set(entry.inverse.flatMap(step => step.type === 'delete' ? [step.id] : []));
+                    entry.inverse.forEach((step, index) => {
+                        if (outOfScope[index]) {
+                            skipped.push({ step: step.type, id: step.type === 'restore' ? step.originalId : step.id, reason: 'Outside the subtree this token is restricted to' });
+                        } else {
+                            this.applyInverse(doc, step, restored, skipped, createdIds);
+                        }
+                    });
+
+                    if (doc.isDirty()) {
+                        sent = true;
+                        await doc.save();
+                    }
+
+                    const duration = Date.now() - startTime;
+                    this.structuredLogger.workflowyApi('undoOperation', duration, true, {
+                        operationId,
+                        operation: entry.operation,
+                        steps: entry.inverse.length,
+                        skipped: skipped.length
+                    });
+
+                    return {
+                        success: true,
+                        operationId,
+                        operation: entry.operation,
+                        summary: entry.summary,
+                        applied: entry.inverse.length - skipped.length,
+                        restored: restored.length > 0 ? restored : undefined,
+                        skipped: skipped.length > 0 ? skipped : undefined
+                    };
+                } catch (error: any) {
+                    const duration = Date.now() - startTime;
+                    this.structuredLogger.workflowyApi('undoOperation', duration, false, {
+                        operationId,
+                        error: error.message
+                    });
+                    if (sent) {
+                        throw new WorkflowyError(`Undo of operation ${operationId} was sent but not confirmed: ${error.message}. Check the outline before undoing it by hand; the operation stays marked as undone.`, {
+                            retryable: false,
+                            code: 'UNDO_UNCONFIRMED',
+                            cause: error
+                        });
+                    }
+                    throw this.enhanceError(error, 'undoOperation', sessionKey);
+                }
+            }, RetryPresets.WRITE);
+        } catch (error) {
+            if (!sent) {
+                await operationJournal.releaseUndo(journalKey, operationId).catch(() => undefined);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Apply one inverse operation to the snapshot, recording restored subtrees and skipped steps.
+     * createdIds holds every node the operation being undone created
+     */
+    private applyInverse(
+        doc: DocumentSnapshot,
+        step: InverseOperation,
+        restored: Array<{ originalId: string; newId: string; parentId: string }>,
+        skipped: Array<{ step: string; id: string; reason: string }>,
+        createdIds: Set<string>
+    ): void {
+        if (step.type === 'restore') {
+            // Put the subtree back at the top level if its old parent is gone too
+            const parent = doc.getList(step.parentId) ?? this.scopeRoot(doc);
+            const node = this.recreateSubtree(parent, step.node, step.priority);
+            restored.push({ originalId: step.originalId, newId: node.id, parentId: parent.id });
+            return;
+        }
+
+        const node = doc.getList(step.id);
+        if (!node) {
+            skipped.push({ step: step.type, id: step.id, reason: 'Node no longer exists' });
+            return;
+        }
+
+        switch (step.type) {
+            case 'delete': {
+                // Undoing a create never loses children added since: they go to the trash with the
+                // node, or without soft delete the node stays. Nodes created below it go along with it
+                const trash = this.trashFor(doc, node);
+                if (trash) {
+                    if (!this.hasAncestorIn(doc, node, createdIds)) {
+                        this.moveToTrash(trash, node, 'undo_operation', new Date());
+                    }
+                } else if (node.items.length > 0) {
+                    skipped.push({ step: step.type, id: step.id, reason: 'Node has children added since it was created' });
+                    return;
+                } else {
+                    node.delete();
+                }
+                break;
+            }
+            case 'edit':
+                if (step.name !== undefined) {
+                    node.setName(step.name);
+                }
+                if (step.note !== undefined) {
+                    node.setNote(step.note);
+                }
+                break;
+            case 'complete':
+                node.setCompleted(step.completed);
+                break;
+            case 'move': {
+                const parent = doc.getList(step.parentId);
+                if (!parent) {
+                    skipped.push({ step: step.type, id: step.id, reason: `Former parent ${step.parentId} no longer exists` });
+                    return;
+                }
+                node.move(parent, step.priority);
+                break;
+            }
+        }
+    }
+
+    /**
+     * Whether a subtree-restricted call may apply an undo step: its node must be one the call could
+     * change (in the subtree, or in the trash from a delete made in it) and its target parent one the
+     * call could write to, or the trash. Missing nodes are left to applyInverse
+     */
+    private isInverseOutOfScope(doc: DocumentSnapshot, step: InverseOperation): boolean {
+        const rootId = accessControl.rootId();
+        if (!rootId) {
+            return false;
+        }
+
+        const trashId = this.findTrash(doc)?.id;
+        const parentOutOfScope = (parentId: string) => !!doc.getItem(parentId) && parentId !== trashId && !doc.isWithin(parentId, rootId);
+        if (step.type === 'restore') {
+            return parentOutOfScope(step.parentId);
+        }
+
+        const node = doc.getList(step.id);
+        if (node && !this.isMutableInScope(doc, node, rootId)) {
+            return true;
+        }
+        return step.type === 'move' && parentOutOfScope(step.parentId);
+    }
+
+    /**
+     * A node below the restricted root, or inside a trash entry deleted from under it
+     */
+    private isMutableInScope(doc: DocumentSnapshot, node: SnapshotList, rootId: string): boolean {
+        if (node.id !== rootId && doc.isWithin(node.id, rootId)) {
+            return true;
+        }
+        const trashId = this.findTrash(doc)?.id;
+        for (let current: SnapshotList | undefined = node; current?.parent; current = current.parent) {
+            if (current.parent.id === trashId) {
+                return this.trashedInScope(doc, current);
+            }
+        }
+        return false;
+    }
+
+    private recreateSubtree(parent: SnapshotList, snapshot: NodeSnapshot, priority: number = -1): SnapshotList {
+        const node = parent.createItem(priority);
+        node.setName(snapshot.name);
+        if (snapshot.note) {
+            node.setNote(snapshot.note);
+        }
+        if (snapshot.isCompleted) {
+            node.setCompleted(true);
+        }
+        for (const child of snapshot.children) {
+            this.recreateSubtree(node, child);
+        }
+        return node;
+    }
+
+    /**
+     * Inverse of deleting a node: its subtree and where it was
+     */
+    private restoreOperation(node: SnapshotList): Extract<InverseOperation, { type: 'restore' }> {
+        return { type: 'restore', originalId: node.id, parentId: node.parent!.id, priority: node.priority, node: snapshotSubtree(node) };
+    }
+
+    /**
+     * Inverse of moving a node: its current parent and position
+     */
+    private moveBackOperation(node: SnapshotList): InverseOperation {
+        return { type: 'move', id: node.id, parentId: node.parent!.id, priority: node.priority };
+    }
+
+    /**
+     * The node the current call sees as the top level: the root of its subtree restriction, or the
+     * whole outline when unrestricted
+     */
+    private scopeRoot(doc: DocumentSnapshot): SnapshotList {
+        const rootId = accessControl.rootId();
+        if (!rootId) {
+            return doc.root;
+        }
+        const root = doc.getList(rootId);
+        if (!root) {
+            throw new NotFoundError(`Node ${rootId} this token is restricted to no longer exists.`, rootId);
+        }
+        return root;
+    }
+
+    /**
+     * Refuse nodes outside the subtree the current call is restricted to. The subtree root itself
+     * can be read and used as a parent, but not edited, moved or deleted. Unknown IDs are left to
+     * the caller's not-found handling
+     */
+    private assertInScope(doc: DocumentSnapshot, ids: string[], mutating: boolean = false): void {
+        const rootId = accessControl.rootId();
+        if (!rootId) {
+            return;
+        }
+        const outside = ids.filter(id => doc.getItem(id) && (!doc.isWithin(id, rootId) || (mutating && id === rootId)));
+        if (outside.length > 0) {
+            throw new AuthorizationError(`Nodes outside the subtree this token is restricted to: ${outside.join(', ')}`);
+        }
+    }
+
+    /**
+     * Journal of the current call's operations. Restricted tokens get their own journal, so they can
+     * neither see nor undo operations made outside their subtree
+     */
+    private journalKey(sessionKey: string): string {
+        const rootId = accessControl.rootId();
+        return rootId ? `${sessionKey}:subtree:${rootId}` : sessionKey;
+    }
+
+    private hasAncestorIn(doc: DocumentSnapshot, node: SnapshotList, ids: Set<string>): boolean {
+        for (let item = doc.getItem(node.id); item && item.id !== doc.root.id; item = doc.getItem(item.parentId)) {
+            if (item.id !== node.id && ids.has(item.id)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * List nodes in the trash, most recently deleted first
+     */
+    async listTrash(username?: string, password?: string) {
+        return retryManager.withRetry(async () => {
+            const startTime = Date.now();
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
+
+            try {
+                const doc = await documentSnapshots.get(sessionKey, client);
+                const trash = this.findTrash(doc);
+                const retentionMs = trashSettings.retentionDays * 24 * 60 * 60 * 1000;
+
+                const items = (trash?.items ?? []).filter(node => this.trashedInScope(doc, node)).map(node => {
+                    const { marker, note } = parseTrashNote(node.note);
+                    const parent = marker ? doc.getList(marker.parentId) : null;
+                    return {
+                        id: node.id,
+                        name: node.name,
+                        note: note || undefined,
+                        deletedAt: marker?.deletedAt.toISOString(),
+                        tool: marker?.tool,
+                        originalParentId: marker?.parentId,
+                        originalParentName: parent ? parent.name : undefined,
+                        originalParentExists: marker ? !!parent : undefined,
+                        purgeAfter: marker && retentionMs > 0 ? new Date(marker.deletedAt.getTime() + retentionMs).toISOString() : undefined,
+                        descendants: this.countDescendants(node)
+                    };
+                });
+
+                const duration = Date.now() - startTime;
+                this.structuredLogger.workflowyApi('listTrash', duration, true, { count: items.length });
+
+                return {
+                    softDelete: trashSettings.enabled,
+                    trashId: trash?.id,
+                    retentionDays: trashSettings.retentionDays,
+                    items
+                };
+            } catch (error: any) {
+                const duration = Date.now() - startTime;
+                this.structuredLogger.workflowyApi('listTrash', duration, false, { error: error.message });
+                throw this.enhanceError(error, 'listTrash', sessionKey);
+            }
+        }, RetryPresets.STANDARD);
+    }
+
+    /**
+     * Move a node out of the trash back to its original parent and position, or under parentId when given.
+     * Falls back to the top level when the original parent no longer exists
+     */
+    async restoreNode(id: string, username?: string, password?: string, parentId?: string) {
+        return retryManager.withRetry(async () => {
+            const startTime = Date.now();
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
+
+            try {
+                const doc = await documentSnapshots.get(sessionKey, client);
+                const trash = this.findTrash(doc);
+                const node = doc.getList(id);
+
+                if (!node) {
+                    throw new NotFoundError(`Node with ID ${id} not found.`, id);
+                }
+                if (!trash || node.parent?.id !== trash.id) {
+                    throw new WorkflowyError(`Node ${id} is not in the trash. Use list_trash to see trashed nodes.`, { retryable: false, code: 'NOT_IN_TRASH' });
+                }
+                if (!this.trashedInScope(doc, node)) {
+                    throw new AuthorizationError(`Node ${id} was not deleted from the subtree this token is restricted to.`);
+                }
+
+                const { marker, note } = parseTrashNote(node.note);
+                let parent: SnapshotList | null;
+                if (parentId) {
+                    parent = doc.getList(parentId);
+                    if (!parent) {
+                        throw new NotFoundError(`Parent node with ID ${parentId} not found.`, parentId);
+                    }
+                    this.assertInScope(doc, [parentId]);
+                } else {
+                    parent = marker ? doc.getList(marker.parentId) : null;
+                }
+                const target = parent ?? this.scopeRoot(doc);
+                const priority = !parentId && parent && marker ? Math.min(marker.priority, parent.items.length) : -1;
+
+                const inverse: InverseOperation[] = [
+                    { type: 'edit', id, note: node.note },
+                    this.moveBackOperation(node)
+                ];
+                node.setNote(note);
+                node.move(target, priority);
+
+                if (doc.isDirty()) {
+                    await doc.save();
+                }
+
+                await operationJournal.record(this.journalKey(sessionKey), 'restoreNode', `Restored "${this.describeName(node.name)}" from trash`, [id], inverse);
+
+                const duration = Date.now() - startTime;
+                this.structuredLogger.workflowyApi('restoreNode', duration, true, { nodeId: id, parentId: target.id });
+
+                return {
+                    success: true,
+                    id,
+                    parentId: target.id,
+                    restoredToOriginal: !parentId && !!parent
+                };
+            } catch (error: any) {
+                const duration = Date.now() - startTime;
+                this.structuredLogger.workflowyApi('restoreNode', duration, false, { nodeId: id, error: error.message });
+                throw this.enhanceError(error, 'restoreNode', sessionKey);
+            }
+        }, RetryPresets.WRITE);
+    }
+
+    /**
+     * Permanently delete nodes in the trash: all of them, or only those deleted at least olderThanDays ago
+     */
+    async emptyTrash(username?: string, password?: string, olderThanDays?: number) {
+        return retryManager.withRetry(async () => {
+            const startTime = Date.now();
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
+
+            try {
+                const doc = await documentSnapshots.get(sessionKey, client);
+                const trash = this.findTrash(doc);
+                const cutoff = olderThanDays !== undefined ? Date.now() - olderThanDays * 24 * 60 * 60 * 1000 : undefined;
+
+                const toDelete = (trash?.items ?? []).filter(node => {
+                    if (!this.trashedInScope(doc, node)) {
+                        return false;
+                    }
+                    if (cutoff === undefined) {
+                        return true;
+                    }
+                    const { marker } = parseTrashNote(node.note);
+                    return !!marker && marker.deletedAt.getTime() <= cutoff;
+                });
+
+                const restores = toDelete.map(node => this.restoreOperation(node));
+                for (const node of toDelete) {
+                    node.delete();
+                }
+
+                if (doc.isDirty()) {
+                    await doc.save();
+                }
+
+                await operationJournal.record(this.journalKey(sessionKey), 'emptyTrash', `Permanently deleted ${toDelete.length} nodes from trash`, toDelete.map(node => node.id), restores);
+
+                const duration = Date.now() - startTime;
+                this.structuredLogger.workflowyApi('emptyTrash', duration, true, { deleted: toDelete.length, olderThanDays });
+
+                return {
+                    success: true,
+                    deleted: toDelete.length,
+                    remaining: trash ? trash.items.length : 0
+                };
+            } catch (error: any) {
+                const duration = Date.now() - startTime;
+                this.structuredLogger.workflowyApi('emptyTrash', duration, false, { olderThanDays, error: error.message });
+                throw this.enhanceError(error, 'emptyTrash', sessionKey);
+            }
+        }, RetryPresets.WRITE);
+    }
+
+    /**
+     * Whether a trashed node was deleted by a token restricted to the current call's subtree (or a
+     * subtree inside it). Unrestricted calls see the whole trash; restricted ones never see nodes
+     * deleted without a restriction
+     */
+    private trashedInScope(doc: DocumentSnapshot, node: SnapshotList): boolean {
+        const rootId = accessControl.rootId();
+        if (!rootId) {
+            return true;
+        }
+        const { marker } = parseTrashNote(node.note);
+        return !!marker?.scope && doc.isWithin(marker.scope, rootId);
+    }
+
+    /**
+     * The top-level trash node, matched by name
+     */
+    private findTrash(doc: DocumentSnapshot): SnapshotList | undefined {
+        return doc.root.items.find(node => node.name === trashSettings.nodeName);
+    }
+
+    /**
+     * Whether a node is the top-level trash node or inside it. Reads and search leave the trash out,
+     * so soft-deleted nodes are only reachable through the trash tools
+     */
+    private isTrashed(node: SnapshotList): boolean {
+        for (let current: SnapshotList | undefined = node; current?.parent; current = current.parent) {
+            if (!current.parent.parent && current.name === trashSettings.nodeName) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * A node's children as reads see them, without the trash
+     */
+    private readableItems(parent: SnapshotList): SnapshotList[] {
+        return parent.parent ? parent.items : parent.items.filter(item => !this.isTrashed(item));
+    }
+
+    /**
+     * Trash node to move a deleted node into, created at the end of the top level if needed.
+     * Undefined when soft delete is off or the node is the trash or already inside it
+     */
+    private trashFor(doc: DocumentSnapshot, node: SnapshotList): SnapshotList | undefined {
+        if (!trashSettings.enabled) {
+            return undefined;
+        }
+
+        const trash = this.findTrash(doc);
+        if (trash && (node.id === trash.id || this.hasAncestorIn(doc, node, new Set([trash.id])))) {
+            return undefined;
+        }
+        return trash ?? doc.root.createItem().setName(trashSettings.nodeName);
+    }
+
+    /**
+     * Mark a node with a trash marker and move it to the top of the trash.
+     * Returns the inverse operations that move it back; priority defaults to its current position
+     */
+    private moveToTrash(trash: SnapshotList, node: SnapshotList, tool: string, deletedAt: Date, priority: number = node.priority): InverseOperation[] {
+        const parentId = node.parent!.id;
+        const inverse: InverseOperation[] = [
+            { type: 'edit', id: node.id, note: node.note },
+            { type: 'move', id: node.id, parentId, priority }
+        ];
+
+        node.setNote(formatTrashNote({ deletedAt, tool, parentId, priority, scope: accessControl.rootId() }, node.note));
+        node.move(trash, 0);
+        return inverse;
+    }
+
+    /**
+     * Permanently delete trashed nodes past the retention period, among those the current call can
+     * see (see trashedInScope). Nodes without a marker are kept
+     */
+    private purgeExpiredTrash(doc: DocumentSnapshot, trash: SnapshotList): number {
+        const now = Date.now();
+        const expired = trash.items.filter(node => {
+            if (!this.trashedInScope(doc, node)) {
+                return false;
+            }
+            const { marker } = parseTrashNote(node.note);
+            return !!marker && trashSettings.isExpired(marker, now);
+        });
+
+        for (const node of expired) {
+            node.delete();
+        }
+        if (expired.length > 0) {
+            this.structuredLogger.info('Purged expired trash', { count: expired.length, retentionDays: trashSettings.retentionDays });
+        }
+        return expired.length;
+    }
+
+    private countDescendants(node: SnapshotList): number {
+        return node.items.reduce((total, child) => total + 1 + this.countDescendants(child), 0);
+    }
+
+    /**
+     * Short plain-text node name for journal summaries
+     */
+    private describeName(name: string): string {
+        const plain = toPlainText(name);
+        return plain.length > 40 ? plain.substring(0, 40) + '...' : plain;
+    }
+
     /**
      * Get a single node by its ID with retry logic
      */
     async getNodeById(id: string, username?: string, password?: string, maxDepth: number = 0, includeFields?: string[], previewLength?: number) {
         return retryManager.withRetry(async () => {
             const startTime = Date.now();
-            const { wf, client } = await this.createAuthenticatedClient(username, password);
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
 
             try {
-                const doc = await wf.getDocument();
+                const doc = await documentSnapshots.get(sessionKey, client);
 
                 // Find the node
-                const node = this.findNodeById(doc.root.items, id);
-                if (!node) {
+                const node = doc.getList(id);
+                if (!node || this.isTrashed(node)) {
                     throw new NotFoundError(`Node with ID ${id} not found.`, id);
                 }
+                this.assertInScope(doc, [id]);
 
                 // Check if metadata fields are requested
                 const needsMetadata = includeFields?.some(field => this.isMetadataField(field));
@@ -1082,33 +1901,147 @@ class WorkflowyClient {
                     previewLength,
                     error: error.message
                 });
-                throw this.enhanceError(error, 'getNodeById');
+                throw this.enhanceError(error, 'getNodeById', sessionKey);
             }
         }, RetryPresets.STANDARD);
     }
 
     /**
-     * Helper method to recursively find a node by ID
+     * List child nodes of a parent (or the root) one page at a time, in document order
      */
-    private findNodeById(items: any[], nodeId: string): any {
-        for (const item of items) {
-            if (item.id === nodeId) {
-                return item;
+    async listNodesPage(parentId: string | undefined, username?: string, password?: string, maxDepth: number = 0, includeFields?: string[], previewLength?: number, page: PageOptions = {}): Promise<TreePage> {
+        const scope = JSON.stringify(['list', parentId ?? null, maxDepth, includeFields ?? null, previewLength ?? null]);
+        return this.readTreePage('listNodesPage', scope, doc => {
+            if (!parentId) {
+                return this.readableItems(this.scopeRoot(doc));
+            }
+            const parent = doc.getList(parentId);
+            if (!parent || this.isTrashed(parent)) {
+                throw new NotFoundError(`Parent node with ID ${parentId} not found.`, parentId);
             }
-            if (item.items && item.items.length > 0) {
-                const found = this.findNodeById(item.items, nodeId);
-                if (found) {
-                    return found;
+            this.assertInScope(doc, [parentId]);
+            return this.readableItems(parent);
+        }, username, password, maxDepth, includeFields, previewLength, page);
+    }
+
+    /**
+     * Get a node and its subtree one page at a time; the node itself is the first item of the first page
+     */
+    async getNodeByIdPage(id: string, username?: string, password?: string, maxDepth: number = 0, includeFields?: string[], previewLength?: number, page: PageOptions = {}): Promise<TreePage> {
+        const scope = JSON.stringify(['node', id, maxDepth, includeFields ?? null, previewLength ?? null]);
+        return this.readTreePage('getNodeByIdPage', scope, doc => {
+            const node = doc.getList(id);
+            if (!node || this.isTrashed(node)) {
+                throw new NotFoundError(`Node with ID ${id} not found.`, id);
+            }
+            this.assertInScope(doc, [id]);
+            return [node];
+        }, username, password, maxDepth, includeFields, previewLength, page);
+    }
+
+    /**
+     * @private Fill a page with whole nodes from a pre-order walk of the given subtrees.
+     * Nodes whose parent is on an earlier page start a new top-level item that carries parentId
+     */
+    private async readTreePage(
+        operation: string,
+        scope: string,
+        getRoots: (doc: DocumentSnapshot) => SnapshotList[],
+        username: string | undefined,
+        password: string | undefined,
+        maxDepth: number,
+        includeFields: string[] | undefined,
+        previewLength: number | undefined,
+        page: PageOptions
+    ): Promise<TreePage> {
+        return retryManager.withRetry(async () => {
+            const startTime = Date.now();
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
+
+            try {
+                const position = page.cursor ? decodeCursor(page.cursor, scope) : { offset: 0 };
+                if (position === null) {
+                    throw new WorkflowyError('Invalid or expired cursor. Repeat the request without a cursor.', {
+                        retryable: false,
+                        code: 'INVALID_CURSOR'
+                    });
+                }
+
+                const doc = await documentSnapshots.get(sessionKey, client);
+                const entries = flattenTree(getRoots(doc), maxDepth);
+                const start = resumeIndex(entries, position);
+
+                // Check if metadata fields are requested
+                const needsMetadata = includeFields?.some(field => this.isMetadataField(field));
+
+                // Get userId if attachment URL resolution is needed
+                let userId: number | undefined;
+                if (includeFields?.includes('attachmentUrl')) {
+                    const initData = await client.getInitializationData();
+                    userId = initData.mainProjectTreeInfo.ownerId;
+                }
+
+                const budget = new PageBudget(page);
+                const items: any[] = [];
+                const emitted = new Map<string, any>();
+                let index = start;
+
+                for (; index < entries.length; index++) {
+                    const { node, depth, parentId } = entries[index];
+                    const nodeJson = { id: node.id, name: node.name, note: node.note, isCompleted: node.isCompleted };
+                    const workflowyList = needsMetadata ? node : undefined;
+                    const filtered = await this.createFilteredNode(nodeJson, 0, includeFields, 0, previewLength, workflowyList, client, userId);
+
+                    if (!budget.tryAdd(filtered)) {
+                        break;
+                    }
+
+                    const parent = parentId ? emitted.get(parentId) : undefined;
+                    if (parent) {
+                        parent.items.push(filtered);
+                    } else {
+                        if (depth > 0) {
+                            filtered.parentId = parentId;
+                        }
+                        items.push(filtered);
+                    }
+                    emitted.set(node.id, filtered);
                 }
+
+                const nextCursor = index < entries.length
+                    ? encodeCursor(scope, { offset: index, lastId: entries[index - 1]?.node.id })
+                    : undefined;
+
+                const duration = Date.now() - startTime;
+                this.structuredLogger.workflowyApi(operation, duration, true, {
+                    nodeCount: budget.count,
+                    totalNodes: entries.length,
+                    offset: start,
+                    estimatedTokens: budget.tokens,
+                    maxDepth,
+                    includeFields: includeFields?.join(','),
+                    previewLength,
+                    metadataHydrated: needsMetadata
+                });
+
+                return {
+                    items,
+                    nextCursor,
+                    totalNodes: entries.length,
+                    estimatedTokens: budget.tokens
+                };
+            } catch (error: any) {
+                const duration = Date.now() - startTime;
+                this.structuredLogger.workflowyApi(operation, duration, false, { error: error.message });
+                throw this.enhanceError(error, operation, sessionKey);
             }
-        }
-        return null;
+        }, RetryPresets.STANDARD);
     }
 
     /**
      * Enhance errors with better classification and retry information
      */
-    private enhanceError(error: any, operation: string): WorkflowyError {
+    private enhanceError(error: any, operation: string, sessionKey?: string): WorkflowyError {
         // If already enhanced, return as-is
         if (error instanceof WorkflowyError) {
             return error;
@@ -1129,6 +2062,13 @@ class WorkflowyClient {
             return new OverloadError(`Service overloaded during ${operation}: ${error.message}`);
         }
 
+        // Rejected session cookie - drop the pooled session so the retry logs in again
+        if (sessionKey && (error.status === 401 || error.status === 403 ||
+            /request error: (401|403)/.test(error.message || ''))) {
+            sessionPool.invalidate(sessionKey);
+            return new SessionExpiredError(`Session rejected during ${operation}: ${error.message}`, error);
+        }
+
         // Authentication errors
         if (error.status === 401 || error.status === 403 || 
             error.message?.includes('authentication') || error.message?.includes('unauthorized')) {
@@ -1155,6 +2095,8 @@ class WorkflowyClient {
         available: boolean;
         responseTime?: number;
         error?: string;
+        pool: SessionPoolStats;
+        snapshots: SnapshotStats;
     }> {
         return retryManager.withRetry(async () => {
             const startTime = Date.now();
@@ -1163,12 +2105,16 @@ class WorkflowyClient {
 
             return {
                 available: true,
-                responseTime
+                responseTime,
+                pool: sessionPool.getStats(),
+                snapshots: documentSnapshots.getStats()
             };
         }, RetryPresets.QUICK).catch((error: any) => {
             return {
                 available: false,
-                error: error.message
+                error: error.message,
+                pool: sessionPool.getStats(),
+                snapshots: documentSnapshots.getStats()
             };
         });
     }
@@ -1202,9 +2148,16 @@ class WorkflowyClient {
     ): Promise<{ url: string }> {
         return retryManager.withRetry(async () => {
             const startTime = Date.now();
-            const { client } = await this.createAuthenticatedClient(username, password);
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
 
             try {
+                if (accessControl.rootId()) {
+                    const doc = await documentSnapshots.get(sessionKey, client);
+                    if (!doc.getItem(nodeId)) {
+                        throw new NotFoundError(`Node with ID ${nodeId} not found.`, nodeId);
+                    }
+                    this.assertInScope(doc, [nodeId]);
+                }
                 const url = await client.getFilePreviewUrl(userId, nodeId, maxWidth, maxHeight);
 
                 this.structuredLogger.workflowyApi('getFileUrl', Date.now() - startTime, true, {
@@ -1221,7 +2174,7 @@ class WorkflowyClient {
                     nodeId,
                     error: error.message
                 });
-                throw this.enhanceError(error, 'getFileUrl');
+                throw this.enhanceError(error, 'getFileUrl', sessionKey);
             }
         }, RetryPresets.STANDARD);
     }
@@ -1242,9 +2195,16 @@ class WorkflowyClient {
     ): Promise<{ url: string }> {
         return retryManager.withRetry(async () => {
             const startTime = Date.now();
-            const { client } = await this.createAuthenticatedClient(username, password);
+            const { client, key: sessionKey } = await this.createAuthenticatedClient(username, password);
 
             try {
+                if (accessControl.rootId()) {
+                    const doc = await documentSnapshots.get(sessionKey, client);
+                    if (!doc.getItem(nodeId)) {
+                        throw new NotFoundError(`Node with ID ${nodeId} not found.`, nodeId);
+                    }
+                    this.assertInScope(doc, [nodeId]);
+                }
                 const url = await client.getOriginalFileUrl(userId, nodeId);
 
                 this.structuredLogger.workflowyApi('getOriginalFileUrl', Date.now() - startTime, true, {
@@ -1259,11 +2219,11 @@ class WorkflowyClient {
                     nodeId,
                     error: error.message
                 });
-                throw this.enhanceError(error, 'getOriginalFileUrl');
+                throw this.enhanceError(error, 'getOriginalFileUrl', sessionKey);
             }
         }, RetryPresets.STANDARD);
     }
 }
 
-// Export a singleton instance - still a singleton but methods are stateless
+// Export a singleton instance - sessions and document snapshots are shared through their stores
 export const workflowyClient = new WorkflowyClient();
\ No newline at end of file
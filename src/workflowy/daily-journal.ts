@@ -0,0 +1,434 @@
+/**
+ * Daily journal for get_or_create_today, append_to_day and list_days
+ * Dated nodes live under a journal root, nested by the configured levels (year > month > day by
+ * default) and named with a date format per level. Dates are calendar days in the configured time
+ * zone. Existing nodes are matched by exact name or by the date their name parses to, and creation
+ * is serialized per user and journal, so repeated or concurrent calls reuse a day's node instead of
+ * adding duplicates. Within an isolate calls queue in memory; on the worker they also hold a claim
+ * in the user's shared state, so calls landing on different isolates wait for each other too
+ */
+
+import { workflowyClient } from './client.js';
+import { operationJournal } from './operation-journal.js';
+import log from '../utils/logger.js';
+import { accessControl } from '../utils/access-control.js';
+import { userStates } from '../utils/user-state.js';
+
+export type JournalLevel = 'year' | 'month' | 'day';
+
+export const JOURNAL_LEVELS: JournalLevel[] = ['year', 'month', 'day'];
+
+export interface JournalConfig {
+  rootId?: string;  // Journal root node; when unset, the top-level node named rootName
+  rootName: string;
+  hierarchy: JournalLevel[];  // Outermost first; always ends with day
+  formats: Record<JournalLevel, string>;
+  timeZone: string;  // IANA name, e.g. Europe/Berlin
+}
+
+export interface CalendarDate {
+  year: number;
+  month: number;  // 1-12
+  day: number;
+}
+
+export interface JournalNode {
+  id: string;
+  name: string;
+}
+
+export interface JournalDay extends JournalNode {
+  date: string;  // YYYY-MM-DD
+  created: boolean;
+  path: JournalNode[];  // Journal root down to the day
+}
+
+export interface JournalEntry {
+  name: string;
+  note?: string;
+}
+
+export interface JournalDaySummary extends JournalNode {
+  date: string;
+  entryCount: number;
+  entries?: Array<{ id: string; name: string; note?: string; isCompleted?: boolean }>;
+}
+
+export class JournalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JournalError';
+  }
+}
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Longest tokens first; [text] is literal
+const FORMAT_TOKENS = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|dddd|ddd|DD|D/g;
+
+const DEFAULT_CONFIG: JournalConfig = {
+  rootName: 'Journal',
+  hierarchy: ['year', 'month', 'day'],
+  formats: { year: 'YYYY', month: 'MMMM', day: 'YYYY-MM-DD ddd' },
+  timeZone: 'UTC'
+};
+
+const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export function isoDate(date: CalendarDate): string {
+  return `${pad(date.year, 4)}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+function isValidDate(date: CalendarDate): boolean {
+  const check = new Date(Date.UTC(date.year, date.month - 1, date.day));
+  return check.getUTCFullYear() === date.year && check.getUTCMonth() === date.month - 1 && check.getUTCDate() === date.day;
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+/**
+ * Name a date with a format of YYYY, YY, MMMM, MMM, MM, M, DD, D, dddd and ddd tokens; text in
+ * [brackets] is kept as is. Month and weekday names are English
+ */
+export function formatDate(date: CalendarDate, format: string): string {
+  const weekday = new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+  return format.replace(FORMAT_TOKENS, (token, literal) => {
+    switch (token) {
+      case 'YYYY': return pad(date.year, 4);
+      case 'YY': return pad(date.year % 100);
+      case 'MMMM': return MONTH_NAMES[date.month - 1];
+      case 'MMM': return MONTH_NAMES[date.month - 1].substring(0, 3);
+      case 'MM': return pad(date.month);
+      case 'M': return String(date.month);
+      case 'dddd': return WEEKDAY_NAMES[weekday];
+      case 'ddd': return WEEKDAY_NAMES[weekday].substring(0, 3);
+      case 'DD': return pad(date.day);
+      case 'D': return String(date.day);
+      default: return literal;
+    }
+  });
+}
+
+/**
+ * The date parts a node name holds under a format, or null if the name doesn't fit it.
+ * Case and surrounding whitespace are ignored; weekday names are accepted but not checked
+ */
+export function parseDate(name: string, format: string): Partial<CalendarDate> | null {
+  const fields: Array<keyof CalendarDate | 'YY' | 'MMMM' | 'MMM' | null> = [];
+  let pattern = '';
+  let last = 0;
+  for (const match of format.matchAll(FORMAT_TOKENS)) {
+    pattern += escapeRegExp(format.substring(last, match.index));
+    last = match.index! + match[0].length;
+    const token = match[0];
+    if (match[1] !== undefined) {
+      pattern += escapeRegExp(match[1]);
+      continue;
+    }
+    const group: Record<string, [string, typeof fields[number]]> = {
+      YYYY: ['(\\d{4})', 'year'], YY: ['(\\d{2})', 'YY'],
+      MMMM: [`(${MONTH_NAMES.join('|')})`, 'MMMM'], MMM: [`(${MONTH_NAMES.map(month => month.substring(0, 3)).join('|')})`, 'MMM'],
+      MM: ['(\\d{2})', 'month'], M: ['(\\d{1,2})', 'month'],
+      dddd: [`(${WEEKDAY_NAMES.join('|')})`, null], ddd: [`(${WEEKDAY_NAMES.map(day => day.substring(0, 3)).join('|')})`, null],
+      DD: ['(\\d{2})', 'day'], D: ['(\\d{1,2})', 'day']
+    };
+    pattern += group[token][0];
+    fields.push(group[token][1]);
+  }
+  pattern += escapeRegExp(format.substring(last));
+
+  const match = name.trim().match(new RegExp(`^${pattern}$`, 'i'));
+  if (!match) {
+    return null;
+  }
+
+  const parts: Partial<CalendarDate> = {};
+  fields.forEach((field, index) => {
+    const value = match[index + 1];
+    if (field === 'YY') {
+      parts.year = 2000 + parseInt(value, 10);
+    } else if (field === 'MMMM' || field === 'MMM') {
+      parts.month = MONTH_NAMES.findIndex(month => month.toLowerCase().startsWith(value.toLowerCase())) + 1;
+    } else if (field) {
+      parts[field] = parseInt(value, 10);
+    }
+  });
+  return parts;
+}
+
+export class DailyJournal {
+  private config: JournalConfig = { ...DEFAULT_CONFIG, formats: { ...DEFAULT_CONFIG.formats } };
+  // User and journal -> the last queued get-or-create, so concurrent calls wait their turn
+  private locks = new Map<string, Promise<unknown>>();
+
+  configure(config: Partial<JournalConfig>): void {
+    const next = { ...this.config, ...config, formats: { ...this.config.formats, ...config.formats } };
+    if (next.hierarchy.length === 0 || next.hierarchy[next.hierarchy.length - 1] !== 'day' ||
+        next.hierarchy.some((level, index) => !JOURNAL_LEVELS.includes(level) || next.hierarchy.indexOf(level) !== index)) {
+      throw new JournalError(`Journal hierarchy must list distinct levels of ${JOURNAL_LEVELS.join(', ')} ending with day`);
+    }
+    this.timeZoneFormatter(next.timeZone);
+    this.config = next;
+  }
+
+  /**
+   * Read JOURNAL_ROOT_ID, JOURNAL_ROOT_NAME, JOURNAL_HIERARCHY (e.g. year,month,day),
+   * JOURNAL_YEAR_FORMAT, JOURNAL_MONTH_FORMAT, JOURNAL_DAY_FORMAT and JOURNAL_TIMEZONE
+   */
+  configureFromEnv(env: Record<string, any>): void {
+    const config: Partial<JournalConfig> = {};
+
+    if (env.JOURNAL_ROOT_ID) {
+      config.rootId = env.JOURNAL_ROOT_ID;
+    }
+    if (env.JOURNAL_ROOT_NAME) {
+      config.rootName = env.JOURNAL_ROOT_NAME;
+    }
+    if (env.JOURNAL_HIERARCHY) {
+      config.hierarchy = String(env.JOURNAL_HIERARCHY).split(/[,>/]/).map(level => level.trim().toLowerCase()).filter(Boolean) as JournalLevel[];
+    }
+    const formats: Partial<Record<JournalLevel, string>> = {};
+    if (env.JOURNAL_YEAR_FORMAT) formats.year = env.JOURNAL_YEAR_FORMAT;
+    if (env.JOURNAL_MONTH_FORMAT) formats.month = env.JOURNAL_MONTH_FORMAT;
+    if (env.JOURNAL_DAY_FORMAT) formats.day = env.JOURNAL_DAY_FORMAT;
+    if (Object.keys(formats).length > 0) {
+      config.formats = formats as Record<JournalLevel, string>;
+    }
+    if (env.JOURNAL_TIMEZONE) {
+      config.timeZone = env.JOURNAL_TIMEZONE;
+    }
+
+    // A bad setting keeps the previous configuration instead of failing every request
+    try {
+      this.configure(config);
+    } catch (error: any) {
+      log.warn('Ignoring invalid journal settings', { error: error.message });
+    }
+  }
+
+  getConfig(): JournalConfig {
+    return { ...this.config, hierarchy: [...this.config.hierarchy], formats: { ...this.config.formats } };
+  }
+
+  /**
+   * The calendar date in a time zone (the configured one by default)
+   */
+  today(timeZone: string = this.config.timeZone, now: Date = new Date()): CalendarDate {
+    const parts = Object.fromEntries(this.timeZoneFormatter(timeZone).formatToParts(now).map(part => [part.type, part.value]));
+    return { year: parseInt(parts.year, 10), month: parseInt(parts.month, 10), day: parseInt(parts.day, 10) };
+  }
+
+  /**
+   * Resolve "today", "yesterday", "tomorrow" or YYYY-MM-DD; omitted means today
+   */
+  resolveDate(input: string | undefined, timeZone: string = this.config.timeZone, now: Date = new Date()): CalendarDate {
+    const value = (input ?? 'today').trim().toLowerCase();
+    const relative: Record<string, number> = { today: 0, yesterday: -1, tomorrow: 1 };
+    if (value in relative) {
+      return addDays(this.today(timeZone, now), relative[value]);
+    }
+
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    const date = match ? { year: parseInt(match[1], 10), month: parseInt(match[2], 10), day: parseInt(match[3], 10) } : null;
+    if (!date || !isValidDate(date)) {
+      throw new JournalError(`Invalid date "${input}". Use YYYY-MM-DD, today, yesterday or tomorrow.`);
+    }
+    return date;
+  }
+
+  /**
+   * Find the day's node, creating the journal root and any missing year, month or day nodes
+   */
+  async getOrCreateDay(date: CalendarDate, username?: string, password?: string): Promise<JournalDay> {
+    return this.serialize(username, async () => {
+      const root = await this.findRoot(username, password, true);
+      const path: JournalNode[] = [root];
+      let created = false;
+
+      for (const level of this.config.hierarchy) {
+        const parent = path[path.length - 1];
+        const children = await workflowyClient.getChildItems(parent.id, username, password, 0, ['id', 'name']);
+        const existing = this.findLevelNode(children, level, date);
+        if (existing) {
+          path.push(existing);
+          continue;
+        }
+
+        const name = formatDate(date, this.config.formats[level]);
+        path.push({ id: await workflowyClient.createNode(parent.id, name, undefined, username, password), name });
+        created = true;
+      }
+
+      const day = path[path.length - 1];
+      return { ...day, date: isoDate(date), created, path };
+    });
+  }
+
+  /**
+   * Add entries at the end of a day's node, creating the day first if needed. With a time prefix,
+   * each entry name starts with the current HH:mm in the journal's time zone
+   */
+  async appendToDay(
+    date: CalendarDate,
+    entries: JournalEntry[],
+    options: { timePrefix?: boolean; timeZone?: string } = {},
+    username?: string,
+    password?: string
+  ): Promise<{ day: JournalDay; entries: JournalNode[] }> {
+    if (entries.length === 0) {
+      throw new JournalError('No entries to append.');
+    }
+
+    const day = await this.getOrCreateDay(date, username, password);
+    const prefix = options.timePrefix ? `${this.currentTime(options.timeZone ?? this.config.timeZone)} ` : '';
+    const nodes = entries.map(entry => ({ name: prefix + entry.name, note: entry.note }));
+
+    if (nodes.length === 1) {
+      const id = await workflowyClient.createNode(day.id, nodes[0].name, nodes[0].note, username, password);
+      return { day, entries: [{ id, name: nodes[0].name }] };
+    }
+    const result = await workflowyClient.batchCreateNodes(day.id, nodes, username, password);
+    return { day, entries: result.nodes.map((node: any) => ({ id: node.id, name: node.name })) };
+  }
+
+  /**
+   * Day nodes in the journal, newest first, optionally limited to a date range (inclusive).
+   * Nodes whose names don't parse as dates under the configured formats are skipped
+   */
+  async listDays(
+    options: { from?: CalendarDate; to?: CalendarDate; limit?: number; includeEntries?: boolean } = {},
+    username?: string,
+    password?: string
+  ): Promise<JournalDaySummary[]> {
+    const root = await this.findRoot(username, password, false);
+    if (!root) {
+      return [];
+    }
+
+    const depth = this.config.hierarchy.length + 1;
+    const tree = await workflowyClient.getChildItems(root.id, username, password, depth, ['id', 'name', 'note', 'isCompleted']);
+    const days: JournalDaySummary[] = [];
+    const from = options.from ? isoDate(options.from) : undefined;
+    const to = options.to ? isoDate(options.to) : undefined;
+
+    const walk = (nodes: any[], levelIndex: number, context: Partial<CalendarDate>) => {
+      const level = this.config.hierarchy[levelIndex];
+      for (const node of nodes) {
+        const parsed = parseDate(node.name ?? '', this.config.formats[level]);
+        if (!parsed) {
+          continue;
+        }
+        const parts = { ...context, ...parsed };
+        if (level !== 'day') {
+          walk(node.items ?? [], levelIndex + 1, parts);
+          continue;
+        }
+
+        const date = { year: parts.year ?? NaN, month: parts.month ?? NaN, day: parts.day ?? NaN };
+        if (!isValidDate(date)) {
+          continue;
+        }
+        const iso = isoDate(date);
+        if ((from && iso < from) || (to && iso > to)) {
+          continue;
+        }
+        const entries = node.items ?? [];
+        days.push({
+          id: node.id,
+          name: node.name,
+          date: iso,
+          entryCount: entries.length,
+          ...(options.includeEntries && {
+            entries: entries.map((entry: any) => ({ id: entry.id, name: entry.name, note: entry.note || undefined, isCompleted: entry.isCompleted || undefined }))
+          })
+        });
+      }
+    };
+    walk(tree, 0, {});
+
+    days.sort((a, b) => b.date.localeCompare(a.date));
+    return days.slice(0, Math.max(1, options.limit ?? 31));
+  }
+
+  clear(): void {
+    this.locks.clear();
+  }
+
+  /**
+   * The configured root node, or the top-level node named rootName (created when asked to)
+   */
+  private async findRoot(username: string | undefined, password: string | undefined, create: true): Promise<JournalNode>;
+  private async findRoot(username: string | undefined, password: string | undefined, create: false): Promise<JournalNode | null>;
+  private async findRoot(username: string | undefined, password: string | undefined, create: boolean): Promise<JournalNode | null> {
+    if (this.config.rootId) {
+      const root = await workflowyClient.getNodeById(this.config.rootId, username, password, 0, ['id', 'name']);
+      return { id: root.id, name: root.name };
+    }
+
+    const topLevel = await workflowyClient.getRootItems(username, password, 0, ['id', 'name']);
+    const existing = topLevel.find((node: any) => node.name?.trim() === this.config.rootName);
+    if (existing) {
+      return { id: existing.id, name: existing.name };
+    }
+    if (!create) {
+      return null;
+    }
+    return { id: await workflowyClient.createNode('', this.config.rootName, undefined, username, password), name: this.config.rootName };
+  }
+
+  /**
+   * The child standing for a date at a level: same name, or a name that parses to the same
+   * date parts the level covers
+   */
+  private findLevelNode(children: any[], level: JournalLevel, date: CalendarDate): JournalNode | undefined {
+    const format = this.config.formats[level];
+    const name = formatDate(date, format);
+    const covered: Array<keyof CalendarDate> = level === 'year' ? ['year'] : level === 'month' ? ['year', 'month'] : ['year', 'month', 'day'];
+
+    const match = children.find(child => child.name?.trim() === name) ?? children.find(child => {
+      const parsed = parseDate(child.name ?? '', format);
+      return parsed && covered.every(part => parsed[part] === undefined ? part !== level : parsed[part] === date[part]);
+    });
+    return match ? { id: match.id, name: match.name } : undefined;
+  }
+
+  private async serialize<T>(username: string | undefined, operation: () => Promise<T>): Promise<T> {
+    const key = `${username ?? ''}:${accessControl.rootId() ?? ''}:${this.config.rootId ?? this.config.rootName}`;
+    const state = operationJournal.currentState();
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    const result = previous.catch(() => undefined)
+      .then(() => state ? userStates.exclusive(state, `journal:${key}`, operation) : operation());
+    this.locks.set(key, result);
+    try {
+      return await result;
+    } finally {
+      if (this.locks.get(key) === result) {
+        this.locks.delete(key);
+      }
+    }
+  }
+
+  private currentTime(timeZone: string): string {
+    try {
+      return new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hour12: false }).format(new Date());
+    } catch {
+      throw new JournalError(`Unknown time zone "${timeZone}". Use an IANA name such as Europe/Berlin.`);
+    }
+  }
+
+  private timeZoneFormatter(timeZone: string): Intl.DateTimeFormat {
+    try {
+      return new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    } catch {
+      throw new JournalError(`Unknown time zone "${timeZone}". Use an IANA name such as Europe/Berlin.`);
+    }
+  }
+}
+
+export const dailyJournal = new DailyJournal();
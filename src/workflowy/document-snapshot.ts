@@ -0,0 +1,778 @@
+/**
+ * Per-user in-memory snapshots of Workflowy documents
+ * Loads the full tree once, then keeps it current with push_and_poll deltas
+ */
+
+import type { Client, InitializationData, Operation, OperationResult, TreeData, TreeItem, TreeItemShareInfo } from 'workflowy';
+import crypto from 'crypto';
+import { invalidations, ROOT_NODE_ID } from '../utils/invalidation.js';
+
+const ROOT = 'Root';
+const SHARED_URL_PREFIX = 'https://workflowy.com/s/';
+
+export interface SnapshotConfig {
+  maxSnapshots: number;
+  pollIntervalMs: number;  // Minimum time between push_and_poll delta requests
+  maxAgeMs: number;        // Force a full reload after this long, even if deltas applied cleanly
+}
+
+export interface SnapshotStats {
+  size: number;
+  maxSnapshots: number;
+  hits: number;
+  fullLoads: number;
+  polls: number;
+  remoteOperations: number;
+  localOperations: number;
+  invalidations: number;
+  evictions: number;
+}
+
+export interface SnapshotOptions {
+  forceRefresh?: boolean; // Reload the full tree instead of polling for deltas
+}
+
+interface SnapshotItem extends Partial<TreeItem> {
+  id: string;
+  name: string;
+  parentId: string;
+  lastModified: number;
+  isMirrorRoot: boolean;
+  children: string[];
+  treeId: string;
+  [key: string]: any;
+}
+
+interface RemoteOperation {
+  type: string;
+  data: Record<string, any>;
+  client_timestamp?: number;
+}
+
+interface SnapshotEntry {
+  snapshot: DocumentSnapshot;
+  lastUsedAt: number;
+}
+
+/**
+ * List-compatible view over a snapshot item
+ * Mirrors the workflowy List API used by the client so reads and writes work unchanged
+ */
+export class SnapshotList {
+  constructor(readonly id: string, private snapshot: DocumentSnapshot) {}
+
+  private get source(): SnapshotItem {
+    const item = this.snapshot.getItem(this.id);
+    if (!item) {
+      throw new Error(`List not found in snapshot: ${this.id}`);
+    }
+    return item;
+  }
+
+  private get data(): SnapshotItem {
+    const source = this.source;
+    if (source.isMirrorRoot && source.originalId) {
+      return this.snapshot.getItem(source.originalId) ?? source;
+    }
+    if (source.shareId !== undefined) {
+      const proxyId = this.snapshot.getShareProxyId(source.shareId);
+      return (proxyId && this.snapshot.getItem(proxyId)) || source;
+    }
+    return source;
+  }
+
+  get name(): string {
+    return this.data.name;
+  }
+
+  get note(): string {
+    return this.data.note || '';
+  }
+
+  get lastModifiedAt(): Date {
+    return this.snapshot.getRealTimestamp(this.data.lastModified);
+  }
+
+  get completedAt(): Date | undefined {
+    return this.data.completed !== undefined ? this.snapshot.getRealTimestamp(this.data.completed) : undefined;
+  }
+
+  get isCompleted(): boolean {
+    return this.data.completed !== undefined;
+  }
+
+  get isMirror(): boolean {
+    return this.source.isMirrorRoot;
+  }
+
+  get originalId(): string | undefined {
+    return this.source.originalId;
+  }
+
+  // The document root has no parent, as in the workflowy library
+  get parent(): SnapshotList | undefined {
+    return this.id === ROOT ? undefined : new SnapshotList(this.source.parentId, this.snapshot);
+  }
+
+  get priority(): number {
+    return this.snapshot.getItem(this.source.parentId)?.children.indexOf(this.id) ?? 0;
+  }
+
+  get items(): SnapshotList[] {
+    return this.data.children.map(childId => new SnapshotList(childId, this.snapshot));
+  }
+
+  get itemIds(): string[] {
+    return this.data.children;
+  }
+
+  get isSharedViaUrl(): boolean {
+    return this.snapshot.getShareInfo(this.data.id)?.isSharedViaUrl ?? false;
+  }
+
+  get sharedUrl(): string | undefined {
+    const share = this.snapshot.getShareInfo(this.data.id);
+    if (!share?.isSharedViaUrl) {
+      return undefined;
+    }
+    return SHARED_URL_PREFIX + (share.urlAccessToken ?? share.shareId);
+  }
+
+  get hasFile(): boolean {
+    return this.data.file !== undefined;
+  }
+
+  get file(): any {
+    return this.data.file;
+  }
+
+  /**
+   * Create a child item; -1 appends to the end
+   */
+  createItem(priority: number = -1): SnapshotList {
+    const id = this.snapshot.applyLocal(this.data.treeId, {
+      type: 'create',
+      data: { projectid: crypto.randomUUID(), parentid: this.data.id, priority }
+    });
+    return new SnapshotList(id, this.snapshot);
+  }
+
+  setName(name: string): SnapshotList {
+    this.snapshot.applyLocal(this.data.treeId, {
+      type: 'edit',
+      data: { projectid: this.data.id, name }
+    });
+    return this;
+  }
+
+  setNote(note: string): SnapshotList {
+    this.snapshot.applyLocal(this.data.treeId, {
+      type: 'edit',
+      data: { projectid: this.data.id, description: note }
+    });
+    return this;
+  }
+
+  setCompleted(complete: boolean = true): SnapshotList {
+    if (complete !== this.isCompleted) {
+      this.snapshot.applyLocal(this.data.treeId, {
+        type: complete ? 'complete' : 'uncomplete',
+        data: { projectid: this.data.id }
+      });
+    }
+    return this;
+  }
+
+  move(target: SnapshotList, priority: number = -1): void {
+    this.snapshot.applyLocal(this.source.treeId, {
+      type: 'move',
+      data: { projectid: this.id, parentid: target.id, priority }
+    });
+  }
+
+  delete(): void {
+    this.snapshot.applyLocal(this.source.treeId, {
+      type: 'delete',
+      data: { projectid: this.id }
+    });
+  }
+
+  toJson(): any {
+    return {
+      id: this.id,
+      name: this.name,
+      note: this.note,
+      isCompleted: this.isCompleted,
+      items: this.items.map(item => item.toJson())
+    };
+  }
+}
+
+/**
+ * In-memory copy of one user's Workflowy document
+ * Local edits are applied optimistically and queued until save()
+ */
+export class DocumentSnapshot {
+  readonly root: SnapshotList;
+  readonly loadedAt = Date.now();
+  lastSyncedAt = Date.now();
+  stale = false;
+
+  private itemMap = new Map<string, SnapshotItem>();
+  private shareMap = new Map<string, TreeItemShareInfo>();
+  private shareIdMap = new Map<string, string>();
+  private pendingOperations: Record<string, Operation[]> = {};
+  private syncQueue: Promise<unknown> = Promise.resolve();
+
+  // Operation counters, read by the store for stats
+  remoteOperations = 0;
+  localOperations = 0;
+
+  constructor(
+    readonly client: Client,
+    private initializationData: InitializationData,
+    treeData: TreeData,
+    sharedTrees: Record<string, TreeData> = {}
+  ) {
+    this.itemMap.set(ROOT, { id: ROOT, name: 'Home', parentId: ROOT, lastModified: 0, isMirrorRoot: false, children: [], treeId: ROOT });
+    this.addTree(ROOT, treeData);
+    for (const [shareId, sharedTree] of Object.entries(sharedTrees)) {
+      this.addTree(shareId, sharedTree);
+    }
+    for (const [id, shareInfo] of this.shareMap) {
+      this.shareIdMap.set(shareInfo.shareId, id);
+    }
+    this.root = new SnapshotList(ROOT, this);
+  }
+
+  /**
+   * Index tree items by ID and build ordered child lists
+   */
+  private addTree(treeId: string, tree: TreeData): void {
+    const items = [...tree.items].sort((a, b) => a.priority - b.priority);
+    for (const item of items) {
+      if (treeId !== ROOT && item.parentId === ROOT) {
+        this.shareIdMap.set(treeId, item.id);
+      } else {
+        this.ensureItem(item.parentId, treeId).children.push(item.id);
+      }
+      const existing = this.ensureItem(item.id, treeId);
+      this.itemMap.set(item.id, { ...existing, ...item, children: existing.children, treeId });
+    }
+    for (const [id, shareInfo] of Object.entries(tree.shared_projects)) {
+      this.shareMap.set(id, shareInfo);
+    }
+  }
+
+  private ensureItem(id: string, treeId: string): SnapshotItem {
+    let item = this.itemMap.get(id);
+    if (!item) {
+      item = { id, name: '', parentId: ROOT, lastModified: 0, isMirrorRoot: false, children: [], treeId };
+      this.itemMap.set(id, item);
+    }
+    return item;
+  }
+
+  getItem(id: string): SnapshotItem | undefined {
+    return this.itemMap.get(id);
+  }
+
+  getShareInfo(id: string): TreeItemShareInfo | undefined {
+    return this.shareMap.get(id);
+  }
+
+  getShareProxyId(shareId: string): string | undefined {
+    return this.shareIdMap.get(shareId);
+  }
+
+  /**
+   * Look up a list by ID without walking the tree
+   */
+  getList(id: string): SnapshotList | null {
+    return this.itemMap.has(id) ? new SnapshotList(id, this) : null;
+  }
+
+  /**
+   * Whether id is ancestorId itself or one of its descendants
+   */
+  isWithin(id: string, ancestorId: string): boolean {
+    return id === ancestorId || (this.itemMap.has(id) && this.lineage(id).has(ancestorId));
+  }
+
+  get size(): number {
+    return this.itemMap.size - 1;
+  }
+
+  getRealTimestamp(timestamp: number): Date {
+    return new Date((timestamp + this.initializationData.mainProjectTreeInfo.dateJoinedTimestampInSeconds) * 1000);
+  }
+
+  private getNow(): number {
+    return Math.floor(Date.now() / 1000) - this.initializationData.mainProjectTreeInfo.dateJoinedTimestampInSeconds;
+  }
+
+  /**
+   * Apply a local edit to the snapshot and queue it for the next save
+   * @returns ID of the affected item
+   */
+  applyLocal(treeId: string, operation: RemoteOperation): string {
+    const { data } = operation;
+    if (operation.type === 'create' || operation.type === 'move') {
+      const parent = this.itemMap.get(data.parentid);
+      const siblingCount = parent ? parent.children.filter(id => id !== data.projectid).length : 0;
+      const priority = data.priority === -1 || data.priority === undefined ? siblingCount : data.priority;
+      data.priority = Math.max(0, Math.min(priority, siblingCount));
+    }
+
+    const undoData = this.getUndoData(operation);
+    const affected = this.lineage(data.projectid);
+    if (operation.type === 'move' || operation.type === 'delete') {
+      this.collectDescendants(data.projectid, affected);
+    }
+    this.applyOperation({ ...operation, client_timestamp: this.getNow() });
+    for (const id of this.lineage(data.projectid)) {
+      affected.add(id);
+    }
+    invalidations.record(affected);
+    if (!this.pendingOperations[treeId]) {
+      this.pendingOperations[treeId] = [];
+    }
+    this.pendingOperations[treeId].push({ type: operation.type, data: { ...data } as Operation['data'], undo_data: undoData });
+    this.localOperations++;
+    return data.projectid;
+  }
+
+  /**
+   * A node and its ancestors up to the root, whose subtree reads include the node
+   */
+  private lineage(id: string): Set<string> {
+    const ids = new Set<string>([id]);
+    let item = this.itemMap.get(id);
+    while (item && item.id !== ROOT) {
+      if (item.parentId === ROOT) {
+        ids.add(ROOT_NODE_ID);
+        break;
+      }
+      if (ids.has(item.parentId)) {
+        break; // Guard against cycles
+      }
+      ids.add(item.parentId);
+      item = this.itemMap.get(item.parentId);
+    }
+    return ids;
+  }
+
+  private collectDescendants(id: string, ids: Set<string>): void {
+    for (const childId of this.itemMap.get(id)?.children ?? []) {
+      ids.add(childId);
+      this.collectDescendants(childId, ids);
+    }
+  }
+
+  /**
+   * Capture the previous state Workflowy expects alongside an operation
+   */
+  private getUndoData(operation: RemoteOperation): Operation['undo_data'] {
+    const item = this.itemMap.get(operation.data.projectid);
+    if (operation.type === 'create' || !item) {
+      return {};
+    }
+
+    const undoData: Operation['undo_data'] = {
+      previous_last_modified: item.lastModified,
+      previous_last_modified_by: null
+    };
+    const parent = this.itemMap.get(item.parentId);
+    const priority = parent ? parent.children.indexOf(item.id) : 0;
+
+    switch (operation.type) {
+      case 'edit':
+        if (operation.data.name !== undefined) {
+          undoData.previous_name = item.name;
+        }
+        if (operation.data.description !== undefined) {
+          undoData.previous_description = item.note;
+        }
+        break;
+      case 'complete':
+      case 'uncomplete':
+        undoData.previous_completed = item.completed ?? false;
+        break;
+      case 'move':
+        undoData.previous_parentid = item.parentId;
+        undoData.previous_priority = priority;
+        break;
+      case 'delete':
+        undoData.parentid = item.parentId;
+        undoData.priority = priority;
+        break;
+    }
+    return undoData;
+  }
+
+  isDirty(): boolean {
+    return Object.keys(this.pendingOperations).length > 0;
+  }
+
+  /**
+   * Push queued edits and apply any concurrent remote changes
+   * Callers without pending edits wait for an in-flight save so failures are not hidden
+   */
+  async save(): Promise<void> {
+    if (!this.isDirty()) {
+      await this.syncQueue;
+      return;
+    }
+
+    const operations = this.pendingOperations;
+    this.pendingOperations = {};
+    await this.sync(operations);
+  }
+
+  /**
+   * Fetch remote changes made since the last sync
+   */
+  async poll(): Promise<void> {
+    const operations: Record<string, Operation[]> = { [ROOT]: [] };
+    for (const treeInfo of this.initializationData.auxiliaryProjectTreeInfos) {
+      operations[treeInfo.shareId] = [];
+    }
+    await this.sync(operations);
+  }
+
+  /**
+   * Run a push_and_poll request, one at a time per snapshot so transaction IDs stay ordered
+   */
+  private sync(operations: Record<string, Operation[]>): Promise<void> {
+    const run = this.syncQueue.then(async () => {
+      try {
+        const results: OperationResult = await this.client.pushAndPull(operations);
+        for (const result of results) {
+          this.applyRemoteTransactions(result.share_id, result.concurrent_remote_operation_transactions);
+        }
+        if (results.some(result => result.error_encountered_in_remote_operations)) {
+          throw new Error('Error encountered in remote WorkFlowy operations');
+        }
+        this.lastSyncedAt = Date.now();
+      } catch (error) {
+        // Optimistic edits may not match the server anymore - reload on next access
+        this.stale = true;
+        throw error;
+      }
+    });
+    this.syncQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Apply operations made by other clients, falling back to a full reload for anything unsupported
+   */
+  private applyRemoteTransactions(treeId: string, transactions: string[]): void {
+    for (const transaction of transactions) {
+      let operations: RemoteOperation[];
+      try {
+        operations = JSON.parse(transaction).ops ?? [];
+      } catch {
+        this.stale = true;
+        return;
+      }
+
+      for (const operation of operations) {
+        if (treeId !== ROOT || !this.applyOperation(operation)) {
+          this.stale = true;
+          return;
+        }
+        this.remoteOperations++;
+      }
+    }
+  }
+
+  /**
+   * Apply a single create/edit/complete/uncomplete/move/delete operation
+   * @returns false if the operation cannot be applied to this snapshot
+   */
+  private applyOperation(operation: RemoteOperation): boolean {
+    const { data } = operation;
+    const timestamp = operation.client_timestamp ?? this.getNow();
+    const parentId = !data.parentid || data.parentid === 'None' ? ROOT : data.parentid;
+    const item = this.itemMap.get(data.projectid);
+
+    switch (operation.type) {
+      case 'create': {
+        const parent = this.itemMap.get(parentId);
+        if (!parent) {
+          return false;
+        }
+        if (item) {
+          this.detach(item);
+        }
+        this.itemMap.set(data.projectid, {
+          id: data.projectid,
+          name: data.name ?? item?.name ?? '',
+          note: item?.note,
+          parentId,
+          completed: undefined,
+          lastModified: timestamp,
+          isMirrorRoot: false,
+          children: item?.children ?? [],
+          treeId: parent.treeId
+        });
+        this.insertChild(parent, data.projectid, data.priority);
+        return true;
+      }
+      case 'edit':
+        if (!item) {
+          return false;
+        }
+        if (data.name !== undefined) {
+          item.name = data.name;
+        }
+        if (data.description !== undefined) {
+          item.note = data.description;
+        }
+        item.lastModified = timestamp;
+        return true;
+      case 'complete':
+      case 'uncomplete':
+        if (!item) {
+          return false;
+        }
+        item.completed = operation.type === 'complete' ? timestamp : undefined;
+        item.lastModified = timestamp;
+        return true;
+      case 'move': {
+        const parent = this.itemMap.get(parentId);
+        if (!item || !parent) {
+          return false;
+        }
+        this.detach(item);
+        item.parentId = parentId;
+        item.lastModified = timestamp;
+        this.insertChild(parent, item.id, data.priority);
+        return true;
+      }
+      case 'delete':
+        if (item) {
+          this.detach(item);
+          this.removeSubtree(item.id);
+        }
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private detach(item: SnapshotItem): void {
+    const parent = this.itemMap.get(item.parentId);
+    if (parent) {
+      parent.children = parent.children.filter(id => id !== item.id);
+    }
+  }
+
+  private insertChild(parent: SnapshotItem, id: string, priority?: number): void {
+    const index = priority === undefined || priority < 0 ? parent.children.length : Math.min(priority, parent.children.length);
+    parent.children.splice(index, 0, id);
+  }
+
+  private removeSubtree(id: string): void {
+    const item = this.itemMap.get(id);
+    if (!item) {
+      return;
+    }
+    for (const childId of item.children) {
+      this.removeSubtree(childId);
+    }
+    this.itemMap.delete(id);
+  }
+}
+
+export class DocumentSnapshotStore {
+  private config: SnapshotConfig = {
+    maxSnapshots: 25,
+    pollIntervalMs: 2000,            // 2 seconds
+    maxAgeMs: 30 * 60 * 1000         // 30 minutes
+  };
+
+  private entries = new Map<string, SnapshotEntry>();
+  private pendingLoads = new Map<string, Promise<DocumentSnapshot>>();
+
+  private counters = {
+    hits: 0,
+    fullLoads: 0,
+    polls: 0,
+    invalidations: 0,
+    evictions: 0
+  };
+
+  // Operation counts of snapshots that are no longer held
+  private retiredOperations = { remote: 0, local: 0 };
+
+  constructor(config: Partial<SnapshotConfig> = {}) {
+    this.config = { ...this.config, ...config };
+  }
+
+  configure(config: Partial<SnapshotConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  get pollIntervalMs(): number {
+    return this.config.pollIntervalMs;
+  }
+
+  /**
+   * Get the current snapshot for a session, loading or polling for deltas as needed
+   * @param key Session pool key identifying the user
+   * @param client Authenticated client belonging to that session
+   */
+  async get(key: string, client: Client, options: SnapshotOptions = {}): Promise<DocumentSnapshot> {
+    const entry = this.entries.get(key);
+
+    if (entry && this.isReusable(entry.snapshot, client) && !options.forceRefresh) {
+      entry.lastUsedAt = Date.now();
+
+      if (Date.now() - entry.snapshot.lastSyncedAt >= this.config.pollIntervalMs) {
+        this.counters.polls++;
+        await entry.snapshot.poll();
+      } else {
+        this.counters.hits++;
+      }
+
+      // A delta that could not be applied marks the snapshot stale
+      if (!entry.snapshot.stale) {
+        return entry.snapshot;
+      }
+    }
+
+    return this.load(key, client);
+  }
+
+  /**
+   * Check whether a snapshot can still be brought up to date with deltas
+   */
+  private isReusable(snapshot: DocumentSnapshot, client: Client): boolean {
+    // A new pooled client starts from fresh transaction IDs, so deltas would be lost
+    return snapshot.client === client &&
+      !snapshot.stale &&
+      Date.now() - snapshot.loadedAt < this.config.maxAgeMs;
+  }
+
+  /**
+   * Load the full document tree, sharing one request between concurrent callers
+   */
+  private async load(key: string, client: Client): Promise<DocumentSnapshot> {
+    const pending = this.pendingLoads.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const promise = (async () => {
+      const initializationData = await client.getInitializationData();
+      const treeData = await client.getTreeData();
+      const sharedTrees: Record<string, TreeData> = {};
+      for (const treeInfo of initializationData.auxiliaryProjectTreeInfos) {
+        sharedTrees[treeInfo.shareId] = await client.getSharedTreeData(treeInfo.shareId);
+      }
+
+      this.counters.fullLoads++;
+      const snapshot = new DocumentSnapshot(client, initializationData, treeData, sharedTrees);
+      this.retire(key);
+      this.entries.set(key, { snapshot, lastUsedAt: Date.now() });
+      this.enforceMaxSnapshots();
+      return snapshot;
+    })();
+
+    this.pendingLoads.set(key, promise);
+    try {
+      return await promise;
+    } finally {
+      this.pendingLoads.delete(key);
+    }
+  }
+
+  /**
+   * Drop a user's snapshot so the next access reloads the full tree
+   */
+  invalidate(key: string): void {
+    if (this.retire(key)) {
+      this.counters.invalidations++;
+    }
+  }
+
+  /**
+   * Make the next access poll for deltas, e.g. after another isolate wrote to the same document
+   */
+  requestPoll(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.snapshot.lastSyncedAt = 0;
+    }
+  }
+
+  private retire(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return false;
+    }
+    this.retiredOperations.remote += entry.snapshot.remoteOperations;
+    this.retiredOperations.local += entry.snapshot.localOperations;
+    this.entries.delete(key);
+    return true;
+  }
+
+  /**
+   * Evict least recently used snapshots when the store is full
+   */
+  private enforceMaxSnapshots(): void {
+    while (this.entries.size > this.config.maxSnapshots) {
+      let oldestKey: string | null = null;
+      let oldestUse = Infinity;
+
+      for (const [key, entry] of this.entries.entries()) {
+        if (entry.lastUsedAt < oldestUse) {
+          oldestUse = entry.lastUsedAt;
+          oldestKey = key;
+        }
+      }
+
+      if (!oldestKey) {
+        break;
+      }
+      this.retire(oldestKey);
+      this.counters.evictions++;
+    }
+  }
+
+  /**
+   * Get snapshot metrics for health reporting
+   */
+  getStats(): SnapshotStats {
+    let remoteOperations = this.retiredOperations.remote;
+    let localOperations = this.retiredOperations.local;
+    for (const { snapshot } of this.entries.values()) {
+      remoteOperations += snapshot.remoteOperations;
+      localOperations += snapshot.localOperations;
+    }
+
+    return {
+      size: this.entries.size,
+      maxSnapshots: this.config.maxSnapshots,
+      ...this.counters,
+      remoteOperations,
+      localOperations
+    };
+  }
+
+  /**
+   * Drop all snapshots and metrics (for testing)
+   */
+  clear(): void {
+    this.entries.clear();
+    this.pendingLoads.clear();
+    this.retiredOperations = { remote: 0, local: 0 };
+    for (const counter of Object.keys(this.counters) as Array<keyof typeof this.counters>) {
+      this.counters[counter] = 0;
+    }
+  }
+}
+
+export const documentSnapshots = new DocumentSnapshotStore();
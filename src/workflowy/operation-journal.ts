@@ -0,0 +1,179 @@
+/**
+ * Per-user journal of mutating operations for undo
+ * Each entry stores the inverse operations that put the document back as it was before the call.
+ * Calls the worker runs inside run() keep the journal in the user's shared state, so an operation
+ * made in one isolate can be listed and undone from any other; elsewhere it lives in isolate memory
+ */
+
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { UserStateApi, UserStateCore, MemoryUserStateStorage, UndoClaim } from '../utils/user-state.js';
+
+export interface JournalConfig {
+  maxEntriesPerUser: number;
+  maxAgeMs: number;
+}
+
+/**
+ * Copy of a deleted subtree, enough to recreate it
+ */
+export interface NodeSnapshot {
+  name: string;
+  note: string;
+  isCompleted: boolean;
+  children: NodeSnapshot[];
+}
+
+export type InverseOperation =
+  | { type: 'delete'; id: string }
+  | { type: 'restore'; originalId: string; parentId: string; priority: number; node: NodeSnapshot }
+  | { type: 'edit'; id: string; name?: string; note?: string }
+  | { type: 'complete'; id: string; completed: boolean }
+  | { type: 'move'; id: string; parentId: string; priority: number };
+
+export interface JournalEntry {
+  id: string;
+  operation: string;
+  summary: string;
+  nodeIds: string[];
+  timestamp: number;
+  inverse: InverseOperation[];  // Applied in order on undo
+  undoneAt?: number;
+}
+
+export interface JournalStats {
+  recorded: number;
+  undone: number;
+  failed: number;  // Entries lost because the journal could not be written
+}
+
+/**
+ * Snapshot a node and its descendants from anything shaped like a SnapshotList
+ */
+export function snapshotSubtree(node: { name: string; note: string; isCompleted: boolean; items: any[] }): NodeSnapshot {
+  return {
+    name: node.name,
+    note: node.note,
+    isCompleted: node.isCompleted,
+    children: node.items.map(child => snapshotSubtree(child))
+  };
+}
+
+export class OperationJournal {
+  private states = new AsyncLocalStorage<UserStateApi>();
+  private local: UserStateApi = new UserStateCore(new MemoryUserStateStorage());
+  private recorded = 0;
+  private undone = 0;
+  private failed = 0;
+
+  private config: JournalConfig = {
+    maxEntriesPerUser: 100,
+    maxAgeMs: 24 * 60 * 60 * 1000  // 24 hours
+  };
+
+  constructor(config?: Partial<JournalConfig>) {
+    if (config) {
+      this.config = { ...this.config, ...config };
+    }
+  }
+
+  /**
+   * Run a request with the user's shared state as its journal, so every isolate sees its entries
+   */
+  run<T>(state: UserStateApi, operation: () => Promise<T>): Promise<T> {
+    return this.states.run(state, operation);
+  }
+
+  /**
+   * The shared state of the request running inside run(), if any
+   */
+  currentState(): UserStateApi | undefined {
+    return this.states.getStore();
+  }
+
+  /**
+   * Record an operation for a user; operations without an inverse are not recorded.
+   * The operation is already saved by then, so a failed journal write loses the undo, not the write
+   */
+  async record(userKey: string, operation: string, summary: string, nodeIds: string[], inverse: InverseOperation[]): Promise<JournalEntry | undefined> {
+    if (inverse.length === 0) {
+      return undefined;
+    }
+
+    const entry: JournalEntry = {
+      id: crypto.randomBytes(6).toString('hex'),
+      operation,
+      summary,
+      nodeIds,
+      timestamp: Date.now(),
+      inverse
+    };
+
+    try {
+      await this.store().recordOperation(userKey, entry, this.config.maxEntriesPerUser, this.config.maxAgeMs);
+    } catch {
+      this.failed++;
+      return undefined;
+    }
+    this.recorded++;
+    return entry;
+  }
+
+  /**
+   * Most recent operations first
+   */
+  async list(userKey: string, limit: number = 20): Promise<JournalEntry[]> {
+    return (await this.store().listOperations<JournalEntry>(userKey, this.config.maxAgeMs)).reverse().slice(0, limit);
+  }
+
+  async get(userKey: string, entryId: string): Promise<JournalEntry | undefined> {
+    return (await this.store().listOperations<JournalEntry>(userKey, this.config.maxAgeMs)).find(entry => entry.id === entryId);
+  }
+
+  /**
+   * Mark an entry undone before its inverse is applied, so neither a retry nor a concurrent
+   * undo in another isolate applies it twice
+   */
+  async claimUndo(userKey: string, entryId: string): Promise<UndoClaim<JournalEntry>> {
+    const claim = await this.store().claimUndo<JournalEntry>(userKey, entryId, this.config.maxAgeMs);
+    if (claim.status === 'claimed') {
+      this.undone++;
+    }
+    return claim;
+  }
+
+  /**
+   * Make an entry undoable again when its undo failed before anything was sent
+   */
+  async releaseUndo(userKey: string, entryId: string): Promise<void> {
+    await this.store().releaseUndo(userKey, entryId);
+    this.undone--;
+  }
+
+  /**
+   * The current request's shared state, or this isolate's memory outside run()
+   */
+  private store(): UserStateApi {
+    return this.states.getStore() ?? this.local;
+  }
+
+  getStats(): JournalStats {
+    return {
+      recorded: this.recorded,
+      undone: this.undone,
+      failed: this.failed
+    };
+  }
+
+  /**
+   * Drop the in-memory journals and counters (for testing)
+   */
+  clear(): void {
+    this.local = new UserStateCore(new MemoryUserStateStorage());
+    this.recorded = 0;
+    this.undone = 0;
+    this.failed = 0;
+  }
+}
+
+export const operationJournal = new OperationJournal();
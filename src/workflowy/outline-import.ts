@@ -0,0 +1,169 @@
+/**
+ * Outline import for import_from_file and import_outline
+ * Creates parsed Markdown, plain text or OPML outlines under a parent through batchCreateNodes
+ */
+
+import { workflowyClient, BatchNodeInput } from './client.js';
+import { OutlineFormat, OutlineNode } from '../utils/format-converters.js';
+
+export interface ImportOptions {
+  dryRun?: boolean;
+  batchSize?: number;  // Maximum nodes per batchCreateNodes call
+}
+
+export interface ImportMapping {
+  line: number;
+  id: string;
+  name: string;
+}
+
+export interface ImportReport {
+  success: boolean;
+  dryRun: boolean;
+  format: OutlineFormat;
+  parentId: string;
+  nodesParsed: number;
+  nodesCreated: number;
+  batches: number;
+  mapping: ImportMapping[];
+  preview?: string;
+  error?: string;
+}
+
+const DEFAULT_BATCH_SIZE = 200;
+
+/**
+ * Count a node and all of its descendants
+ */
+export function countOutlineNodes(nodes: OutlineNode[]): number {
+  return nodes.reduce((total, node) => total + 1 + countOutlineNodes(node.children), 0);
+}
+
+function toBatchInput(node: OutlineNode, withChildren: boolean = true): BatchNodeInput {
+  return {
+    name: node.name,
+    note: node.note,
+    isCompleted: node.isCompleted,
+    children: withChildren ? node.children.map(child => toBatchInput(child)) : undefined
+  };
+}
+
+export class OutlineImporter {
+  /**
+   * Render the outline that would be created, one node per line with its source line number
+   */
+  preview(nodes: OutlineNode[], depth: number = 0): string {
+    return nodes.map(node => {
+      const checkbox = node.isCompleted === undefined ? '' : node.isCompleted ? '[x] ' : '[ ] ';
+      const note = node.note ? ` (note: ${node.note.length > 40 ? node.note.substring(0, 40) + '...' : node.note})` : '';
+      const line = `L${node.line}`.padEnd(6);
+      return `${line}${'  '.repeat(depth)}- ${checkbox}${node.name}${note}\n${this.preview(node.children, depth + 1)}`;
+    }).join('');
+  }
+
+  /**
+   * Create the outline under parentId. Subtrees are grouped into batches of at most batchSize nodes;
+   * a subtree larger than that is split at its root so each batch stays within the limit.
+   * On failure the report lists the nodes created before the error
+   */
+  async import(
+    nodes: OutlineNode[],
+    format: OutlineFormat,
+    parentId: string,
+    options: ImportOptions = {},
+    username?: string,
+    password?: string
+  ): Promise<ImportReport> {
+    const report: ImportReport = {
+      success: true,
+      dryRun: !!options.dryRun,
+      format,
+      parentId,
+      nodesParsed: countOutlineNodes(nodes),
+      nodesCreated: 0,
+      batches: 0,
+      mapping: []
+    };
+
+    if (options.dryRun) {
+      report.preview = this.preview(nodes);
+      return report;
+    }
+
+    try {
+      await this.createLevel(parentId, nodes, Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE), report, username, password);
+    } catch (error: any) {
+      report.success = false;
+      report.error = error.message;
+    }
+    report.mapping.sort((a, b) => a.line - b.line);
+    return report;
+  }
+
+  private async createLevel(
+    parentId: string,
+    nodes: OutlineNode[],
+    batchSize: number,
+    report: ImportReport,
+    username?: string,
+    password?: string
+  ): Promise<void> {
+    let batch: OutlineNode[] = [];
+    let batchCount = 0;
+
+    const flush = async () => {
+      if (batch.length > 0) {
+        await this.createBatch(parentId, batch, true, report, username, password);
+        batch = [];
+        batchCount = 0;
+      }
+    };
+
+    for (const node of nodes) {
+      const count = 1 + countOutlineNodes(node.children);
+
+      if (count > batchSize) {
+        await flush();
+        const [created] = await this.createBatch(parentId, [node], false, report, username, password);
+        await this.createLevel(created.id, node.children, batchSize, report, username, password);
+        continue;
+      }
+
+      if (batchCount + count > batchSize) {
+        await flush();
+      }
+      batch.push(node);
+      batchCount += count;
+    }
+
+    await flush();
+  }
+
+  private async createBatch(
+    parentId: string,
+    nodes: OutlineNode[],
+    withChildren: boolean,
+    report: ImportReport,
+    username?: string,
+    password?: string
+  ): Promise<any[]> {
+    const result = await workflowyClient.batchCreateNodes(parentId, nodes.map(node => toBatchInput(node, withChildren)), username, password);
+    report.batches++;
+    report.nodesCreated += result.nodesCreated;
+    this.recordMapping(nodes, result.nodes, report.mapping);
+    return result.nodes;
+  }
+
+  private recordMapping(source: OutlineNode[], created: any[], mapping: ImportMapping[]): void {
+    source.forEach((node, index) => {
+      const createdNode = created[index];
+      if (!createdNode) return;
+      mapping.push({ line: node.line, id: createdNode.id, name: node.name });
+      if (createdNode.children) {
+        this.recordMapping(node.children, createdNode.children, mapping);
+      }
+    });
+  }
+}
+
+export const outlineImporter = new OutlineImporter();
@@ -0,0 +1,136 @@
+/**
+ * Cursor pagination for tree reads and search results
+ * Pages are filled with whole nodes until a node count or token budget is reached,
+ * so large trees are walked page by page instead of returned as one oversized response
+ */
+
+import crypto from 'crypto';
+import { tokenOptimizer } from '../utils/token-optimizer.js';
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+export const DEFAULT_PAGE_TOKENS = 20000;
+
+export interface PageOptions {
+  cursor?: string;      // nextCursor from the previous page
+  pageSize?: number;    // Maximum entries per page
+  maxTokens?: number;   // Estimated token budget per page
+}
+
+/**
+ * Position of the next page: the offset of its first entry and the ID of the last entry returned.
+ * The ID lets a tree cursor resume in the right place after nodes were added or removed before it
+ */
+export interface CursorPosition {
+  offset: number;
+  lastId?: string;
+}
+
+export interface TreePage {
+  items: any[];
+  nextCursor?: string;
+  totalNodes: number;
+  estimatedTokens: number;
+}
+
+export interface TraversalEntry<T> {
+  node: T;
+  depth: number;
+  parentId?: string;
+}
+
+/**
+ * Fingerprint tying a cursor to the request it was issued for
+ */
+function scopeFingerprint(scope: string): string {
+  return crypto.createHash('sha256').update(scope).digest('hex').substring(0, 12);
+}
+
+/**
+ * Create an opaque cursor pointing at the next page
+ * @param scope Request parameters the cursor is only valid for
+ */
+export function encodeCursor(scope: string, position: CursorPosition): string {
+  return Buffer.from(JSON.stringify({ s: scopeFingerprint(scope), o: position.offset, l: position.lastId })).toString('base64url');
+}
+
+/**
+ * Decode a cursor, returning null if it is malformed or was issued for a different request
+ */
+export function decodeCursor(cursor: string, scope: string): CursorPosition | null {
+  try {
+    const { s, o, l } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (s !== scopeFingerprint(scope) || !Number.isInteger(o) || o < 0 || (l !== undefined && typeof l !== 'string')) {
+      return null;
+    }
+    return { offset: o, lastId: l };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tracks entry count and estimated tokens while a page is filled
+ */
+export class PageBudget {
+  readonly pageSize: number;
+  readonly maxTokens: number;
+  count = 0;
+  tokens = 0;
+
+  constructor(options: PageOptions = {}, defaultPageSize: number = DEFAULT_PAGE_SIZE) {
+    this.pageSize = Math.min(Math.max(1, Math.floor(options.pageSize || defaultPageSize)), MAX_PAGE_SIZE);
+    this.maxTokens = Math.max(1, options.maxTokens || DEFAULT_PAGE_TOKENS);
+  }
+
+  /**
+   * Add an entry if it fits. The first entry always fits so every page makes progress
+   */
+  tryAdd(entry: unknown): boolean {
+    if (this.count >= this.pageSize) {
+      return false;
+    }
+    const tokens = tokenOptimizer.estimateTokens(JSON.stringify(entry));
+    if (this.count > 0 && this.tokens + tokens > this.maxTokens) {
+      return false;
+    }
+    this.count++;
+    this.tokens += tokens;
+    return true;
+  }
+}
+
+/**
+ * Flatten subtrees in document order, descending while depth is below maxDepth
+ */
+export function flattenTree<T extends { id: string; items: T[] }>(roots: T[], maxDepth: number): TraversalEntry<T>[] {
+  const entries: TraversalEntry<T>[] = [];
+  const stack: TraversalEntry<T>[] = roots.map(node => ({ node, depth: 0 })).reverse();
+
+  while (stack.length > 0) {
+    const entry = stack.pop()!;
+    entries.push(entry);
+
+    if (entry.depth < maxDepth) {
+      const children = entry.node.items;
+      for (let i = children.length - 1; i >= 0; i--) {
+        stack.push({ node: children[i], depth: entry.depth + 1, parentId: entry.node.id });
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Index a cursor resumes at: just after its last entry if that still exists, otherwise its offset
+ */
+export function resumeIndex<T extends { id: string }>(entries: TraversalEntry<T>[], position: CursorPosition): number {
+  if (position.lastId) {
+    const index = entries.findIndex(entry => entry.node.id === position.lastId);
+    if (index !== -1) {
+      return index + 1;
+    }
+  }
+  return Math.min(position.offset, entries.length);
+}
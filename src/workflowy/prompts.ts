@@ -0,0 +1,212 @@
+/**
+ * MCP prompts for common outline workflows
+ * Each prompt fetches the relevant subtree with getNodeById and embeds it as a Markdown list,
+ * with node IDs so the model can follow up with tool calls
+ */
+
+import { workflowyClient, WorkflowyError } from './client.js';
+import { workflowyResources } from './resources.js';
+import { convertToMarkdown, WorkflowyNode } from '../utils/format-converters.js';
+import { toPlainText } from '../utils/node-text.js';
+
+const PROMPT_DEPTH = 10;
+const PROMPT_FIELDS = ['id', 'name', 'note', 'isCompleted', 'completedAt'];
+const INBOX_BOOKMARK = 'inbox';
+
+export interface PromptArgumentDescriptor {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface PromptDescriptor {
+  name: string;
+  description: string;
+  arguments: PromptArgumentDescriptor[];
+}
+
+export interface PromptMessage {
+  role: 'user';
+  content: { type: 'text'; text: string };
+}
+
+export interface PromptResult {
+  description: string;
+  messages: PromptMessage[];
+}
+
+interface PromptDefinition extends PromptDescriptor {
+  render(args: Record<string, string | undefined>, username?: string, password?: string): Promise<string>;
+}
+
+const nodeArgument = (description: string, required = true): PromptArgumentDescriptor => ({ name: 'nodeId', description, required });
+
+function invalidArguments(message: string): WorkflowyError {
+  return new WorkflowyError(message, { retryable: false, code: 'INVALID_PROMPT_ARGUMENTS' });
+}
+
+function outline(node: WorkflowyNode): string {
+  return convertToMarkdown(node, 0, { style: 'bullets', includeIds: true }).trimEnd();
+}
+
+async function fetchSubtree(nodeId: string, username?: string, password?: string): Promise<WorkflowyNode> {
+  return workflowyClient.getNodeById(nodeId, username, password, PROMPT_DEPTH, PROMPT_FIELDS);
+}
+
+/**
+ * Parse a YYYY-MM-DD or ISO 8601 date argument
+ */
+export function parseSinceDate(value: string): Date {
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? `${value.trim()}T00:00:00.000Z` : value);
+  if (isNaN(date.getTime())) {
+    throw invalidArguments(`Invalid date "${value}". Use YYYY-MM-DD or an ISO 8601 timestamp.`);
+  }
+  return date;
+}
+
+/**
+ * Keep nodes completed at or after since, plus the ancestors that lead to them.
+ * Kept items are annotated with their completion date
+ */
+export function completedSince(node: WorkflowyNode, since: Date): WorkflowyNode | null {
+  const children = (node.items || node.children || [])
+    .map(child => completedSince(child, since))
+    .filter((child): child is WorkflowyNode => child !== null);
+
+  const completedAt = node.completedAt ? new Date(node.completedAt) : undefined;
+  const matches = !!node.isCompleted && !!completedAt && completedAt >= since;
+  if (!matches && children.length === 0) {
+    return null;
+  }
+
+  return {
+    ...node,
+    name: matches ? `${node.name} (completed ${completedAt!.toISOString().substring(0, 10)})` : node.name,
+    items: children,
+    children: undefined
+  };
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'weekly_review',
+    description: 'Weekly review of a project or area: what got done, what is stalled, and what to focus on next',
+    arguments: [nodeArgument('ID of the node to review')],
+    async render({ nodeId }, username, password) {
+      const node = await fetchSubtree(nodeId!, username, password);
+      return [
+        `Run a weekly review of "${toPlainText(node.name)}" from my Workflowy outline.`,
+        '',
+        outline(node),
+        '',
+        'Completed items are marked [x]. Please:',
+        '1. Summarize what was completed.',
+        '2. List open items that look stalled, unclear or too large, and suggest a concrete next step for each.',
+        '3. Propose up to five priorities for the coming week.',
+        'Refer to nodes by name and ID. Ask before changing the outline.'
+      ].join('\n');
+    }
+  },
+  {
+    name: 'completed_since',
+    description: 'Summarize the items under a node that were completed since a date',
+    arguments: [
+      nodeArgument('ID of the node whose subtree to summarize'),
+      { name: 'since', description: 'Start date, YYYY-MM-DD or ISO 8601', required: true }
+    ],
+    async render({ nodeId, since }, username, password) {
+      const sinceDate = parseSinceDate(since!);
+      const node = await fetchSubtree(nodeId!, username, password);
+      const completed = completedSince(node, sinceDate);
+      const day = sinceDate.toISOString().substring(0, 10);
+
+      if (!completed) {
+        return `Nothing under "${toPlainText(node.name)}" in my Workflowy outline was completed since ${day}. Tell me so, and suggest what to pick up next from the open items:\n\n${outline(node)}`;
+      }
+      return [
+        `Summarize what I completed under "${toPlainText(node.name)}" in Workflowy since ${day}.`,
+        '',
+        outline(completed),
+        '',
+        'These are the completed items with their completion dates, shown under their parent nodes.',
+        'Group the accomplishments by theme, keep it short enough for a status update, and call out anything notable.'
+      ].join('\n');
+    }
+  },
+  {
+    name: 'meeting_action_items',
+    description: 'Turn the meeting notes under a node into a list of action items',
+    arguments: [nodeArgument('ID of the node containing the meeting notes')],
+    async render({ nodeId }, username, password) {
+      const node = await fetchSubtree(nodeId!, username, password);
+      return [
+        `Turn these meeting notes from my Workflowy outline into action items.`,
+        '',
+        outline(node),
+        '',
+        'For each action item give a short imperative title, the owner if one is mentioned, a due date if one is mentioned, and the ID of the note it came from.',
+        'Then list open questions and decisions separately.',
+        `If I confirm, add the action items as children of "${toPlainText(node.name)}" (ID ${node.id}) with batch_create_nodes.`
+      ].join('\n');
+    }
+  },
+  {
+    name: 'triage_inbox',
+    description: `Triage an inbox node: sort each item into do, schedule, delegate, file or delete. Defaults to the "${INBOX_BOOKMARK}" bookmark`,
+    arguments: [nodeArgument(`ID of the inbox node (default: the "${INBOX_BOOKMARK}" bookmark from WORKFLOWY_BOOKMARKS)`, false)],
+    async render({ nodeId }, username, password) {
+      const inboxId = nodeId || workflowyResources.getBookmarks()[INBOX_BOOKMARK];
+      if (!inboxId) {
+        throw invalidArguments(`triage_inbox needs a nodeId, or an "${INBOX_BOOKMARK}" bookmark in WORKFLOWY_BOOKMARKS`);
+      }
+
+      const node = await fetchSubtree(inboxId, username, password);
+      const roots = await workflowyClient.getRootItems(username, password, 0, ['id', 'name']);
+      const destinations = roots
+        .filter((root: any) => root.id !== node.id)
+        .map((root: any) => `- ${toPlainText(root.name)} [id: ${root.id}]`)
+        .join('\n');
+
+      return [
+        `Help me triage my Workflowy inbox "${toPlainText(node.name)}".`,
+        '',
+        outline(node),
+        '',
+        'Top-level nodes I can file items under:',
+        destinations || '- (none)',
+        '',
+        'For each top-level inbox item, recommend one of: do now (under two minutes), schedule, delegate, file under one of the nodes above, or delete, with a one-line reason.',
+        'Present the plan as a table. After I approve it, apply it with batch_move_nodes, batch_update_nodes and delete_node.'
+      ].join('\n');
+    }
+  }
+];
+
+export class WorkflowyPrompts {
+  list(): PromptDescriptor[] {
+    return PROMPTS.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }));
+  }
+
+  async get(name: string, args: Record<string, string | undefined> = {}, username?: string, password?: string): Promise<PromptResult> {
+    const prompt = PROMPTS.find(candidate => candidate.name === name);
+    if (!prompt) {
+      throw new WorkflowyError(`Unknown prompt: ${name}. Available: ${PROMPTS.map(p => p.name).join(', ')}`, {
+        retryable: false,
+        code: 'UNKNOWN_PROMPT'
+      });
+    }
+
+    const missing = prompt.arguments.filter(arg => arg.required && !args[arg.name]);
+    if (missing.length > 0) {
+      throw invalidArguments(`Missing required argument${missing.length > 1 ? 's' : ''}: ${missing.map(arg => arg.name).join(', ')}`);
+    }
+
+    const text = await prompt.render(args, username, password);
+    return {
+      description: prompt.description,
+      messages: [{ role: 'user', content: { type: 'text', text } }]
+    };
+  }
+}
+
+export const workflowyPrompts = new WorkflowyPrompts();
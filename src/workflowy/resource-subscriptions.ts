@@ -0,0 +1,165 @@
+/**
+ * Subscriptions to workflowy:// resources
+ * Remembers the latest lastModifiedAt and the structure seen in each subscribed subtree and, when polled,
+ * notifies the subscriber of every resource that changed since. The stdio server polls in the background;
+ * the worker polls while a session's SSE stream is open
+ */
+
+import { NotFoundError, WorkflowyError } from './client.js';
+import { workflowyResources, ResourceVersion } from './resources.js';
+import { isModifiedSince } from '../utils/file-cache.js';
+import { accessControl, AccessClaims } from '../utils/access-control.js';
+
+export interface SubscriptionConfig {
+  pollIntervalMs: number;
+  maxSubscriptions: number;
+}
+
+export type ResourceUpdateListener = (uri: string) => void | Promise<void>;
+
+interface Subscription {
+  subscriberId: string;
+  uri: string;
+  version: ResourceVersion;
+  username?: string;
+  password?: string;
+  claims: AccessClaims;  // Polls run outside the subscribing request, so they reapply its claims
+  notify: ResourceUpdateListener;
+}
+
+const subscriptionKey = (subscriberId: string, uri: string) => `${subscriberId}\n${uri}`;
+
+export class ResourceSubscriptions {
+  private subscriptions = new Map<string, Subscription>();
+  private checking = new Set<string>();
+
+  private config: SubscriptionConfig = {
+    pollIntervalMs: 30 * 1000,
+    maxSubscriptions: 1000
+  };
+
+  configure(config: Partial<SubscriptionConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Read the poll interval from RESOURCE_POLL_INTERVAL_SECONDS
+   */
+  configureFromEnv(env: Record<string, any>): void {
+    const seconds = parseInt(env.RESOURCE_POLL_INTERVAL_SECONDS ?? '', 10);
+    if (seconds > 0) {
+      this.configure({ pollIntervalMs: seconds * 1000 });
+    }
+  }
+
+  get pollIntervalMs(): number {
+    return this.config.pollIntervalMs;
+  }
+
+  get size(): number {
+    return this.subscriptions.size;
+  }
+
+  /**
+   * Start watching a resource. Reads its current version as the baseline, so unknown
+   * nodes and bookmarks are rejected here rather than on the first poll
+   */
+  async subscribe(subscriberId: string, uri: string, notify: ResourceUpdateListener, username?: string, password?: string): Promise<void> {
+    const key = subscriptionKey(subscriberId, uri);
+    if (!this.subscriptions.has(key) && this.subscriptions.size >= this.config.maxSubscriptions) {
+      throw new WorkflowyError(`Too many resource subscriptions (limit ${this.config.maxSubscriptions})`, {
+        retryable: false,
+        code: 'SUBSCRIPTION_LIMIT'
+      });
+    }
+
+    const version = await workflowyResources.version(uri, username, password);
+    this.subscriptions.set(key, { subscriberId, uri, version, username, password, claims: accessControl.current(), notify });
+  }
+
+  unsubscribe(subscriberId: string, uri: string): boolean {
+    return this.subscriptions.delete(subscriptionKey(subscriberId, uri));
+  }
+
+  unsubscribeAll(subscriberId: string): number {
+    let removed = 0;
+    for (const [key, subscription] of this.subscriptions) {
+      if (subscription.subscriberId === subscriberId) {
+        this.subscriptions.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  list(subscriberId: string): string[] {
+    return [...this.subscriptions.values()]
+      .filter(subscription => subscription.subscriberId === subscriberId)
+      .map(subscription => subscription.uri);
+  }
+
+  /**
+   * Compare each subscription against the outline and notify the ones that changed.
+   * A resource that no longer exists is notified once and dropped; other errors are retried on the next poll
+   */
+  async check(subscriberId?: string): Promise<string[]> {
+    const scope = subscriberId ?? '*';
+    if (this.checking.has(scope)) {
+      return [];
+    }
+    this.checking.add(scope);
+
+    const updated: string[] = [];
+    try {
+      const due = [...this.subscriptions.entries()]
+        .filter(([, subscription]) => !subscriberId || subscription.subscriberId === subscriberId);
+
+      for (const [key, subscription] of due) {
+        try {
+          const current = await accessControl.run(subscription.claims,
+            () => workflowyResources.version(subscription.uri, subscription.username, subscription.password));
+          if (!isModifiedSince(subscription.version.lastModifiedAt, current.lastModifiedAt)
+            && current.structure === subscription.version.structure) {
+            continue;
+          }
+          subscription.version = current;
+        } catch (error) {
+          if (!(error instanceof NotFoundError)) {
+            continue;
+          }
+          this.subscriptions.delete(key);
+        }
+
+        updated.push(subscription.uri);
+        try {
+          await subscription.notify(subscription.uri);
+        } catch {
+          // A failed delivery shouldn't stop the remaining notifications
+        }
+      }
+    } finally {
+      this.checking.delete(scope);
+    }
+    return updated;
+  }
+
+  /**
+   * Check every pollIntervalMs until the returned function is called.
+   * With a subscriberId only that subscriber's resources are checked
+   */
+  poll(subscriberId?: string): () => void {
+    const timer = setInterval(() => {
+      this.check(subscriberId).catch(() => {});
+    }, this.config.pollIntervalMs);
+
+    // Don't keep the stdio process alive just for polling
+    (timer as any).unref?.();
+    return () => clearInterval(timer);
+  }
+
+  clear(): void {
+    this.subscriptions.clear();
+  }
+}
+
+export const resourceSubscriptions = new ResourceSubscriptions();
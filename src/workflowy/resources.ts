@@ -0,0 +1,191 @@
+/**
+ * MCP resources for outline branches
+ * Nodes are addressable as workflowy://node/{id} and bookmarked subtrees as workflowy://bookmark/{name};
+ * both are read as Markdown so clients can attach them as context without tool calls
+ */
+
+import crypto from 'crypto';
+import { workflowyClient, WorkflowyError, NotFoundError } from './client.js';
+import { convertToMarkdown } from '../utils/format-converters.js';
+import { toPlainText } from '../utils/node-text.js';
+
+export const NODE_URI_TEMPLATE = 'workflowy://node/{id}';
+export const BOOKMARK_URI_TEMPLATE = 'workflowy://bookmark/{name}';
+export const RESOURCE_MIME_TYPE = 'text/markdown';
+
+const RESOURCE_FIELDS = ['id', 'name', 'note', 'isCompleted'];
+const DEFAULT_READ_DEPTH = 10;
+
+export interface ResourceDescriptor {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceVersion {
+  lastModifiedAt?: string;
+  structure: string;  // Hash of each node's child IDs, since deletes and moves out leave no newer timestamp
+}
+
+export interface ResourceTemplateDescriptor {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export type ResourceAddress =
+  | { type: 'node'; id: string }
+  | { type: 'bookmark'; name: string };
+
+export function nodeUri(id: string): string {
+  return `workflowy://node/${encodeURIComponent(id)}`;
+}
+
+export function bookmarkUri(name: string): string {
+  return `workflowy://bookmark/${encodeURIComponent(name)}`;
+}
+
+/**
+ * Parse a workflowy:// URI, or return null if it is not one this server serves
+ */
+export function parseResourceUri(uri: string): ResourceAddress | null {
+  const match = uri.match(/^workflowy:\/\/(node|bookmark)\/([^/?#]+)$/);
+  if (!match) {
+    return null;
+  }
+
+  let value: string;
+  try {
+    value = decodeURIComponent(match[2]);
+  } catch {
+    return null;
+  }
+  return match[1] === 'node' ? { type: 'node', id: value } : { type: 'bookmark', name: value };
+}
+
+export class WorkflowyResources {
+  private bookmarks = new Map<string, string>();
+
+  /**
+   * Read bookmarks from WORKFLOWY_BOOKMARKS as comma-separated name=nodeId pairs
+   */
+  configureFromEnv(env: Record<string, any>): void {
+    if (!env.WORKFLOWY_BOOKMARKS) {
+      return;
+    }
+
+    const bookmarks: Record<string, string> = {};
+    for (const pair of String(env.WORKFLOWY_BOOKMARKS).split(',')) {
+      const separator = pair.indexOf('=');
+      const name = pair.substring(0, separator).trim();
+      const id = pair.substring(separator + 1).trim();
+      if (separator > 0 && name && id) {
+        bookmarks[name] = id;
+      }
+    }
+    this.setBookmarks(bookmarks);
+  }
+
+  setBookmarks(bookmarks: Record<string, string>): void {
+    this.bookmarks = new Map(Object.entries(bookmarks));
+  }
+
+  getBookmarks(): Record<string, string> {
+    return Object.fromEntries(this.bookmarks);
+  }
+
+  templates(): ResourceTemplateDescriptor[] {
+    return [
+      {
+        uriTemplate: NODE_URI_TEMPLATE,
+        name: 'Workflowy node',
+        description: 'A node and its subtree as a Markdown outline. Find IDs with search_nodes or list_nodes.',
+        mimeType: RESOURCE_MIME_TYPE
+      },
+      {
+        uriTemplate: BOOKMARK_URI_TEMPLATE,
+        name: 'Workflowy bookmark',
+        description: `A bookmarked subtree as a Markdown outline.${this.bookmarks.size > 0 ? ` Bookmarks: ${[...this.bookmarks.keys()].join(', ')}` : ''}`,
+        mimeType: RESOURCE_MIME_TYPE
+      }
+    ];
+  }
+
+  /**
+   * Bookmarks first, then the top-level nodes of the outline
+   */
+  async list(username?: string, password?: string): Promise<ResourceDescriptor[]> {
+    const bookmarks = [...this.bookmarks.entries()].map(([name, id]) => ({
+      uri: bookmarkUri(name),
+      name,
+      description: `Bookmarked subtree (node ${id})`,
+      mimeType: RESOURCE_MIME_TYPE
+    }));
+
+    const roots = await workflowyClient.getRootItems(username, password, 0, ['id', 'name']);
+    const nodes = roots.map((node: any) => ({
+      uri: nodeUri(node.id),
+      name: toPlainText(node.name) || '(untitled)',
+      mimeType: RESOURCE_MIME_TYPE
+    }));
+
+    return [...bookmarks, ...nodes];
+  }
+
+  /**
+   * Render the node or bookmark behind a URI as Markdown
+   */
+  async read(uri: string, username?: string, password?: string, maxDepth: number = DEFAULT_READ_DEPTH): Promise<ResourceContents> {
+    const node = await workflowyClient.getNodeById(this.resolveNodeId(uri), username, password, maxDepth, RESOURCE_FIELDS);
+    return { uri, mimeType: RESOURCE_MIME_TYPE, text: convertToMarkdown(node) };
+  }
+
+  /**
+   * Latest lastModifiedAt and the shape of the subtree behind a URI, over the same depth read() renders
+   */
+  async version(uri: string, username?: string, password?: string, maxDepth: number = DEFAULT_READ_DEPTH): Promise<ResourceVersion> {
+    const node = await workflowyClient.getNodeById(this.resolveNodeId(uri), username, password, maxDepth, ['id', 'lastModifiedAt']);
+
+    let latest: string | undefined;
+    const structure = crypto.createHash('sha256');
+    const visit = (item: any) => {
+      if (item.lastModifiedAt && (!latest || new Date(item.lastModifiedAt) > new Date(latest))) {
+        latest = item.lastModifiedAt;
+      }
+      const children = item.items || [];
+      structure.update(`${item.id}:${children.length}:${children.map((child: any) => child.id).join(',')}\n`);
+      children.forEach(visit);
+    };
+    visit(node);
+    return { lastModifiedAt: latest, structure: structure.digest('hex') };
+  }
+
+  private resolveNodeId(uri: string): string {
+    const address = parseResourceUri(uri);
+    if (!address) {
+      throw new WorkflowyError(`Unsupported resource URI: ${uri}. Use ${NODE_URI_TEMPLATE} or ${BOOKMARK_URI_TEMPLATE}.`, {
+        retryable: false,
+        code: 'INVALID_RESOURCE_URI'
+      });
+    }
+
+    if (address.type === 'node') {
+      return address.id;
+    }
+    const bookmarked = this.bookmarks.get(address.name);
+    if (!bookmarked) {
+      throw new NotFoundError(`Bookmark "${address.name}" not found. Configured bookmarks: ${[...this.bookmarks.keys()].join(', ') || 'none'}`);
+    }
+    return bookmarked;
+  }
+}
+
+export const workflowyResources = new WorkflowyResources();
@@ -0,0 +1,386 @@
+/**
+ * Query language for search_nodes
+ * Parses boolean queries with field scoping and filters, then matches and ranks nodes
+ *
+ * Syntax:
+ *   budget report        both terms (implicit AND)
+ *   "weekly review"      exact phrase
+ *   a OR b, NOT a, -a    boolean operators, ( ) for grouping
+ *   name:x, note:x       match only in the name or the note
+ *   #tag, @person        tag and mention filters
+ *   is:completed/is:open completion state
+ *   has:attachment       nodes with a file; has:note for nodes with a note
+ *   parent:<id>          descendants of a node
+ *   changed:>7d          changed in the last 7 days (h/d/w/mo/y units or YYYY-MM-DD; < for older)
+ */
+
+import { toPlainText, extractTags, extractMentions } from '../utils/node-text.js';
+
+export type SearchField = 'any' | 'name' | 'note';
+
+export type SearchNode =
+  | { type: 'and' | 'or'; children: SearchNode[] }
+  | { type: 'not'; child: SearchNode }
+  | { type: 'text'; field: SearchField; value: string; phrase: boolean }
+  | { type: 'tag' | 'mention'; value: string }
+  | { type: 'completed'; value: boolean }
+  | { type: 'has'; value: 'attachment' | 'note' }
+  | { type: 'parent'; id: string }
+  | { type: 'changed'; after: boolean; time: number };
+
+export interface SearchCandidate {
+  id: string;
+  name: string;
+  note: string;
+  isCompleted: boolean;
+  hasAttachment: boolean;
+  lastModifiedAt?: Date;
+  ancestorIds: string[];
+}
+
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+interface Token {
+  kind: 'word' | 'lparen' | 'rparen' | 'and' | 'or' | 'not';
+  value: string;
+  quoted: boolean;
+}
+
+interface CandidateText {
+  name: string;
+  note: string;
+  tags?: string[];
+  mentions?: string[];
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  mo: 30 * 24 * 60 * 60 * 1000,
+  y: 365 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Split a query into words, quoted phrases, parentheses and operators
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', value: char, quoted: false });
+      i++;
+    } else if (char === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      tokens.push({ kind: 'not', value: char, quoted: false });
+      i++;
+    } else {
+      // Read a word, allowing a quoted value after a field prefix (name:"two words")
+      let value = '';
+      let quoted = false;
+      while (i < query.length && !/[\s()]/.test(query[i])) {
+        if (query[i] === '"') {
+          const end = query.indexOf('"', i + 1);
+          const stop = end === -1 ? query.length : end;
+          value += query.slice(i + 1, stop);
+          quoted = true;
+          i = stop + 1;
+        } else {
+          value += query[i++];
+        }
+      }
+
+      if (!quoted && (value === 'AND' || value === 'OR' || value === 'NOT')) {
+        tokens.push({ kind: value.toLowerCase() as Token['kind'], value, quoted });
+      } else if (value) {
+        tokens.push({ kind: 'word', value, quoted });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a changed: value into a point in time
+ */
+function parseChanged(raw: string, now: number): SearchNode {
+  const match = raw.match(/^(>=?|<=?)?(.+)$/);
+  const operator = match?.[1] ?? '>';
+  const value = match?.[2] ?? '';
+  const duration = value.match(/^(\d+)(h|d|w|mo|y)$/);
+
+  let time: number;
+  if (duration) {
+    time = now - Number(duration[1]) * DURATION_UNITS[duration[2]];
+  } else if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    time = Date.parse(`${value}T00:00:00Z`);
+  } else {
+    throw new SearchQueryError(`Invalid changed: value "${raw}". Use e.g. changed:>7d, changed:<2mo or changed:>2024-01-31.`);
+  }
+
+  return { type: 'changed', after: operator.startsWith('>'), time };
+}
+
+/**
+ * Turn a single word token into a search node
+ */
+function parseAtom(token: Token, now: number): SearchNode {
+  const { value, quoted } = token;
+
+  if (quoted && !value.includes(':')) {
+    return { type: 'text', field: 'any', value: value.toLowerCase(), phrase: true };
+  }
+  if (value.length > 1 && value.startsWith('#')) {
+    return { type: 'tag', value: value.slice(1).toLowerCase() };
+  }
+  if (value.length > 1 && value.startsWith('@')) {
+    return { type: 'mention', value: value.slice(1).toLowerCase() };
+  }
+
+  const separator = value.indexOf(':');
+  const field = separator > 0 ? value.slice(0, separator).toLowerCase() : '';
+  const argument = separator > 0 ? value.slice(separator + 1) : '';
+
+  switch (field) {
+    case 'name':
+    case 'note':
+      if (!argument) {
+        throw new SearchQueryError(`Missing value after ${field}:`);
+      }
+      return { type: 'text', field, value: argument.toLowerCase(), phrase: quoted };
+    case 'is':
+      if (['completed', 'complete', 'done'].includes(argument.toLowerCase())) {
+        return { type: 'completed', value: true };
+      }
+      if (['open', 'incomplete', 'todo'].includes(argument.toLowerCase())) {
+        return { type: 'completed', value: false };
+      }
+      throw new SearchQueryError(`Unknown is: value "${argument}". Use is:completed or is:open.`);
+    case 'has':
+      if (argument.toLowerCase() === 'attachment' || argument.toLowerCase() === 'note') {
+        return { type: 'has', value: argument.toLowerCase() as 'attachment' | 'note' };
+      }
+      throw new SearchQueryError(`Unknown has: value "${argument}". Use has:attachment or has:note.`);
+    case 'parent':
+      if (!argument) {
+        throw new SearchQueryError('Missing node ID after parent:');
+      }
+      return { type: 'parent', id: argument };
+    case 'changed':
+      return parseChanged(argument, now);
+    default:
+      // Unknown prefixes (e.g. URLs or times) are plain text
+      return { type: 'text', field: 'any', value: value.toLowerCase(), phrase: quoted };
+  }
+}
+
+/**
+ * Parse a search query into a boolean expression tree
+ * An empty query matches every node
+ */
+export function parseSearchQuery(query: string, now: number = Date.now()): SearchNode {
+  const tokens = tokenize(query);
+  let position = 0;
+
+  const parseOr = (): SearchNode => {
+    const children = [parseAnd()];
+    while (tokens[position]?.kind === 'or') {
+      position++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): SearchNode => {
+    const children: SearchNode[] = [];
+    while (position < tokens.length && tokens[position].kind !== 'or' && tokens[position].kind !== 'rparen') {
+      if (tokens[position].kind === 'and') {
+        position++;
+        continue;
+      }
+      children.push(parseUnary());
+    }
+    if (children.length === 0) {
+      throw new SearchQueryError('Expected a search term');
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): SearchNode => {
+    const token = tokens[position];
+    if (!token) {
+      throw new SearchQueryError('Expected a search term after NOT');
+    }
+    if (token.kind === 'not') {
+      position++;
+      return { type: 'not', child: parseUnary() };
+    }
+    if (token.kind === 'lparen') {
+      position++;
+      const inner = parseOr();
+      if (tokens[position]?.kind !== 'rparen') {
+        throw new SearchQueryError('Missing closing parenthesis');
+      }
+      position++;
+      return inner;
+    }
+    if (token.kind !== 'word') {
+      throw new SearchQueryError(`Unexpected "${token.value}" in query`);
+    }
+    position++;
+    return parseAtom(token, now);
+  };
+
+  if (tokens.length === 0) {
+    return { type: 'and', children: [] };
+  }
+
+  const root = parseOr();
+  if (position < tokens.length) {
+    throw new SearchQueryError('Unexpected closing parenthesis');
+  }
+  return root;
+}
+
+function getText(candidate: SearchCandidate, cache: WeakMap<SearchCandidate, CandidateText>): CandidateText {
+  let text = cache.get(candidate);
+  if (!text) {
+    text = {
+      name: toPlainText(candidate.name).toLowerCase(),
+      note: toPlainText(candidate.note).toLowerCase()
+    };
+    cache.set(candidate, text);
+  }
+  return text;
+}
+
+function textMatches(node: Extract<SearchNode, { type: 'text' }>, text: CandidateText): { name: boolean; note: boolean } {
+  return {
+    name: node.field !== 'note' && text.name.includes(node.value),
+    note: node.field !== 'name' && text.note.includes(node.value)
+  };
+}
+
+function isWholeWord(haystack: string, needle: string): boolean {
+  const escaped = needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\w])${escaped}($|[^\\w])`).test(haystack);
+}
+
+/**
+ * Compiled search query that matches and scores candidates
+ */
+export class SearchQuery {
+  readonly root: SearchNode;
+  private textCache = new WeakMap<SearchCandidate, CandidateText>();
+
+  constructor(readonly query: string, now: number = Date.now()) {
+    this.root = parseSearchQuery(query, now);
+  }
+
+  /**
+   * Check whether a candidate satisfies the query
+   */
+  matches(candidate: SearchCandidate): boolean {
+    return this.evaluate(this.root, candidate);
+  }
+
+  private evaluate(node: SearchNode, candidate: SearchCandidate): boolean {
+    switch (node.type) {
+      case 'and':
+        return node.children.every(child => this.evaluate(child, candidate));
+      case 'or':
+        return node.children.some(child => this.evaluate(child, candidate));
+      case 'not':
+        return !this.evaluate(node.child, candidate);
+      case 'text': {
+        const hit = textMatches(node, getText(candidate, this.textCache));
+        return hit.name || hit.note;
+      }
+      case 'tag':
+        return this.getTags(candidate).includes(node.value);
+      case 'mention':
+        return this.getMentions(candidate).includes(node.value);
+      case 'completed':
+        return candidate.isCompleted === node.value;
+      case 'has':
+        return node.value === 'attachment' ? candidate.hasAttachment : toPlainText(candidate.note).trim().length > 0;
+      case 'parent':
+        return candidate.ancestorIds.includes(node.id);
+      case 'changed': {
+        const modified = candidate.lastModifiedAt?.getTime();
+        if (modified === undefined) {
+          return false;
+        }
+        return node.after ? modified >= node.time : modified < node.time;
+      }
+    }
+  }
+
+  private getTags(candidate: SearchCandidate): string[] {
+    const text = getText(candidate, this.textCache);
+    text.tags ??= [...new Set([...extractTags(candidate.name), ...extractTags(candidate.note)])];
+    return text.tags;
+  }
+
+  private getMentions(candidate: SearchCandidate): string[] {
+    const text = getText(candidate, this.textCache);
+    text.mentions ??= [...new Set([...extractMentions(candidate.name), ...extractMentions(candidate.note)])];
+    return text.mentions;
+  }
+
+  /**
+   * Relevance score of a matching candidate: name hits outweigh note hits,
+   * whole words and exact names rank higher, shallow nodes win ties
+   */
+  score(candidate: SearchCandidate): number {
+    const text = getText(candidate, this.textCache);
+    let score = 0;
+
+    for (const node of this.positiveTerms(this.root)) {
+      if (node.type === 'text') {
+        const hit = textMatches(node, text);
+        if (hit.name) {
+          score += 10;
+          if (isWholeWord(text.name, node.value)) score += 5;
+          if (text.name.trim() === node.value) score += 15;
+          if (text.name.startsWith(node.value)) score += 3;
+        }
+        if (hit.note) {
+          score += 3;
+          if (isWholeWord(text.note, node.value)) score += 1;
+        }
+      } else if ((node.type === 'tag' && this.getTags(candidate).includes(node.value)) ||
+                 (node.type === 'mention' && this.getMentions(candidate).includes(node.value))) {
+        score += 4;
+      }
+    }
+
+    return score - candidate.ancestorIds.length * 0.1;
+  }
+
+  /**
+   * Terms outside NOT branches, which are the ones that can contribute to relevance
+   */
+  private positiveTerms(node: SearchNode): SearchNode[] {
+    switch (node.type) {
+      case 'and':
+      case 'or':
+        return node.children.flatMap(child => this.positiveTerms(child));
+      case 'not':
+        return [];
+      default:
+        return [node];
+    }
+  }
+}
@@ -0,0 +1,316 @@
+/**
+ * Credential-keyed pool of authenticated Workflowy sessions
+ * Reuses logged-in clients and their session cookies across tool calls
+ */
+
+import type { WorkFlowy, Client } from 'workflowy';
+import crypto from 'crypto';
+
+export interface PooledSession {
+  key: string;
+  wf: WorkFlowy;
+  client: Client;
+}
+
+export interface SessionFactory {
+  create(username: string, password: string): { wf: WorkFlowy; client: Client };
+  login(client: Client): Promise<void>;
+}
+
+export interface SessionPoolConfig {
+  maxSessions: number;
+  idleTimeoutMs: number;  // Drop sessions that have not been used for this long
+  cookieTtlMs: number;    // How long a session cookie may be reused without logging in
+}
+
+export interface SessionPoolStats {
+  size: number;
+  maxSessions: number;
+  idleTimeoutMs: number;
+  hits: number;
+  misses: number;
+  logins: number;
+  cookieReuses: number;
+  rejections: number;
+  evictions: number;
+}
+
+interface PoolEntry {
+  session: PooledSession;
+  createdAt: number;
+  lastUsedAt: number;
+  useCount: number;
+}
+
+interface CookieEntry {
+  cookie: string;
+  storedAt: number;
+}
+
+export class SessionPool {
+  private config: SessionPoolConfig = {
+    maxSessions: 25,
+    idleTimeoutMs: 10 * 60 * 1000,     // 10 minutes
+    cookieTtlMs: 12 * 60 * 60 * 1000   // 12 hours
+  };
+
+  private entries = new Map<string, PoolEntry>();
+  private pendingSessions = new Map<string, Promise<PooledSession>>();
+  private cookies = new Map<string, CookieEntry>();
+  private lastCleanup = 0;
+  private readonly cleanupThreshold = 30000; // Cleanup every 30 seconds
+
+  private counters = {
+    hits: 0,
+    misses: 0,
+    logins: 0,
+    cookieReuses: 0,
+    rejections: 0,
+    evictions: 0
+  };
+
+  constructor(config: Partial<SessionPoolConfig> = {}) {
+    // No global timers - idle sessions are evicted on-demand during acquire
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Generate pool key from credentials (never stores the raw password)
+   */
+  getKey(username: string, password: string): string {
+    return crypto.createHash('sha256').update(`${username}\u0000${password}`).digest('hex');
+  }
+
+  /**
+   * Get an authenticated session for the given credentials, logging in only when needed
+   */
+  async acquire(username: string, password: string, factory: SessionFactory): Promise<PooledSession> {
+    this.cleanupIfNeeded();
+
+    const key = this.getKey(username, password);
+    const entry = this.entries.get(key);
+
+    if (entry && !this.isIdle(entry)) {
+      entry.lastUsedAt = Date.now();
+      entry.useCount++;
+      this.counters.hits++;
+      this.rememberCookie(key, entry.session.client);
+      return entry.session;
+    }
+
+    if (entry) {
+      this.evict(key);
+    }
+
+    // Concurrent callers with the same credentials share one login
+    const pending = this.pendingSessions.get(key);
+    if (pending) {
+      this.counters.hits++;
+      return pending;
+    }
+
+    this.counters.misses++;
+    const promise = this.createSession(key, username, password, factory);
+    this.pendingSessions.set(key, promise);
+
+    try {
+      return await promise;
+    } finally {
+      this.pendingSessions.delete(key);
+    }
+  }
+
+  /**
+   * Create a new session, reusing a stored session cookie when one is available
+   */
+  private async createSession(key: string, username: string, password: string, factory: SessionFactory): Promise<PooledSession> {
+    const { wf, client } = factory.create(username, password);
+    const storedCookie = this.getStoredCookie(key);
+
+    if (storedCookie) {
+      // The client logs in again by itself if Workflowy rejects the cookie
+      client.sessionHeaders.set('Cookie', storedCookie);
+      this.counters.cookieReuses++;
+    } else {
+      await factory.login(client);
+      this.counters.logins++;
+    }
+
+    const now = Date.now();
+    const session: PooledSession = { key, wf, client };
+    this.entries.set(key, {
+      session,
+      createdAt: now,
+      lastUsedAt: now,
+      useCount: 1
+    });
+    this.rememberCookie(key, client);
+    this.enforceMaxSessions();
+
+    return session;
+  }
+
+  /**
+   * Drop a session whose cookie was rejected so the next acquire logs in again
+   */
+  invalidate(key: string): void {
+    if (this.entries.has(key) || this.cookies.has(key)) {
+      this.counters.rejections++;
+    }
+    this.entries.delete(key);
+    this.cookies.delete(key);
+  }
+
+  /**
+   * Get the stored session cookie for a key, so it can be shared with other isolates
+   */
+  getCookie(key: string): { cookie: string; storedAt: number } | null {
+    const cookie = this.getStoredCookie(key);
+    return cookie ? { ...this.cookies.get(key)! } : null;
+  }
+
+  /**
+   * Use a session cookie obtained elsewhere for the next login, unless ours is at least as recent
+   */
+  adoptCookie(key: string, cookie: string, storedAt: number): void {
+    if (Date.now() - storedAt > this.config.cookieTtlMs) {
+      return;
+    }
+
+    const existing = this.cookies.get(key);
+    if (existing && existing.storedAt >= storedAt) {
+      return;
+    }
+    this.cookies.set(key, { cookie, storedAt });
+  }
+
+  /**
+   * Store the client's current session cookie for later reuse
+   */
+  private rememberCookie(key: string, client: Client): void {
+    const cookie = client.sessionHeaders?.get('Cookie');
+    if (!cookie) {
+      return;
+    }
+
+    const existing = this.cookies.get(key);
+    if (existing?.cookie === cookie) {
+      return;
+    }
+
+    this.cookies.set(key, { cookie, storedAt: Date.now() });
+  }
+
+  /**
+   * Get a stored session cookie if it has not expired
+   */
+  private getStoredCookie(key: string): string | null {
+    const stored = this.cookies.get(key);
+    if (!stored) {
+      return null;
+    }
+
+    if (Date.now() - stored.storedAt > this.config.cookieTtlMs) {
+      this.cookies.delete(key);
+      return null;
+    }
+
+    return stored.cookie;
+  }
+
+  /**
+   * Check if a pooled session has been idle for too long
+   */
+  private isIdle(entry: PoolEntry): boolean {
+    return Date.now() - entry.lastUsedAt > this.config.idleTimeoutMs;
+  }
+
+  /**
+   * Remove a session from the pool, keeping its cookie for reuse
+   */
+  private evict(key: string): void {
+    if (this.entries.delete(key)) {
+      this.counters.evictions++;
+    }
+  }
+
+  /**
+   * Evict least recently used sessions when the pool is full
+   */
+  private enforceMaxSessions(): void {
+    while (this.entries.size > this.config.maxSessions) {
+      let oldestKey: string | null = null;
+      let oldestUse = Infinity;
+
+      for (const [key, entry] of this.entries.entries()) {
+        if (entry.lastUsedAt < oldestUse) {
+          oldestUse = entry.lastUsedAt;
+          oldestKey = key;
+        }
+      }
+
+      if (!oldestKey) {
+        break;
+      }
+      this.evict(oldestKey);
+    }
+  }
+
+  /**
+   * Evict idle sessions and expired cookies
+   */
+  private cleanup(): void {
+    const now = Date.now();
+
+    for (const [key, entry] of this.entries.entries()) {
+      if (this.isIdle(entry)) {
+        this.evict(key);
+      }
+    }
+
+    for (const [key, stored] of this.cookies.entries()) {
+      if (now - stored.storedAt > this.config.cookieTtlMs) {
+        this.cookies.delete(key);
+      }
+    }
+
+    this.lastCleanup = now;
+  }
+
+  /**
+   * Perform cleanup if enough time has passed since last cleanup
+   */
+  private cleanupIfNeeded(): void {
+    const now = Date.now();
+    if (now - this.lastCleanup > this.cleanupThreshold) {
+      this.cleanup();
+    }
+  }
+
+  /**
+   * Get pool metrics for health reporting
+   */
+  getStats(): SessionPoolStats {
+    return {
+      size: this.entries.size,
+      maxSessions: this.config.maxSessions,
+      idleTimeoutMs: this.config.idleTimeoutMs,
+      ...this.counters
+    };
+  }
+
+  /**
+   * Drop all sessions, cookies and metrics (for testing)
+   */
+  clear(): void {
+    this.entries.clear();
+    this.pendingSessions.clear();
+    this.cookies.clear();
+    this.lastCleanup = 0;
+    for (const counter of Object.keys(this.counters) as Array<keyof typeof this.counters>) {
+      this.counters[counter] = 0;
+    }
+  }
+}
+
+export const sessionPool = new SessionPool();
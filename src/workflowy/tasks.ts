@@ -0,0 +1,263 @@
+/**
+ * Task views over the outline
+ * Any node can be a task. Due dates, #tags and @assignees are read from each node's name (the note
+ * when the name has no date), so tasks need no special markup. Completing tasks goes through
+ * batchUpdateNodes: one save, one undoable operation, with optional completion notes appended
+ */
+
+import { workflowyClient, NotFoundError } from './client.js';
+import { WorkflowyNode } from '../utils/format-converters.js';
+import { toPlainText, extractTags, extractMentions, extractDates } from '../utils/node-text.js';
+
+export type TaskStatus = 'open' | 'completed' | 'all';
+export type TaskGrouping = 'parent' | 'tag' | 'due';
+export type DueBucket = 'overdue' | 'today' | 'next_7_days' | 'later' | 'no_due_date' | 'completed';
+
+// Order of the groups when grouping by due date
+export const DUE_BUCKETS: DueBucket[] = ['overdue', 'today', 'next_7_days', 'later', 'no_due_date', 'completed'];
+
+const TASK_FIELDS = ['id', 'name', 'note', 'isCompleted', 'completedAt', 'lastModifiedAt'];
+const DEFAULT_DEPTH = 10;
+const DEFAULT_LIMIT = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNTAGGED = '(untagged)';
+const TOP_LEVEL = '(top level)';
+
+export interface Task {
+  id: string;
+  name: string;  // Plain text
+  isCompleted: boolean;
+  completedAt?: string;
+  parentId?: string;
+  parentName?: string;
+  due?: string;  // YYYY-MM-DD
+  dueTime?: string;  // HH:MM
+  dueBucket: DueBucket;
+  overdue: boolean;
+  tags: string[];
+  assignees: string[];
+  lastModifiedAt?: string;
+  ageDays?: number;  // Whole days since lastModifiedAt
+}
+
+export interface TaskGroup {
+  key: string;
+  name?: string;  // Parent name when grouping by parent
+  count: number;
+  tasks: Task[];
+}
+
+export interface TaskListOptions {
+  parentId?: string;
+  status?: TaskStatus;  // Default: all
+  overdue?: boolean;  // Only open tasks due before today
+  tag?: string;
+  assignee?: string;
+  groupBy?: TaskGrouping;
+  maxDepth?: number;
+  limit?: number;
+  today: string;  // YYYY-MM-DD, in the caller's time zone
+  now?: Date;
+}
+
+export interface TaskList {
+  today: string;
+  counts: { open: number; completed: number; overdue: number };  // Whole subtree, before filters
+  total: number;  // Tasks matching the filters
+  truncated?: boolean;
+  tasks?: Task[];
+  groups?: TaskGroup[];
+}
+
+export interface TaskCompletionInput {
+  id: string;
+  note?: string;
+}
+
+export interface TaskCompletion {
+  completed: Array<{ id: string; name: string }>;
+  alreadyCompleted: string[];
+  notFound: string[];
+}
+
+/**
+ * Which due bucket a task falls in, given today's date (YYYY-MM-DD strings compare in date order)
+ */
+export function dueBucket(due: string | undefined, isCompleted: boolean, today: string): DueBucket {
+  if (isCompleted) {
+    return 'completed';
+  }
+  if (!due) {
+    return 'no_due_date';
+  }
+  if (due < today) {
+    return 'overdue';
+  }
+  if (due === today) {
+    return 'today';
+  }
+  const weekAhead = new Date(Date.parse(`${today}T00:00:00Z`) + 7 * DAY_MS).toISOString().substring(0, 10);
+  return due <= weekAhead ? 'next_7_days' : 'later';
+}
+
+/**
+ * Flatten a subtree into tasks in document order, skipping nodes without a name
+ */
+export function collectTasks(nodes: WorkflowyNode[], today: string, now: Date = new Date(), parent?: WorkflowyNode): Task[] {
+  const tasks: Task[] = [];
+
+  for (const node of nodes) {
+    const name = toPlainText(node.name).trim();
+    if (name) {
+      const nameDates = extractDates(node.name);
+      const [due] = nameDates.length > 0 ? nameDates : extractDates(node.note);
+      const isCompleted = !!node.isCompleted;
+      const bucket = dueBucket(due?.date, isCompleted, today);
+      const lastModified = node.lastModifiedAt ? Date.parse(node.lastModifiedAt) : NaN;
+
+      tasks.push({
+        id: node.id,
+        name,
+        isCompleted,
+        ...(node.completedAt && { completedAt: node.completedAt }),
+        ...(parent && { parentId: parent.id, parentName: toPlainText(parent.name) }),
+        ...(due && { due: due.date }),
+        ...(due?.time && { dueTime: due.time }),
+        dueBucket: bucket,
+        overdue: bucket === 'overdue',
+        tags: [...new Set([...extractTags(node.name), ...extractTags(node.note)])],
+        assignees: [...new Set([...extractMentions(node.name), ...extractMentions(node.note)])],
+        ...(!isNaN(lastModified) && {
+          lastModifiedAt: node.lastModifiedAt,
+          ageDays: Math.max(0, Math.floor((now.getTime() - lastModified) / DAY_MS))
+        })
+      });
+    }
+    tasks.push(...collectTasks(node.items || node.children || [], today, now, node));
+  }
+
+  return tasks;
+}
+
+/**
+ * Group tasks by parent (in document order), tag (largest groups first; a task with several tags
+ * is listed under each) or due bucket (in DUE_BUCKETS order, earliest due first)
+ */
+export function groupTasks(tasks: Task[], by: TaskGrouping): TaskGroup[] {
+  const groups = new Map<string, TaskGroup>();
+  const add = (key: string, task: Task, name?: string) => {
+    if (!groups.has(key)) {
+      groups.set(key, { key, ...(name !== undefined && { name }), count: 0, tasks: [] });
+    }
+    const group = groups.get(key)!;
+    group.tasks.push(task);
+    group.count++;
+  };
+
+  for (const task of tasks) {
+    if (by === 'parent') {
+      add(task.parentId ?? TOP_LEVEL, task, task.parentName ?? TOP_LEVEL);
+    } else if (by === 'tag') {
+      (task.tags.length > 0 ? task.tags.map(tag => `#${tag}`) : [UNTAGGED]).forEach(key => add(key, task));
+    } else {
+      add(task.dueBucket, task);
+    }
+  }
+
+  if (by === 'tag') {
+    return [...groups.values()].sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+  }
+  if (by === 'due') {
+    const byDue = (a: Task, b: Task) => (a.due ?? '9999').localeCompare(b.due ?? '9999') || (a.dueTime ?? '').localeCompare(b.dueTime ?? '');
+    return DUE_BUCKETS.filter(bucket => groups.has(bucket)).map(bucket => {
+      const group = groups.get(bucket)!;
+      return { ...group, tasks: [...group.tasks].sort(byDue) };
+    });
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Append a completion line to a node's note
+ */
+export function formatCompletionNote(note: string | undefined, text: string, date: string): string {
+  const line = `Completed ${date}: ${text}`;
+  return note ? `${note}\n${line}` : line;
+}
+
+export class WorkflowyTasks {
+  /**
+   * Tasks under a node (or the whole outline), filtered and optionally grouped
+   */
+  async list(options: TaskListOptions, username?: string, password?: string): Promise<TaskList> {
+    const { parentId, status = 'all', overdue, groupBy, today, now = new Date() } = options;
+    const maxDepth = Math.max(1, options.maxDepth ?? DEFAULT_DEPTH);
+    const limit = options.limit ?? DEFAULT_LIMIT;
+
+    let all: Task[];
+    if (parentId) {
+      const parent = await workflowyClient.getNodeById(parentId, username, password, maxDepth, TASK_FIELDS);
+      all = collectTasks(parent.items || [], today, now, parent);
+    } else {
+      all = collectTasks(await workflowyClient.getRootItems(username, password, maxDepth - 1, TASK_FIELDS), today, now);
+    }
+
+    const tag = options.tag?.replace(/^#/, '').toLowerCase();
+    const assignee = options.assignee?.replace(/^@/, '').toLowerCase();
+    const matching = all.filter(task =>
+      (status === 'all' || task.isCompleted === (status === 'completed')) &&
+      (!overdue || task.overdue) &&
+      (!tag || task.tags.includes(tag)) &&
+      (!assignee || task.assignees.includes(assignee)));
+    const tasks = matching.slice(0, limit);
+
+    return {
+      today,
+      counts: {
+        open: all.filter(task => !task.isCompleted).length,
+        completed: all.filter(task => task.isCompleted).length,
+        overdue: all.filter(task => task.overdue).length
+      },
+      total: matching.length,
+      ...(matching.length > tasks.length && { truncated: true }),
+      ...(groupBy ? { groups: groupTasks(tasks, groupBy) } : { tasks })
+    };
+  }
+
+  /**
+   * Complete tasks in one save. Each task's note, or the shared note, is appended to the node's
+   * note as "Completed <date>: <note>". Tasks that are already complete are left as they are
+   */
+  async complete(items: TaskCompletionInput[], options: { note?: string; date: string }, username?: string, password?: string): Promise<TaskCompletion> {
+    const result: TaskCompletion = { completed: [], alreadyCompleted: [], notFound: [] };
+    const updates: Array<{ id: string; note?: string; isCompleted: boolean }> = [];
+
+    for (const item of items) {
+      let node: WorkflowyNode;
+      try {
+        node = await workflowyClient.getNodeById(item.id, username, password, 0, ['id', 'name', 'note', 'isCompleted']);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          result.notFound.push(item.id);
+          continue;
+        }
+        throw error;
+      }
+
+      if (node.isCompleted) {
+        result.alreadyCompleted.push(item.id);
+        continue;
+      }
+      const text = item.note ?? options.note;
+      updates.push({ id: item.id, isCompleted: true, ...(text && { note: formatCompletionNote(node.note, text, options.date) }) });
+      result.completed.push({ id: item.id, name: toPlainText(node.name) });
+    }
+
+    if (updates.length > 0) {
+      await workflowyClient.batchUpdateNodes(updates, username, password);
+    }
+    return result;
+  }
+}
+
+export const workflowyTasks = new WorkflowyTasks();
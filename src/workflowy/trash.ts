@@ -0,0 +1,117 @@
+/**
+ * Soft-delete settings and trash markers for deleteNode and batchDeleteNodes
+ * In soft-delete mode deleted nodes are moved under a top-level trash node. The first line of each
+ * trashed node's note records when and by which tool it was deleted, where it came from and, for
+ * subtree-restricted tokens, the subtree it was deleted from
+ */
+
+export interface TrashConfig {
+  enabled: boolean;
+  nodeName: string;
+  retentionDays: number;  // 0 keeps trashed nodes until empty_trash
+}
+
+export interface TrashMarker {
+  deletedAt: Date;
+  tool: string;
+  parentId: string;
+  priority: number;
+  scope?: string;  // Root of the subtree the deleting token was restricted to
+}
+
+const MARKER_PATTERN = /^\[mcp-trash\] deletedAt=(\S+) tool=(\S+) parent=(\S+) priority=(\d+)(?: scope=(\S+))?$/;
+
+/**
+ * Prepend the trash marker line to a node's note
+ */
+export function formatTrashNote(marker: TrashMarker, note: string): string {
+  const scope = marker.scope ? ` scope=${marker.scope}` : '';
+  const line = `[mcp-trash] deletedAt=${marker.deletedAt.toISOString()} tool=${marker.tool} parent=${marker.parentId} priority=${marker.priority}${scope}`;
+  return note ? `${line}\n${note}` : line;
+}
+
+/**
+ * Split a trashed node's note into its marker and the original note.
+ * Notes without a valid marker line are returned unchanged
+ */
+export function parseTrashNote(note: string): { marker?: TrashMarker; note: string } {
+  const newline = note.indexOf('\n');
+  const firstLine = newline === -1 ? note : note.substring(0, newline);
+  const match = firstLine.match(MARKER_PATTERN);
+  const deletedAt = match ? new Date(match[1]) : undefined;
+
+  if (!match || isNaN(deletedAt!.getTime())) {
+    return { note };
+  }
+
+  return {
+    marker: {
+      deletedAt: deletedAt!,
+      tool: match[2],
+      parentId: match[3],
+      priority: parseInt(match[4], 10),
+      ...(match[5] && { scope: match[5] })
+    },
+    note: newline === -1 ? '' : note.substring(newline + 1)
+  };
+}
+
+export class TrashSettings {
+  private config: TrashConfig = {
+    enabled: false,
+    nodeName: 'MCP Trash',
+    retentionDays: 30
+  };
+
+  constructor(config?: Partial<TrashConfig>) {
+    if (config) {
+      this.configure(config);
+    }
+  }
+
+  configure(config: Partial<TrashConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Read SOFT_DELETE, TRASH_NODE_NAME and TRASH_RETENTION_DAYS from process.env or worker bindings
+   */
+  configureFromEnv(env: Record<string, any>): void {
+    const config: Partial<TrashConfig> = {};
+
+    if (env.SOFT_DELETE !== undefined) {
+      config.enabled = String(env.SOFT_DELETE).toLowerCase() === 'true';
+    }
+    if (env.TRASH_NODE_NAME) {
+      config.nodeName = env.TRASH_NODE_NAME;
+    }
+    const retentionDays = parseInt(env.TRASH_RETENTION_DAYS, 10);
+    if (!isNaN(retentionDays) && retentionDays >= 0) {
+      config.retentionDays = retentionDays;
+    }
+
+    this.configure(config);
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  get nodeName(): string {
+    return this.config.nodeName;
+  }
+
+  get retentionDays(): number {
+    return this.config.retentionDays;
+  }
+
+  /**
+   * Whether a trashed node is past the retention period
+   */
+  isExpired(marker: TrashMarker, now: number = Date.now()): boolean {
+    return this.config.retentionDays > 0 &&
+      now - marker.deletedAt.getTime() >= this.config.retentionDays * 24 * 60 * 60 * 1000;
+  }
+}
+
+export const trashSettings = new TrashSettings();